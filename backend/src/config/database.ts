@@ -17,6 +17,10 @@
 
 import mongoose from 'mongoose';
 
+// Operations inside connection.transaction() automatically use the
+// transaction's session (no need to pass { session } to every query)
+mongoose.set('transactionAsyncLocalStorage', true);
+
 /**
  * Connect to MongoDB database
  * 
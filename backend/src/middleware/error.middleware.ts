@@ -16,6 +16,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import { Error as MongooseError } from 'mongoose';
+import { AppError } from '../utils/errors';
 
 /**
  * Error Handler Middleware
@@ -26,6 +27,7 @@ import { Error as MongooseError } from 'mongoose';
  * @param next - Express next function
  * 
  * Handles different error types:
+ * - AppError: Structured errors (status and code set by the service)
  * - ZodError: Validation errors (400 Bad Request)
  * - MongooseError: Database errors (400/500)
  * - Custom errors: Application errors (varies)
@@ -44,6 +46,16 @@ export const errorHandler = (
         console.error('Stack:', err.stack || 'No stack trace');
     }
 
+    // Structured application errors (explicit status + code)
+    if (err instanceof AppError) {
+        res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+            ...(err.details !== undefined && { details: err.details }),
+        });
+        return;
+    }
+
     // Zod validation errors
     if (err instanceof ZodError) {
         res.status(400).json({
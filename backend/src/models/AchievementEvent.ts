@@ -0,0 +1,87 @@
+/**
+ * AchievementEvent Model
+ *
+ * Achievement notifications (badge awards, level-ups, streak milestones,
+ * completed daily challenges) pushed to the user's sockets. Kept for a week
+ * so a client that was offline or reconnecting can replay what it missed.
+ *
+ * The record is written in the same transaction as the award it announces:
+ * if the award rolls back, nothing is pushed.
+ *
+ * Relationships:
+ * - Belongs to User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { AchievementEventType, BadgeTier } from '../types/gamification.types';
+
+export interface IAchievementEvent extends Document {
+    userId: string;
+    type: AchievementEventType;
+    title: string;
+    description: string;
+    points: number;
+    iconUrl?: string;
+    rarity: string;
+    tier?: BadgeTier;
+    createdAt: Date;
+}
+
+/**
+ * AchievementEvent Schema
+ *
+ * Fields:
+ * - title / description / points / iconUrl / rarity: What the notification shows
+ * - tier: Tier reached (tiered badges)
+ *
+ * Indexes:
+ * - userId + _id: Replay in order after the last event a client saw
+ * - createdAt (TTL): Events expire after 7 days
+ */
+const AchievementEventSchema = new Schema<IAchievementEvent>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        type: {
+            type: String,
+            enum: ['badge_awarded', 'level_up', 'streak_milestone', 'challenge_completed'],
+            required: [true, 'Event type is required'],
+        },
+        title: {
+            type: String,
+            required: [true, 'Title is required'],
+        },
+        description: {
+            type: String,
+            default: '',
+        },
+        points: {
+            type: Number,
+            default: 0,
+        },
+        iconUrl: {
+            type: String,
+        },
+        rarity: {
+            type: String,
+            enum: ['common', 'rare', 'epic', 'legendary'],
+            default: 'common',
+        },
+        tier: {
+            type: String,
+            enum: ['bronze', 'silver', 'gold', 'platinum'],
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+AchievementEventSchema.index({ userId: 1, _id: 1 });
+AchievementEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const AchievementEvent = mongoose.model<IAchievementEvent>('AchievementEvent', AchievementEventSchema);
@@ -0,0 +1,60 @@
+/**
+ * Activity Model
+ *
+ * What a user did, as their followers and friends see it in the activity
+ * feed (solved questions, badges). Recorded for everyone; who may see it is
+ * decided when the feed is read, from the user's current privacy settings.
+ *
+ * Relationships:
+ * - Belongs to User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { ActivityType, ACTIVITY_TYPES } from '../types/social.types';
+
+export interface IActivity extends Document {
+    userId: string;
+    type: ActivityType;
+    title: string;
+    description: string;
+    createdAt: Date;
+}
+
+/**
+ * Activity Schema
+ *
+ * Indexes:
+ * - userId + createdAt: Feed of a set of users, newest first
+ * - createdAt (TTL): Activity expires after 90 days
+ */
+const ActivitySchema = new Schema<IActivity>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        type: {
+            type: String,
+            enum: ACTIVITY_TYPES,
+            required: [true, 'Activity type is required'],
+        },
+        title: {
+            type: String,
+            required: [true, 'Title is required'],
+        },
+        description: {
+            type: String,
+            default: '',
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+ActivitySchema.index({ userId: 1, createdAt: -1 });
+ActivitySchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const Activity = mongoose.model<IActivity>('Activity', ActivitySchema);
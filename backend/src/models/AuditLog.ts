@@ -55,6 +55,7 @@ const auditLogSchema = new Schema<IAuditLog>(
                 'Topic',
                 'Badge',
                 'Challenge',
+                'Question',
                 'Admin',
                 'System',
             ],
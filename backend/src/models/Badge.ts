@@ -3,6 +3,10 @@
  * 
  * Stores badge definitions (templates) for the gamification system.
  * These are the available badges that users can earn.
+ * Admins author them through /api/admin/badges; no code change needed.
+ * 
+ * A badge is plain (criteria), tiered (tiers, bronze → platinum) or
+ * repeatable (criteria, earned again each time they're met anew).
  */
 
 import mongoose, { Schema } from 'mongoose';
@@ -31,20 +35,41 @@ const BadgeSchema = new Schema<IBadge>({
         required: [true, 'Badge category is required'],
         enum: ['consistency', 'milestone', 'mastery', 'special'],
     },
+    // JSON rule (see BadgeCriteria in types/gamification.types.ts),
+    // validated by badgeCriteriaSchema before it gets here
     criteria: {
-        type: {
-            type: String,
-            required: [true, 'Criteria type is required'],
-            enum: ['solve_count', 'streak_days', 'topic_mastery', 'time_based', 'accuracy'],
-        },
-        value: {
-            type: Number,
-            required: [true, 'Criteria value is required'],
-            min: [1, 'Criteria value must be at least 1'],
-        },
-        topicId: {
-            type: String,
-        },
+        type: Schema.Types.Mixed,
+        required: [
+            function (this: IBadge) {
+                return !this.tiers?.length;
+            },
+            'Badge criteria is required',
+        ],
+    },
+    // Lowest tier first; replaces criteria and points
+    tiers: {
+        type: [{
+            _id: false,
+            tier: {
+                type: String,
+                required: [true, 'Tier is required'],
+                enum: ['bronze', 'silver', 'gold', 'platinum'],
+            },
+            criteria: {
+                type: Schema.Types.Mixed,
+                required: [true, 'Tier criteria is required'],
+            },
+            points: {
+                type: Number,
+                required: [true, 'Tier points are required'],
+                min: [0, 'Points cannot be negative'],
+            },
+        }],
+        default: undefined,
+    },
+    repeatable: {
+        type: Boolean,
+        default: false,
     },
     iconUrl: {
         type: String,
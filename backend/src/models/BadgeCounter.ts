@@ -0,0 +1,72 @@
+/**
+ * BadgeCounter Model
+ *
+ * Running attempt/solve counters per user, so badge rules like "solve 100
+ * Hard questions" or "90% accuracy in Graphs" are answered without scanning
+ * the user's practice logs on every new log.
+ *
+ * Kept up to date by the PracticeLogged pipeline (one $inc per log) and
+ * rebuilt from PracticeLog whenever logs are edited, deleted or imported.
+ *
+ * Relationships:
+ * - Belongs to User (one document per user)
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface CounterValue {
+    attempted: number;
+    solved: number;
+}
+
+/**
+ * Counter buckets, keyed by scope:
+ * - "all": every log
+ * - "d:<difficulty>": per difficulty (e.g., "d:Hard")
+ * - "t:<topicId>": per topic
+ * - "t:<topicId>:<difficulty>": per topic and difficulty
+ */
+export type BadgeCounts = Record<string, CounterValue>;
+
+export interface IBadgeCounter extends Document {
+    userId: string;
+    counts: BadgeCounts;
+    rebuiltAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * BadgeCounter Schema
+ *
+ * Fields:
+ * - counts: Counter buckets (see BadgeCounts)
+ * - rebuiltAt: Last full recount from PracticeLog
+ *
+ * Indexes:
+ * - userId (unique): One counter document per user
+ */
+const BadgeCounterSchema = new Schema<IBadgeCounter>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+            unique: true,
+        },
+        counts: {
+            type: Schema.Types.Mixed,
+            default: {},
+        },
+        rebuiltAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        timestamps: { createdAt: false, updatedAt: true },
+        versionKey: false,
+        minimize: false,
+    }
+);
+
+export const BadgeCounter = mongoose.model<IBadgeCounter>('BadgeCounter', BadgeCounterSchema);
@@ -0,0 +1,134 @@
+/**
+ * EconomyConfig Model
+ *
+ * The points and leveling economy, edited by admins through
+ * /api/admin/economy. A single document (key "default"); the defaults
+ * below are used until an admin saves a change.
+ *
+ * levelCurveVersion goes up whenever the level curve changes;
+ * levelMigration tracks the job that recomputes every user's level
+ * for that version (see economy.service.ts). The default curve is the
+ * original 100 points per level, already migrated: levels only move when
+ * an admin changes the curve.
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface LevelTitle {
+    level: number; // First level the title applies to
+    title: string;
+}
+
+export interface IEconomyConfig extends Document {
+    key: string;
+    practicePoints: {
+        Easy: number;
+        Medium: number;
+        Hard: number;
+    };
+    firstSolveBonus: number;
+    repeatSolveMultipliers: number[];
+    challengeRewardPoints: number;
+    levelCurve: {
+        basePoints: number;
+        exponent: number;
+    };
+    levelTitles: LevelTitle[];
+    levelCurveVersion: number;
+    levelMigration: {
+        migratedVersion: number; // Last curve version every user's level was recomputed for
+        lastUserId: string | null; // Checkpoint: users up to this _id are done
+        usersUpdated: number;
+        startedAt?: Date;
+        finishedAt?: Date;
+        lockedUntil: Date | null; // Lease held by the instance running the migration
+        error?: string;
+    };
+    updatedBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * EconomyConfig Schema
+ *
+ * Fields:
+ * - practicePoints: Points for a solved question, by difficulty
+ * - firstSolveBonus: Extra points the first time a user solves a question
+ * - repeatSolveMultipliers: Share of the points for re-solving the same
+ *   question (2nd solve, 3rd solve, ...; the last entry applies from then on)
+ * - challengeRewardPoints: Reward for completing a daily challenge
+ *   (copied onto each challenge when it's generated)
+ * - levelCurve: Points needed for level L = basePoints * (L - 1) ^ exponent
+ * - levelTitles: Named titles, from the level they start at
+ */
+const EconomyConfigSchema = new Schema<IEconomyConfig>(
+    {
+        key: {
+            type: String,
+            default: 'default',
+            unique: true,
+        },
+        practicePoints: {
+            Easy: { type: Number, default: 10, min: 0 },
+            Medium: { type: Number, default: 20, min: 0 },
+            Hard: { type: Number, default: 30, min: 0 },
+        },
+        firstSolveBonus: {
+            type: Number,
+            default: 5,
+            min: 0,
+        },
+        repeatSolveMultipliers: {
+            type: [Number],
+            default: [0.5, 0.25, 0],
+        },
+        challengeRewardPoints: {
+            type: Number,
+            default: 50,
+            min: 0,
+        },
+        levelCurve: {
+            basePoints: { type: Number, default: 100, min: 1 },
+            exponent: { type: Number, default: 1, min: 1 },
+        },
+        levelTitles: {
+            type: [{
+                _id: false,
+                level: { type: Number, required: true, min: 1 },
+                title: { type: String, required: true, trim: true },
+            }],
+            default: [
+                { level: 1, title: 'Novice' },
+                { level: 5, title: 'Apprentice' },
+                { level: 10, title: 'Problem Solver' },
+                { level: 20, title: 'Specialist' },
+                { level: 35, title: 'Expert' },
+                { level: 50, title: 'Grandmaster' },
+            ],
+        },
+        levelCurveVersion: {
+            type: Number,
+            default: 1,
+        },
+        levelMigration: {
+            migratedVersion: { type: Number, default: 1 },
+            lastUserId: { type: String, default: null },
+            usersUpdated: { type: Number, default: 0 },
+            startedAt: { type: Date },
+            finishedAt: { type: Date },
+            lockedUntil: { type: Date, default: null },
+            error: { type: String },
+        },
+        updatedBy: {
+            type: String,
+            ref: 'Admin',
+        },
+    },
+    {
+        timestamps: true,
+        versionKey: false,
+    }
+);
+
+export const EconomyConfig = mongoose.model<IEconomyConfig>('EconomyConfig', EconomyConfigSchema);
@@ -0,0 +1,49 @@
+/**
+ * Follow Model
+ *
+ * One-way follows: the follower sees the followee's activity in their feed
+ * (if the followee's privacy settings allow it). Friendships are separate
+ * and mutual (see Friendship).
+ *
+ * Relationships:
+ * - followerId / followeeId: both User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFollow extends Document {
+    followerId: string;
+    followeeId: string;
+    createdAt: Date;
+}
+
+/**
+ * Follow Schema
+ *
+ * Indexes:
+ * - followerId + followeeId (unique): One follow per pair, "who I follow"
+ * - followeeId + createdAt: A user's followers, newest first
+ */
+const FollowSchema = new Schema<IFollow>(
+    {
+        followerId: {
+            type: String,
+            required: [true, 'Follower ID is required'],
+            ref: 'User',
+        },
+        followeeId: {
+            type: String,
+            required: [true, 'Followee ID is required'],
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+FollowSchema.index({ followerId: 1, followeeId: 1 }, { unique: true });
+FollowSchema.index({ followeeId: 1, createdAt: -1 });
+
+export const Follow = mongoose.model<IFollow>('Follow', FollowSchema);
@@ -0,0 +1,71 @@
+/**
+ * Friendship Model
+ *
+ * Mutual friendships, made by a request the recipient accepts. A pending
+ * request and the friendship it becomes are the same document; declining,
+ * cancelling or unfriending deletes it.
+ *
+ * Relationships:
+ * - requesterId / recipientId: both User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { FriendshipStatus, FRIENDSHIP_STATUSES } from '../types/social.types';
+
+export interface IFriendship extends Document {
+    requesterId: string;
+    recipientId: string;
+    pairKey: string;
+    status: FriendshipStatus;
+    acceptedAt?: Date;
+    createdAt: Date;
+}
+
+/**
+ * Friendship Schema
+ *
+ * Fields:
+ * - pairKey: Both user IDs, sorted and joined ("a:b"), so a pair has one
+ *   document whoever asked first
+ * - acceptedAt: When the request was accepted (friends since)
+ *
+ * Indexes:
+ * - pairKey (unique): One request / friendship per pair
+ * - requesterId + status, recipientId + status: A user's friends and requests
+ */
+const FriendshipSchema = new Schema<IFriendship>(
+    {
+        requesterId: {
+            type: String,
+            required: [true, 'Requester ID is required'],
+            ref: 'User',
+        },
+        recipientId: {
+            type: String,
+            required: [true, 'Recipient ID is required'],
+            ref: 'User',
+        },
+        pairKey: {
+            type: String,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: FRIENDSHIP_STATUSES,
+            default: 'pending',
+        },
+        acceptedAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+FriendshipSchema.index({ pairKey: 1 }, { unique: true });
+FriendshipSchema.index({ requesterId: 1, status: 1 });
+FriendshipSchema.index({ recipientId: 1, status: 1 });
+
+export const Friendship = mongoose.model<IFriendship>('Friendship', FriendshipSchema);
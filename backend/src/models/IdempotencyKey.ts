@@ -0,0 +1,76 @@
+/**
+ * IdempotencyKey Model
+ *
+ * Remembers the response of a write request sent with an Idempotency-Key
+ * header, so a client retry (flaky network, double click) replays the
+ * original response instead of awarding points twice.
+ *
+ * The record is written in the same transaction as the request's writes:
+ * if the request rolls back, so does the key.
+ *
+ * Relationships:
+ * - Belongs to User (keys are scoped per user and per endpoint)
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+    userId: string;
+    scope: string;
+    key: string;
+    requestHash: string;
+    statusCode: number;
+    response: unknown;
+    createdAt: Date;
+}
+
+/**
+ * IdempotencyKey Schema
+ *
+ * Fields:
+ * - scope: Endpoint the key was used on (e.g., "practice.log")
+ * - key: Client-generated Idempotency-Key header value
+ * - requestHash: SHA-256 of the request body (same key + different body = error)
+ * - statusCode / response: What to replay
+ *
+ * Indexes:
+ * - userId + scope + key (unique): One response per key
+ * - createdAt (TTL): Keys expire after 24 hours
+ */
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        scope: {
+            type: String,
+            required: [true, 'Scope is required'],
+        },
+        key: {
+            type: String,
+            required: [true, 'Key is required'],
+        },
+        requestHash: {
+            type: String,
+            required: [true, 'Request hash is required'],
+        },
+        statusCode: {
+            type: Number,
+            required: [true, 'Status code is required'],
+        },
+        response: {
+            type: Schema.Types.Mixed,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+IdempotencyKeySchema.index({ userId: 1, scope: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
@@ -1,8 +1,10 @@
 /**
  * Leaderboard Model
  * 
- * Cached leaderboard rankings for performance.
- * Updated periodically via cron job.
+ * Snapshots of leaderboard rankings (history).
+ * Live rankings are Redis sorted sets (see leaderboard.service.ts);
+ * a cron job copies the top of every board here hourly (capped, so a
+ * snapshot stays far below MongoDB's 16MB document limit).
  */
 
 import mongoose, { Schema } from 'mongoose';
@@ -51,6 +53,12 @@ const LeaderboardSchema = new Schema<ILeaderboard>({
             type: Number,
             default: 0,
         },
+        badgeTiers: {
+            bronze: { type: Number, default: 0 },
+            silver: { type: Number, default: 0 },
+            gold: { type: Number, default: 0 },
+            platinum: { type: Number, default: 0 },
+        },
     }],
     lastUpdated: {
         type: Date,
@@ -66,10 +74,10 @@ const LeaderboardSchema = new Schema<ILeaderboard>({
     versionKey: false,
 });
 
-// Unique constraint: One leaderboard per type + topicId combination
-LeaderboardSchema.index({ type: 1, topicId: 1 }, { unique: true, sparse: true });
+// Latest snapshots of a board first
+LeaderboardSchema.index({ type: 1, topicId: 1, lastUpdated: -1 });
 
-// TTL index: Auto-delete expired leaderboards
+// TTL index: Auto-delete snapshots past retention
 LeaderboardSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
 export const Leaderboard = mongoose.model<ILeaderboard>('Leaderboard', LeaderboardSchema);
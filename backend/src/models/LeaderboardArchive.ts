@@ -0,0 +1,67 @@
+/**
+ * LeaderboardArchive Model
+ *
+ * Final standings of a finished leaderboard period (day, week, month,
+ * season): the top finishers, archived once the period rolls over
+ * (see archiveFinishedPeriods in leaderboard.service.ts).
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { LeaderboardPeriod, LeaderboardWinner } from '../types/gamification.types';
+
+export interface ILeaderboardArchive extends Document {
+    period: Exclude<LeaderboardPeriod, 'all'>;
+    periodStart: Date;
+    periodEnd: Date;
+    winners: LeaderboardWinner[];
+    participants: number;
+    createdAt: Date;
+}
+
+/**
+ * LeaderboardArchive Schema
+ *
+ * Fields:
+ * - periodStart / periodEnd: The window [start, end) points were counted in
+ * - winners: Top finishers by points earned in the window
+ * - participants: Users who earned points in the window
+ *
+ * Indexes:
+ * - period + periodStart (unique): One archive per period, newest first
+ */
+const LeaderboardArchiveSchema = new Schema<ILeaderboardArchive>(
+    {
+        period: {
+            type: String,
+            required: [true, 'Period is required'],
+            enum: ['day', 'week', 'month', 'season'],
+        },
+        periodStart: {
+            type: Date,
+            required: [true, 'Period start is required'],
+        },
+        periodEnd: {
+            type: Date,
+            required: [true, 'Period end is required'],
+        },
+        winners: [{
+            _id: false,
+            userId: { type: String, required: true },
+            userName: { type: String, required: true },
+            rank: { type: Number, required: true, min: 1 },
+            score: { type: Number, required: true },
+        }],
+        participants: {
+            type: Number,
+            default: 0,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+LeaderboardArchiveSchema.index({ period: 1, periodStart: -1 }, { unique: true });
+
+export const LeaderboardArchive = mongoose.model<ILeaderboardArchive>('LeaderboardArchive', LeaderboardArchiveSchema);
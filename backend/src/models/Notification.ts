@@ -0,0 +1,78 @@
+/**
+ * Notification Model
+ *
+ * The in-app notification center: a record of what happened to the user
+ * (badges, level-ups, rank changes, closed rooms, expiring recommendations,
+ * new followers, friend requests, room invites)
+ * with read/unread state. Live toasts come from AchievementEvent; this is
+ * what the bell menu lists afterwards.
+ *
+ * Relationships:
+ * - Belongs to User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { NotificationType, NOTIFICATION_TYPES } from '../types/notification.types';
+
+export interface INotification extends Document {
+    userId: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string;
+    readAt: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * Notification Schema
+ *
+ * Fields:
+ * - title / message: What the bell menu shows
+ * - link: Frontend path opened on click (optional)
+ * - readAt: When the user read it (null = unread)
+ *
+ * Indexes:
+ * - userId + createdAt: Newest first, paginated
+ * - userId + readAt: Unread count, mark all read
+ * - createdAt (TTL): Notifications expire after 90 days
+ */
+const NotificationSchema = new Schema<INotification>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        type: {
+            type: String,
+            enum: NOTIFICATION_TYPES,
+            required: [true, 'Notification type is required'],
+        },
+        title: {
+            type: String,
+            required: [true, 'Title is required'],
+        },
+        message: {
+            type: String,
+            default: '',
+        },
+        link: {
+            type: String,
+        },
+        readAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,54 @@
+/**
+ * PointDrift Model
+ *
+ * Flags raised by points reconciliation: a user's totalPoints didn't match
+ * the sum of their PointTransaction ledger. totalPoints is reset to the
+ * ledger sum; the flag keeps the evidence for whoever investigates.
+ *
+ * Relationships:
+ * - Belongs to User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPointDrift extends Document {
+    userId: string;
+    storedPoints: number;
+    ledgerPoints: number;
+    drift: number;
+    detectedAt: Date;
+}
+
+const PointDriftSchema = new Schema<IPointDrift>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        storedPoints: {
+            type: Number,
+            required: true,
+        },
+        ledgerPoints: {
+            type: Number,
+            required: true,
+        },
+        drift: {
+            type: Number,
+            required: true,
+        },
+        detectedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        versionKey: false,
+    }
+);
+
+PointDriftSchema.index({ detectedAt: -1 });
+PointDriftSchema.index({ userId: 1, detectedAt: -1 });
+
+export const PointDrift = mongoose.model<IPointDrift>('PointDrift', PointDriftSchema);
@@ -0,0 +1,80 @@
+/**
+ * PointTransaction Model
+ *
+ * Append-only points ledger: one entry per change to a user's
+ * gamification.totalPoints, so every balance can be explained (and
+ * recomputed; see reconcileUserPoints in points.service.ts).
+ * Entries are never updated or deleted - a correction is a new entry.
+ *
+ * Relationships:
+ * - Belongs to User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { PointSource, POINT_SOURCES } from '../types/points.types';
+
+export interface IPointTransaction extends Document {
+    userId: string;
+    source: PointSource;
+    amount: number;
+    referenceId?: string;
+    description?: string;
+    createdAt: Date;
+}
+
+/**
+ * PointTransaction Schema
+ *
+ * Fields:
+ * - source: Where the points came from (see PointSource)
+ * - amount: Points added (negative = removed)
+ * - referenceId: What they were for (practice log, badge ID, challenge)
+ * - description: Human-readable detail ("Two Sum", "gold tier")
+ *
+ * Indexes:
+ * - userId + createdAt: History, newest first
+ * - userId + source: History filtered by source, opening balance lookup
+ * - createdAt: Points earned in a leaderboard period
+ */
+const PointTransactionSchema = new Schema<IPointTransaction>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        source: {
+            type: String,
+            enum: POINT_SOURCES,
+            required: [true, 'Source is required'],
+        },
+        amount: {
+            type: Number,
+            required: [true, 'Amount is required'],
+        },
+        referenceId: {
+            type: String,
+        },
+        description: {
+            type: String,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false,
+    }
+);
+
+PointTransactionSchema.index({ userId: 1, createdAt: -1 });
+PointTransactionSchema.index({ userId: 1, source: 1 });
+PointTransactionSchema.index({ createdAt: 1 });
+
+// Append-only: refuse updates and deletes
+PointTransactionSchema.pre(
+    ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+    function () {
+        throw new Error('Point transactions are append-only');
+    }
+);
+
+export const PointTransaction = mongoose.model<IPointTransaction>('PointTransaction', PointTransactionSchema);
@@ -12,21 +12,35 @@
  * Relationships:
  * - Belongs to User (many logs per user)
  * - Belongs to Topic (many logs per topic)
+ * - Optionally belongs to Question (canonical question bank)
  */
 
 import mongoose, { Schema, Document } from 'mongoose';
+import { ReviewStatus, REVIEW_STATUSES, SuspicionReason, SUSPICION_REASONS } from '../types/practice.types';
 
 export interface IPracticeLog extends Document {
     _id: string;
     userId: string;
     topicId: string;
+    questionId?: string;
     questionTitle: string;
     questionUrl?: string;
     difficulty: string;
     timeSpentMinutes: number;
     solved: boolean;
+    pointsAwarded?: number;
     notes?: string;
     practicedAt: Date;
+    held: boolean;
+    review?: {
+        status?: ReviewStatus;
+        score: number;
+        reasons: SuspicionReason[];
+        heldPoints: number;
+        reviewedBy?: string;
+        reviewedAt?: Date;
+        note?: string;
+    };
     createdAt: Date;
 }
 
@@ -36,13 +50,21 @@ export interface IPracticeLog extends Document {
  * Fields:
  * - userId: Reference to User who practiced
  * - topicId: Reference to Topic
+ * - questionId: Reference to canonical Question (set when title/URL matches)
  * - questionTitle: Name of the question (e.g., "Two Sum")
  * - questionUrl: Optional link to question (LeetCode, GFG, etc.)
  * - difficulty: Easy, Medium, or Hard
  * - timeSpentMinutes: How long they spent (1-300 minutes)
  * - solved: Did they solve it successfully?
+ * - pointsAwarded: Points this log added to the user (reversed on edit/delete).
+ *   Missing on logs created before it existed.
  * - notes: Optional personal notes
  * - practicedAt: When they practiced (can be backdated)
+ * - held: Flagged by anti-cheat and not (yet) approved. Held logs are left
+ *   out of every query on this model (points, streaks, progress, badges,
+ *   leaderboards) unless the query opts in with { includeHeld: true }
+ * - review: Anti-cheat result and moderator decision (antiCheat.service.ts);
+ *   heldPoints is what the log pays out if approved
  * 
  * Indexes for fast queries:
  * - userId + practicedAt: Get user's recent practice
@@ -63,6 +85,11 @@ const PracticeLogSchema = new Schema<IPracticeLog>(
             ref: 'Topic',
             index: true,
         },
+        questionId: {
+            type: String,
+            ref: 'Question',
+            index: true,
+        },
         questionTitle: {
             type: String,
             required: [true, 'Question title is required'],
@@ -88,6 +115,10 @@ const PracticeLogSchema = new Schema<IPracticeLog>(
             required: [true, 'Solved status is required'],
             default: false,
         },
+        pointsAwarded: {
+            type: Number,
+            min: [0, 'Points cannot be negative'],
+        },
         notes: {
             type: String,
             maxlength: [500, 'Notes cannot exceed 500 characters'],
@@ -98,6 +129,25 @@ const PracticeLogSchema = new Schema<IPracticeLog>(
             default: Date.now,
             index: true, // Fast sorting by date
         },
+        held: {
+            type: Boolean,
+            default: false,
+        },
+        review: {
+            status: {
+                type: String,
+                enum: REVIEW_STATUSES,
+            },
+            score: { type: Number },
+            reasons: {
+                type: [{ type: String, enum: SUSPICION_REASONS }],
+                default: undefined,
+            },
+            heldPoints: { type: Number },
+            reviewedBy: { type: String, ref: 'Admin' },
+            reviewedAt: { type: Date },
+            note: { type: String, maxlength: 500 },
+        },
     },
     {
         timestamps: { createdAt: true, updatedAt: false },
@@ -114,5 +164,19 @@ const PracticeLogSchema = new Schema<IPracticeLog>(
  */
 PracticeLogSchema.index({ userId: 1, practicedAt: -1 });
 PracticeLogSchema.index({ userId: 1, topicId: 1 });
+PracticeLogSchema.index({ 'review.status': 1, createdAt: 1 }); // Review queue, oldest first
+
+// Leave held logs out unless the query opts in ({ includeHeld: true })
+PracticeLogSchema.pre(['find', 'findOne', 'countDocuments', 'distinct'], function () {
+    if (!this.getOptions().includeHeld) {
+        this.where({ held: { $ne: true } });
+    }
+});
+
+PracticeLogSchema.pre('aggregate', function () {
+    if (!this.options.includeHeld) {
+        this.pipeline().unshift({ $match: { held: { $ne: true } } });
+    }
+});
 
 export const PracticeLog = mongoose.model<IPracticeLog>('PracticeLog', PracticeLogSchema);
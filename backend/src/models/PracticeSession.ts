@@ -0,0 +1,94 @@
+/**
+ * PracticeSession Model
+ *
+ * Server-side practice timer. The client only says start / pause / resume /
+ * finish; the server records wall-clock segments, so time spent can't be
+ * inflated and survives a page refresh.
+ *
+ * Use cases:
+ * - Student starts a Graphs session, pauses for lunch, resumes
+ * - On finish, the active time is turned into PracticeLog entries
+ *
+ * Relationships:
+ * - Belongs to User (at most one open session per user)
+ * - Belongs to Topic
+ * - Produces PracticeLogs on finish
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISessionSegment {
+    startedAt: Date;
+    endedAt?: Date; // Missing while the segment is running
+}
+
+export interface IPracticeSession extends Document {
+    userId: string;
+    topicId: string;
+    status: 'active' | 'paused' | 'finished';
+    segments: ISessionSegment[];
+    finishedAt?: Date;
+    practiceLogIds: string[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * PracticeSession Schema
+ *
+ * Fields:
+ * - status: active (timer running), paused, or finished
+ * - segments: Running periods; pause closes the open one, resume opens a new one
+ * - finishedAt: When the session was finished
+ * - practiceLogIds: Logs created on finish
+ *
+ * Indexes:
+ * - userId + status: Find the user's open session
+ */
+const PracticeSessionSchema = new Schema<IPracticeSession>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        topicId: {
+            type: String,
+            required: [true, 'Topic ID is required'],
+            ref: 'Topic',
+        },
+        status: {
+            type: String,
+            enum: ['active', 'paused', 'finished'],
+            default: 'active',
+        },
+        segments: [
+            {
+                _id: false,
+                startedAt: {
+                    type: Date,
+                    required: [true, 'Segment start is required'],
+                },
+                endedAt: {
+                    type: Date,
+                },
+            },
+        ],
+        finishedAt: {
+            type: Date,
+        },
+        practiceLogIds: {
+            type: [String],
+            ref: 'PracticeLog',
+            default: [],
+        },
+    },
+    {
+        timestamps: true,
+        versionKey: false,
+    }
+);
+
+PracticeSessionSchema.index({ userId: 1, status: 1 });
+
+export const PracticeSession = mongoose.model<IPracticeSession>('PracticeSession', PracticeSessionSchema);
@@ -0,0 +1,106 @@
+/**
+ * Question Model
+ *
+ * Canonical question bank shared by all users.
+ * PracticeLog entries point at a Question when the logged title/URL matches one.
+ *
+ * Use cases:
+ * - "Two Sum" logged by 500 students resolves to ONE question document
+ * - Per-question stats (attempts, solve rate) across all users
+ * - Duplicate detection and curated question lists per topic
+ *
+ * Relationships:
+ * - Linked to many Topics (a question can cover Arrays AND Hashing)
+ * - Referenced by many PracticeLogs (PracticeLog.questionId)
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const QUESTION_PLATFORMS = [
+    'LeetCode',
+    'Codeforces',
+    'GeeksforGeeks',
+    'HackerRank',
+    'CodeChef',
+    'InterviewBit',
+    'Other',
+] as const;
+
+export type QuestionPlatform = typeof QUESTION_PLATFORMS[number];
+
+export interface IQuestion extends Document {
+    title: string;
+    normalizedTitle: string;
+    canonicalUrl?: string;
+    platform: QuestionPlatform;
+    topicIds: string[];
+    difficulty: string;
+    tags: string[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Question Schema
+ *
+ * Fields:
+ * - title: Display title (e.g., "Two Sum")
+ * - normalizedTitle: Lowercase alphanumeric title used for matching ("two sum")
+ * - canonicalUrl: Normalized problem URL (no query string, no trailing slash)
+ * - platform: Where the question lives (LeetCode, Codeforces, ...)
+ * - topicIds: Topics this question practices
+ * - difficulty: Easy, Medium, or Hard
+ * - tags: Free-form tags (e.g., "hash-table", "two-pointers")
+ *
+ * Indexes:
+ * - canonicalUrl (unique, sparse): One question per URL
+ * - normalizedTitle: Fast exact title matching
+ * - topicIds: Curated lists per topic
+ */
+const QuestionSchema = new Schema<IQuestion>(
+    {
+        title: {
+            type: String,
+            required: [true, 'Question title is required'],
+            trim: true,
+        },
+        normalizedTitle: {
+            type: String,
+            required: [true, 'Normalized title is required'],
+            index: true,
+        },
+        canonicalUrl: {
+            type: String,
+            trim: true,
+            unique: true,
+            sparse: true,
+        },
+        platform: {
+            type: String,
+            required: [true, 'Platform is required'],
+            enum: QUESTION_PLATFORMS,
+            default: 'Other',
+        },
+        topicIds: {
+            type: [String],
+            ref: 'Topic',
+            default: [],
+            index: true,
+        },
+        difficulty: {
+            type: String,
+            required: [true, 'Difficulty is required'],
+            enum: ['Easy', 'Medium', 'Hard'],
+        },
+        tags: {
+            type: [String],
+            default: [],
+        },
+    },
+    {
+        timestamps: true,
+        versionKey: false,
+    }
+);
+
+export const Question = mongoose.model<IQuestion>('Question', QuestionSchema);
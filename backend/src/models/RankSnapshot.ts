@@ -0,0 +1,72 @@
+/**
+ * RankSnapshot Model
+ *
+ * One user's rank on one all-time board (global, a topic, a college or a
+ * cohort), once a day: the rank history behind "up 12 places this week"
+ * and the my-rank chart.
+ * Old days are pruned after RANK_HISTORY_RETENTION_DAYS (see
+ * recordRankHistory in leaderboard.service.ts).
+ *
+ * Relationships:
+ * - Belongs to User
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRankSnapshot extends Document {
+    userId: string;
+    board: string;
+    date: Date;
+    rank: number;
+    score: number;
+}
+
+/**
+ * RankSnapshot Schema
+ *
+ * Fields:
+ * - board: Redis key of the board (e.g. "leaderboard:global",
+ *   "leaderboard:topic:<topicId>", "leaderboard:college:<name>:cohort:<year>")
+ * - date: UTC day of the snapshot (midnight)
+ *
+ * Indexes:
+ * - userId + board + date (unique): One rank per user, board and day; a
+ *   user's history in date order
+ * - board + date: Everyone's rank on a day (movement deltas)
+ * - date: Pruning old days
+ */
+const RankSnapshotSchema = new Schema<IRankSnapshot>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+        },
+        board: {
+            type: String,
+            required: [true, 'Board is required'],
+        },
+        date: {
+            type: Date,
+            required: [true, 'Date is required'],
+        },
+        rank: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        score: {
+            type: Number,
+            default: 0,
+        },
+    },
+    {
+        versionKey: false,
+    }
+);
+
+RankSnapshotSchema.index({ userId: 1, board: 1, date: 1 }, { unique: true });
+RankSnapshotSchema.index({ board: 1, date: 1 });
+RankSnapshotSchema.index({ date: 1 });
+
+export const RankSnapshot = mongoose.model<IRankSnapshot>('RankSnapshot', RankSnapshotSchema);
@@ -36,6 +36,7 @@ export interface IRecommendation extends Document {
     confidenceScore: number; // 0-100, how confident the AI is in these recommendations
     generatedAt: Date;
     expiresAt: Date; // Recommendations expire after 7 days
+    expiryNotifiedAt: Date | null; // When the "expires soon" notification was sent
     isActive: boolean;
 }
 
@@ -135,6 +136,10 @@ const RecommendationSchema = new Schema<IRecommendation>(
             required: true,
             index: true,
         },
+        expiryNotifiedAt: {
+            type: Date,
+            default: null,
+        },
         isActive: {
             type: Boolean,
             default: true,
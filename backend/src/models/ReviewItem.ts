@@ -0,0 +1,153 @@
+/**
+ * ReviewItem Model
+ *
+ * Spaced-repetition queue entry (SM-2 scheduling).
+ * Created when a user fails a question or solves it slowly, so the
+ * question comes back for review instead of being forgotten.
+ *
+ * Use cases:
+ * - Student fails "Coin Change" → review due tomorrow
+ * - Student grades the review "Good" → next review in 6 days, then 6 × ease...
+ * - Dashboard shows all reviews due today
+ *
+ * Relationships:
+ * - Belongs to User
+ * - Belongs to Topic
+ * - Optionally belongs to Question (canonical question bank)
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IReviewItem extends Document {
+    userId: string;
+    topicId: string;
+    questionId?: string;
+    questionKey: string;
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty: string;
+    reason: 'failed' | 'slow';
+    status: 'active' | 'graduated';
+
+    // SM-2 state
+    easeFactor: number;
+    intervalDays: number;
+    repetitions: number;
+    dueAt: Date;
+
+    lastGrade?: number;
+    lastTimeSpentMinutes: number;
+    lastReviewedAt?: Date;
+    sourceLogId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * ReviewItem Schema
+ *
+ * Fields:
+ * - questionKey: questionId if matched, otherwise the normalized title
+ *   (one review item per user per question)
+ * - reason: Why the item was queued (failed attempt or slow solve)
+ * - status: active (in queue) or graduated (interval long enough to retire)
+ * - easeFactor / intervalDays / repetitions: SM-2 state
+ * - dueAt: When the next review is due
+ *
+ * Indexes:
+ * - userId + questionKey (unique): One review item per question
+ * - userId + status + dueAt: Fast "due today" queries
+ */
+const ReviewItemSchema = new Schema<IReviewItem>(
+    {
+        userId: {
+            type: String,
+            required: [true, 'User ID is required'],
+            ref: 'User',
+            index: true,
+        },
+        topicId: {
+            type: String,
+            required: [true, 'Topic ID is required'],
+            ref: 'Topic',
+        },
+        questionId: {
+            type: String,
+            ref: 'Question',
+        },
+        questionKey: {
+            type: String,
+            required: [true, 'Question key is required'],
+        },
+        questionTitle: {
+            type: String,
+            required: [true, 'Question title is required'],
+            trim: true,
+        },
+        questionUrl: {
+            type: String,
+            trim: true,
+        },
+        difficulty: {
+            type: String,
+            required: [true, 'Difficulty is required'],
+            enum: ['Easy', 'Medium', 'Hard'],
+        },
+        reason: {
+            type: String,
+            required: [true, 'Reason is required'],
+            enum: ['failed', 'slow'],
+        },
+        status: {
+            type: String,
+            enum: ['active', 'graduated'],
+            default: 'active',
+        },
+        easeFactor: {
+            type: Number,
+            default: 2.5,
+            min: [1.3, 'Ease factor cannot be below 1.3'],
+        },
+        intervalDays: {
+            type: Number,
+            default: 0,
+            min: [0, 'Interval cannot be negative'],
+        },
+        repetitions: {
+            type: Number,
+            default: 0,
+            min: [0, 'Repetitions cannot be negative'],
+        },
+        dueAt: {
+            type: Date,
+            required: [true, 'Due date is required'],
+        },
+        lastGrade: {
+            type: Number,
+            min: [0, 'Grade must be between 0 and 5'],
+            max: [5, 'Grade must be between 0 and 5'],
+        },
+        lastTimeSpentMinutes: {
+            type: Number,
+            required: [true, 'Time spent is required'],
+            min: [1, 'Time must be at least 1 minute'],
+        },
+        lastReviewedAt: {
+            type: Date,
+        },
+        sourceLogId: {
+            type: String,
+            required: [true, 'Source practice log is required'],
+            ref: 'PracticeLog',
+        },
+    },
+    {
+        timestamps: true,
+        versionKey: false,
+    }
+);
+
+ReviewItemSchema.index({ userId: 1, questionKey: 1 }, { unique: true });
+ReviewItemSchema.index({ userId: 1, status: 1, dueAt: 1 });
+
+export const ReviewItem = mongoose.model<IReviewItem>('ReviewItem', ReviewItemSchema);
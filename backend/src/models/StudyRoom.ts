@@ -27,6 +27,7 @@ export interface IStudyRoom extends Document {
     isActive: boolean;
     isPublic: boolean; // Public rooms can be joined by anyone
     password?: string; // Optional password for private rooms
+    invitedUsers: mongoose.Types.ObjectId[]; // Friends invited by a participant (join without the password)
 }
 
 const StudyRoomSchema = new Schema<IStudyRoom>(
@@ -108,6 +109,12 @@ const StudyRoomSchema = new Schema<IStudyRoom>(
         password: {
             type: String,
         },
+        invitedUsers: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: 'User',
+            },
+        ],
     },
     {
         timestamps: true,
@@ -16,6 +16,9 @@
 
 import mongoose, { Schema } from 'mongoose';
 import { IUser, IRefreshToken } from '../types/auth.types';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/timezone';
+import { NOTIFICATION_TYPES } from '../types/notification.types';
+import { ACTIVITY_VISIBILITIES } from '../types/social.types';
 
 /**
  * User Schema
@@ -29,6 +32,8 @@ import { IUser, IRefreshToken } from '../types/auth.types';
  * - college: Optional college name
  * - graduationYear: Optional year (2020-2030 range validated in Zod)
  * - targetCompanies: Array of company names user is targeting
+ * - timezone: IANA zone (e.g., "Asia/Kolkata") used for daily boundaries
+ *   (streaks, challenges, time-of-day badges)
  * 
  * Timestamps:
  * - createdAt: Auto-generated when document is created
@@ -74,6 +79,14 @@ const UserSchema = new Schema<IUser>(
             type: [String],
             default: [],
         },
+        timezone: {
+            type: String,
+            default: DEFAULT_TIMEZONE,
+            validate: {
+                validator: isValidTimeZone,
+                message: 'Invalid time zone',
+            },
+        },
         gamification: {
             totalPoints: {
                 type: Number,
@@ -93,6 +106,17 @@ const UserSchema = new Schema<IUser>(
             lastPracticeDate: {
                 type: Date,
             },
+            // Streak freezes held: one is used automatically when exactly one day is missed
+            streakFreezes: {
+                type: Number,
+                default: 0,
+                min: [0, 'Streak freezes cannot be negative'],
+            },
+            // Days covered by a freeze (start of the local day), for the streak calendar
+            frozenDays: {
+                type: [Date],
+                default: [],
+            },
             level: {
                 type: Number,
                 default: 1,
@@ -103,6 +127,54 @@ const UserSchema = new Schema<IUser>(
                 default: 0,
                 min: [0, 'Badges earned cannot be negative'],
             },
+            // Highest tier held per tiered badge (a silver badge counts once, as silver)
+            badgeTiers: {
+                bronze: { type: Number, default: 0 },
+                silver: { type: Number, default: 0 },
+                gold: { type: Number, default: 0 },
+                platinum: { type: Number, default: 0 },
+            },
+        },
+        notificationPreferences: {
+            // Muted types are neither recorded in the notification center nor pushed live
+            mutedTypes: {
+                type: [{ type: String, enum: NOTIFICATION_TYPES }],
+                default: [],
+            },
+        },
+        // Emails the user gets (each email's unsubscribe link turns its list off)
+        emailPreferences: {
+            weeklyDigest: {
+                type: Boolean,
+                default: true,
+            },
+            streakReminders: {
+                type: Boolean,
+                default: true,
+            },
+            // Last sends, so an hourly job never mails twice
+            lastDigestAt: {
+                type: Date,
+            },
+            lastStreakReminderAt: {
+                type: Date,
+            },
+        },
+        // Who may follow, befriend and see the activity of the user
+        privacy: {
+            allowFollowers: {
+                type: Boolean,
+                default: true,
+            },
+            allowFriendRequests: {
+                type: Boolean,
+                default: true,
+            },
+            activityVisibility: {
+                type: String,
+                enum: ACTIVITY_VISIBILITIES,
+                default: 'followers',
+            },
         },
     },
     {
@@ -1,8 +1,8 @@
 /**
  * UserBadge Model
  * 
- * Tracks which badges users have earned.
- * Junction table between User and Badge.
+ * Tracks which badges users have earned, and progress towards the ones
+ * they haven't (earnedAt null). Junction table between User and Badge.
  */
 
 import mongoose, { Schema } from 'mongoose';
@@ -21,10 +21,23 @@ const UserBadgeSchema = new Schema<IUserBadge>({
         ref: 'Badge',
         index: true,
     },
+    // First award
     earnedAt: {
         type: Date,
-        required: [true, 'Earned date is required'],
-        default: Date.now,
+        default: null,
+    },
+    // Latest tier-up or repeat
+    lastEarnedAt: {
+        type: Date,
+    },
+    tier: {
+        type: String,
+        enum: ['bronze', 'silver', 'gold', 'platinum'],
+    },
+    earnCount: {
+        type: Number,
+        default: 0,
+        min: [0, 'Earn count cannot be negative'],
     },
     progress: {
         type: Number,
@@ -32,12 +45,23 @@ const UserBadgeSchema = new Schema<IUserBadge>({
         min: [0, 'Progress cannot be negative'],
         max: [100, 'Progress cannot exceed 100'],
     },
+    // Last evaluated value and goal (e.g., 7 of 10 problems)
+    current: {
+        type: Number,
+    },
+    target: {
+        type: Number,
+    },
+    unit: {
+        type: String,
+        enum: ['problems', 'days', 'percent', 'rules'],
+    },
 }, {
     timestamps: { createdAt: true, updatedAt: false },
     versionKey: false,
 });
 
-// Compound index: One badge per user (can't earn same badge twice)
+// Compound index: One row per user and badge (can't earn same badge twice)
 UserBadgeSchema.index({ userId: 1, badgeId: 1 }, { unique: true });
 
 // Index for recent achievements
@@ -0,0 +1,212 @@
+/**
+ * Admin Badge Routes
+ *
+ * Admin endpoints for authoring badge definitions.
+ * Criteria use the JSON rule language (BadgeCriteria), so new badges
+ * need no code changes.
+ */
+
+import express, { Request, Response } from 'express';
+import {
+    getAllBadges,
+    createBadge,
+    updateBadge,
+    deleteBadge,
+    previewBadgeCriteria,
+} from '../services/badge.service';
+import {
+    createBadgeSchema,
+    updateBadgeSchema,
+    previewCriteriaSchema,
+} from '../validators/badge.validator';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.middleware';
+import { logAdminAction } from '../middleware/auditLog.middleware';
+import { AdminPermission } from '../types/admin.types';
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/badges
+ * List badge definitions (with criteria)
+ */
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const badges = await getAllBadges();
+
+        res.status(200).json({
+            success: true,
+            data: badges,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: error.message || 'Failed to list badges',
+        });
+    }
+});
+
+/**
+ * POST /api/admin/badges/preview
+ * Evaluate draft criteria against a user (nothing is saved or awarded)
+ *
+ * Request body:
+ * {
+ *   "userId": "507f...",
+ *   "criteria": { "type": "count", "min": 10, "per": "day", "where": { "solved": true } }
+ * }
+ *
+ * Response: { "success": true, "data": { "met": false, "progress": 0.6 } }
+ */
+router.post(
+    '/preview',
+    requirePermission(AdminPermission.CREATE_BADGES),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const validatedData = previewCriteriaSchema.parse(req.body);
+
+            const result = await previewBadgeCriteria(validatedData.userId, validatedData.criteria);
+
+            res.status(200).json({
+                success: true,
+                data: result,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(404).json({
+                success: false,
+                message: error.message || 'User not found',
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/badges
+ * Create badge
+ *
+ * Request body:
+ * {
+ *   "badgeId": "graph_guru",
+ *   "name": "Graph Guru",
+ *   "description": "Solve 20 Hard graph problems with 80% accuracy",
+ *   "category": "mastery",
+ *   "rarity": "epic",
+ *   "points": 75,
+ *   "criteria": {
+ *     "all": [
+ *       { "type": "count", "min": 20, "where": { "solved": true, "categories": ["Graphs"], "difficulties": ["Hard"] } },
+ *       { "type": "accuracy", "min": 80, "minAttempts": 20, "where": { "categories": ["Graphs"] } }
+ *     ]
+ *   }
+ * }
+ */
+router.post(
+    '/',
+    requirePermission(AdminPermission.CREATE_BADGES),
+    logAdminAction('CREATE', 'Badge'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const validatedData = createBadgeSchema.parse(req.body);
+
+            const badge = await createBadge(validatedData);
+
+            res.status(201).json({
+                success: true,
+                message: 'Badge created successfully',
+                data: badge,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(400).json({
+                success: false,
+                message: error.message || 'Failed to create badge',
+            });
+        }
+    }
+);
+
+/**
+ * PUT /api/admin/badges/:id
+ * Update badge (id = badgeId, e.g. "night_owl"; badgeId itself can't change)
+ */
+router.put(
+    '/:id',
+    requirePermission(AdminPermission.EDIT_BADGES),
+    logAdminAction('UPDATE', 'Badge'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const validatedData = updateBadgeSchema.parse(req.body);
+
+            const badge = await updateBadge(req.params.id, validatedData);
+
+            res.status(200).json({
+                success: true,
+                message: 'Badge updated successfully',
+                data: badge,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            const status = error.message === 'Badge not found'
+                ? 404
+                : error.message?.startsWith('Invalid') ? 400 : 500;
+            res.status(status).json({
+                success: false,
+                message: error.message || 'Failed to update badge',
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /api/admin/badges/:id
+ * Delete badge definition (users keep what they earned, points included)
+ */
+router.delete(
+    '/:id',
+    requirePermission(AdminPermission.DELETE_BADGES),
+    logAdminAction('DELETE', 'Badge'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            await deleteBadge(req.params.id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Badge deleted successfully',
+            });
+        } catch (error: any) {
+            res.status(error.message === 'Badge not found' ? 404 : 500).json({
+                success: false,
+                message: error.message || 'Failed to delete badge',
+            });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,142 @@
+/**
+ * Admin Economy Routes
+ *
+ * Admin endpoints for the points and leveling economy
+ * (see services/economy.service.ts) and the points ledger's drift flags
+ * (services/points.service.ts).
+ */
+
+import express, { Request, Response } from 'express';
+import { getEconomyConfig, updateEconomyConfig, runLevelMigration } from '../services/economy.service';
+import { getPointDrifts } from '../services/points.service';
+import { updateEconomyConfigSchema, listPointDriftSchema } from '../validators/gamification.validator';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.middleware';
+import { logAdminAction } from '../middleware/auditLog.middleware';
+import { AdminPermission } from '../types/admin.types';
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/economy
+ * Current economy config and level migration status
+ */
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const config = await getEconomyConfig();
+
+        res.status(200).json({
+            success: true,
+            data: config,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: error.message || 'Failed to get economy config',
+        });
+    }
+});
+
+/**
+ * PUT /api/admin/economy
+ * Update the economy (partial). Points already awarded don't change;
+ * a new level curve recomputes every user's level in the background.
+ *
+ * Request body:
+ * {
+ *   "practicePoints": { "Hard": 40 },
+ *   "firstSolveBonus": 5,
+ *   "repeatSolveMultipliers": [0.5, 0.25, 0],
+ *   "challengeRewardPoints": 50,
+ *   "levelCurve": { "basePoints": 100, "exponent": 1.5 },
+ *   "levelTitles": [{ "level": 1, "title": "Novice" }, { "level": 10, "title": "Problem Solver" }]
+ * }
+ */
+router.put(
+    '/',
+    requirePermission(AdminPermission.SYSTEM_SETTINGS),
+    logAdminAction('UPDATE', 'System'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const validatedData = updateEconomyConfigSchema.parse(req.body);
+
+            const config = await updateEconomyConfig(validatedData, req.admin!.adminId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Economy updated successfully',
+                data: config,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(500).json({
+                success: false,
+                message: error.message || 'Failed to update economy',
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/economy/migrate-levels
+ * Resume a pending or failed level migration (runs in the background;
+ * poll GET /api/admin/economy for its status)
+ */
+router.post(
+    '/migrate-levels',
+    requirePermission(AdminPermission.SYSTEM_SETTINGS),
+    async (_req: Request, res: Response): Promise<void> => {
+        runLevelMigration().catch((error) => {
+            console.error('❌ Level migration failed:', error);
+        });
+
+        res.status(202).json({
+            success: true,
+            message: 'Level migration started',
+        });
+    }
+);
+
+/**
+ * GET /api/admin/economy/point-drift?limit=20&skip=0
+ * Users whose totalPoints didn't match their points ledger (newest first).
+ * Reconciliation already reset them to the ledger sum.
+ */
+router.get('/point-drift', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validatedQuery = listPointDriftSchema.parse(req.query);
+
+        const drifts = await getPointDrifts(validatedQuery);
+
+        res.status(200).json({
+            success: true,
+            data: drifts,
+        });
+    } catch (error: any) {
+        if (error.name === 'ZodError') {
+            res.status(400).json({
+                success: false,
+                message: 'Validation error',
+                errors: error.errors,
+            });
+            return;
+        }
+
+        res.status(500).json({
+            success: false,
+            message: error.message || 'Failed to list point drift',
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+/**
+ * Admin Review Routes
+ *
+ * Moderator queue for practice logs flagged by the anti-cheat heuristics
+ * (see services/antiCheat.service.ts). Flagged logs earn nothing and stay
+ * off leaderboards until approved here.
+ */
+
+import express, { Request, Response } from 'express';
+import { getReviewQueue, approvePracticeLog, rejectPracticeLog } from '../services/antiCheat.service';
+import { getReviewQueueSchema, reviewDecisionSchema } from '../validators/practice.validator';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.middleware';
+import { logAdminAction } from '../middleware/auditLog.middleware';
+import { AdminPermission } from '../types/admin.types';
+import { AppError } from '../utils/errors';
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(requireAdmin);
+
+const getErrorStatus = (error: any): number => {
+    if (error instanceof AppError) return error.statusCode;
+    return error.message === 'Practice log not found' ? 404 : 500;
+};
+
+/**
+ * GET /api/admin/reviews?status=pending&limit=20&skip=0
+ * Flagged practice logs with their suspicion score and reasons
+ * (pending: oldest first; approved / rejected: newest first)
+ */
+router.get(
+    '/',
+    requirePermission(AdminPermission.VIEW_USERS),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const validatedQuery = getReviewQueueSchema.parse(req.query);
+
+            const queue = await getReviewQueue(validatedQuery);
+
+            res.status(200).json({
+                success: true,
+                data: queue,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(500).json({
+                success: false,
+                message: error.message || 'Failed to get review queue',
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/reviews/:id/approve
+ * Release a flagged log: its points, streak day and progress are credited.
+ * Rejected logs can be approved later.
+ *
+ * Request body:
+ * {
+ *   "note": "Solved in the live contest, time is fine"   // Optional
+ * }
+ */
+router.post(
+    '/:id/approve',
+    requirePermission(AdminPermission.EDIT_USERS),
+    logAdminAction('UPDATE', 'User'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { note } = reviewDecisionSchema.parse(req.body);
+
+            const log = await approvePracticeLog(req.params.id, req.admin!.adminId, note);
+
+            res.status(200).json({
+                success: true,
+                message: 'Practice log approved',
+                data: log,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                message: error.message || 'Failed to approve practice log',
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/reviews/:id/reject
+ * Keep a flagged log held for good (only pending logs can be rejected)
+ *
+ * Request body:
+ * {
+ *   "note": "20 Hard solves in 5 minutes"   // Optional
+ * }
+ */
+router.post(
+    '/:id/reject',
+    requirePermission(AdminPermission.EDIT_USERS),
+    logAdminAction('UPDATE', 'User'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { note } = reviewDecisionSchema.parse(req.body);
+
+            const log = await rejectPracticeLog(req.params.id, req.admin!.adminId, note);
+
+            res.status(200).json({
+                success: true,
+                message: 'Practice log rejected',
+                data: log,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                message: error.message || 'Failed to reject practice log',
+            });
+        }
+    }
+);
+
+export default router;
@@ -44,6 +44,36 @@ router.get('/my', authenticateToken, async (req: Request, res: Response, next: N
     }
 });
 
+/**
+ * GET /api/badges/my/progress
+ * 
+ * Get progress towards every badge (earned and not)
+ * Protected endpoint
+ * Declared before /:badgeId/progress so "my" isn't taken as a badge id
+ * 
+ * Response:
+ * [
+ *   {
+ *     "badge": { "badgeId": "problem_solver", "name": "Problem Solver", ... },
+ *     "earned": false,
+ *     "progress": 70,
+ *     "current": 7,
+ *     "target": 10,
+ *     "unit": "problems"
+ *   }
+ * ]
+ */
+router.get('/my/progress', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const progress = await badgeService.getMyBadgeProgress(userId);
+
+        res.status(200).json(progress);
+    } catch (error) {
+        next(error);
+    }
+});
+
 /**
  * GET /api/badges/:badgeId/progress
  * 
@@ -0,0 +1,61 @@
+/**
+ * Email Routes
+ *
+ * Public endpoints behind the links in our emails (no login: the
+ * unsubscribe token itself proves which user and list it is for).
+ */
+
+import { Router, Request, Response } from 'express';
+import * as emailDigestService from '../services/emailDigest.service';
+
+const router = Router();
+
+const LIST_NAMES: Record<emailDigestService.EmailList, string> = {
+    weekly_digest: 'the weekly progress digest',
+    streak_reminders: 'streak reminders',
+};
+
+const page = (title: string, message: string): string =>
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+    `<body style="font-family:Arial,Helvetica,sans-serif;max-width:480px;margin:64px auto;text-align:center;">` +
+    `<h1>${title}</h1><p>${message}</p></body></html>`;
+
+/**
+ * GET /api/email/unsubscribe?token=...
+ *
+ * Unsubscribe link in every email. Responds with a small HTML page.
+ * Lists can be turned back on with PUT /api/users/me (emailPreferences).
+ */
+router.get('/unsubscribe', async (req: Request, res: Response) => {
+    try {
+        const list = await emailDigestService.unsubscribeWithToken(String(req.query.token || ''));
+
+        res.status(200).send(page('Unsubscribed', `You won't get ${LIST_NAMES[list]} anymore.`));
+    } catch (error: any) {
+        const status = error.message === 'User not found' ? 404 : 400;
+        res.status(status).send(page('Link not valid', 'This unsubscribe link is invalid or outdated.'));
+    }
+});
+
+/**
+ * POST /api/email/unsubscribe?token=...
+ *
+ * One-click unsubscribe (RFC 8058), sent by mail clients from the
+ * List-Unsubscribe header
+ *
+ * Response (200 OK): { "unsubscribed": "weekly_digest" }
+ */
+router.post('/unsubscribe', async (req: Request, res: Response) => {
+    try {
+        const list = await emailDigestService.unsubscribeWithToken(String(req.query.token || ''));
+
+        res.status(200).json({ unsubscribed: list });
+    } catch (error: any) {
+        res.status(error.message === 'User not found' ? 404 : 400).json({
+            error: 'Error',
+            message: error.message,
+        });
+    }
+});
+
+export default router;
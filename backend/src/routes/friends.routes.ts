@@ -0,0 +1,167 @@
+/**
+ * Friends Routes
+ *
+ * Endpoints for friendships, friend requests and the friends activity feed.
+ * All routes are protected (require JWT authentication).
+ *
+ * Follows live under /api/users/:id/follow; the friends leaderboard under
+ * /api/leaderboard/friends.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import * as socialService from '../services/social.service';
+import { getSocialListSchema, sendFriendRequestSchema } from '../validators/social.validator';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * GET /api/friends
+ *
+ * My friends (most recent friendships first)
+ *
+ * Query params:
+ * - limit (optional): Number of results (default: 20, max: 50)
+ * - skip (optional): Pagination offset (default: 0)
+ *
+ * Response (200 OK):
+ * {
+ *   "friends": [
+ *     { "userId": "...", "userName": "Asha", "level": 4, "currentStreak": 6, "friendsSince": "..." }
+ *   ],
+ *   "total": 8
+ * }
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getSocialListSchema.parse(req.query);
+
+        const friends = await socialService.getFriends(req.user!.userId, validatedQuery);
+
+        res.status(200).json(friends);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/friends/feed
+ *
+ * What friends and followed users did lately (solved questions, badges),
+ * newest first. Users who keep their activity to friends only, or to
+ * nobody, are left out accordingly.
+ *
+ * Query params:
+ * - limit (optional): Number of results (default: 20, max: 50)
+ * - skip (optional): Pagination offset (default: 0)
+ *
+ * Response (200 OK):
+ * {
+ *   "activities": [
+ *     { "_id": "...", "userId": "...", "userName": "Asha", "type": "practice_solved",
+ *       "title": "Solved Two Sum", "description": "Easy · 12 min", "createdAt": "..." }
+ *   ],
+ *   "total": 57
+ * }
+ */
+router.get('/feed', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getSocialListSchema.parse(req.query);
+
+        const feed = await socialService.getActivityFeed(req.user!.userId, validatedQuery);
+
+        res.status(200).json(feed);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/friends/requests
+ *
+ * Pending friend requests: incoming (to accept or decline) and outgoing
+ */
+router.get('/requests', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const requests = await socialService.getFriendRequests(req.user!.userId);
+
+        res.status(200).json(requests);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/friends/requests
+ *
+ * Send a friend request. If that user already sent me one, it is accepted.
+ *
+ * Request body: { "userId": "..." }
+ *
+ * Errors:
+ * - 400: Requesting yourself
+ * - 403: The user doesn't accept friend requests
+ * - 404: User not found
+ * - 409: Already friends, or request already sent
+ */
+router.post('/requests', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { userId: targetId } = sendFriendRequestSchema.parse(req.body);
+
+        const request = await socialService.sendFriendRequest(req.user!.userId, targetId);
+
+        res.status(201).json(request);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/friends/requests/:id/accept
+ *
+ * Accept a friend request sent to me
+ */
+router.post('/requests/:id/accept', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const request = await socialService.acceptFriendRequest(req.user!.userId, req.params.id);
+
+        res.status(200).json(request);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/friends/requests/:id
+ *
+ * Decline a request sent to me, or cancel one I sent
+ */
+router.delete('/requests/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await socialService.deleteFriendRequest(req.user!.userId, req.params.id);
+
+        res.status(200).json({ message: 'Friend request removed' });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/friends/:userId
+ *
+ * Unfriend a user
+ */
+router.delete('/:userId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await socialService.removeFriend(req.user!.userId, req.params.userId);
+
+        res.status(200).json({ message: 'Friend removed' });
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
@@ -6,15 +6,24 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import * as leaderboardService from '../services/leaderboard.service';
-import { getLeaderboardSchema } from '../validators/gamification.validator';
+import {
+    getLeaderboardSchema,
+    getAroundMeSchema,
+    getPeriodWinnersSchema,
+    getRankHistorySchema,
+    getCollegeLeaderboardSchema,
+    cohortParamsSchema,
+} from '../validators/gamification.validator';
 import { authenticateToken } from '../middleware/auth.middleware';
 
 const router = Router();
 
 /**
- * GET /api/leaderboard/global
+ * GET /api/leaderboard/global?period=week
  * 
  * Get global leaderboard
+ * period: all (lifetime points, default), day, week, month or season
+ * (points earned in the current period)
  * Public endpoint
  */
 router.get('/global', async (req: Request, res: Response, next: NextFunction) => {
@@ -23,7 +32,8 @@ router.get('/global', async (req: Request, res: Response, next: NextFunction) =>
 
         const leaderboard = await leaderboardService.getGlobalLeaderboard(
             validatedQuery.limit,
-            validatedQuery.skip
+            validatedQuery.skip,
+            validatedQuery.period
         );
 
         res.status(200).json(leaderboard);
@@ -45,7 +55,52 @@ router.get('/topic/:topicId', async (req: Request, res: Response, next: NextFunc
 
         const leaderboard = await leaderboardService.getTopicLeaderboard(
             topicId,
-            validatedQuery.limit
+            validatedQuery.limit,
+            validatedQuery.skip
+        );
+
+        res.status(200).json(leaderboard);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/leaderboard/colleges
+ * 
+ * Inter-college leaderboard (members' points, normalized for college size)
+ * Public endpoint
+ */
+router.get('/colleges', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getLeaderboardSchema.parse(req.query);
+
+        const leaderboard = await leaderboardService.getCollegeLeaderboard(
+            validatedQuery.limit,
+            validatedQuery.skip
+        );
+
+        res.status(200).json(leaderboard);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/leaderboard/college/:name?year=2026
+ * 
+ * Students of one college (with year: one graduating cohort of it)
+ * College names match ignoring case and surrounding spaces
+ * Public endpoint
+ */
+router.get('/college/:name', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getCollegeLeaderboardSchema.parse(req.query);
+
+        const leaderboard = await leaderboardService.getScopedLeaderboard(
+            { college: req.params.name, graduationYear: validatedQuery.year },
+            validatedQuery.limit,
+            validatedQuery.skip
         );
 
         res.status(200).json(leaderboard);
@@ -55,9 +110,75 @@ router.get('/topic/:topicId', async (req: Request, res: Response, next: NextFunc
 });
 
 /**
- * GET /api/leaderboard/my-rank
+ * GET /api/leaderboard/cohort/:year
  * 
- * Get current user's rank
+ * Students graduating in one year, across colleges
+ * Public endpoint
+ */
+router.get('/cohort/:year', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { year } = cohortParamsSchema.parse(req.params);
+        const validatedQuery = getLeaderboardSchema.parse(req.query);
+
+        const leaderboard = await leaderboardService.getScopedLeaderboard(
+            { graduationYear: year },
+            validatedQuery.limit,
+            validatedQuery.skip
+        );
+
+        res.status(200).json(leaderboard);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/leaderboard/my-cohort
+ * 
+ * The current user's college + graduation year board, with their own rank
+ * Protected endpoint
+ */
+router.get('/my-cohort', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const validatedQuery = getLeaderboardSchema.parse(req.query);
+
+        const leaderboard = await leaderboardService.getMyCohortLeaderboard(
+            userId,
+            validatedQuery.limit,
+            validatedQuery.skip
+        );
+
+        res.status(200).json(leaderboard);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/leaderboard/friends?period=week
+ * 
+ * The current user and their friends, ranked among themselves
+ * period: all (lifetime points, default), day, week, month or season
+ * Protected endpoint
+ */
+router.get('/friends', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const validatedQuery = getLeaderboardSchema.parse(req.query);
+
+        const leaderboard = await leaderboardService.getFriendsLeaderboard(userId, validatedQuery.period);
+
+        res.status(200).json(leaderboard);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/leaderboard/my-rank?period=week
+ * 
+ * Get current user's rank (global board for the period, or a topic board with topicId)
  * Protected endpoint
  */
 router.get('/my-rank', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
@@ -66,7 +187,12 @@ router.get('/my-rank', authenticateToken, async (req: Request, res: Response, ne
         const validatedQuery = getLeaderboardSchema.parse(req.query);
 
         const type = validatedQuery.topicId ? 'topic' : 'global';
-        const rank = await leaderboardService.getUserRank(userId, type, validatedQuery.topicId);
+        const rank = await leaderboardService.getUserRank(
+            userId,
+            type,
+            validatedQuery.topicId,
+            validatedQuery.period
+        );
 
         res.status(200).json(rank);
     } catch (error) {
@@ -74,4 +200,82 @@ router.get('/my-rank', authenticateToken, async (req: Request, res: Response, ne
     }
 });
 
+/**
+ * GET /api/leaderboard/my-rank/history?days=30&topicId=...
+ * 
+ * Current user's daily rank over the last days (all-time global board,
+ * or a topic board with topicId), oldest first
+ * Protected endpoint
+ * 
+ * Response (200 OK):
+ * {
+ *   "type": "global",
+ *   "days": 30,
+ *   "history": [{ "date": "2024-01-01T00:00:00.000Z", "rank": 40, "score": 1200 }, ...],
+ *   "rankChange": 12   // Places climbed over the window (negative = dropped)
+ * }
+ */
+router.get('/my-rank/history', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const validatedQuery = getRankHistorySchema.parse(req.query);
+
+        const history = await leaderboardService.getRankHistory(
+            userId,
+            validatedQuery.days,
+            validatedQuery.topicId
+        );
+
+        res.status(200).json(history);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/leaderboard/around-me?radius=5&period=week&topicId=...
+ * 
+ * Users ranked just above and below the current user
+ * (global board for the period, or a topic board with topicId)
+ * Protected endpoint
+ */
+router.get('/around-me', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const validatedQuery = getAroundMeSchema.parse(req.query);
+
+        const window = await leaderboardService.getUsersAroundMe(
+            userId,
+            validatedQuery.radius,
+            validatedQuery.topicId,
+            validatedQuery.period
+        );
+
+        res.status(200).json(window);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/leaderboard/winners?period=week&limit=10
+ * 
+ * Top finishers of past periods (newest first)
+ * Public endpoint
+ */
+router.get('/winners', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getPeriodWinnersSchema.parse(req.query);
+
+        const winners = await leaderboardService.getPeriodWinners(
+            validatedQuery.period,
+            validatedQuery.limit
+        );
+
+        res.status(200).json(winners);
+    } catch (error) {
+        next(error);
+    }
+});
+
 export default router;
@@ -0,0 +1,140 @@
+/**
+ * Notification Routes
+ *
+ * Endpoints for the in-app notification center (bell menu).
+ * All routes are protected (require JWT authentication).
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import * as notificationService from '../services/notification.service';
+import {
+    getNotificationsSchema,
+    updateNotificationPreferencesSchema,
+} from '../validators/notification.validator';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * GET /api/notifications
+ *
+ * Get notifications, newest first
+ *
+ * Query params:
+ * - limit (optional): Number of results (default: 20, max: 50)
+ * - skip (optional): Pagination offset (default: 0)
+ * - unreadOnly (optional): "true" to list unread only
+ *
+ * Response (200 OK):
+ * {
+ *   "notifications": [
+ *     {
+ *       "_id": "...",
+ *       "type": "rank_change",
+ *       "title": "Up 12 places on the leaderboard",
+ *       "message": "You climbed from #40 to #28",
+ *       "link": "/leaderboard",
+ *       "read": false,
+ *       "createdAt": "..."
+ *     }
+ *   ],
+ *   "total": 37,
+ *   "unreadCount": 3
+ * }
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getNotificationsSchema.parse(req.query);
+        const userId = req.user!.userId;
+
+        const notifications = await notificationService.getNotifications(userId, validatedQuery);
+
+        res.status(200).json(notifications);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/notifications/read-all
+ *
+ * Mark every notification read
+ *
+ * Response (200 OK): { "markedCount": 3 }
+ */
+router.post('/read-all', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const markedCount = await notificationService.markAllNotificationsRead(userId);
+
+        res.status(200).json({ markedCount });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/notifications/preferences
+ *
+ * Get muted notification types
+ *
+ * Response (200 OK): { "mutedTypes": ["rank_change"] }
+ */
+router.get('/preferences', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const preferences = await notificationService.getNotificationPreferences(userId);
+
+        res.status(200).json(preferences);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/notifications/preferences
+ *
+ * Replace muted notification types. Muted types are neither listed here
+ * nor pushed live.
+ *
+ * Request body: { "mutedTypes": ["rank_change", "room_closed"] }
+ */
+router.put('/preferences', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = updateNotificationPreferencesSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const preferences = await notificationService.updateNotificationPreferences(
+            userId,
+            validatedData.mutedTypes
+        );
+
+        res.status(200).json(preferences);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/notifications/:id/read
+ *
+ * Mark one notification read
+ *
+ * Response (200 OK): The notification
+ * Errors: 404 if it doesn't exist (or belongs to someone else)
+ */
+router.post('/:id/read', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+        const notification = await notificationService.markNotificationRead(userId, req.params.id);
+
+        res.status(200).json(notification);
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
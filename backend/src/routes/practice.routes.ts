@@ -7,10 +7,20 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import * as practiceService from '../services/practice.service';
+import * as reviewService from '../services/review.service';
+import * as importService from '../services/import.service';
+import * as sessionService from '../services/practiceSession.service';
+import { runIdempotent, IdempotentResult, IDEMPOTENCY_HEADER } from '../services/idempotency.service';
 import {
     logPracticeSchema,
+    updatePracticeLogSchema,
     getPracticeHistorySchema,
     getPracticeStatsSchema,
+    gradeReviewSchema,
+    getDueReviewsSchema,
+    importPracticeSchema,
+    startSessionSchema,
+    finishSessionSchema,
 } from '../validators/practice.validator';
 import { authenticateToken } from '../middleware/auth.middleware';
 
@@ -19,11 +29,27 @@ const router = Router();
 // All routes require authentication
 router.use(authenticateToken);
 
+/**
+ * Send an idempotent result, flagging replays with Idempotent-Replayed: true
+ */
+const sendIdempotent = <T>(res: Response, result: IdempotentResult<T>): void => {
+    if (result.replayed) {
+        res.setHeader('Idempotent-Replayed', 'true');
+    }
+    res.status(result.statusCode).json(result.response);
+};
+
 /**
  * POST /api/practice
  * 
  * Log a practice session
  * 
+ * Runs in one transaction: a failing step rolls everything back.
+ * 
+ * Headers:
+ * - Idempotency-Key (optional): Retrying with the same key replays the first
+ *   response instead of logging (and awarding points) twice
+ * 
  * Request body:
  * {
  *   "topicId": "507f1f77bcf86cd799439011",
@@ -48,15 +74,79 @@ router.use(authenticateToken);
  *   "practicedAt": "2024-01-01T10:00:00Z",
  *   ...
  * }
+ * 
+ * Errors:
+ * - 400: Invalid Idempotency-Key
+ * - 422: Idempotency-Key already used with a different body
+ * - 500: { "error": "EVENT_HANDLER_FAILED", "message": "...", "details": { "step": "badges", ... } }
  */
 router.post('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
         const validatedData = logPracticeSchema.parse(req.body);
         const userId = req.user!.userId;
 
-        const practiceLog = await practiceService.logPractice(userId, validatedData);
+        const result = await runIdempotent(
+            {
+                userId,
+                scope: 'practice.log',
+                key: req.header(IDEMPOTENCY_HEADER),
+                request: validatedData,
+                statusCode: 201,
+            },
+            () => practiceService.logPractice(userId, validatedData)
+        );
+
+        sendIdempotent(res, result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/practice/import
+ * 
+ * Bulk import practice history from a LeetCode / Codeforces / generic export.
+ * Defaults to a dry run: send "dryRun": false to commit.
+ * Rows flagged by anti-cheat (e.g. solved implausibly fast) are saved held
+ * for review: no points or streak until a moderator approves them. Old dates
+ * alone don't flag a row.
+ * 
+ * Request body:
+ * {
+ *   "source": "leetcode",            // leetcode | codeforces | generic
+ *   "format": "csv",                 // csv | json
+ *   "data": "title,difficulty,status,date,tags\nTwo Sum,Easy,Accepted,2024-01-01,array;hash-table",
+ *   "defaultTopicId": "507f...",     // Optional: used when no tag maps to a topic
+ *   "defaultTimeSpentMinutes": 20,   // Optional: exports rarely include time
+ *   "dryRun": true
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   "dryRun": true,
+ *   "totalRows": 120,
+ *   "newCount": 95,
+ *   "duplicateCount": 20,
+ *   "unmappedCount": 3,
+ *   "invalidCount": 2,
+ *   "heldCount": 1,
+ *   "importedCount": 0,
+ *   "pointsAwarded": 1450,
+ *   "rows": [
+ *     { "row": 1, "questionTitle": "Two Sum", "topicName": "Arrays", "status": "new", ... },
+ *     { "row": 2, "questionTitle": "Two Sum", "status": "duplicate", "reason": "Same question and day as row 1" },
+ *     ...
+ *   ]
+ * }
+ */
+router.post('/import', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = importPracticeSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const result = await importService.importPracticeHistory(userId, validatedData);
 
-        res.status(201).json(practiceLog);
+        res.status(200).json(result);
     } catch (error) {
         next(error);
     }
@@ -177,4 +267,286 @@ router.get('/stats/:topicId', async (req: Request, res: Response, next: NextFunc
     }
 });
 
+/**
+ * GET /api/practice/reviews/due
+ * 
+ * Get spaced-repetition reviews due now (oldest first)
+ * 
+ * Query params:
+ * - limit (optional): Number of results (default: 20, max: 100)
+ * 
+ * Response (200 OK):
+ * {
+ *   "total": 3,
+ *   "reviews": [
+ *     {
+ *       "_id": "...",
+ *       "topicName": "Dynamic Programming",
+ *       "questionTitle": "Coin Change",
+ *       "reason": "failed",
+ *       "intervalDays": 1,
+ *       "dueAt": "2024-01-02T10:00:00Z",
+ *       ...
+ *     },
+ *     ...
+ *   ]
+ * }
+ */
+router.get('/reviews/due', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getDueReviewsSchema.parse(req.query);
+        const userId = req.user!.userId;
+
+        const reviews = await reviewService.getDueReviews(userId, validatedQuery.limit);
+
+        res.status(200).json(reviews);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/practice/reviews/:id/grade
+ * 
+ * Grade a review (0-5). Logs the attempt like POST /api/practice
+ * (streak, points, badges, challenges, progress) and reschedules the review.
+ * Accepts an Idempotency-Key header, like POST /api/practice.
+ * 
+ * Request body:
+ * {
+ *   "grade": 4,
+ *   "timeSpentMinutes": 12,   // Optional: defaults to previous attempt
+ *   "notes": "Remembered the DP state this time"
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   "review": { "_id": "...", "intervalDays": 6, "dueAt": "...", ... },
+ *   "practiceLog": { "_id": "...", "solved": true, ... }
+ * }
+ * 
+ * Errors:
+ * - 404: Review item not found
+ */
+router.post('/reviews/:id/grade', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = gradeReviewSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const result = await runIdempotent(
+            {
+                userId,
+                scope: 'practice.reviews.grade',
+                key: req.header(IDEMPOTENCY_HEADER),
+                request: { reviewId: req.params.id, ...validatedData },
+                statusCode: 200,
+            },
+            () => reviewService.gradeReview(userId, req.params.id, validatedData)
+        );
+
+        sendIdempotent(res, result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/practice/sessions
+ * 
+ * Start a server-timed practice session (one open session per user)
+ * 
+ * Request body:
+ * {
+ *   "topicId": "507f1f77bcf86cd799439011"
+ * }
+ * 
+ * Response (201 Created):
+ * {
+ *   "_id": "...",
+ *   "topicName": "Graphs",
+ *   "status": "active",
+ *   "segments": [{ "startedAt": "2024-01-01T10:00:00Z" }],
+ *   "activeSeconds": 0,
+ *   ...
+ * }
+ * 
+ * Errors:
+ * - 400: An open practice session already exists
+ * - 404: Topic not found
+ */
+router.post('/sessions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = startSessionSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const session = await sessionService.startSession(userId, validatedData.topicId);
+
+        res.status(201).json(session);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/practice/sessions/current
+ * 
+ * Get the open (active or paused) session, or null
+ */
+router.get('/sessions/current', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        const session = await sessionService.getCurrentSession(userId);
+
+        res.status(200).json(session);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/practice/sessions/:id/pause
+ * 
+ * Pause the timer
+ */
+router.post('/sessions/:id/pause', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        const session = await sessionService.pauseSession(userId, req.params.id);
+
+        res.status(200).json(session);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/practice/sessions/:id/resume
+ * 
+ * Resume the timer
+ */
+router.post('/sessions/:id/resume', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        const session = await sessionService.resumeSession(userId, req.params.id);
+
+        res.status(200).json(session);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/practice/sessions/:id/finish
+ * 
+ * Finish the session. Active time (pauses excluded) is split evenly across
+ * the questions and each one is logged like POST /api/practice.
+ * An empty questions list discards the session.
+ * Accepts an Idempotency-Key header, like POST /api/practice.
+ * 
+ * Request body:
+ * {
+ *   "questions": [
+ *     { "questionTitle": "Number of Islands", "difficulty": "Medium", "solved": true },
+ *     { "questionTitle": "Course Schedule", "difficulty": "Medium", "solved": false }
+ *   ]
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   "session": { "_id": "...", "status": "finished", "activeSeconds": 3120, ... },
+ *   "practiceLogs": [
+ *     { "_id": "...", "questionTitle": "Number of Islands", "timeSpentMinutes": 26, ... },
+ *     ...
+ *   ]
+ * }
+ */
+router.post('/sessions/:id/finish', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = finishSessionSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const result = await runIdempotent(
+            {
+                userId,
+                scope: 'practice.sessions.finish',
+                key: req.header(IDEMPOTENCY_HEADER),
+                request: { sessionId: req.params.id, ...validatedData },
+                statusCode: 200,
+            },
+            () => sessionService.finishSession(userId, req.params.id, validatedData)
+        );
+
+        sendIdempotent(res, result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PATCH /api/practice/:id
+ * 
+ * Fix a practice log. Accepts any subset of the POST /api/practice fields.
+ * Points, streak, topic progress and daily challenge are recalculated;
+ * badges already earned are kept.
+ * 
+ * Request body:
+ * {
+ *   "difficulty": "Medium",
+ *   "solved": true
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   "_id": "...",
+ *   "difficulty": "Medium",
+ *   "solved": true,
+ *   "pointsAwarded": 20,
+ *   ...
+ * }
+ * 
+ * Errors:
+ * - 404: Practice log or topic not found
+ */
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = updatePracticeLogSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const practiceLog = await practiceService.updatePracticeLog(userId, req.params.id, validatedData);
+
+        res.status(200).json(practiceLog);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/practice/:id
+ * 
+ * Delete a practice log. Its points are taken back and streak, topic
+ * progress and daily challenge are recalculated.
+ * 
+ * Response (200 OK):
+ * {
+ *   "message": "Practice log deleted successfully"
+ * }
+ * 
+ * Errors:
+ * - 404: Practice log not found
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        await practiceService.deletePracticeLog(userId, req.params.id);
+
+        res.status(200).json({ message: 'Practice log deleted successfully' });
+    } catch (error) {
+        next(error);
+    }
+});
+
 export default router;
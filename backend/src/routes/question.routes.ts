@@ -0,0 +1,179 @@
+/**
+ * Question Routes
+ *
+ * Admin endpoints for managing the canonical question bank
+ */
+
+import express, { Request, Response } from 'express';
+import {
+    createQuestion,
+    getQuestions,
+    getQuestionById,
+    updateQuestion,
+    deleteQuestion,
+} from '../services/question.service';
+import {
+    createQuestionSchema,
+    updateQuestionSchema,
+    getQuestionsSchema,
+} from '../validators/question.validator';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.middleware';
+import { logAdminAction } from '../middleware/auditLog.middleware';
+import { AdminPermission } from '../types/admin.types';
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/questions
+ * List questions (filter by search, topicId, platform, difficulty)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validatedQuery = getQuestionsSchema.parse(req.query);
+
+        const result = await getQuestions(validatedQuery);
+
+        res.status(200).json({
+            success: true,
+            data: result,
+        });
+    } catch (error: any) {
+        if (error.name === 'ZodError') {
+            res.status(400).json({
+                success: false,
+                message: 'Validation error',
+                errors: error.errors,
+            });
+            return;
+        }
+
+        res.status(500).json({
+            success: false,
+            message: error.message || 'Failed to list questions',
+        });
+    }
+});
+
+/**
+ * GET /api/admin/questions/:id
+ * Get question with cross-user stats
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const question = await getQuestionById(req.params.id);
+
+        res.status(200).json({
+            success: true,
+            data: question,
+        });
+    } catch (error: any) {
+        res.status(404).json({
+            success: false,
+            message: error.message || 'Question not found',
+        });
+    }
+});
+
+/**
+ * POST /api/admin/questions
+ * Create question
+ */
+router.post(
+    '/',
+    requirePermission(AdminPermission.CREATE_QUESTIONS),
+    logAdminAction('CREATE', 'Question'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const validatedData = createQuestionSchema.parse(req.body);
+
+            const question = await createQuestion(validatedData);
+
+            res.status(201).json({
+                success: true,
+                message: 'Question created successfully',
+                data: question,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(400).json({
+                success: false,
+                message: error.message || 'Failed to create question',
+            });
+        }
+    }
+);
+
+/**
+ * PUT /api/admin/questions/:id
+ * Update question
+ */
+router.put(
+    '/:id',
+    requirePermission(AdminPermission.EDIT_QUESTIONS),
+    logAdminAction('UPDATE', 'Question'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const validatedData = updateQuestionSchema.parse(req.body);
+
+            const question = await updateQuestion(req.params.id, validatedData);
+
+            res.status(200).json({
+                success: true,
+                message: 'Question updated successfully',
+                data: question,
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation error',
+                    errors: error.errors,
+                });
+                return;
+            }
+
+            res.status(500).json({
+                success: false,
+                message: error.message || 'Failed to update question',
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /api/admin/questions/:id
+ * Delete question (practice logs are unlinked, not deleted)
+ */
+router.delete(
+    '/:id',
+    requirePermission(AdminPermission.DELETE_QUESTIONS),
+    logAdminAction('DELETE', 'Question'),
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            await deleteQuestion(req.params.id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Question deleted successfully',
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                message: error.message || 'Failed to delete question',
+            });
+        }
+    }
+);
+
+export default router;
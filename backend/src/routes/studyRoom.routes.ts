@@ -24,6 +24,10 @@ const joinRoomSchema = z.object({
     password: z.string().optional(),
 });
 
+const inviteFriendsSchema = z.object({
+    userIds: z.array(z.string().min(1)).min(1, 'At least one friend is required').max(20),
+});
+
 /**
  * POST /api/study-rooms
  * Create a new study room
@@ -130,6 +134,31 @@ router.post('/:roomId/join', authMiddleware, async (req, res) => {
     }
 });
 
+/**
+ * POST /api/study-rooms/:roomId/invite
+ * Invite friends to a study room (they can join without the password)
+ */
+router.post('/:roomId/invite', authMiddleware, async (req, res) => {
+    try {
+        const { roomId } = req.params;
+        const validatedData = inviteFriendsSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const { room, invitedIds } = await StudyRoomService.inviteFriends(roomId, userId, validatedData.userIds);
+
+        res.json({
+            success: true,
+            message: `Invited ${invitedIds.length} friend(s)`,
+            data: { roomId: room.roomId, invitedUserIds: invitedIds },
+        });
+    } catch (error: any) {
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Failed to invite friends',
+        });
+    }
+});
+
 /**
  * POST /api/study-rooms/:roomId/leave
  * Leave a study room
@@ -7,6 +7,14 @@
  * Endpoints:
  * - GET /api/users/me - Get current user profile
  * - PUT /api/users/me - Update current user profile
+ * - GET /api/users/me/streak - Streak calendar (practiced / frozen / missed days)
+ * - POST /api/users/me/streak/freezes - Buy a streak freeze with points
+ * - GET /api/users/me/level - Level, title and points to the next level
+ * - GET /api/users/me/points/history - Points ledger (where every point came from)
+ * - GET /api/users/me/followers - Users following me
+ * - GET /api/users/me/following - Users I follow
+ * - POST /api/users/:id/follow - Follow a user
+ * - DELETE /api/users/:id/follow - Unfollow a user
  * 
  * Why separate from auth routes?
  * - Different resource (users vs auth)
@@ -16,7 +24,13 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import * as authService from '../services/auth.service';
+import * as streakService from '../services/streak.service';
+import * as economyService from '../services/economy.service';
+import * as pointsService from '../services/points.service';
+import * as socialService from '../services/social.service';
 import { updateProfileSchema } from '../validators/auth.validator';
+import { getStreakCalendarSchema, getPointHistorySchema } from '../validators/gamification.validator';
+import { getSocialListSchema } from '../validators/social.validator';
 import { authenticateToken } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -36,6 +50,7 @@ const router = Router();
  * - college: College name (optional)
  * - graduationYear: Graduation year (optional)
  * - targetCompanies: Target companies (optional)
+ * - timezone: IANA time zone, e.g. "Asia/Kolkata" (default "UTC")
  * - createdAt: Account creation date
  * - updatedAt: Last update date
  * 
@@ -77,6 +92,8 @@ router.get('/me', authenticateToken, async (req: Request, res: Response, next: N
  * - college: New college name
  * - graduationYear: New graduation year
  * - targetCompanies: New target companies array
+ * - timezone: IANA time zone (e.g., "Asia/Kolkata"). Streaks, daily
+ *   challenges and time-of-day badges use the user's local day
  * 
  * Response (200 OK):
  * - Updated user profile (same format as GET /me)
@@ -110,4 +127,222 @@ router.put('/me', authenticateToken, async (req: Request, res: Response, next: N
     }
 });
 
+/**
+ * GET /api/users/me/streak
+ * 
+ * Streak calendar, in the user's time zone (oldest day first)
+ * 
+ * Query params:
+ * - days (optional): Days to show, ending today (default: 35, 7-365)
+ * 
+ * Response (200 OK):
+ * {
+ *   "timezone": "Asia/Kolkata",
+ *   "currentStreak": 12,
+ *   "longestStreak": 20,
+ *   "streakFreezes": 1,
+ *   "maxStreakFreezes": 2,
+ *   "freezeCost": 200,
+ *   "days": [
+ *     { "date": "2024-01-01", "status": "practiced" },
+ *     { "date": "2024-01-02", "status": "frozen" },
+ *     { "date": "2024-01-03", "status": "missed" },
+ *     ...
+ *     { "date": "2024-02-04", "status": "pending" }   // Today, not practiced yet
+ *   ]
+ * }
+ */
+router.get('/me/streak', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getStreakCalendarSchema.parse(req.query);
+        const userId = req.user!.userId;
+
+        const calendar = await streakService.getStreakCalendar(userId, validatedQuery.days);
+
+        res.status(200).json(calendar);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/users/me/streak/freezes
+ * 
+ * Buy one streak freeze. A held freeze is used automatically the next time
+ * exactly one day is missed.
+ * 
+ * Response (201 Created):
+ * {
+ *   "streakFreezes": 1,
+ *   "totalPoints": 340
+ * }
+ * 
+ * Errors:
+ * - 400: { "error": "INSUFFICIENT_POINTS", "details": { "required": 200, "available": 120 } }
+ * - 409: { "error": "STREAK_FREEZE_LIMIT", ... } (already holding the max)
+ */
+router.post('/me/streak/freezes', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        const result = await streakService.purchaseStreakFreeze(userId);
+
+        res.status(201).json(result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/users/me/level
+ * 
+ * Level and title on the current level curve
+ * 
+ * Response (200 OK):
+ * {
+ *   "level": 4,
+ *   "title": "Novice",
+ *   "totalPoints": 560,
+ *   "currentLevelPoints": 520,
+ *   "nextLevelPoints": 800,
+ *   "nextTitle": { "level": 5, "title": "Apprentice" }
+ * }
+ */
+router.get('/me/level', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        const progress = await economyService.getUserLevelProgress(userId);
+
+        res.status(200).json(progress);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/users/me/points/history
+ * 
+ * Points ledger, newest first
+ * 
+ * Query parameters:
+ * - limit: 1-100 (default 20)
+ * - skip: offset (default 0)
+ * - source: practice | import | badge | daily_challenge | streak_freeze | balance_floor | opening_balance
+ * 
+ * Response (200 OK):
+ * {
+ *   "transactions": [
+ *     { "_id": "...", "source": "badge", "amount": 50, "referenceId": "night_owl", "description": "night_owl", "createdAt": "..." },
+ *     { "_id": "...", "source": "practice", "amount": 25, "referenceId": "65f...", "description": "Two Sum", "createdAt": "..." }
+ *   ],
+ *   "total": 42,
+ *   "totalPoints": 1340
+ * }
+ */
+router.get('/me/points/history', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getPointHistorySchema.parse(req.query);
+        const userId = req.user!.userId;
+
+        const history = await pointsService.getPointHistory(userId, validatedQuery);
+
+        res.status(200).json(history);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/users/me/followers
+ * 
+ * Users following me (newest first)
+ * 
+ * Query params:
+ * - limit (optional): Page size (default: 20, max 50)
+ * - skip (optional): Pagination offset (default: 0)
+ * 
+ * Response (200 OK):
+ * {
+ *   "users": [{ "userId": "...", "userName": "Asha", "college": "IIT Delhi", "level": 4, "currentStreak": 6 }],
+ *   "total": 12
+ * }
+ */
+router.get('/me/followers', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getSocialListSchema.parse(req.query);
+        const userId = req.user!.userId;
+
+        const followers = await socialService.getFollows(userId, 'followers', validatedQuery);
+
+        res.status(200).json(followers);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/users/me/following
+ * 
+ * Users I follow (newest first), same query params and response as /me/followers
+ */
+router.get('/me/following', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedQuery = getSocialListSchema.parse(req.query);
+        const userId = req.user!.userId;
+
+        const following = await socialService.getFollows(userId, 'following', validatedQuery);
+
+        res.status(200).json(following);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/users/:id/follow
+ * 
+ * Follow a user (their activity shows in my feed, if they share it with followers)
+ * Following someone already followed is a no-op
+ * 
+ * Response (200 OK):
+ * { "userId": "...", "following": true, "followers": 13 }
+ * 
+ * Errors:
+ * - 400: Following yourself
+ * - 403: The user doesn't accept followers
+ * - 404: User not found
+ */
+router.post('/:id/follow', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        const status = await socialService.followUser(userId, req.params.id);
+
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/users/:id/follow
+ * 
+ * Unfollow a user
+ * 
+ * Response (200 OK):
+ * { "userId": "...", "following": false, "followers": 12 }
+ */
+router.delete('/:id/follow', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        const status = await socialService.unfollowUser(userId, req.params.id);
+
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
 export default router;
@@ -0,0 +1,34 @@
+import cron from 'node-cron';
+import { initializeCronJobs } from './cronJobs';
+import { recordRankHistory } from '../services/leaderboard.service';
+
+jest.mock('node-cron', () => ({ __esModule: true, default: { schedule: jest.fn() } }));
+jest.mock('../services/challenge.service', () => ({}));
+jest.mock('../services/leaderboard.service', () => ({ recordRankHistory: jest.fn() }));
+jest.mock('../services/recommendation.service', () => ({ RecommendationService: {} }));
+jest.mock('../services/emailDigest.service', () => ({}));
+jest.mock('../services/economy.service', () => ({ runLevelMigration: jest.fn() }));
+jest.mock('../services/points.service', () => ({ reconcileAllPoints: jest.fn() }));
+
+describe('initializeCronJobs', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Regression: the rank history ran on server-local midnight, so a snapshot
+    // could land on the previous UTC day (or two on the same one)
+    it('records rank history just after UTC midnight', async () => {
+        initializeCronJobs();
+
+        const job = (cron.schedule as jest.Mock).mock.calls.find(([expression]) => expression === '10 0 * * *');
+        expect(job).toBeDefined();
+        expect(job[2]).toEqual({ timezone: 'UTC' });
+
+        await job[1]();
+        expect(recordRankHistory).toHaveBeenCalledTimes(1);
+    });
+});
@@ -2,13 +2,24 @@
  * Cron Jobs for Gamification
  * 
  * Scheduled tasks:
- * 1. Generate daily challenges (midnight)
- * 2. Update leaderboard cache (every 15 minutes)
+ * 1. Generate daily challenges (hourly, for users at local midnight)
+ * 2. Snapshot leaderboards into MongoDB (hourly)
+ * 3. Notify users whose recommendations expire within a day (hourly)
+ * 4. Weekly digest emails (hourly, for users at Monday 09:00 local)
+ * 5. Streak reminder emails (hourly, for users at 20:00 local)
+ * 6. Resume a pending level migration (every 15 minutes)
+ * 7. Reconcile totalPoints with the points ledger (daily at 03:00)
+ * 8. Archive winners of finished leaderboard periods (hourly)
+ * 9. Record every user's daily rank and prune old days (daily at 00:10)
  */
 
 import cron from 'node-cron';
 import * as challengeService from '../services/challenge.service';
 import * as leaderboardService from '../services/leaderboard.service';
+import { RecommendationService } from '../services/recommendation.service';
+import * as emailDigestService from '../services/emailDigest.service';
+import { runLevelMigration } from '../services/economy.service';
+import { reconcileAllPoints } from '../services/points.service';
 
 /**
  * Initialize all cron jobs
@@ -16,8 +27,8 @@ import * as leaderboardService from '../services/leaderboard.service';
 export const initializeCronJobs = (): void => {
     console.log('⏰ Initializing cron jobs...');
 
-    // Daily challenge generation - runs at midnight (00:00) every day
-    cron.schedule('0 0 * * *', async () => {
+    // Daily challenge generation - runs every hour, picks users whose local day just started
+    cron.schedule('0 * * * *', async () => {
         console.log('🎯 Running daily challenge generation...');
         try {
             await challengeService.generateChallengesForAllUsers();
@@ -26,17 +37,92 @@ export const initializeCronJobs = (): void => {
         }
     });
 
-    // Leaderboard cache update - runs every 15 minutes
+    // Leaderboard snapshots - runs every hour (live rankings are in Redis)
+    cron.schedule('15 * * * *', async () => {
+        console.log('🏆 Running leaderboard snapshot...');
+        try {
+            await leaderboardService.snapshotLeaderboards();
+        } catch (error) {
+            console.error('❌ Error snapshotting leaderboards:', error);
+        }
+    });
+
+    // Expiring recommendation reminders - runs every hour
+    cron.schedule('30 * * * *', async () => {
+        console.log('🔔 Running expiring recommendation reminders...');
+        try {
+            await RecommendationService.notifyExpiringRecommendations();
+        } catch (error) {
+            console.error('❌ Error sending recommendation reminders:', error);
+        }
+    });
+
+    // Weekly digest - runs every hour, picks users whose local Monday 09:00 just started
+    cron.schedule('0 * * * *', async () => {
+        console.log('📧 Running weekly digest emails...');
+        try {
+            await emailDigestService.sendWeeklyDigests();
+        } catch (error) {
+            console.error('❌ Error sending weekly digests:', error);
+        }
+    });
+
+    // Streak reminders - runs every hour, picks users at 20:00 local who haven't practiced today
+    cron.schedule('0 * * * *', async () => {
+        console.log('🔥 Running streak reminder emails...');
+        try {
+            await emailDigestService.sendStreakReminders();
+        } catch (error) {
+            console.error('❌ Error sending streak reminders:', error);
+        }
+    });
+
+    // Level migration - picks up a migration whose instance died (no-op otherwise)
     cron.schedule('*/15 * * * *', async () => {
-        console.log('🏆 Running leaderboard cache update...');
         try {
-            await leaderboardService.updateLeaderboardCache();
+            await runLevelMigration();
         } catch (error) {
-            console.error('❌ Error updating leaderboard cache:', error);
+            console.error('❌ Error migrating user levels:', error);
         }
     });
 
+    // Points reconciliation - nightly, while traffic is low
+    cron.schedule('0 3 * * *', async () => {
+        console.log('🧾 Running points reconciliation...');
+        try {
+            await reconcileAllPoints();
+        } catch (error) {
+            console.error('❌ Error reconciling points:', error);
+        }
+    });
+
+    // Leaderboard period archive - runs every hour, archives periods that just rolled over
+    cron.schedule('5 * * * *', async () => {
+        try {
+            await leaderboardService.archiveFinishedPeriods();
+        } catch (error) {
+            console.error('❌ Error archiving leaderboard periods:', error);
+        }
+    });
+
+    // Rank history - runs daily, one snapshot per UTC day (re-runs overwrite it)
+    cron.schedule('10 0 * * *', async () => {
+        console.log('📈 Recording rank history...');
+        try {
+            await leaderboardService.recordRankHistory();
+        } catch (error) {
+            console.error('❌ Error recording rank history:', error);
+        }
+    }, { timezone: 'UTC' });
+
     console.log('✅ Cron jobs initialized');
-    console.log('   - Daily challenges: 00:00 (midnight)');
-    console.log('   - Leaderboard update: Every 15 minutes');
+    console.log('   - Daily challenges: Hourly (local midnight per user)');
+    console.log('   - Leaderboard snapshots: Hourly');
+    console.log('   - Recommendation reminders: Hourly');
+    console.log('   - Weekly digest: Hourly (Monday 09:00 local per user)');
+    console.log('   - Streak reminders: Hourly (20:00 local per user)');
+    console.log('   - Level migration: Every 15 minutes (when pending)');
+    console.log('   - Points reconciliation: Daily at 03:00');
+    console.log('   - Leaderboard period archive: Hourly');
+    console.log('   - Rank history: Daily at 00:10');
 };
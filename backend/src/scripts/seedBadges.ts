@@ -8,6 +8,9 @@
 import dotenv from 'dotenv';
 import { connectDB } from '../config/database';
 import { Badge } from '../models/Badge';
+import { UserBadge } from '../models/UserBadge';
+import { User } from '../models/User';
+import { BadgeTier } from '../types/gamification.types';
 
 dotenv.config();
 
@@ -18,50 +21,25 @@ const badges = [
         name: 'First Blood',
         description: 'Solve your first question',
         category: 'milestone',
-        criteria: { type: 'solve_count', value: 1 },
+        criteria: { type: 'count', min: 1, where: { solved: true } },
         iconUrl: '/badges/first_blood.png',
         rarity: 'common',
         points: 10,
     },
     {
-        badgeId: 'decade',
-        name: 'Decade',
-        description: 'Solve 10 questions',
+        badgeId: 'problem_solver',
+        name: 'Problem Solver',
+        description: 'Solve 10 / 50 / 100 / 500 questions',
         category: 'milestone',
-        criteria: { type: 'solve_count', value: 10 },
-        iconUrl: '/badges/decade.png',
-        rarity: 'common',
-        points: 25,
-    },
-    {
-        badgeId: 'half_century',
-        name: 'Half Century',
-        description: 'Solve 50 questions',
-        category: 'milestone',
-        criteria: { type: 'solve_count', value: 50 },
-        iconUrl: '/badges/half_century.png',
-        rarity: 'rare',
-        points: 50,
-    },
-    {
-        badgeId: 'century_club',
-        name: 'Century Club',
-        description: 'Solve 100 questions',
-        category: 'milestone',
-        criteria: { type: 'solve_count', value: 100 },
+        tiers: [
+            { tier: 'bronze', criteria: { type: 'count', min: 10, where: { solved: true } }, points: 25 },
+            { tier: 'silver', criteria: { type: 'count', min: 50, where: { solved: true } }, points: 50 },
+            { tier: 'gold', criteria: { type: 'count', min: 100, where: { solved: true } }, points: 100 },
+            { tier: 'platinum', criteria: { type: 'count', min: 500, where: { solved: true } }, points: 500 },
+        ],
         iconUrl: '/badges/century.png',
         rarity: 'epic',
-        points: 100,
-    },
-    {
-        badgeId: 'legend',
-        name: 'Legend',
-        description: 'Solve 500 questions',
-        category: 'milestone',
-        criteria: { type: 'solve_count', value: 500 },
-        iconUrl: '/badges/legend.png',
-        rarity: 'legendary',
-        points: 500,
+        points: 675,
     },
 
     // Consistency Badges
@@ -70,7 +48,7 @@ const badges = [
         name: 'Getting Started',
         description: 'Practice for 3 consecutive days',
         category: 'consistency',
-        criteria: { type: 'streak_days', value: 3 },
+        criteria: { type: 'streak', min: 3 },
         iconUrl: '/badges/streak_3.png',
         rarity: 'common',
         points: 15,
@@ -80,7 +58,7 @@ const badges = [
         name: 'Week Warrior',
         description: 'Maintain a 7-day streak',
         category: 'consistency',
-        criteria: { type: 'streak_days', value: 7 },
+        criteria: { type: 'streak', min: 7 },
         iconUrl: '/badges/streak_7.png',
         rarity: 'rare',
         points: 50,
@@ -90,7 +68,7 @@ const badges = [
         name: 'Unstoppable',
         description: 'Maintain a 30-day streak',
         category: 'consistency',
-        criteria: { type: 'streak_days', value: 30 },
+        criteria: { type: 'streak', min: 30 },
         iconUrl: '/badges/streak_30.png',
         rarity: 'epic',
         points: 150,
@@ -100,11 +78,22 @@ const badges = [
         name: 'Dedication',
         description: 'Maintain a 100-day streak',
         category: 'consistency',
-        criteria: { type: 'streak_days', value: 100 },
+        criteria: { type: 'streak', min: 100 },
         iconUrl: '/badges/streak_100.png',
         rarity: 'legendary',
         points: 500,
     },
+    {
+        badgeId: 'perfect_week',
+        name: 'Perfect Week',
+        description: 'Practice every day for a week (earned again every week)',
+        category: 'consistency',
+        criteria: { type: 'active_days', min: 7, where: { lastDays: 7 } },
+        repeatable: true,
+        iconUrl: '/badges/perfect_week.png',
+        rarity: 'rare',
+        points: 30,
+    },
 
     // Mastery Badges
     {
@@ -112,7 +101,7 @@ const badges = [
         name: 'Perfectionist',
         description: 'Achieve 100% accuracy (min 10 questions)',
         category: 'mastery',
-        criteria: { type: 'accuracy', value: 100 },
+        criteria: { type: 'accuracy', min: 100, minAttempts: 10 },
         iconUrl: '/badges/perfect.png',
         rarity: 'epic',
         points: 100,
@@ -122,7 +111,7 @@ const badges = [
         name: 'Sharpshooter',
         description: 'Achieve 90% overall accuracy',
         category: 'mastery',
-        criteria: { type: 'accuracy', value: 90 },
+        criteria: { type: 'accuracy', min: 90 },
         iconUrl: '/badges/accuracy_90.png',
         rarity: 'rare',
         points: 75,
@@ -134,7 +123,7 @@ const badges = [
         name: 'Early Bird',
         description: 'Practice before 6 AM',
         category: 'special',
-        criteria: { type: 'time_based', value: 1 },
+        criteria: { type: 'count', min: 1, where: { hours: { from: 0, to: 6 } } },
         iconUrl: '/badges/early_bird.png',
         rarity: 'rare',
         points: 25,
@@ -144,7 +133,7 @@ const badges = [
         name: 'Night Owl',
         description: 'Practice after 10 PM',
         category: 'special',
-        criteria: { type: 'time_based', value: 1 },
+        criteria: { type: 'count', min: 1, where: { hours: { from: 22, to: 24 } } },
         iconUrl: '/badges/night_owl.png',
         rarity: 'rare',
         points: 25,
@@ -154,13 +143,69 @@ const badges = [
         name: 'Speed Demon',
         description: 'Solve 10 questions in one day',
         category: 'special',
-        criteria: { type: 'time_based', value: 10 },
+        criteria: { type: 'count', min: 10, per: 'day', where: { solved: true } },
         iconUrl: '/badges/speed.png',
         rarity: 'epic',
         points: 50,
     },
 ];
 
+/**
+ * decade / half_century / century_club / legend became the tiers of
+ * problem_solver: fold each user's earned copies into one tiered badge
+ * (points already credited stay; the badge count drops to one badge)
+ */
+const LEGACY_SOLVER_TIERS: Record<string, BadgeTier> = {
+    decade: 'bronze',
+    half_century: 'silver',
+    century_club: 'gold',
+    legend: 'platinum',
+};
+const TIER_ORDER: BadgeTier[] = ['bronze', 'silver', 'gold', 'platinum'];
+
+const migrateLegacySolverBadges = async (): Promise<number> => {
+    const legacyIds = Object.keys(LEGACY_SOLVER_TIERS);
+    const rows = await UserBadge.find({ badgeId: { $in: legacyIds }, earnedAt: { $ne: null } })
+        .sort({ earnedAt: 1 });
+
+    const rowsByUser = new Map<string, typeof rows>();
+    for (const row of rows) {
+        rowsByUser.set(row.userId, [...(rowsByUser.get(row.userId) || []), row]);
+    }
+
+    for (const [userId, userRows] of rowsByUser) {
+        const tier = userRows
+            .map((row) => LEGACY_SOLVER_TIERS[row.badgeId])
+            .reduce((best, t) => (TIER_ORDER.indexOf(t) > TIER_ORDER.indexOf(best) ? t : best));
+
+        await UserBadge.updateOne(
+            { userId, badgeId: 'problem_solver' },
+            {
+                $set: {
+                    earnedAt: userRows[0].earnedAt,
+                    lastEarnedAt: userRows[userRows.length - 1].earnedAt,
+                    tier,
+                    earnCount: userRows.length,
+                    progress: tier === 'platinum' ? 100 : 0,
+                },
+                // Progress towards the next tier is recomputed on next read
+                $unset: { current: 1, target: 1, unit: 1 },
+            },
+            { upsert: true }
+        );
+
+        await User.findByIdAndUpdate(userId, {
+            $inc: {
+                'gamification.badgesEarned': -(userRows.length - 1),
+                [`gamification.badgeTiers.${tier}`]: 1,
+            },
+        });
+    }
+
+    await UserBadge.deleteMany({ badgeId: { $in: legacyIds } });
+    return rowsByUser.size;
+};
+
 const seedBadges = async () => {
     try {
         console.log('🌱 Seeding badges...');
@@ -175,6 +220,11 @@ const seedBadges = async () => {
         await Badge.insertMany(badges);
         console.log(`✅ Successfully seeded ${badges.length} badges`);
 
+        const migratedUsers = await migrateLegacySolverBadges();
+        if (migratedUsers > 0) {
+            console.log(`🔁 Moved ${migratedUsers} users' milestone badges to problem_solver tiers`);
+        }
+
         // Display badges by category
         const categories = ['milestone', 'consistency', 'mastery', 'special'];
         for (const category of categories) {
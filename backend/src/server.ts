@@ -35,13 +35,27 @@ import leaderboardRoutes from './routes/leaderboard.routes';
 import challengeRoutes from './routes/challenge.routes';
 import sharingRoutes from './routes/sharing.routes';
 import adminRoutes from './routes/admin.routes';
+import questionRoutes from './routes/question.routes';
+import adminBadgeRoutes from './routes/adminBadge.routes';
+import adminEconomyRoutes from './routes/adminEconomy.routes';
+import adminReviewRoutes from './routes/adminReview.routes';
 import analyticsRoutes from './routes/analytics.routes';
 import recommendationRoutes from './routes/recommendation.routes';
 import studyRoomRoutes from './routes/studyRoom.routes';
+import notificationRoutes from './routes/notification.routes';
+import friendsRoutes from './routes/friends.routes';
+import emailRoutes from './routes/email.routes';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import { initializeCronJobs } from './scripts/cronJobs';
 import { apiLimiter, authLimiter, practiceLimiter } from './middleware/rateLimiter.middleware';
 import { SocketService } from './services/socket.service';
+import { eventBus } from './services/eventBus.service';
+import { registerPracticePipeline } from './services/practicePipeline.service';
+import { registerAchievementNotifications } from './services/achievement.service';
+import { registerNotificationSubscribers } from './services/notification.service';
+import { registerSocialSubscribers } from './services/social.service';
+import { registerEconomySubscribers, runLevelMigration } from './services/economy.service';
+import { initializeLeaderboards } from './services/leaderboard.service';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -67,7 +81,8 @@ app.use(
 );
 
 // 2. JSON Parser - Parse JSON request bodies
-app.use(express.json());
+// (1mb limit: practice history imports carry whole CSV/JSON exports)
+app.use(express.json({ limit: '1mb' }));
 
 // 3. URL-encoded Parser - Parse form data
 app.use(express.urlencoded({ extended: true }));
@@ -107,10 +122,18 @@ app.use('/api/badges', badgeRoutes);
 app.use('/api/leaderboard', leaderboardRoutes);
 app.use('/api/challenges', challengeRoutes);
 app.use('/api/share', sharingRoutes);
+// Mounted before adminRoutes so /api/admin/:id doesn't swallow /api/admin/questions
+app.use('/api/admin/questions', questionRoutes);
+app.use('/api/admin/badges', adminBadgeRoutes);
+app.use('/api/admin/economy', adminEconomyRoutes);
+app.use('/api/admin/reviews', adminReviewRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/admin/analytics', analyticsRoutes);
 app.use('/api/recommendations', recommendationRoutes);
 app.use('/api/study-rooms', studyRoomRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/friends', friendsRoutes);
+app.use('/api/email', emailRoutes);
 
 /**
  * Error Handlers
@@ -137,6 +160,16 @@ const startServer = async (): Promise<void> => {
         // Connect to MongoDB
         await connectDB();
 
+        // Register domain event subscribers
+        registerPracticePipeline();
+        registerAchievementNotifications();
+        registerNotificationSubscribers();
+        registerSocialSubscribers();
+        registerEconomySubscribers();
+        if (process.env.EVENT_BUS_TRANSPORT === 'redis') {
+            await eventBus.enableRedisTransport();
+        }
+
         // Create HTTP server for Socket.IO
         const httpServer = createServer(app);
 
@@ -161,14 +194,30 @@ const startServer = async (): Promise<void> => {
             console.log('  User Profile:');
             console.log('    GET    /api/users/me (protected)');
             console.log('    PUT    /api/users/me (protected)');
+            console.log('    GET    /api/users/me/streak (protected)');
+            console.log('    POST   /api/users/me/streak/freezes (protected)');
+            console.log('    GET    /api/users/me/level (protected)');
+            console.log('    GET    /api/users/me/points/history (protected)');
+            console.log('    GET    /api/users/me/followers (protected)');
+            console.log('    GET    /api/users/me/following (protected)');
+            console.log('    POST   /api/users/:id/follow (protected)');
+            console.log('    DELETE /api/users/:id/follow (protected)');
             console.log('  Topics:');
             console.log('    GET    /api/topics');
             console.log('    GET    /api/topics/:id');
             console.log('  Practice:');
             console.log('    POST   /api/practice (protected)');
+            console.log('    POST   /api/practice/sessions (protected)');
+            console.log('    GET    /api/practice/sessions/current (protected)');
+            console.log('    POST   /api/practice/sessions/:id/pause|resume|finish (protected)');
+            console.log('    PATCH  /api/practice/:id (protected)');
+            console.log('    DELETE /api/practice/:id (protected)');
+            console.log('    POST   /api/practice/import (protected)');
             console.log('    GET    /api/practice/history (protected)');
             console.log('    GET    /api/practice/stats (protected)');
             console.log('    GET    /api/practice/stats/:topicId (protected)');
+            console.log('    GET    /api/practice/reviews/due (protected)');
+            console.log('    POST   /api/practice/reviews/:id/grade (protected)');
             console.log('  Progress:');
             console.log('    GET    /api/progress/overview (protected)');
             console.log('    GET    /api/progress/topic/:topicId (protected)');
@@ -177,21 +226,68 @@ const startServer = async (): Promise<void> => {
             console.log('  Badges:');
             console.log('    GET    /api/badges');
             console.log('    GET    /api/badges/my (protected)');
+            console.log('    GET    /api/badges/my/progress (protected)');
             console.log('    GET    /api/badges/:badgeId/progress (protected)');
+            console.log('    GET    /api/admin/badges (admin)');
+            console.log('    POST   /api/admin/badges (admin)');
+            console.log('    POST   /api/admin/badges/preview (admin)');
+            console.log('    PUT    /api/admin/badges/:id (admin)');
+            console.log('    DELETE /api/admin/badges/:id (admin)');
+            console.log('    GET    /api/admin/economy (admin)');
+            console.log('    PUT    /api/admin/economy (admin)');
+            console.log('    POST   /api/admin/economy/migrate-levels (admin)');
+            console.log('    GET    /api/admin/economy/point-drift (admin)');
+            console.log('    GET    /api/admin/reviews (admin)');
+            console.log('    POST   /api/admin/reviews/:id/approve (admin)');
+            console.log('    POST   /api/admin/reviews/:id/reject (admin)');
             console.log('  Leaderboard:');
             console.log('    GET    /api/leaderboard/global');
             console.log('    GET    /api/leaderboard/topic/:topicId');
+            console.log('    GET    /api/leaderboard/colleges');
+            console.log('    GET    /api/leaderboard/college/:name');
+            console.log('    GET    /api/leaderboard/cohort/:year');
+            console.log('    GET    /api/leaderboard/my-cohort (protected)');
+            console.log('    GET    /api/leaderboard/friends (protected)');
             console.log('    GET    /api/leaderboard/my-rank (protected)');
+            console.log('    GET    /api/leaderboard/my-rank/history (protected)');
+            console.log('    GET    /api/leaderboard/around-me (protected)');
+            console.log('    GET    /api/leaderboard/winners');
             console.log('  Challenges:');
             console.log('    GET    /api/challenges/today (protected)');
             console.log('    GET    /api/challenges/history (protected)');
             console.log('  Sharing:');
             console.log('    GET    /api/share/stats (protected)');
             console.log('    GET    /api/share/card (protected)');
+            console.log('  Notifications:');
+            console.log('    GET    /api/notifications (protected)');
+            console.log('    POST   /api/notifications/:id/read (protected)');
+            console.log('    POST   /api/notifications/read-all (protected)');
+            console.log('    GET    /api/notifications/preferences (protected)');
+            console.log('    PUT    /api/notifications/preferences (protected)');
+            console.log('  Friends:');
+            console.log('    GET    /api/friends (protected)');
+            console.log('    GET    /api/friends/feed (protected)');
+            console.log('    GET    /api/friends/requests (protected)');
+            console.log('    POST   /api/friends/requests (protected)');
+            console.log('    POST   /api/friends/requests/:id/accept (protected)');
+            console.log('    DELETE /api/friends/requests/:id (protected)');
+            console.log('    DELETE /api/friends/:userId (protected)');
+            console.log('  Email:');
+            console.log('    GET    /api/email/unsubscribe?token=...');
+            console.log('    POST   /api/email/unsubscribe?token=... (one-click)');
             console.log('');
 
             // Initialize cron jobs
             initializeCronJobs();
+
+            initializeLeaderboards().catch((error) => {
+                console.error('❌ Leaderboard initialization failed:', error);
+            });
+
+            // Finish a level migration a restart interrupted (no-op if none is pending)
+            runLevelMigration().catch((error) => {
+                console.error('❌ Level migration failed:', error);
+            });
         });
     } catch (error) {
         console.error('❌ Failed to start server:', error);
@@ -0,0 +1,182 @@
+/**
+ * Achievement Service - Real-Time Achievement Notifications
+ *
+ * Turns gamification events into AchievementEvent records:
+ * - BadgeAwarded       → "Night Owl unlocked" (tiers and repeats included)
+ * - LevelUp            → "Level 5" (with the level's title)
+ * - StreakMilestone    → "30-day streak"
+ * - ChallengeCompleted → "Daily challenge complete"
+ *
+ * Each one is also recorded in the notification center; types the user
+ * muted are skipped entirely (no record, no push).
+ *
+ * Each record is saved inside the award's transaction, then announced with
+ * AchievementRecorded once that transaction commits. SocketService pushes
+ * it to the user's personal room on every instance; clients that missed it
+ * get it replayed on reconnect (getMissedAchievements).
+ */
+
+import { Types } from 'mongoose';
+import { eventBus } from './eventBus.service';
+import { getEconomy, getLevelTitle } from './economy.service';
+import { Badge } from '../models/Badge';
+import { AchievementEvent, IAchievementEvent } from '../models/AchievementEvent';
+import { createNotification } from './notification.service';
+import { runAfterCommit } from '../utils/transaction';
+import { AchievementEventResponse } from '../types/gamification.types';
+
+/**
+ * Most events replayed on one reconnect (oldest are dropped)
+ */
+export const MAX_REPLAYED_ACHIEVEMENTS = 50;
+
+const RETRIES = 2;
+
+type AchievementFields = Pick<
+    IAchievementEvent,
+    'type' | 'title' | 'description' | 'points' | 'iconUrl' | 'rarity' | 'tier'
+>;
+
+const toAchievementResponse = (event: IAchievementEvent): AchievementEventResponse => ({
+    id: event._id.toString(),
+    type: event.type,
+    title: event.title,
+    description: event.description,
+    points: event.points,
+    iconUrl: event.iconUrl,
+    rarity: event.rarity,
+    tier: event.tier,
+    createdAt: event.createdAt,
+});
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const ACHIEVEMENT_LINKS: Record<AchievementFields['type'], string> = {
+    badge_awarded: '/dashboard',
+    level_up: '/dashboard',
+    streak_milestone: '/dashboard',
+    challenge_completed: '/challenges',
+};
+
+/**
+ * Save an achievement (and its notification) and push it once the
+ * surrounding transaction commits
+ */
+const recordAchievement = async (userId: string, fields: AchievementFields): Promise<void> => {
+    const notification = await createNotification(userId, {
+        type: fields.type,
+        title: fields.title,
+        message: fields.description,
+        link: ACHIEVEMENT_LINKS[fields.type],
+    });
+    if (!notification) return; // Muted
+
+    const event = await AchievementEvent.create({ userId, ...fields });
+    const achievement = toAchievementResponse(event);
+
+    await runAfterCommit(async () => {
+        await eventBus.publish('AchievementRecorded', { userId, achievement });
+    });
+};
+
+/**
+ * Achievements recorded after the last one a client saw (oldest first)
+ *
+ * A client without a cursor gets nothing (it is sent one instead, see
+ * createAchievementCursor): replay fills gaps, it doesn't resend the week.
+ */
+export const getMissedAchievements = async (
+    userId: string,
+    lastSeenId?: string
+): Promise<AchievementEventResponse[]> => {
+    if (!lastSeenId || !Types.ObjectId.isValid(lastSeenId)) {
+        return [];
+    }
+
+    const events = await AchievementEvent.find({
+        userId,
+        _id: { $gt: new Types.ObjectId(lastSeenId) },
+    })
+        .sort({ _id: -1 })
+        .limit(MAX_REPLAYED_ACHIEVEMENTS);
+
+    return events.reverse().map(toAchievementResponse);
+};
+
+/**
+ * Replay cursor for a client that has none yet: everything recorded from
+ * now on counts as missed if the connection drops
+ */
+export const createAchievementCursor = (): string =>
+    Types.ObjectId.createFromTime(Math.floor(Date.now() / 1000)).toString();
+
+/**
+ * Register achievement subscribers on the event bus
+ * Called once at server startup
+ */
+export const registerAchievementNotifications = (): void => {
+    eventBus.subscribe(
+        'BadgeAwarded',
+        async ({ userId, badgeId, points, tier, earnCount }) => {
+            const badge = await Badge.findOne({ badgeId });
+            if (!badge) return;
+
+            let title = `${badge.name} unlocked`;
+            if (tier) {
+                title = `${badge.name}: ${capitalize(tier)}`;
+            } else if (earnCount > 1) {
+                title = `${badge.name} ×${earnCount}`;
+            }
+
+            await recordAchievement(userId, {
+                type: 'badge_awarded',
+                title,
+                description: badge.description,
+                points,
+                iconUrl: badge.iconUrl,
+                rarity: badge.rarity,
+                tier,
+            });
+        },
+        { name: 'achievements', retries: RETRIES }
+    );
+
+    eventBus.subscribe(
+        'LevelUp',
+        async ({ userId, newLevel }) =>
+            recordAchievement(userId, {
+                type: 'level_up',
+                title: `Level ${newLevel}`,
+                description: `You reached level ${newLevel}: ${getLevelTitle(newLevel, (await getEconomy()).levelTitles)}`,
+                points: 0,
+                rarity: 'rare',
+            }),
+        { name: 'achievements', retries: RETRIES }
+    );
+
+    eventBus.subscribe(
+        'StreakMilestone',
+        ({ userId, streak }) =>
+            recordAchievement(userId, {
+                type: 'streak_milestone',
+                title: `${streak}-day streak`,
+                description: `You practiced ${streak} days in a row`,
+                points: 0,
+                rarity: streak >= 100 ? 'legendary' : streak >= 30 ? 'epic' : 'rare',
+            }),
+        { name: 'achievements', retries: RETRIES }
+    );
+
+    eventBus.subscribe(
+        'ChallengeCompleted',
+        ({ userId, rewardPoints }) =>
+            recordAchievement(userId, {
+                type: 'challenge_completed',
+                title: 'Daily challenge complete',
+                description: "You finished all of today's challenges",
+                points: rewardPoints,
+                rarity: 'common',
+            }),
+        { name: 'achievements', retries: RETRIES }
+    );
+};
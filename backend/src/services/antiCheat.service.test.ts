@@ -0,0 +1,102 @@
+import { scorePracticeLog, SUSPICION_THRESHOLD } from './antiCheat.service';
+import { PracticeLog } from '../models/PracticeLog';
+
+jest.mock('../models/PracticeLog', () => ({ PracticeLog: { countDocuments: jest.fn(), exists: jest.fn() } }));
+jest.mock('../models/Topic', () => ({ Topic: {} }));
+jest.mock('../models/User', () => ({ User: {} }));
+jest.mock('../models/Question', () => ({ Question: {} }));
+
+/**
+ * A resolved query that still accepts the chained calls the services make
+ */
+const query = <T>(result: T) =>
+    Object.assign(Promise.resolve(result), {
+        setOptions() { return this; },
+    });
+
+const NOW = new Date('2024-05-15T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const log = (overrides: Partial<Parameters<typeof scorePracticeLog>[1]> = {}) => ({
+    questionTitle: 'Two Sum',
+    difficulty: 'Easy' as const,
+    timeSpentMinutes: 15,
+    solved: true,
+    practicedAt: NOW,
+    ...overrides,
+});
+
+describe('scorePracticeLog', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (PracticeLog.countDocuments as jest.Mock).mockImplementation(() => query(0));
+        (PracticeLog.exists as jest.Mock).mockImplementation(() => query(null));
+    });
+
+    it('passes an ordinary solve', async () => {
+        await expect(scorePracticeLog('user-1', log(), { now: NOW }))
+            .resolves.toEqual({ score: 0, reasons: [], flagged: false });
+    });
+
+    it('holds a solve faster than its difficulty allows', async () => {
+        await expect(scorePracticeLog('user-1', log({ difficulty: 'Hard', timeSpentMinutes: 9 }), { now: NOW }))
+            .resolves.toEqual({ score: SUSPICION_THRESHOLD, reasons: ['implausible_time'], flagged: true });
+        await expect(scorePracticeLog('user-1', log({ difficulty: 'Hard', timeSpentMinutes: 10 }), { now: NOW }))
+            .resolves.toMatchObject({ flagged: false });
+    });
+
+    it('holds a burst of solves, but not an edit', async () => {
+        (PracticeLog.countDocuments as jest.Mock).mockImplementation(() => query(5));
+
+        await expect(scorePracticeLog('user-1', log(), { now: NOW }))
+            .resolves.toMatchObject({ reasons: ['burst'], flagged: true });
+        await expect(scorePracticeLog('user-1', log(), { now: NOW, excludeLogId: 'log-1' }))
+            .resolves.toMatchObject({ reasons: [], flagged: false });
+    });
+
+    it('notes a repeated title without holding it on its own', async () => {
+        (PracticeLog.exists as jest.Mock).mockImplementation(() => query({ _id: 'log-0' }));
+
+        await expect(scorePracticeLog('user-1', log(), { now: NOW }))
+            .resolves.toEqual({ score: 30, reasons: ['duplicate_title'], flagged: false });
+        await expect(scorePracticeLog('user-1', log({ timeSpentMinutes: 1 }), { now: NOW }))
+            .resolves.toMatchObject({ score: 80, flagged: true });
+    });
+
+    it('only runs the backdate check on unsolved attempts', async () => {
+        await expect(scorePracticeLog('user-1', log({ solved: false, timeSpentMinutes: 1 }), { now: NOW }))
+            .resolves.toMatchObject({ reasons: [], flagged: false });
+        await expect(scorePracticeLog('user-1', log({ solved: false, practicedAt: new Date(NOW.getTime() - 49 * HOUR) }), { now: NOW }))
+            .resolves.toMatchObject({ reasons: ['backdated'], flagged: true });
+
+        expect(PracticeLog.countDocuments).not.toHaveBeenCalled();
+        expect(PracticeLog.exists).not.toHaveBeenCalled();
+    });
+
+    it('holds a log backdated past the window', async () => {
+        await expect(scorePracticeLog('user-1', log({ practicedAt: new Date(NOW.getTime() - 47 * HOUR) }), { now: NOW }))
+            .resolves.toMatchObject({ flagged: false });
+        await expect(scorePracticeLog('user-1', log({ practicedAt: new Date(NOW.getTime() - 49 * HOUR) }), { now: NOW }))
+            .resolves.toMatchObject({ reasons: ['backdated'], flagged: true });
+    });
+
+    // Regression: editing an old log used to flag it as backdated just for aging
+    it('measures backdating from when the log was first saved', async () => {
+        const practicedAt = new Date('2024-04-01T12:00:00Z');
+        const loggedAt = new Date('2024-04-01T18:00:00Z');
+
+        await expect(scorePracticeLog('user-1', log({ practicedAt }), { now: NOW, excludeLogId: 'log-1', loggedAt }))
+            .resolves.toMatchObject({ reasons: [], flagged: false });
+        await expect(scorePracticeLog('user-1', log({ practicedAt: new Date('2024-03-25T12:00:00Z') }), { now: NOW, excludeLogId: 'log-1', loggedAt }))
+            .resolves.toMatchObject({ reasons: ['backdated'], flagged: true });
+    });
+
+    it('leaves out the backdate check when asked to', async () => {
+        const practicedAt = new Date('2023-03-01T00:00:00Z');
+
+        await expect(scorePracticeLog('user-1', log({ practicedAt }), { now: NOW, skipBackdated: true }))
+            .resolves.toMatchObject({ reasons: [], flagged: false });
+        await expect(scorePracticeLog('user-1', log({ practicedAt, timeSpentMinutes: 1 }), { now: NOW, skipBackdated: true }))
+            .resolves.toMatchObject({ reasons: ['implausible_time'], flagged: true });
+    });
+});
@@ -0,0 +1,271 @@
+/**
+ * Anti-Cheat Service - Suspicious Practice Logs
+ *
+ * Scores each new or edited practice log against a few heuristics:
+ * - implausible_time: solved faster than MIN_SOLVE_MINUTES for its difficulty
+ * - burst: more than BURST_MAX_SOLVES solves logged within BURST_WINDOW_MINUTES
+ * - duplicate_title: the same question already solved within DUPLICATE_WINDOW_DAYS
+ * - backdated: practicedAt more than MAX_BACKDATE_HOURS before it was logged (fills streak gaps)
+ *
+ * A log scoring SUSPICION_THRESHOLD or more is held: saved, but left out of
+ * points, streaks, progress, badges and leaderboards (see the held field on
+ * PracticeLog) until a moderator approves it from the review queue.
+ * Rejected logs stay held.
+ */
+
+import { PracticeLog, IPracticeLog } from '../models/PracticeLog';
+import { Topic } from '../models/Topic';
+import { User } from '../models/User';
+import { getSameQuestionFilter } from './question.service';
+import { withTransaction } from '../utils/transaction';
+import { AppError } from '../utils/errors';
+import {
+    ReviewStatus,
+    SuspicionReason,
+    PracticeLogReviewResponse,
+    ReviewQueueResponse,
+} from '../types/practice.types';
+
+/**
+ * Score at which a log is held for review
+ */
+export const SUSPICION_THRESHOLD = 50;
+
+/**
+ * Weight of each heuristic (one strong signal is enough to hold a log;
+ * a repeated title alone is not)
+ */
+const REASON_WEIGHTS: Record<SuspicionReason, number> = {
+    implausible_time: 50,
+    burst: 50,
+    duplicate_title: 30,
+    backdated: 50,
+};
+
+const MIN_SOLVE_MINUTES: Record<'Easy' | 'Medium' | 'Hard', number> = {
+    Easy: 2,
+    Medium: 5,
+    Hard: 10,
+};
+
+const BURST_WINDOW_MINUTES = 10;
+const BURST_MAX_SOLVES = 5;
+const DUPLICATE_WINDOW_DAYS = 7;
+const MAX_BACKDATE_HOURS = 48;
+
+export interface SuspicionResult {
+    score: number;
+    reasons: SuspicionReason[];
+    flagged: boolean;
+}
+
+/**
+ * Score a practice log before it is saved (new or edited)
+ *
+ * Held logs count too (a burst of held logs is still a burst).
+ *
+ * @param options.excludeLogId - Log being edited (not compared with itself)
+ * @param options.loggedAt - When the log was first saved: backdating is measured
+ *   from here instead of now, so an old log isn't "backdated" just for aging
+ * @param options.skipBackdated - Leave out the backdate check (an edit that
+ *   didn't move practicedAt, or imported history)
+ */
+export const scorePracticeLog = async (
+    userId: string,
+    log: {
+        questionId?: string;
+        questionTitle: string;
+        difficulty: 'Easy' | 'Medium' | 'Hard';
+        timeSpentMinutes: number;
+        solved: boolean;
+        practicedAt: Date;
+    },
+    options: { excludeLogId?: string; now?: Date; loggedAt?: Date; skipBackdated?: boolean } = {}
+): Promise<SuspicionResult> => {
+    const now = options.now || new Date();
+    const notSelf = options.excludeLogId ? { _id: { $ne: options.excludeLogId } } : {};
+    const reasons: SuspicionReason[] = [];
+
+    const loggedAt = options.loggedAt || now;
+    if (!options.skipBackdated
+        && loggedAt.getTime() - log.practicedAt.getTime() > MAX_BACKDATE_HOURS * 60 * 60 * 1000) {
+        reasons.push('backdated');
+    }
+
+    // The remaining checks are about points, which only solves earn
+    if (log.solved) {
+        if (log.timeSpentMinutes < MIN_SOLVE_MINUTES[log.difficulty]) {
+            reasons.push('implausible_time');
+        }
+
+        // A burst is about logging; editing an existing log doesn't add to one
+        if (!options.excludeLogId) {
+            const recentSolves = await PracticeLog.countDocuments({
+                userId,
+                solved: true,
+                createdAt: { $gte: new Date(now.getTime() - BURST_WINDOW_MINUTES * 60 * 1000) },
+            }).setOptions({ includeHeld: true });
+            if (recentSolves >= BURST_MAX_SOLVES) {
+                reasons.push('burst');
+            }
+        }
+
+        const duplicate = await PracticeLog.exists({
+            userId,
+            solved: true,
+            createdAt: { $gte: new Date(now.getTime() - DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+            ...getSameQuestionFilter(log.questionId, log.questionTitle),
+            ...notSelf,
+        }).setOptions({ includeHeld: true });
+        if (duplicate) {
+            reasons.push('duplicate_title');
+        }
+    }
+
+    const score = reasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0);
+    return { score, reasons, flagged: score >= SUSPICION_THRESHOLD };
+};
+
+const toReviewResponse = (
+    log: IPracticeLog,
+    topicName?: string,
+    user?: { fullName: string; email: string }
+): PracticeLogReviewResponse => ({
+    _id: log._id.toString(),
+    userId: log.userId,
+    userName: user?.fullName,
+    userEmail: user?.email,
+    topicId: log.topicId,
+    topicName,
+    questionId: log.questionId,
+    questionTitle: log.questionTitle,
+    questionUrl: log.questionUrl,
+    difficulty: log.difficulty,
+    timeSpentMinutes: log.timeSpentMinutes,
+    solved: log.solved,
+    pointsAwarded: log.pointsAwarded,
+    notes: log.notes,
+    practicedAt: log.practicedAt,
+    reviewStatus: log.review?.status,
+    suspicionScore: log.review?.score || 0,
+    reasons: log.review?.reasons || [],
+    heldPoints: log.review?.heldPoints || 0,
+    reviewedBy: log.review?.reviewedBy,
+    reviewedAt: log.review?.reviewedAt,
+    reviewNote: log.review?.note,
+    createdAt: log.createdAt,
+});
+
+/**
+ * Flagged logs for moderators (pending: oldest first; reviewed: newest first)
+ */
+export const getReviewQueue = async (query: {
+    status: ReviewStatus;
+    limit: number;
+    skip: number;
+}): Promise<ReviewQueueResponse> => {
+    const filter = { 'review.status': query.status };
+
+    const logs = await PracticeLog.find(filter)
+        .setOptions({ includeHeld: true })
+        .sort({ createdAt: query.status === 'pending' ? 1 : -1 })
+        .skip(query.skip)
+        .limit(query.limit);
+    const total = await PracticeLog.countDocuments(filter).setOptions({ includeHeld: true });
+
+    const topics = await Topic.find({ _id: { $in: [...new Set(logs.map((l) => l.topicId))] } });
+    const topicMap = new Map(topics.map((t) => [t._id.toString(), t.name]));
+
+    const users = await User.find({ _id: { $in: [...new Set(logs.map((l) => l.userId))] } }).select('fullName email');
+    const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+
+    return {
+        logs: logs.map((log) => toReviewResponse(log, topicMap.get(log.topicId), userMap.get(log.userId))),
+        total,
+    };
+};
+
+/**
+ * Approve a flagged log: release it and pay out its held points
+ * Rejected logs can be approved later (a moderator changing their mind)
+ *
+ * @throws Error if the log doesn't exist
+ * @throws AppError 409 if the log was already approved or never flagged
+ */
+export const approvePracticeLog = async (
+    logId: string,
+    adminId: string,
+    note?: string
+): Promise<PracticeLogReviewResponse> => {
+    return withTransaction(async () => {
+        const log = await PracticeLog.findOneAndUpdate(
+            { _id: logId, 'review.status': { $in: ['pending', 'rejected'] } },
+            {
+                $set: {
+                    held: false,
+                    'review.status': 'approved',
+                    'review.reviewedBy': adminId,
+                    'review.reviewedAt': new Date(),
+                    ...(note !== undefined && { 'review.note': note }),
+                },
+            },
+            { new: true }
+        );
+        if (!log) {
+            throw await reviewConflict(logId);
+        }
+
+        // Pay out through the same recalculation an edit goes through
+        const practiceService = await import('./practice.service');
+        await practiceService.releaseHeldPracticeLog(log);
+
+        return toReviewResponse(log);
+    });
+};
+
+/**
+ * Reject a flagged log: it stays held (no points, streak or leaderboard credit)
+ *
+ * @throws Error if the log doesn't exist
+ * @throws AppError 409 if the log isn't pending review
+ */
+export const rejectPracticeLog = async (
+    logId: string,
+    adminId: string,
+    note?: string
+): Promise<PracticeLogReviewResponse> => {
+    const log = await PracticeLog.findOneAndUpdate(
+        { _id: logId, 'review.status': 'pending' },
+        {
+            $set: {
+                'review.status': 'rejected',
+                'review.reviewedBy': adminId,
+                'review.reviewedAt': new Date(),
+                ...(note !== undefined && { 'review.note': note }),
+            },
+        },
+        { new: true }
+    );
+    if (!log) {
+        throw await reviewConflict(logId);
+    }
+
+    return toReviewResponse(log);
+};
+
+/**
+ * Why a review decision couldn't be applied
+ */
+const reviewConflict = async (logId: string): Promise<Error> => {
+    const log = await PracticeLog.findById(logId).setOptions({ includeHeld: true });
+    if (!log) {
+        return new Error('Practice log not found');
+    }
+    return new AppError(
+        409,
+        'LOG_NOT_REVIEWABLE',
+        log.review?.status
+            ? `Practice log is already ${log.review.status}`
+            : 'Practice log was not flagged for review'
+    );
+};
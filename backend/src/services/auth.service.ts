@@ -20,6 +20,9 @@ import {
     generateAccessToken,
     generateRefreshToken,
 } from '../utils/jwt';
+import { DEFAULT_TIMEZONE } from '../utils/timezone';
+import { moveUserScopedBoards } from './leaderboard.service';
+import { getPrivacySettings } from './social.service';
 
 /**
  * Register a new user
@@ -54,6 +57,7 @@ export const registerUser = async (data: RegisterDTO): Promise<AuthResponse> =>
         college: data.college,
         graduationYear: data.graduationYear,
         targetCompanies: data.targetCompanies || [],
+        timezone: data.timezone,
     });
 
     await user.save();
@@ -73,6 +77,12 @@ export const registerUser = async (data: RegisterDTO): Promise<AuthResponse> =>
         college: user.college,
         graduationYear: user.graduationYear,
         targetCompanies: user.targetCompanies,
+        timezone: user.timezone,
+        emailPreferences: {
+            weeklyDigest: user.emailPreferences?.weeklyDigest ?? true,
+            streakReminders: user.emailPreferences?.streakReminders ?? true,
+        },
+        privacy: getPrivacySettings(user),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
     };
@@ -129,6 +139,12 @@ export const loginUser = async (data: LoginDTO): Promise<AuthResponse> => {
         college: user.college,
         graduationYear: user.graduationYear,
         targetCompanies: user.targetCompanies,
+        timezone: user.timezone,
+        emailPreferences: {
+            weeklyDigest: user.emailPreferences?.weeklyDigest ?? true,
+            streakReminders: user.emailPreferences?.streakReminders ?? true,
+        },
+        privacy: getPrivacySettings(user),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
     };
@@ -213,11 +229,28 @@ export const getUserById = async (userId: string): Promise<UserResponse> => {
         college: user.college,
         graduationYear: user.graduationYear,
         targetCompanies: user.targetCompanies,
+        timezone: user.timezone,
+        emailPreferences: {
+            weeklyDigest: user.emailPreferences?.weeklyDigest ?? true,
+            streakReminders: user.emailPreferences?.streakReminders ?? true,
+        },
+        privacy: getPrivacySettings(user),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
     };
 };
 
+/**
+ * Get user's IANA time zone (for daily boundaries)
+ * 
+ * @param userId - User's MongoDB _id
+ * @returns Time zone name, or UTC if the user is unknown
+ */
+export const getUserTimeZone = async (userId: string): Promise<string> => {
+    const user = await User.findById(userId).select('timezone');
+    return user?.timezone || DEFAULT_TIMEZONE;
+};
+
 /**
  * Update user profile
  * 
@@ -230,9 +263,24 @@ export const updateUserProfile = async (
     userId: string,
     data: UpdateProfileDTO
 ): Promise<UserResponse> => {
+    // Email preferences are set field by field so the send history survives
+    // (privacy settings too, so one switch can change on its own)
+    const { emailPreferences, privacy, ...profile } = data;
+    const update: Record<string, unknown> = { ...profile };
+    for (const [key, value] of Object.entries(emailPreferences || {})) {
+        update[`emailPreferences.${key}`] = value;
+    }
+    for (const [key, value] of Object.entries(privacy || {})) {
+        update[`privacy.${key}`] = value;
+    }
+
+    // College / graduation year decide which leaderboards the user is on
+    const scopeChanged = data.college !== undefined || data.graduationYear !== undefined;
+    const previous = scopeChanged ? await User.findById(userId).select('college graduationYear') : null;
+
     const user = await User.findByIdAndUpdate(
         userId,
-        { $set: data },
+        { $set: update },
         { new: true, runValidators: true } // Return updated doc, run validators
     );
 
@@ -240,6 +288,13 @@ export const updateUserProfile = async (
         throw new Error('User not found');
     }
 
+    if (previous) {
+        // Rankings are derived data: don't fail the profile update over them
+        await moveUserScopedBoards(userId, previous).catch((error) => {
+            console.error(`Failed to move user ${userId} between leaderboards:`, error);
+        });
+    }
+
     return {
         _id: user._id.toString(),
         email: user.email,
@@ -247,6 +302,12 @@ export const updateUserProfile = async (
         college: user.college,
         graduationYear: user.graduationYear,
         targetCompanies: user.targetCompanies,
+        timezone: user.timezone,
+        emailPreferences: {
+            weeklyDigest: user.emailPreferences?.weeklyDigest ?? true,
+            streakReminders: user.emailPreferences?.streakReminders ?? true,
+        },
+        privacy: getPrivacySettings(user),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
     };
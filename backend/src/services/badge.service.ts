@@ -1,130 +1,322 @@
 /**
  * Badge Service - Business Logic for Badge System
  * 
- * Handles badge awarding, progress tracking, and criteria checking.
+ * Handles badge awarding, progress tracking, and badge definitions (admin).
+ * Criteria are evaluated by the rule engine in badgeRules.service.ts.
+ *
+ * Awarding after a practice log stays cheap with hundreds of badges:
+ * - Badge definitions are cached in memory
+ * - Only badges the new log can affect are evaluated
+ * - Simple count/accuracy rules read per-user counters instead of logs
+ * - Awards and progress rows go out in one bulk write, points in one update
+ *
+ * Unearned badges keep a UserBadge row (earnedAt null) with the latest
+ * progress, so GET /api/badges/my/progress doesn't re-evaluate everything.
  */
 
+import { AnyBulkWriteOperation, UpdateQuery } from 'mongoose';
 import { Badge } from '../models/Badge';
 import { UserBadge } from '../models/UserBadge';
 import { User } from '../models/User';
-import { PracticeLog } from '../models/PracticeLog';
-import { UserProgress } from '../models/UserProgress';
-import { BadgeResponse, UserBadgeResponse } from '../types/gamification.types';
+import {
+    IBadge,
+    IUserBadge,
+    BadgeCriteria,
+    BadgeTier,
+    BadgeResponse,
+    BadgeProgressResponse,
+    UserBadgeResponse,
+} from '../types/gamification.types';
+import { PracticeLoggedEvent } from '../types/events.types';
+import { eventBus } from './eventBus.service';
+import { getEconomy, getLevelForPoints } from './economy.service';
+import { recordPointTransactions } from './points.service';
+import { syncUserScore } from './leaderboard.service';
+import { withTransaction, runAfterCommit } from '../utils/transaction';
+import {
+    createRuleContext,
+    evaluateCriteria,
+    isCriteriaAffectedByLog,
+    normalizeCriteria,
+    CriteriaResult,
+    RuleContext,
+} from './badgeRules.service';
+import { CreateBadgeInput, UpdateBadgeInput } from '../validators/badge.validator';
 
 /**
- * Check and award badges to user based on their activity
- * Called after each practice log
+ * Tier order, lowest first
  */
-export const checkAndAwardBadges = async (userId: string): Promise<void> => {
-    // Get all badge definitions
-    const allBadges = await Badge.find();
-
-    // Get user's already earned badges
-    const earnedBadges = await UserBadge.find({ userId }).select('badgeId');
-    const earnedBadgeIds = earnedBadges.map(ub => ub.badgeId);
-
-    // Filter out already earned badges
-    const unearnedBadges = allBadges.filter(badge => !earnedBadgeIds.includes(badge.badgeId));
+const TIER_ORDER: BadgeTier[] = ['bronze', 'silver', 'gold', 'platinum'];
 
-    // Check each unearned badge
-    for (const badge of unearnedBadges) {
-        const shouldAward = await checkBadgeCriteria(userId, badge);
+/**
+ * One awardable step of a badge: the badge itself for plain and repeatable
+ * badges, one per tier for tiered badges
+ */
+interface BadgeStep {
+    tier?: BadgeTier;
+    criteria: BadgeCriteria;
+    points: number;
+}
+
+interface BadgeDefinition {
+    badgeId: string;
+    repeatable: boolean;
+    steps: BadgeStep[];
+}
+
+type ProgressRow = Pick<
+    IUserBadge,
+    'earnedAt' | 'lastEarnedAt' | 'tier' | 'earnCount' | 'progress' | 'current' | 'target' | 'unit'
+>;
+
+const toBadgeDefinition = (
+    badge: Pick<IBadge, 'badgeId' | 'points' | 'criteria' | 'tiers' | 'repeatable'>
+): BadgeDefinition => ({
+    badgeId: badge.badgeId,
+    repeatable: !!badge.repeatable,
+    steps: badge.tiers?.length
+        ? badge.tiers.map((t) => ({ tier: t.tier, criteria: normalizeCriteria(t.criteria), points: t.points }))
+        : [{ criteria: normalizeCriteria(badge.criteria), points: badge.points }],
+});
 
-        if (shouldAward) {
-            await awardBadge(userId, badge.badgeId, badge.points);
-        }
-    }
+/**
+ * Index of the step the user is working towards
+ * (steps.length = nothing left to earn)
+ */
+const getNextStepIndex = (definition: BadgeDefinition, row?: ProgressRow): number => {
+    if (!row?.earnedAt || definition.repeatable) return 0;
+    if (!row.tier) return definition.steps.length;
+
+    // Compare by tier rank so renamed or removed tiers can't be re-awarded
+    const index = definition.steps.findIndex(
+        (step) => TIER_ORDER.indexOf(step.tier!) > TIER_ORDER.indexOf(row.tier!)
+    );
+    return index === -1 ? definition.steps.length : index;
 };
 
 /**
- * Check if user meets badge criteria
+ * Evaluate a badge's next step(s) for a user
+ *
+ * Tiered badges keep going while tiers are met, so an import that jumps
+ * from 5 to 120 solves awards bronze, silver and gold at once.
+ * Repeatable badges only count activity after their previous award.
+ *
+ * @returns Steps reached now, and the last evaluation (progress towards
+ *   the next step, or the final step's result when everything is reached)
  */
-const checkBadgeCriteria = async (userId: string, badge: any): Promise<boolean> => {
-    const { criteria } = badge;
-
-    switch (criteria.type) {
-        case 'solve_count':
-            // Check total questions solved
-            const totalSolved = await PracticeLog.countDocuments({ userId, solved: true });
-            return totalSolved >= criteria.value;
+const evaluateBadge = async (
+    definition: BadgeDefinition,
+    row: ProgressRow | undefined,
+    context: RuleContext
+): Promise<{ reached: BadgeStep[]; result: CriteriaResult } | null> => {
+    const stepContext = definition.repeatable && row?.lastEarnedAt
+        ? { ...context, since: row.lastEarnedAt }
+        : context;
+
+    const reached: BadgeStep[] = [];
+    let result: CriteriaResult | null = null;
+    for (let i = getNextStepIndex(definition, row); i < definition.steps.length; i++) {
+        result = await evaluateCriteria(definition.steps[i].criteria, stepContext);
+        if (!result.met) break;
+        reached.push(definition.steps[i]);
+    }
 
-        case 'streak_days':
-            // Check current streak
-            const user = await User.findById(userId);
-            return user?.gamification?.currentStreak >= criteria.value;
+    return result && { reached, result };
+};
 
-        case 'topic_mastery':
-            // Check topic accuracy
-            if (!criteria.topicId) return false;
-            const progress = await UserProgress.findOne({
-                userId,
-                topicId: criteria.topicId
-            });
-            return progress?.accuracyPercentage >= criteria.value;
+/**
+ * Badge definitions are read on every practice log but only change through
+ * the admin API. Admin writes clear this instance's copy; other instances
+ * pick changes up when theirs expires.
+ */
+const BADGE_CACHE_TTL_MS = 60 * 1000;
+let badgeCache: { badges: BadgeDefinition[]; loadedAt: number } | null = null;
 
-        case 'accuracy':
-            // Check overall accuracy across all topics
-            const allProgress = await UserProgress.find({ userId });
-            if (allProgress.length === 0) return false;
+const getBadgeDefinitions = async (): Promise<BadgeDefinition[]> => {
+    if (!badgeCache || Date.now() - badgeCache.loadedAt > BADGE_CACHE_TTL_MS) {
+        const badges = await Badge.find().select('badgeId points criteria tiers repeatable').lean();
+        badgeCache = { badges: badges.map(toBadgeDefinition), loadedAt: Date.now() };
+    }
+    return badgeCache.badges;
+};
 
-            const avgAccuracy = allProgress.reduce((sum, p) => sum + p.accuracyPercentage, 0) / allProgress.length;
-            return avgAccuracy >= criteria.value;
+interface BadgeAward {
+    definition: BadgeDefinition;
+    reached: BadgeStep[];
+    previous?: ProgressRow;
+}
 
-        case 'time_based':
-            // Check if practiced on specific day/time (e.g., night owl)
-            // For now, just check if they have any practice logs
-            const practiceCount = await PracticeLog.countDocuments({ userId });
-            return practiceCount >= criteria.value;
+/**
+ * Check and award badges to user based on their activity
+ * 
+ * @param userId - User's MongoDB _id
+ * @param log - The practice log that triggered the check. When given, only
+ *   badges this log can affect are evaluated; without it (edits, imports)
+ *   every badge with something left to earn is.
+ */
+export const checkAndAwardBadges = async (userId: string, log?: PracticeLoggedEvent): Promise<void> => {
+    const allBadges = await getBadgeDefinitions();
+
+    // Get user's earned badges and progress rows
+    const userBadges = await UserBadge.find({ userId })
+        .select('badgeId earnedAt lastEarnedAt tier earnCount current target unit');
+    const rowsByBadge = new Map<string, ProgressRow>(userBadges.map(ub => [ub.badgeId, ub]));
+
+    // Filter out badges with nothing left to earn
+    const openBadges = allBadges.filter(
+        badge => getNextStepIndex(badge, rowsByBadge.get(badge.badgeId)) < badge.steps.length
+    );
+    if (openBadges.length === 0) return;
+
+    // Check each candidate against the rule engine
+    const context = await createRuleContext(userId);
+    const awards: BadgeAward[] = [];
+    const writes: AnyBulkWriteOperation<IUserBadge>[] = [];
+    const now = new Date();
+    for (const badge of openBadges) {
+        const row = rowsByBadge.get(badge.badgeId);
+        const nextStep = badge.steps[getNextStepIndex(badge, row)];
+        if (log && !(await isCriteriaAffectedByLog(nextStep.criteria, log, context))) continue;
+
+        const evaluation = await evaluateBadge(badge, row, context);
+        if (!evaluation) continue;
+        const { reached, result } = evaluation;
+
+        if (reached.length > 0) {
+            awards.push({ definition: badge, reached, previous: row });
+            writes.push(updateProgressRow(userId, badge.badgeId, {
+                $set: {
+                    ...toProgressFields(result),
+                    ...(!row?.earnedAt && { earnedAt: now }),
+                    lastEarnedAt: now,
+                    ...(reached[reached.length - 1].tier && { tier: reached[reached.length - 1].tier }),
+                },
+                $inc: { earnCount: reached.length },
+            }));
+        } else if (
+            row?.current !== result.current
+            || row?.target !== result.target
+            || row?.unit !== result.unit
+        ) {
+            writes.push(updateProgressRow(userId, badge.badgeId, { $set: toProgressFields(result) }));
+        }
+    }
 
-        default:
-            return false;
+    // Awards and progress changes go out in one batch
+    if (writes.length > 0) {
+        await UserBadge.bulkWrite(writes);
     }
+
+    await creditBadges(userId, awards);
 };
 
 /**
- * Award a badge to user
+ * Credit awards (one stats update for the batch)
+ * 
+ * - badgesEarned counts distinct badges (first award only)
+ * - badgeTiers moves a badge from its old tier to its new one
  */
-const awardBadge = async (userId: string, badgeId: string, points: number): Promise<void> => {
-    // Create user badge record
-    await UserBadge.create({
-        userId,
-        badgeId,
-        earnedAt: new Date(),
-        progress: 100,
-    });
+const creditBadges = async (userId: string, awards: BadgeAward[]): Promise<void> => {
+    if (awards.length === 0) return;
+
+    const inc: Record<string, number> = {
+        'gamification.totalPoints': 0,
+        'gamification.badgesEarned': 0,
+    };
+    for (const { reached, previous } of awards) {
+        inc['gamification.totalPoints'] += reached.reduce((sum, step) => sum + step.points, 0);
+        if (!previous?.earnedAt) inc['gamification.badgesEarned'] += 1;
+
+        const newTier = reached[reached.length - 1].tier;
+        if (newTier) {
+            inc[`gamification.badgeTiers.${newTier}`] = (inc[`gamification.badgeTiers.${newTier}`] || 0) + 1;
+            if (previous?.tier) {
+                inc[`gamification.badgeTiers.${previous.tier}`] = (inc[`gamification.badgeTiers.${previous.tier}`] || 0) - 1;
+            }
+        }
+    }
 
-    // Update user's gamification stats
-    await User.findByIdAndUpdate(userId, {
-        $inc: {
-            'gamification.badgesEarned': 1,
-            'gamification.totalPoints': points,
-        },
+    // Update user's gamification stats (and the points ledger, atomically)
+    await withTransaction(async () => {
+        await recordPointTransactions(
+            awards.flatMap(({ definition, reached }) =>
+                reached.map((step) => ({
+                    userId,
+                    amount: step.points,
+                    source: 'badge' as const,
+                    referenceId: definition.badgeId,
+                    description: step.tier ? `${definition.badgeId} (${step.tier})` : definition.badgeId,
+                }))
+            )
+        );
+        await User.findByIdAndUpdate(userId, { $inc: inc });
+        await runAfterCommit(() => syncUserScore(userId));
     });
 
     // Recalculate level
     await updateUserLevel(userId);
+
+    for (const { definition, reached, previous } of awards) {
+        let earnCount = previous?.earnCount || 0;
+        for (const step of reached) {
+            earnCount += 1;
+            await eventBus.publish('BadgeAwarded', {
+                userId,
+                badgeId: definition.badgeId,
+                points: step.points,
+                tier: step.tier,
+                earnCount,
+            });
+        }
+    }
 };
 
 /**
- * Update user's level based on total points
- * Level = floor(totalPoints / 100) + 1
+ * Progress row fields from an evaluation result
+ */
+const toProgressFields = (result: CriteriaResult) => ({
+    progress: Math.min(100, Math.floor(result.progress * 100)),
+    current: result.current,
+    target: result.target,
+    unit: result.unit,
+});
+
+const updateProgressRow = (
+    userId: string,
+    badgeId: string,
+    update: UpdateQuery<IUserBadge>
+): AnyBulkWriteOperation<IUserBadge> => ({
+    updateOne: {
+        filter: { userId, badgeId },
+        update,
+        upsert: true,
+    },
+});
+
+/**
+ * Update user's level based on total points (economy's level curve)
  */
 const updateUserLevel = async (userId: string): Promise<void> => {
     const user = await User.findById(userId);
     if (!user) return;
 
-    const newLevel = Math.floor((user.gamification?.totalPoints || 0) / 100) + 1;
+    const previousLevel = user.gamification?.level || 1;
+    const newLevel = getLevelForPoints(user.gamification?.totalPoints || 0, (await getEconomy()).levelCurve);
 
     await User.findByIdAndUpdate(userId, {
         $set: { 'gamification.level': newLevel },
     });
+
+    if (newLevel > previousLevel) {
+        await eventBus.publish('LevelUp', { userId, previousLevel, newLevel });
+    }
 };
 
 /**
  * Get all badges earned by user
  */
 export const getUserBadges = async (userId: string): Promise<UserBadgeResponse[]> => {
-    const userBadges = await UserBadge.find({ userId }).sort({ earnedAt: -1 });
+    const userBadges = await UserBadge.find({ userId, earnedAt: { $ne: null } }).sort({ earnedAt: -1 });
 
     const badges: UserBadgeResponse[] = [];
 
@@ -134,18 +326,10 @@ export const getUserBadges = async (userId: string): Promise<UserBadgeResponse[]
             badges.push({
                 _id: ub._id.toString(),
                 badgeId: ub.badgeId,
-                badge: {
-                    _id: badge._id.toString(),
-                    badgeId: badge.badgeId,
-                    name: badge.name,
-                    description: badge.description,
-                    category: badge.category,
-                    criteria: badge.criteria,
-                    iconUrl: badge.iconUrl,
-                    rarity: badge.rarity,
-                    points: badge.points,
-                },
-                earnedAt: ub.earnedAt,
+                badge: toBadgeResponse(badge),
+                earnedAt: ub.earnedAt!,
+                tier: ub.tier,
+                earnCount: ub.earnCount || 1,
                 progress: ub.progress,
             });
         }
@@ -162,56 +346,207 @@ export const getAllBadges = async (userId?: string): Promise<BadgeResponse[]> =>
 
     let earnedBadgeIds: string[] = [];
     if (userId) {
-        const userBadges = await UserBadge.find({ userId }).select('badgeId earnedAt');
+        const userBadges = await UserBadge.find({ userId, earnedAt: { $ne: null } }).select('badgeId earnedAt');
         earnedBadgeIds = userBadges.map(ub => ub.badgeId);
     }
 
     return allBadges.map(badge => ({
-        _id: badge._id.toString(),
-        badgeId: badge.badgeId,
-        name: badge.name,
-        description: badge.description,
-        category: badge.category,
-        criteria: badge.criteria,
-        iconUrl: badge.iconUrl,
-        rarity: badge.rarity,
-        points: badge.points,
+        ...toBadgeResponse(badge),
         earned: earnedBadgeIds.includes(badge.badgeId),
     }));
 };
 
 /**
- * Get badge progress for user
+ * Get progress towards every badge
+ *
+ * Progress rows are kept current as practice logs come in; badges without
+ * one yet (new badges, edited criteria, no practice since) are evaluated
+ * here and stored.
+ */
+export const getMyBadgeProgress = async (userId: string): Promise<BadgeProgressResponse[]> => {
+    const badges = await Badge.find().sort({ rarity: 1, points: 1 });
+    const userBadges = await UserBadge.find({ userId });
+    const rowsByBadge = new Map<string, ProgressRow>(userBadges.map(ub => [ub.badgeId, ub]));
+
+    const missing = badges.filter(badge => rowsByBadge.get(badge.badgeId)?.target === undefined);
+    if (missing.length > 0) {
+        const context = await createRuleContext(userId);
+        const writes: AnyBulkWriteOperation<IUserBadge>[] = [];
+
+        for (const badge of missing) {
+            const row = rowsByBadge.get(badge.badgeId);
+            const { progress, fields } = await evaluateProgress(toBadgeDefinition(badge), row, context);
+
+            writes.push(updateProgressRow(userId, badge.badgeId, { $set: { ...fields, progress } }));
+            rowsByBadge.set(badge.badgeId, { earnCount: 0, ...row, ...fields, progress });
+        }
+
+        await UserBadge.bulkWrite(writes);
+    }
+
+    return badges.map(badge => {
+        const definition = toBadgeDefinition(badge);
+        const row = rowsByBadge.get(badge.badgeId)!;
+        const nextStep = definition.steps[getNextStepIndex(definition, row)];
+        const target = row.target || 1;
+        return {
+            badge: toBadgeResponse(badge),
+            earned: !!row.earnedAt,
+            earnedAt: row.earnedAt || undefined,
+            tier: row.tier,
+            nextTier: nextStep?.tier,
+            earnCount: row.earnCount || (row.earnedAt ? 1 : 0),
+            progress: nextStep ? row.progress : 100,
+            // Finished badges stay complete even if the numbers dropped since
+            current: nextStep ? row.current || 0 : Math.max(row.current || 0, target),
+            target,
+            unit: row.unit || 'rules',
+        };
+    });
+};
+
+/**
+ * Progress towards a badge's next step (or its last step, when everything
+ * is earned), without awarding anything
+ */
+const evaluateProgress = async (
+    definition: BadgeDefinition,
+    row: ProgressRow | undefined,
+    context: RuleContext
+): Promise<{ progress: number; fields: ReturnType<typeof toProgressFields> }> => {
+    const index = getNextStepIndex(definition, row);
+    const step = definition.steps[Math.min(index, definition.steps.length - 1)];
+    const result = await evaluateCriteria(
+        step.criteria,
+        definition.repeatable && row?.lastEarnedAt ? { ...context, since: row.lastEarnedAt } : context
+    );
+    const fields = toProgressFields(result);
+
+    return { progress: index < definition.steps.length ? fields.progress : 100, fields };
+};
+
+/**
+ * Get badge progress for user (0-100), towards the next tier or repeat
  */
 export const getBadgeProgress = async (userId: string, badgeId: string): Promise<number> => {
     const badge = await Badge.findOne({ badgeId });
     if (!badge) throw new Error('Badge not found');
 
-    const { criteria } = badge;
-    let currentValue = 0;
+    const row = await UserBadge.findOne({ userId, badgeId });
+    const context = await createRuleContext(userId);
+    const { progress } = await evaluateProgress(toBadgeDefinition(badge), row || undefined, context);
 
-    switch (criteria.type) {
-        case 'solve_count':
-            currentValue = await PracticeLog.countDocuments({ userId, solved: true });
-            break;
+    return progress;
+};
 
-        case 'streak_days':
-            const user = await User.findById(userId);
-            currentValue = user?.gamification?.currentStreak || 0;
-            break;
+/**
+ * Create a badge definition (admin)
+ * 
+ * @throws Error if badgeId already exists
+ */
+export const createBadge = async (data: CreateBadgeInput): Promise<BadgeResponse> => {
+    const existing = await Badge.exists({ badgeId: data.badgeId });
+    if (existing) {
+        throw new Error('Badge with this ID already exists');
+    }
 
-        case 'topic_mastery':
-        case 'accuracy':
-            const progress = await UserProgress.findOne({
-                userId,
-                topicId: criteria.topicId
-            });
-            currentValue = progress?.accuracyPercentage || 0;
-            break;
+    // A tiered badge is worth all of its tiers
+    const points = data.tiers ? data.tiers.reduce((sum, t) => sum + t.points, 0) : data.points;
 
-        default:
-            currentValue = 0;
+    const badge = await Badge.create({ ...data, points });
+    badgeCache = null;
+    return toBadgeResponse(badge);
+};
+
+/**
+ * Update a badge definition (admin)
+ * Users who already earned the badge keep it
+ * 
+ * @throws Error if badge not found
+ */
+export const updateBadge = async (badgeId: string, data: UpdateBadgeInput): Promise<BadgeResponse> => {
+    const existing = await Badge.findOne({ badgeId });
+    if (!existing) {
+        throw new Error('Badge not found');
+    }
+    if (data.repeatable && !data.criteria && existing.tiers?.length) {
+        throw new Error('Invalid badge: tiered badges cannot be repeatable');
     }
 
-    return Math.min(100, Math.floor((currentValue / criteria.value) * 100));
+    // Criteria and tiers replace each other
+    const update: UpdateQuery<IBadge> = { $set: { ...data } };
+    if (data.tiers) {
+        update.$set = {
+            ...update.$set,
+            repeatable: false,
+            points: data.tiers.reduce((sum, t) => sum + t.points, 0),
+        };
+        update.$unset = { criteria: 1 };
+    } else if (data.criteria) {
+        update.$unset = { tiers: 1 };
+    }
+
+    const badge = await Badge.findOneAndUpdate({ badgeId }, update, { new: true, runValidators: true });
+    if (!badge) {
+        throw new Error('Badge not found');
+    }
+    badgeCache = null;
+
+    // Stored progress no longer matches the rule: recompute on next read
+    if (data.criteria || data.tiers) {
+        await UserBadge.updateMany({ badgeId }, { $unset: { current: 1, target: 1, unit: 1 } });
+    }
+
+    return toBadgeResponse(badge);
+};
+
+/**
+ * Delete a badge definition (admin)
+ * Earned copies stay in UserBadge (points aren't taken back) but are no
+ * longer listed
+ * 
+ * @throws Error if badge not found
+ */
+export const deleteBadge = async (badgeId: string): Promise<void> => {
+    const badge = await Badge.findOneAndDelete({ badgeId });
+    if (!badge) {
+        throw new Error('Badge not found');
+    }
+    badgeCache = null;
+
+    await UserBadge.deleteMany({ badgeId, earnedAt: null });
 };
+
+/**
+ * Evaluate draft criteria for a user without saving anything (admin)
+ * Lets admins check a new rule against real data before publishing it
+ */
+export const previewBadgeCriteria = async (
+    userId: string,
+    criteria: BadgeCriteria
+): Promise<CriteriaResult> => {
+    const user = await User.exists({ _id: userId });
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    return evaluateCriteria(criteria, await createRuleContext(userId));
+};
+
+/**
+ * Badge document → API shape
+ */
+const toBadgeResponse = (badge: IBadge): BadgeResponse => ({
+    _id: badge._id.toString(),
+    badgeId: badge.badgeId,
+    name: badge.name,
+    description: badge.description,
+    category: badge.category,
+    ...(badge.tiers?.length
+        ? { tiers: badge.tiers.map((t) => ({ tier: t.tier, criteria: normalizeCriteria(t.criteria), points: t.points })) }
+        : { criteria: normalizeCriteria(badge.criteria) }),
+    repeatable: !!badge.repeatable,
+    iconUrl: badge.iconUrl,
+    rarity: badge.rarity,
+    points: badge.points,
+});
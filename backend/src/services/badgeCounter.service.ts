@@ -0,0 +1,120 @@
+/**
+ * Badge Counter Service - Per-User Attempt/Solve Counters
+ *
+ * Maintains BadgeCounter documents for the badge rule engine:
+ * - applyLogToBadgeCounters: +1 in each bucket the new log falls into
+ * - rebuildBadgeCounters: full recount (edits, deletes, imports, retries)
+ * - sumBadgeCounters: attempts/solves for a topic/difficulty scope
+ */
+
+import { BadgeCounter, BadgeCounts, CounterValue } from '../models/BadgeCounter';
+import { PracticeLog } from '../models/PracticeLog';
+
+/**
+ * Buckets a log with this topic and difficulty counts towards
+ */
+const getCounterKeys = (topicId: string, difficulty: string): string[] => [
+    'all',
+    `d:${difficulty}`,
+    `t:${topicId}`,
+    `t:${topicId}:${difficulty}`,
+];
+
+/**
+ * Count one new log
+ * Falls back to a full rebuild for users who don't have counters yet
+ */
+export const applyLogToBadgeCounters = async (
+    userId: string,
+    log: { topicId: string; difficulty: string; solved: boolean }
+): Promise<void> => {
+    const inc: Record<string, number> = {};
+    for (const key of getCounterKeys(log.topicId, log.difficulty)) {
+        inc[`counts.${key}.attempted`] = 1;
+        inc[`counts.${key}.solved`] = log.solved ? 1 : 0;
+    }
+
+    const result = await BadgeCounter.updateOne({ userId }, { $inc: inc });
+
+    // No counters yet (existing user): the rebuild includes this log
+    if (result.matchedCount === 0) {
+        await rebuildBadgeCounters(userId);
+    }
+};
+
+/**
+ * Recount every bucket from the user's practice logs
+ *
+ * @returns The rebuilt counters
+ */
+export const rebuildBadgeCounters = async (userId: string): Promise<BadgeCounts> => {
+    const groups = await PracticeLog.aggregate<{
+        _id: { topicId: string; difficulty: string };
+        attempted: number;
+        solved: number;
+    }>([
+        { $match: { userId } },
+        {
+            $group: {
+                _id: { topicId: '$topicId', difficulty: '$difficulty' },
+                attempted: { $sum: 1 },
+                solved: { $sum: { $cond: ['$solved', 1, 0] } },
+            },
+        },
+    ]);
+
+    const counts: BadgeCounts = {};
+    for (const group of groups) {
+        for (const key of getCounterKeys(group._id.topicId, group._id.difficulty)) {
+            const bucket = counts[key] || (counts[key] = { attempted: 0, solved: 0 });
+            bucket.attempted += group.attempted;
+            bucket.solved += group.solved;
+        }
+    }
+
+    await BadgeCounter.findOneAndUpdate(
+        { userId },
+        { $set: { counts, rebuiltAt: new Date() } },
+        { upsert: true }
+    );
+
+    return counts;
+};
+
+/**
+ * Get a user's counters, building them on first use
+ */
+export const getBadgeCounters = async (userId: string): Promise<BadgeCounts> => {
+    const counter = await BadgeCounter.findOne({ userId }).lean();
+    return counter ? counter.counts : rebuildBadgeCounters(userId);
+};
+
+/**
+ * Attempts and solves within a scope
+ * Omitted topics / difficulties mean "any"
+ */
+export const sumBadgeCounters = (
+    counts: BadgeCounts,
+    topicIds?: string[],
+    difficulties?: string[]
+): CounterValue => {
+    let keys: string[];
+    if (topicIds && difficulties) {
+        keys = topicIds.flatMap((t) => difficulties.map((d) => `t:${t}:${d}`));
+    } else if (topicIds) {
+        keys = topicIds.map((t) => `t:${t}`);
+    } else if (difficulties) {
+        keys = difficulties.map((d) => `d:${d}`);
+    } else {
+        keys = ['all'];
+    }
+
+    // A Set so a topic listed twice (directly and via its category) counts once
+    return [...new Set(keys)].reduce<CounterValue>(
+        (sum, key) => ({
+            attempted: sum.attempted + (counts[key]?.attempted || 0),
+            solved: sum.solved + (counts[key]?.solved || 0),
+        }),
+        { attempted: 0, solved: 0 }
+    );
+};
@@ -0,0 +1,139 @@
+import { normalizeCriteria, evaluateCriteria, isCriteriaAffectedByLog, RuleContext } from './badgeRules.service';
+import { PracticeLog } from '../models/PracticeLog';
+import { PracticeLoggedEvent } from '../types/events.types';
+
+jest.mock('../models/PracticeLog', () => ({ PracticeLog: { countDocuments: jest.fn(), aggregate: jest.fn() } }));
+jest.mock('../models/Topic', () => ({ Topic: {} }));
+
+const context = (overrides: Partial<RuleContext> = {}): RuleContext => ({
+    userId: 'user-1',
+    timezone: 'Asia/Kolkata',
+    now: new Date('2024-05-15T12:00:00Z'),
+    currentStreak: 4,
+    counts: {
+        all: { attempted: 12, solved: 9 },
+        'd:Hard': { attempted: 4, solved: 2 },
+        't:arrays': { attempted: 6, solved: 6 },
+        't:arrays:Hard': { attempted: 1, solved: 1 },
+    },
+    topicIdsByCategory: new Map(),
+    ...overrides,
+});
+
+const log = (overrides: Partial<PracticeLoggedEvent> = {}): PracticeLoggedEvent => ({
+    userId: 'user-1',
+    practiceLogId: 'log-1',
+    topicId: 'arrays',
+    questionTitle: 'Two Sum',
+    difficulty: 'Easy',
+    timeSpentMinutes: 15,
+    solved: true,
+    practicedAt: new Date('2024-05-15T12:00:00Z'),
+    createdAt: new Date('2024-05-15T12:00:00Z'),
+    ...overrides,
+});
+
+describe('normalizeCriteria', () => {
+    it('converts legacy criteria to rules', () => {
+        expect(normalizeCriteria({ type: 'solve_count', value: 10 }))
+            .toEqual({ type: 'count', min: 10, where: { solved: true } });
+        expect(normalizeCriteria({ type: 'streak_days', value: 7 })).toEqual({ type: 'streak', min: 7 });
+        expect(normalizeCriteria({ type: 'topic_mastery', value: 80, topicId: 'arrays' }))
+            .toEqual({ type: 'accuracy', min: 80, where: { topicIds: ['arrays'] } });
+        expect(normalizeCriteria({ type: 'time_based', value: 5, startHour: 22, endHour: 4 }))
+            .toEqual({ type: 'count', min: 5, where: { hours: { from: 22, to: 4 } } });
+    });
+
+    it('never awards unknown legacy types', () => {
+        expect(normalizeCriteria({ type: 'mystery', value: 1 })).toEqual({ all: [] });
+    });
+
+    it('leaves rule-engine criteria alone', () => {
+        const criteria = { any: [{ type: 'streak' as const, min: 30 }] };
+        expect(normalizeCriteria(criteria)).toBe(criteria);
+    });
+});
+
+describe('evaluateCriteria', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('answers counter-backed counts without querying logs', async () => {
+        await expect(evaluateCriteria({ type: 'count', min: 10, where: { solved: true } }, context()))
+            .resolves.toEqual({ met: false, progress: 0.9, current: 9, target: 10, unit: 'problems' });
+        await expect(evaluateCriteria({ type: 'count', min: 1, where: { solved: true, topicIds: ['arrays'], difficulties: ['Hard'] } }, context()))
+            .resolves.toMatchObject({ met: true, current: 1 });
+        await expect(evaluateCriteria({ type: 'count', min: 3, where: { solved: false } }, context()))
+            .resolves.toMatchObject({ met: true, current: 3 });
+
+        expect(PracticeLog.countDocuments).not.toHaveBeenCalled();
+    });
+
+    it("queries logs for filters the counters can't answer", async () => {
+        (PracticeLog.countDocuments as jest.Mock).mockResolvedValue(2);
+
+        const result = await evaluateCriteria({ type: 'count', min: 5, where: { solved: true, lastDays: 7 } }, context());
+
+        expect(result).toMatchObject({ met: false, current: 2, target: 5 });
+        expect(PracticeLog.countDocuments).toHaveBeenCalledWith({
+            userId: 'user-1',
+            solved: true,
+            practicedAt: { $gte: new Date('2024-05-08T18:30:00Z') }, // Local midnight, 6 days before today
+        });
+    });
+
+    it('needs both the accuracy and the sample size', async () => {
+        await expect(evaluateCriteria({ type: 'accuracy', min: 70 }, context()))
+            .resolves.toMatchObject({ met: true, current: 75, unit: 'percent' });
+        await expect(evaluateCriteria({ type: 'accuracy', min: 70, minAttempts: 20 }, context()))
+            .resolves.toMatchObject({ met: false, current: 12, target: 20, unit: 'problems' });
+    });
+
+    it('combines rules with all and any', async () => {
+        const streak = { type: 'streak' as const, min: 7 };
+        const solves = { type: 'count' as const, min: 5, where: { solved: true } };
+
+        await expect(evaluateCriteria({ all: [streak, solves] }, context()))
+            .resolves.toEqual({ met: false, progress: (4 / 7 + 1) / 2, current: 1, target: 2, unit: 'rules' });
+        await expect(evaluateCriteria({ any: [streak, solves] }, context()))
+            .resolves.toMatchObject({ met: true, current: 9, unit: 'problems' });
+        await expect(evaluateCriteria({ all: [] }, context())).resolves.toMatchObject({ met: false });
+    });
+
+    it("counts a repeatable badge's streak from the previous award", async () => {
+        const since = new Date('2024-05-13T12:00:00Z');
+
+        await expect(evaluateCriteria({ type: 'streak', min: 3 }, context({ currentStreak: 10, since })))
+            .resolves.toMatchObject({ met: false, current: 2 });
+    });
+});
+
+describe('isCriteriaAffectedByLog', () => {
+    it("skips badges the log can't move", async () => {
+        const hardSolves = { type: 'count' as const, min: 10, where: { solved: true, difficulties: ['Hard' as const] } };
+
+        await expect(isCriteriaAffectedByLog(hardSolves, log(), context())).resolves.toBe(false);
+        await expect(isCriteriaAffectedByLog(hardSolves, log({ difficulty: 'Hard' }), context())).resolves.toBe(true);
+        await expect(isCriteriaAffectedByLog({ type: 'streak', min: 7 }, log(), context())).resolves.toBe(true);
+    });
+
+    it('lets unsolved logs move accuracy but not solve counts', async () => {
+        const failed = log({ solved: false });
+
+        await expect(isCriteriaAffectedByLog({ type: 'count', min: 1, where: { solved: true } }, failed, context()))
+            .resolves.toBe(false);
+        await expect(isCriteriaAffectedByLog({ type: 'accuracy', min: 80, where: { solved: true } }, failed, context()))
+            .resolves.toBe(true);
+    });
+
+    it("matches hour windows in the user's time zone, past midnight", async () => {
+        const nightOwl = { type: 'count' as const, min: 5, where: { hours: { from: 22, to: 4 } } };
+
+        // 18:00 UTC is 23:30 in India
+        await expect(isCriteriaAffectedByLog(nightOwl, log({ practicedAt: new Date('2024-05-15T18:00:00Z') }), context()))
+            .resolves.toBe(true);
+        await expect(isCriteriaAffectedByLog(nightOwl, log({ practicedAt: new Date('2024-05-15T06:00:00Z') }), context()))
+            .resolves.toBe(false);
+    });
+});
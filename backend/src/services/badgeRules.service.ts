@@ -0,0 +1,421 @@
+/**
+ * Badge Rules Service - Criteria Engine
+ *
+ * Evaluates the JSON badge criteria language (BadgeCriteria in
+ * types/gamification.types.ts) for one user:
+ * - count / accuracy rules scoped only by solved, difficulty, topic and
+ *   category are answered from the user's BadgeCounter (no query)
+ * - Other leaf rules become one PracticeLog aggregation each; streak reads
+ *   the user document
+ * - { all } / { any } combine leaf results
+ * - Days and hours are the user's local days and hours
+ *
+ * isCriteriaAffectedByLog tells the awarding code which badges a new log
+ * can possibly change, so the rest are skipped.
+ *
+ * Every rule also reports progress (0-1) and current/target values, so badge
+ * progress bars and hints use the same definition as awarding.
+ */
+
+import { PipelineStage } from 'mongoose';
+import { PracticeLog } from '../models/PracticeLog';
+import { Topic } from '../models/Topic';
+import { User } from '../models/User';
+import { BadgeCounts, CounterValue } from '../models/BadgeCounter';
+import { BadgeCriteria, BadgeRule, BadgeProgressUnit, LogFilter } from '../types/gamification.types';
+import { PracticeLoggedEvent } from '../types/events.types';
+import { DEFAULT_TIMEZONE, addDays, getDayNumber, getLocalHour } from '../utils/timezone';
+import { getBadgeCounters, sumBadgeCounters } from './badgeCounter.service';
+
+export interface CriteriaResult {
+    met: boolean;
+    progress: number; // 0-1
+    current: number;
+    target: number;
+    unit: BadgeProgressUnit;
+}
+
+/**
+ * Per-user state shared by every rule in one evaluation run
+ * (create once, evaluate many badges)
+ */
+export interface RuleContext {
+    userId: string;
+    timezone: string;
+    now: Date;
+    currentStreak: number;
+    counts: BadgeCounts;
+    since?: Date; // Repeatable badges: only activity after the previous award counts
+    topicIdsByCategory: Map<string, string[]>;
+}
+
+/**
+ * Load what the rules need to know about a user
+ */
+export const createRuleContext = async (userId: string): Promise<RuleContext> => {
+    const user = await User.findById(userId).select('timezone gamification');
+
+    return {
+        userId,
+        timezone: user?.timezone || DEFAULT_TIMEZONE,
+        now: new Date(),
+        currentStreak: user?.gamification?.currentStreak || 0,
+        counts: await getBadgeCounters(userId),
+        topicIdsByCategory: new Map(),
+    };
+};
+
+/**
+ * Convert pre-rule-engine criteria ({ type, value, topicId }) still stored
+ * in older databases. New-style criteria are returned unchanged.
+ */
+export const normalizeCriteria = (criteria: any): BadgeCriteria => {
+    if (!criteria || 'all' in criteria || 'any' in criteria || 'min' in criteria) {
+        return criteria;
+    }
+
+    switch (criteria.type) {
+        case 'solve_count':
+            return { type: 'count', min: criteria.value, where: { solved: true } };
+        case 'streak_days':
+            return { type: 'streak', min: criteria.value };
+        case 'topic_mastery':
+            return { type: 'accuracy', min: criteria.value, where: { topicIds: [criteria.topicId] } };
+        case 'accuracy':
+            return { type: 'accuracy', min: criteria.value };
+        case 'time_based':
+            return criteria.startHour !== undefined && criteria.endHour !== undefined
+                ? { type: 'count', min: criteria.value, where: { hours: { from: criteria.startHour, to: criteria.endHour } } }
+                : { type: 'count', min: criteria.value, per: 'day', where: { solved: true } };
+        default:
+            // Unknown legacy type: never awarded
+            return { all: [] };
+    }
+};
+
+/**
+ * Evaluate criteria for the context's user
+ *
+ * - all: met if every rule is met; progress is the average,
+ *   current/target count met rules
+ * - any: met if one rule is met; progress and current/target are the best
+ *   rule's
+ */
+export const evaluateCriteria = async (
+    criteria: BadgeCriteria,
+    context: RuleContext
+): Promise<CriteriaResult> => {
+    if ('all' in criteria) {
+        if (criteria.all.length === 0) return { met: false, progress: 0, current: 0, target: 1, unit: 'rules' };
+
+        const results = [];
+        for (const child of criteria.all) {
+            results.push(await evaluateCriteria(child, context));
+        }
+        if (results.length === 1) return results[0];
+
+        const metCount = results.filter((r) => r.met).length;
+        return {
+            met: metCount === results.length,
+            progress: results.reduce((sum, r) => sum + r.progress, 0) / results.length,
+            current: metCount,
+            target: results.length,
+            unit: 'rules',
+        };
+    }
+
+    if ('any' in criteria) {
+        let best: CriteriaResult | null = null;
+        for (const child of criteria.any) {
+            const result = await evaluateCriteria(child, context);
+            // One met rule is enough: skip the remaining aggregations
+            if (result.met) return result;
+            if (!best || result.progress > best.progress) best = result;
+        }
+        return best!;
+    }
+
+    return evaluateRule(criteria, context);
+};
+
+/**
+ * Can this new log change the criteria's result?
+ *
+ * A rule's numbers only move when a log matching its filter arrives
+ * (accuracy and active_days also move on unsolved logs). Streak rules are
+ * always affected: every log can extend the streak.
+ */
+export const isCriteriaAffectedByLog = async (
+    criteria: BadgeCriteria,
+    log: PracticeLoggedEvent,
+    context: RuleContext
+): Promise<boolean> => {
+    const children = 'all' in criteria ? criteria.all : 'any' in criteria ? criteria.any : null;
+    if (children) {
+        for (const child of children) {
+            if (await isCriteriaAffectedByLog(child, log, context)) return true;
+        }
+        return false;
+    }
+
+    const rule = criteria as BadgeRule;
+    switch (rule.type) {
+        case 'streak':
+            return true;
+        case 'count':
+            return logMatchesFilter(log, rule.where, context, true);
+        case 'active_days':
+        case 'accuracy':
+            return logMatchesFilter(log, rule.where, context, false);
+        default:
+            return false;
+    }
+};
+
+/**
+ * In-memory version of buildLogMatch for a single log
+ */
+const logMatchesFilter = async (
+    log: PracticeLoggedEvent,
+    where: LogFilter | undefined,
+    context: RuleContext,
+    checkSolved: boolean
+): Promise<boolean> => {
+    if (!where) return true;
+
+    if (checkSolved && where.solved !== undefined && log.solved !== where.solved) return false;
+    if (where.difficulties && !where.difficulties.includes(log.difficulty as 'Easy' | 'Medium' | 'Hard')) {
+        return false;
+    }
+    if (where.minTimeMinutes !== undefined && log.timeSpentMinutes < where.minTimeMinutes) return false;
+    if (where.maxTimeMinutes !== undefined && log.timeSpentMinutes > where.maxTimeMinutes) return false;
+
+    const practicedAt = new Date(log.practicedAt);
+    if (where.from && practicedAt < new Date(where.from)) return false;
+    if (where.to && practicedAt >= new Date(where.to)) return false;
+    if (where.lastDays && practicedAt < addDays(context.now, -(where.lastDays - 1), context.timezone)) {
+        return false;
+    }
+
+    if (where.hours) {
+        const hour = getLocalHour(practicedAt, context.timezone);
+        const { from, to } = where.hours;
+        const inWindow = from < to ? hour >= from && hour < to : hour >= from || hour < to;
+        if (!inWindow) return false;
+    }
+
+    const topicIds = await resolveTopicIds(where, context);
+    return !topicIds || topicIds.includes(log.topicId);
+};
+
+/**
+ * Evaluate a single leaf rule
+ */
+const evaluateRule = async (rule: BadgeRule, context: RuleContext): Promise<CriteriaResult> => {
+    switch (rule.type) {
+        case 'streak':
+            return toResult(
+                context.since
+                    ? Math.min(context.currentStreak, getDayNumber(context.now, context.timezone)
+                        - getDayNumber(context.since, context.timezone))
+                    : context.currentStreak,
+                rule.min,
+                'days'
+            );
+
+        case 'count': {
+            if (rule.per !== 'day' && canUseCounters(rule.where, context)) {
+                const { attempted, solved } = await sumCounters(rule.where, context);
+                const count = rule.where?.solved === undefined
+                    ? attempted
+                    : rule.where.solved ? solved : attempted - solved;
+                return toResult(count, rule.min, 'problems');
+            }
+
+            const match = await buildLogMatch(rule.where, context);
+            const count = rule.per === 'day'
+                ? await countBestDay(match, context)
+                : await PracticeLog.countDocuments(match);
+            return toResult(count, rule.min, 'problems');
+        }
+
+        case 'active_days': {
+            const match = await buildLogMatch(rule.where, context);
+            const [result] = await PracticeLog.aggregate<{ days: number }>([
+                { $match: match },
+                { $group: { _id: localDay(context) } },
+                { $count: 'days' },
+            ]);
+            return toResult(result?.days || 0, rule.min, 'days');
+        }
+
+        case 'accuracy': {
+            let attempted = 0;
+            let solved = 0;
+            if (canUseCounters(rule.where, context)) {
+                ({ attempted, solved } = await sumCounters(rule.where, context));
+            } else {
+                const match = await buildLogMatch(rule.where, context);
+                const [result] = await PracticeLog.aggregate<{ attempted: number; solved: number }>([
+                    { $match: match },
+                    {
+                        $group: {
+                            _id: null,
+                            attempted: { $sum: 1 },
+                            solved: { $sum: { $cond: ['$solved', 1, 0] } },
+                        },
+                    },
+                ]);
+                attempted = result?.attempted || 0;
+                solved = result?.solved || 0;
+            }
+
+            const minAttempts = rule.minAttempts || 1;
+            const accuracy = attempted > 0 ? (solved / attempted) * 100 : 0;
+
+            // Both the accuracy and the sample size have to be there;
+            // current/target show whichever is further away
+            const needsAttempts = attempted < minAttempts && attempted / minAttempts < accuracy / rule.min;
+            return {
+                met: attempted >= minAttempts && accuracy >= rule.min,
+                progress: Math.min(1, accuracy / rule.min, attempted / minAttempts),
+                current: needsAttempts ? attempted : Math.floor(accuracy),
+                target: needsAttempts ? minAttempts : rule.min,
+                unit: needsAttempts ? 'problems' : 'percent',
+            };
+        }
+
+        default:
+            return { met: false, progress: 0, current: 0, target: 1, unit: 'rules' };
+    }
+};
+
+const toResult = (current: number, target: number, unit: BadgeProgressUnit): CriteriaResult => ({
+    met: current >= target,
+    progress: Math.min(1, current / target),
+    current,
+    target,
+    unit,
+});
+
+/**
+ * Local calendar day of a log, as "YYYY-MM-DD"
+ */
+const localDay = (context: RuleContext) => ({
+    $dateToString: { format: '%Y-%m-%d', date: '$practicedAt', timezone: context.timezone },
+});
+
+/**
+ * Most matching logs on a single local day
+ */
+const countBestDay = async (match: Record<string, any>, context: RuleContext): Promise<number> => {
+    const pipeline: PipelineStage[] = [
+        { $match: match },
+        { $group: { _id: localDay(context), count: { $sum: 1 } } },
+        { $sort: { count: -1 } },
+        { $limit: 1 },
+    ];
+    const [busiestDay] = await PracticeLog.aggregate<{ count: number }>(pipeline);
+    return busiestDay?.count || 0;
+};
+
+/**
+ * Topic ids in the given categories (cached for the run)
+ */
+const getCategoryTopicIds = async (categories: string[], context: RuleContext): Promise<string[]> => {
+    const topicIds: string[] = [];
+
+    for (const category of categories) {
+        let ids = context.topicIdsByCategory.get(category);
+        if (!ids) {
+            const topics = await Topic.find({ category }).select('_id');
+            ids = topics.map((t) => t._id.toString());
+            context.topicIdsByCategory.set(category, ids);
+        }
+        topicIds.push(...ids);
+    }
+
+    return topicIds;
+};
+
+/**
+ * Topic scope of a filter: listed topics plus every topic in the listed
+ * categories (undefined = any topic)
+ */
+const resolveTopicIds = async (
+    where: LogFilter | undefined,
+    context: RuleContext
+): Promise<string[] | undefined> => {
+    if (!where?.topicIds && !where?.categories) return undefined;
+
+    return [
+        ...(where.topicIds || []),
+        ...(where.categories ? await getCategoryTopicIds(where.categories, context) : []),
+    ];
+};
+
+/**
+ * Counters only split logs by topic and difficulty: time windows,
+ * hours, time-per-solve and "since the last award" need the logs themselves
+ */
+const COUNTER_FILTER_KEYS = new Set(['solved', 'difficulties', 'topicIds', 'categories']);
+
+const canUseCounters = (where: LogFilter | undefined, context: RuleContext): boolean =>
+    !context.since && (!where || Object.keys(where).every((key) => COUNTER_FILTER_KEYS.has(key)));
+
+const sumCounters = async (where: LogFilter | undefined, context: RuleContext): Promise<CounterValue> =>
+    sumBadgeCounters(context.counts, await resolveTopicIds(where, context), where?.difficulties);
+
+/**
+ * Translate a LogFilter into a PracticeLog $match
+ */
+const buildLogMatch = async (
+    where: LogFilter = {},
+    context: RuleContext
+): Promise<Record<string, any>> => {
+    const match: Record<string, any> = { userId: context.userId };
+
+    if (where.solved !== undefined) {
+        match.solved = where.solved;
+    }
+
+    if (where.difficulties) {
+        match.difficulty = { $in: where.difficulties };
+    }
+
+    // Topic scope: listed topics plus every topic in the listed categories
+    const topicIds = await resolveTopicIds(where, context);
+    if (topicIds) {
+        match.topicId = { $in: topicIds };
+    }
+
+    if (where.minTimeMinutes !== undefined || where.maxTimeMinutes !== undefined) {
+        match.timeSpentMinutes = {
+            ...(where.minTimeMinutes !== undefined && { $gte: where.minTimeMinutes }),
+            ...(where.maxTimeMinutes !== undefined && { $lte: where.maxTimeMinutes }),
+        };
+    }
+
+    // Time windows: the later start and the earlier end win
+    const starts: Date[] = [];
+    if (where.lastDays) starts.push(addDays(context.now, -(where.lastDays - 1), context.timezone));
+    if (where.from) starts.push(new Date(where.from));
+    if (context.since) starts.push(context.since);
+    if (starts.length > 0 || where.to) {
+        match.practicedAt = {
+            ...(starts.length > 0 && { $gte: new Date(Math.max(...starts.map((d) => d.getTime()))) }),
+            ...(where.to && { $lt: new Date(where.to) }),
+        };
+    }
+
+    // Local hour-of-day window, wrapping past midnight when from > to
+    if (where.hours) {
+        const hour = { $hour: { date: '$practicedAt', timezone: context.timezone } };
+        const { from, to } = where.hours;
+        match.$expr = from < to
+            ? { $and: [{ $gte: [hour, from] }, { $lt: [hour, to] }] }
+            : { $or: [{ $gte: [hour, from] }, { $lt: [hour, to] }] };
+    }
+
+    return match;
+};
@@ -2,22 +2,27 @@
  * Challenge Service - Business Logic for Daily Challenges
  * 
  * Handles challenge generation, progress tracking, and completion.
+ * A challenge's date is the start of the day in the user's time zone.
  */
 
 import { DailyChallenge } from '../models/DailyChallenge';
 import { UserProgress } from '../models/UserProgress';
 import { Topic } from '../models/Topic';
-import { User } from '../models/User';
 import { PracticeLog } from '../models/PracticeLog';
 import { DailyChallengeResponse } from '../types/gamification.types';
+import { adjustUserPoints } from './practice.service';
+import { eventBus } from './eventBus.service';
+import { getEconomy } from './economy.service';
+import { getUserTimeZone } from './auth.service';
+import { User } from '../models/User';
+import { DEFAULT_TIMEZONE, startOfDay, addDays, getLocalHour } from '../utils/timezone';
 
 /**
  * Generate daily challenges for a user
- * Called by cron job at midnight
+ * Called by cron job at the user's local midnight
  */
 export const generateDailyChallenges = async (userId: string): Promise<void> => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = startOfDay(new Date(), await getUserTimeZone(userId));
 
     // Check if challenge already exists for today
     const existing = await DailyChallenge.findOne({ userId, date: today });
@@ -55,7 +60,7 @@ export const generateDailyChallenges = async (userId: string): Promise<void> =>
         date: today,
         challenges,
         overallCompleted: false,
-        rewardPoints: 50,
+        rewardPoints: (await getEconomy()).challengeRewardPoints,
     });
 };
 
@@ -63,8 +68,7 @@ export const generateDailyChallenges = async (userId: string): Promise<void> =>
  * Get today's challenge for user
  */
 export const getTodayChallenge = async (userId: string): Promise<DailyChallengeResponse | null> => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = startOfDay(new Date(), await getUserTimeZone(userId));
 
     const challenge = await DailyChallenge.findOne({ userId, date: today });
 
@@ -102,8 +106,7 @@ export const getTodayChallenge = async (userId: string): Promise<DailyChallengeR
 export const updateChallengeProgress = async (userId: string, topicId: string, difficulty: string, solved: boolean): Promise<void> => {
     if (!solved) return; // Only count solved questions
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = startOfDay(new Date(), await getUserTimeZone(userId));
 
     const challenge = await DailyChallenge.findOne({ userId, date: today });
     if (!challenge) return;
@@ -125,17 +128,94 @@ export const updateChallengeProgress = async (userId: string, topicId: string, d
 
     // Check if all challenges completed
     const allCompleted = challenge.challenges.every(c => c.completed);
-    if (allCompleted && !challenge.overallCompleted) {
+    const justCompleted = allCompleted && !challenge.overallCompleted;
+    if (justCompleted) {
         challenge.overallCompleted = true;
         challenge.completedAt = new Date();
 
         // Award reward points
-        await User.findByIdAndUpdate(userId, {
-            $inc: { 'gamification.totalPoints': challenge.rewardPoints },
+        await adjustUserPoints(userId, challenge.rewardPoints, {
+            source: 'daily_challenge',
+            referenceId: challenge._id.toString(),
+            description: 'Daily challenge completed',
+        });
+    }
+
+    await challenge.save();
+
+    if (justCompleted) {
+        await eventBus.publish('ChallengeCompleted', {
+            userId,
+            challengeId: challenge._id.toString(),
+            date: challenge.date,
+            rewardPoints: challenge.rewardPoints,
+        });
+    }
+};
+
+/**
+ * Recount a day's challenge progress from practice logs
+ * Called after a practice log is edited or deleted
+ * 
+ * Counts solved logs created that day (the same logs updateChallengeProgress
+ * counted). Completion reward points are awarded or taken back if the
+ * overall status flips.
+ * 
+ * @param day - Any time on the challenge's day
+ */
+export const recountChallengeProgress = async (userId: string, day: Date): Promise<void> => {
+    const timezone = await getUserTimeZone(userId);
+    const date = startOfDay(day, timezone);
+    const nextDay = addDays(date, 1, timezone);
+
+    const challenge = await DailyChallenge.findOne({ userId, date });
+    if (!challenge) return;
+
+    const logs = await PracticeLog.find({
+        userId,
+        solved: true,
+        createdAt: { $gte: date, $lt: nextDay },
+    });
+
+    challenge.challenges.forEach((c) => {
+        const solvedCount = logs.filter(
+            (log) => log.topicId === c.topicId && log.difficulty === c.difficulty
+        ).length;
+        c.questionsCompleted = Math.min(solvedCount, c.targetQuestions);
+        c.completed = solvedCount >= c.targetQuestions;
+    });
+
+    const allCompleted = challenge.challenges.every(c => c.completed);
+
+    const justCompleted = allCompleted && !challenge.overallCompleted;
+    if (justCompleted) {
+        challenge.overallCompleted = true;
+        challenge.completedAt = new Date();
+        await adjustUserPoints(userId, challenge.rewardPoints, {
+            source: 'daily_challenge',
+            referenceId: challenge._id.toString(),
+            description: 'Daily challenge completed',
+        });
+    } else if (!allCompleted && challenge.overallCompleted) {
+        challenge.overallCompleted = false;
+        challenge.completedAt = undefined;
+        await adjustUserPoints(userId, -challenge.rewardPoints, {
+            source: 'daily_challenge',
+            referenceId: challenge._id.toString(),
+            description: 'Daily challenge no longer complete (log edited or deleted)',
         });
     }
 
     await challenge.save();
+
+    if (justCompleted) {
+        await eventBus.publish('ChallengeCompleted', {
+            userId,
+            challengeId: challenge._id.toString(),
+            date: challenge.date,
+            rewardPoints: challenge.rewardPoints,
+        });
+    }
 };
 
 /**
@@ -157,11 +237,11 @@ export const getChallengeHistory = async (userId: string, limit: number = 7): Pr
 };
 
 /**
- * Generate challenges for all active users
- * Called by cron job at midnight
+ * Generate challenges for active users whose local day just started
+ * Called by cron job every hour (each time zone reaches midnight at a different hour)
  */
 export const generateChallengesForAllUsers = async (): Promise<void> => {
-    console.log('🎯 Generating daily challenges for all users...');
+    console.log('🎯 Generating daily challenges for users at local midnight...');
 
     // Get all users who have practiced in the last 30 days
     const thirtyDaysAgo = new Date();
@@ -171,8 +251,15 @@ export const generateChallengesForAllUsers = async (): Promise<void> => {
         practicedAt: { $gte: thirtyDaysAgo }
     }).distinct('userId');
 
+    // Only users for whom it's now between 00:00 and 00:59 local time
+    const now = new Date();
+    const users = await User.find({ _id: { $in: recentPracticeLogs } }).select('timezone');
+    const dueUserIds = users
+        .filter((user) => getLocalHour(now, user.timezone || DEFAULT_TIMEZONE) === 0)
+        .map((user) => user._id.toString());
+
     // Generate challenges for each active user
-    for (const userId of recentPracticeLogs) {
+    for (const userId of dueUserIds) {
         try {
             await generateDailyChallenges(userId);
         } catch (error) {
@@ -180,5 +267,5 @@ export const generateChallengesForAllUsers = async (): Promise<void> => {
         }
     }
 
-    console.log(`✅ Generated challenges for ${recentPracticeLogs.length} active users`);
+    console.log(`✅ Generated challenges for ${dueUserIds.length} active users`);
 };
@@ -0,0 +1,88 @@
+import {
+    calculateSolvePoints,
+    getPointsForLevel,
+    getLevelForPoints,
+    getLevelTitle,
+    Economy,
+} from './economy.service';
+import { EconomyConfig } from '../models/EconomyConfig';
+
+const economy: Economy = {
+    practicePoints: { Easy: 10, Medium: 20, Hard: 30 },
+    firstSolveBonus: 5,
+    repeatSolveMultipliers: [0.5, 0.25, 0],
+    challengeRewardPoints: 50,
+    levelCurve: { basePoints: 100, exponent: 1 },
+    levelTitles: [
+        { level: 1, title: 'Novice' },
+        { level: 5, title: 'Apprentice' },
+    ],
+    levelCurveVersion: 1,
+};
+
+describe('default economy config', () => {
+    const config = new EconomyConfig();
+
+    it('keeps the original 100 points per level', () => {
+        const curve = { basePoints: config.levelCurve.basePoints, exponent: config.levelCurve.exponent };
+
+        expect(getLevelForPoints(0, curve)).toBe(1);
+        expect(getLevelForPoints(99, curve)).toBe(1);
+        expect(getLevelForPoints(400, curve)).toBe(5);
+        for (const points of [0, 150, 999, 12345]) {
+            expect(getLevelForPoints(points, curve)).toBe(Math.floor(points / 100) + 1);
+        }
+    });
+
+    it('needs no level migration until an admin changes the curve', () => {
+        expect(config.levelMigration.migratedVersion).toBe(config.levelCurveVersion);
+    });
+});
+
+describe('calculateSolvePoints', () => {
+    it('adds the first-solve bonus to the first solve', () => {
+        expect(calculateSolvePoints(economy, 'Medium', 0)).toBe(25);
+    });
+
+    it('uses the repeat multipliers, the last one from then on', () => {
+        expect(calculateSolvePoints(economy, 'Hard', 1)).toBe(15);
+        expect(calculateSolvePoints(economy, 'Hard', 2)).toBe(8);
+        expect(calculateSolvePoints(economy, 'Hard', 3)).toBe(0);
+        expect(calculateSolvePoints(economy, 'Hard', 10)).toBe(0);
+    });
+
+    it('pays full points for repeats when there are no multipliers', () => {
+        expect(calculateSolvePoints({ ...economy, repeatSolveMultipliers: [] }, 'Easy', 4)).toBe(10);
+    });
+});
+
+describe('level curve', () => {
+    const curve = { basePoints: 100, exponent: 1.5 };
+
+    it('starts level 1 at 0 points', () => {
+        expect(getPointsForLevel(1, curve)).toBe(0);
+        expect(getLevelForPoints(-50, curve)).toBe(1);
+    });
+
+    it('is the inverse of getPointsForLevel at every level boundary', () => {
+        for (let level = 1; level <= 60; level++) {
+            const start = getPointsForLevel(level, curve);
+            expect(getLevelForPoints(start, curve)).toBe(level);
+            if (start > 0) {
+                expect(getLevelForPoints(start - 1, curve)).toBe(level - 1);
+            }
+        }
+    });
+
+    it('stops at MAX_LEVEL', () => {
+        expect(getLevelForPoints(Number.MAX_SAFE_INTEGER, { basePoints: 1, exponent: 1 })).toBe(1000);
+    });
+});
+
+describe('getLevelTitle', () => {
+    it('uses the highest title starting at or below the level', () => {
+        expect(getLevelTitle(1, economy.levelTitles)).toBe('Novice');
+        expect(getLevelTitle(4, economy.levelTitles)).toBe('Novice');
+        expect(getLevelTitle(9, economy.levelTitles)).toBe('Apprentice');
+    });
+});
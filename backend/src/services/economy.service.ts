@@ -0,0 +1,371 @@
+/**
+ * Economy Service - Points and Leveling
+ *
+ * One source for every number in the points economy (models/EconomyConfig.ts):
+ * - Practice points by difficulty, a first-solve bonus and diminishing
+ *   returns for re-solving the same question
+ * - Daily challenge reward
+ * - Level curve (points for level L = basePoints * (L - 1) ^ exponent)
+ *   and named level titles
+ *
+ * The config is cached per instance for a minute; saving it publishes
+ * EconomyConfigUpdated so every instance drops its copy right away.
+ *
+ * Changing the level curve starts a migration that recomputes every user's
+ * level in batches. It holds a lease (one instance at a time), checkpoints
+ * after each batch (a crash resumes where it stopped) and never overwrites
+ * a level whose points changed since the batch was read.
+ */
+
+import { EconomyConfig, IEconomyConfig } from '../models/EconomyConfig';
+import { User } from '../models/User';
+import { eventBus } from './eventBus.service';
+import {
+    EconomyConfigResponse,
+    LevelProgressResponse,
+    UpdateEconomyConfigDTO,
+} from '../types/gamification.types';
+
+type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
+export type Economy = Omit<EconomyConfigResponse, 'levelMigration' | 'updatedAt'>;
+
+export type LevelCurve = Economy['levelCurve'];
+
+const CONFIG_KEY = 'default';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Levels stop here, whatever the curve
+ */
+export const MAX_LEVEL = 1000;
+
+const MIGRATION_BATCH_SIZE = 500;
+const MIGRATION_LEASE_MS = 5 * 60 * 1000;
+
+let cached: { economy: Economy; loadedAt: number } | null = null;
+
+const toEconomy = (config: IEconomyConfig): Economy => ({
+    practicePoints: {
+        Easy: config.practicePoints.Easy,
+        Medium: config.practicePoints.Medium,
+        Hard: config.practicePoints.Hard,
+    },
+    firstSolveBonus: config.firstSolveBonus,
+    repeatSolveMultipliers: [...config.repeatSolveMultipliers],
+    challengeRewardPoints: config.challengeRewardPoints,
+    levelCurve: {
+        basePoints: config.levelCurve.basePoints,
+        exponent: config.levelCurve.exponent,
+    },
+    levelTitles: config.levelTitles.map((t) => ({ level: t.level, title: t.title })),
+    levelCurveVersion: config.levelCurveVersion,
+});
+
+const getMigrationStatus = (config: IEconomyConfig): EconomyConfigResponse['levelMigration']['status'] => {
+    const migration = config.levelMigration;
+    if (migration.lockedUntil && migration.lockedUntil > new Date()) return 'running';
+    if (migration.migratedVersion >= config.levelCurveVersion) return 'done';
+    return migration.error ? 'failed' : 'pending';
+};
+
+const toConfigResponse = (config: IEconomyConfig): EconomyConfigResponse => ({
+    ...toEconomy(config),
+    levelMigration: {
+        status: getMigrationStatus(config),
+        migratedVersion: config.levelMigration.migratedVersion,
+        usersUpdated: config.levelMigration.usersUpdated,
+        startedAt: config.levelMigration.startedAt,
+        finishedAt: config.levelMigration.finishedAt,
+        error: config.levelMigration.error,
+    },
+    updatedAt: config.updatedAt,
+});
+
+/**
+ * Saved config, or an unsaved one holding the defaults
+ */
+const loadConfig = async (): Promise<IEconomyConfig> =>
+    (await EconomyConfig.findOne({ key: CONFIG_KEY })) || new EconomyConfig({ key: CONFIG_KEY });
+
+/**
+ * Current economy (cached)
+ */
+export const getEconomy = async (): Promise<Economy> => {
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+        return cached.economy;
+    }
+
+    const economy = toEconomy(await loadConfig());
+    cached = { economy, loadedAt: Date.now() };
+    return economy;
+};
+
+/**
+ * Points a solve is worth
+ *
+ * @param previousSolves - Times the user already solved this question
+ */
+export const calculateSolvePoints = (economy: Economy, difficulty: Difficulty, previousSolves: number): number => {
+    const base = economy.practicePoints[difficulty] || 0;
+    if (previousSolves === 0) {
+        return base + economy.firstSolveBonus;
+    }
+
+    const multipliers = economy.repeatSolveMultipliers;
+    if (multipliers.length === 0) return base;
+
+    // 2nd solve uses the first multiplier; the last one applies from then on
+    const multiplier = multipliers[Math.min(previousSolves, multipliers.length) - 1];
+    return Math.round(base * multiplier);
+};
+
+/**
+ * Total points a level starts at
+ */
+export const getPointsForLevel = (level: number, curve: LevelCurve): number =>
+    level <= 1 ? 0 : Math.round(curve.basePoints * Math.pow(level - 1, curve.exponent));
+
+/**
+ * Level reached with a points total
+ */
+export const getLevelForPoints = (points: number, curve: LevelCurve): number => {
+    const total = Math.max(0, points);
+    let level = Math.floor(Math.pow(total / curve.basePoints, 1 / curve.exponent)) + 1;
+
+    // The closed form can be one off after rounding; settle on the exact level
+    while (level > 1 && getPointsForLevel(level, curve) > total) level--;
+    while (level < MAX_LEVEL && getPointsForLevel(level + 1, curve) <= total) level++;
+
+    return Math.min(level, MAX_LEVEL);
+};
+
+/**
+ * Title for a level (the highest title starting at or below it)
+ */
+export const getLevelTitle = (level: number, titles: Economy['levelTitles']): string => {
+    const title = [...titles].reverse().find((t) => t.level <= level);
+    return title?.title || `Level ${level}`;
+};
+
+/**
+ * Where a points total sits on the level curve
+ */
+export const getLevelProgress = async (totalPoints: number): Promise<LevelProgressResponse> => {
+    const economy = await getEconomy();
+    const level = getLevelForPoints(totalPoints, economy.levelCurve);
+    const nextTitle = economy.levelTitles.find((t) => t.level > level);
+
+    return {
+        level,
+        title: getLevelTitle(level, economy.levelTitles),
+        totalPoints,
+        currentLevelPoints: getPointsForLevel(level, economy.levelCurve),
+        nextLevelPoints: getPointsForLevel(Math.min(level + 1, MAX_LEVEL), economy.levelCurve),
+        ...(nextTitle && { nextTitle }),
+    };
+};
+
+/**
+ * The user's level, title and points to the next level
+ *
+ * @throws Error if user not found
+ */
+export const getUserLevelProgress = async (userId: string): Promise<LevelProgressResponse> => {
+    const user = await User.findById(userId).select('gamification.totalPoints');
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    return getLevelProgress(user.gamification?.totalPoints || 0);
+};
+
+/**
+ * Full config with the level migration's status (admin)
+ */
+export const getEconomyConfig = async (): Promise<EconomyConfigResponse> => toConfigResponse(await loadConfig());
+
+/**
+ * Update the economy (admin)
+ *
+ * A different level curve bumps levelCurveVersion and starts the level
+ * migration in the background. Points already awarded are never changed.
+ *
+ * @param data - Fields to change (validated by updateEconomyConfigSchema)
+ * @param adminId - Admin making the change
+ */
+export const updateEconomyConfig = async (
+    data: UpdateEconomyConfigDTO,
+    adminId: string
+): Promise<EconomyConfigResponse> => {
+    const config = await loadConfig();
+
+    if (data.practicePoints) {
+        config.practicePoints = { ...toEconomy(config).practicePoints, ...data.practicePoints };
+    }
+    if (data.firstSolveBonus !== undefined) config.firstSolveBonus = data.firstSolveBonus;
+    if (data.repeatSolveMultipliers) config.repeatSolveMultipliers = data.repeatSolveMultipliers;
+    if (data.challengeRewardPoints !== undefined) config.challengeRewardPoints = data.challengeRewardPoints;
+    if (data.levelTitles) {
+        config.levelTitles = [...data.levelTitles].sort((a, b) => a.level - b.level);
+    }
+
+    const curveChanged = data.levelCurve !== undefined && (
+        data.levelCurve.basePoints !== config.levelCurve.basePoints ||
+        data.levelCurve.exponent !== config.levelCurve.exponent
+    );
+    if (curveChanged) {
+        config.levelCurve = data.levelCurve!;
+        config.levelCurveVersion += 1;
+        config.levelMigration.lastUserId = null;
+        config.levelMigration.usersUpdated = 0;
+        config.levelMigration.error = undefined;
+    }
+
+    config.updatedBy = adminId;
+    await config.save();
+
+    cached = null;
+    await eventBus.publish('EconomyConfigUpdated', { levelCurveVersion: config.levelCurveVersion });
+
+    if (curveChanged) {
+        runLevelMigration().catch((error) => {
+            console.error('❌ Level migration failed:', error);
+        });
+    }
+
+    return toConfigResponse(config);
+};
+
+/**
+ * Recompute every user's level for the current level curve
+ *
+ * Safe to call at any time, from any instance: it returns right away when
+ * there's nothing to migrate or another instance holds the lease, and
+ * resumes from the last checkpoint after a crash. If the curve changes
+ * again mid-run, it starts over for the new curve.
+ *
+ * No LevelUp events: a curve change isn't an achievement.
+ *
+ * @returns Number of users whose level changed
+ */
+export const runLevelMigration = async (): Promise<number> => {
+    // Make sure the config exists, so the lease below has a document to live on
+    await EconomyConfig.updateOne({ key: CONFIG_KEY }, { $setOnInsert: { key: CONFIG_KEY } }, { upsert: true });
+
+    const now = new Date();
+    const config = await EconomyConfig.findOneAndUpdate(
+        {
+            key: CONFIG_KEY,
+            $expr: { $lt: ['$levelMigration.migratedVersion', '$levelCurveVersion'] },
+            $or: [
+                { 'levelMigration.lockedUntil': null },
+                { 'levelMigration.lockedUntil': { $lt: now } },
+            ],
+        },
+        {
+            $set: { 'levelMigration.lockedUntil': new Date(now.getTime() + MIGRATION_LEASE_MS) },
+            $unset: { 'levelMigration.error': '' },
+        },
+        { new: true }
+    );
+    if (!config) return 0;
+
+    const version = config.levelCurveVersion;
+    const curve = toEconomy(config).levelCurve;
+    let lastUserId = config.levelMigration.lastUserId;
+    let usersUpdated = config.levelMigration.usersUpdated;
+
+    if (!lastUserId) {
+        await EconomyConfig.updateOne({ key: CONFIG_KEY }, { $set: { 'levelMigration.startedAt': now } });
+    }
+    console.log(`🔁 Migrating user levels to level curve v${version}...`);
+
+    // Lease released and version changed: start over for the new curve
+    const restart = async (): Promise<number> => {
+        await EconomyConfig.updateOne({ key: CONFIG_KEY }, { $set: { 'levelMigration.lockedUntil': null } });
+        return runLevelMigration();
+    };
+
+    try {
+        for (;;) {
+            const users = await User.find(lastUserId ? { _id: { $gt: lastUserId } } : {})
+                .sort({ _id: 1 })
+                .limit(MIGRATION_BATCH_SIZE)
+                .select('gamification.totalPoints gamification.level');
+            if (users.length === 0) break;
+
+            const writes = users
+                .map((user) => ({
+                    user,
+                    points: user.gamification?.totalPoints || 0,
+                    level: getLevelForPoints(user.gamification?.totalPoints || 0, curve),
+                }))
+                .filter(({ user, level }) => level !== (user.gamification?.level || 1))
+                .map(({ user, points, level }) => ({
+                    updateOne: {
+                        // Points changed since the read: that update already set the right level
+                        filter: { _id: user._id, 'gamification.totalPoints': points },
+                        update: { $set: { 'gamification.level': level } },
+                    },
+                }));
+
+            if (writes.length > 0) {
+                const result = await User.bulkWrite(writes);
+                usersUpdated += result.modifiedCount;
+            }
+            lastUserId = users[users.length - 1]._id.toString();
+
+            // Checkpoint and renew the lease
+            const checkpoint = await EconomyConfig.updateOne(
+                { key: CONFIG_KEY, levelCurveVersion: version },
+                {
+                    $set: {
+                        'levelMigration.lastUserId': lastUserId,
+                        'levelMigration.usersUpdated': usersUpdated,
+                        'levelMigration.lockedUntil': new Date(Date.now() + MIGRATION_LEASE_MS),
+                    },
+                }
+            );
+            if (checkpoint.matchedCount === 0) return restart();
+        }
+
+        const finished = await EconomyConfig.updateOne(
+            { key: CONFIG_KEY, levelCurveVersion: version },
+            {
+                $set: {
+                    'levelMigration.migratedVersion': version,
+                    'levelMigration.lastUserId': null,
+                    'levelMigration.usersUpdated': usersUpdated,
+                    'levelMigration.finishedAt': new Date(),
+                    'levelMigration.lockedUntil': null,
+                },
+            }
+        );
+        if (finished.matchedCount === 0) return restart();
+    } catch (error: any) {
+        await EconomyConfig.updateOne(
+            { key: CONFIG_KEY },
+            { $set: { 'levelMigration.lockedUntil': null, 'levelMigration.error': error.message || 'Migration failed' } }
+        );
+        throw error;
+    }
+
+    console.log(`✅ Level curve v${version}: ${usersUpdated} user levels updated`);
+    return usersUpdated;
+};
+
+/**
+ * Register economy subscribers on the event bus
+ * Called once at server startup
+ */
+export const registerEconomySubscribers = (): void => {
+    eventBus.subscribe(
+        'EconomyConfigUpdated',
+        () => {
+            cached = null;
+        },
+        { name: 'economy-cache', scope: 'broadcast' }
+    );
+};
@@ -0,0 +1,276 @@
+/**
+ * Email Digest Service - Weekly Digest and Streak Reminders
+ *
+ * Two emails, both sent by hourly cron jobs at a fixed local time:
+ * - Weekly digest (Monday 09:00): progress overview, strongest and weakest
+ *   topics, today's daily challenge
+ * - Streak reminder (20:00): the user practiced yesterday but not yet
+ *   today, so their streak breaks at midnight
+ *
+ * Every email carries a signed unsubscribe token for its list; the token
+ * needs no login and no storage (HMAC of user ID + list).
+ */
+
+import crypto from 'crypto';
+import { User } from '../models/User';
+import { PracticeLog } from '../models/PracticeLog';
+import { DailyChallenge } from '../models/DailyChallenge';
+import { IUser } from '../types/auth.types';
+import { getProgressOverview, getStrengthsWeaknesses } from './progress.service';
+import { sendEmail } from './mailer.service';
+import {
+    renderWeeklyDigest,
+    renderStreakReminder,
+    DigestChallenge,
+    DigestTopic,
+} from '../templates/email.templates';
+import {
+    DEFAULT_TIMEZONE,
+    startOfDay,
+    getDayNumber,
+    getLocalHour,
+    getLocalWeekday,
+} from '../utils/timezone';
+import { TopicProgressResponse } from '../types/progress.types';
+
+export type EmailList = 'weekly_digest' | 'streak_reminders';
+
+/**
+ * Local send times
+ */
+const DIGEST_WEEKDAY = 1; // Monday
+const DIGEST_HOUR = 9;
+const STREAK_REMINDER_HOUR = 20;
+
+/**
+ * Shortest streak worth a reminder (a 1-day streak isn't announced either)
+ */
+const MIN_REMINDER_STREAK = 2;
+
+/**
+ * Topics listed per section of the digest
+ */
+const DIGEST_TOPICS = 3;
+
+const LIST_PREFERENCES: Record<EmailList, 'weeklyDigest' | 'streakReminders'> = {
+    weekly_digest: 'weeklyDigest',
+    streak_reminders: 'streakReminders',
+};
+
+const getAppUrl = (): string => process.env.APP_URL || 'http://localhost:3000';
+
+const getApiUrl = (): string => process.env.API_URL || `http://localhost:${process.env.PORT || 5000}/api`;
+
+const getTokenSecret = (): string => process.env.EMAIL_TOKEN_SECRET || process.env.JWT_SECRET!;
+
+const sign = (payload: string): string =>
+    crypto.createHmac('sha256', getTokenSecret()).update(payload).digest('base64url');
+
+/**
+ * Unsubscribe token for one user and list: "<base64url payload>.<signature>"
+ */
+export const createUnsubscribeToken = (userId: string, list: EmailList): string => {
+    const payload = Buffer.from(`${userId}:${list}`).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+};
+
+const getUnsubscribeUrl = (userId: string, list: EmailList): string =>
+    `${getApiUrl()}/email/unsubscribe?token=${createUnsubscribeToken(userId, list)}`;
+
+/**
+ * One-click unsubscribe headers (RFC 8058): mail clients POST to the URL
+ */
+const getUnsubscribeHeaders = (unsubscribeUrl: string): Record<string, string> => ({
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+});
+
+/**
+ * Turn off the list an unsubscribe token was issued for
+ *
+ * @returns The list that was turned off
+ * @throws Error if the token is malformed or its signature doesn't match
+ */
+export const unsubscribeWithToken = async (token: string): Promise<EmailList> => {
+    const [payload, signature] = token.split('.');
+    const expected = payload ? sign(payload) : '';
+    if (
+        !signature ||
+        signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+        throw new Error('Invalid unsubscribe token');
+    }
+
+    const [userId, list] = Buffer.from(payload, 'base64url').toString().split(':');
+    if (!userId || !Object.keys(LIST_PREFERENCES).includes(list)) {
+        throw new Error('Invalid unsubscribe token');
+    }
+
+    const emailList = list as EmailList;
+    const user = await User.findByIdAndUpdate(userId, {
+        $set: { [`emailPreferences.${LIST_PREFERENCES[emailList]}`]: false },
+    });
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    return emailList;
+};
+
+const toDigestTopic = (topic: TopicProgressResponse): DigestTopic => ({
+    topicName: topic.topicName,
+    strengthScore: topic.strengthScore,
+    accuracyPercentage: topic.accuracyPercentage,
+});
+
+/**
+ * Today's daily challenge, if one was generated (emails never create one)
+ */
+const getTodayChallengeSummary = async (userId: string, timezone: string): Promise<DigestChallenge | null> => {
+    const challenge = await DailyChallenge.findOne({ userId, date: startOfDay(new Date(), timezone) });
+    if (!challenge) return null;
+
+    return {
+        completed: challenge.overallCompleted,
+        rewardPoints: challenge.rewardPoints,
+        tasks: challenge.challenges.map((c) => ({
+            topicName: c.topicName || 'Practice',
+            difficulty: c.difficulty,
+            questionsCompleted: c.questionsCompleted,
+            targetQuestions: c.targetQuestions,
+        })),
+    };
+};
+
+/**
+ * Build and send one user's weekly digest
+ */
+export const sendWeeklyDigest = async (user: IUser): Promise<void> => {
+    const userId = user._id.toString();
+    const timezone = user.timezone || DEFAULT_TIMEZONE;
+
+    const overview = await getProgressOverview(userId);
+    const { strengths, weaknesses } = await getStrengthsWeaknesses(userId);
+    const challenge = await getTodayChallengeSummary(userId, timezone);
+
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const attemptedThisWeek = await PracticeLog.countDocuments({ userId, practicedAt: { $gte: weekAgo } });
+    const solvedThisWeek = await PracticeLog.countDocuments({ userId, practicedAt: { $gte: weekAgo }, solved: true });
+
+    // Small histories show the same topics as strengths and weaknesses
+    const strengthIds = new Set(strengths.slice(0, DIGEST_TOPICS).map((t) => t.topicId));
+
+    const unsubscribeUrl = getUnsubscribeUrl(userId, 'weekly_digest');
+    const email = renderWeeklyDigest({
+        userName: user.fullName.split(' ')[0],
+        solvedThisWeek,
+        attemptedThisWeek,
+        totalQuestionsSolved: overview.totalQuestionsSolved,
+        overallAccuracyPercentage: overview.overallAccuracyPercentage,
+        topicsStarted: overview.topicsStarted,
+        totalTopics: overview.totalTopics,
+        currentStreak: user.gamification?.currentStreak || 0,
+        level: user.gamification?.level || 1,
+        strengths: strengths.slice(0, DIGEST_TOPICS).map(toDigestTopic),
+        weaknesses: weaknesses
+            .filter((t) => !strengthIds.has(t.topicId))
+            .slice(0, DIGEST_TOPICS)
+            .map(toDigestTopic),
+        challenge,
+        appUrl: getAppUrl(),
+        unsubscribeUrl,
+    });
+
+    await sendEmail({ to: user.email, ...email, headers: getUnsubscribeHeaders(unsubscribeUrl) });
+};
+
+/**
+ * Send the weekly digest to users whose local time is Monday 09:xx
+ * Called by cron job every hour
+ *
+ * @returns Number of digests sent
+ */
+export const sendWeeklyDigests = async (): Promise<number> => {
+    const now = new Date();
+    const sixDaysAgo = new Date(now.getTime() - 6 * 24 * 60 * 60 * 1000);
+
+    const users = await User.find({
+        'emailPreferences.weeklyDigest': { $ne: false },
+        $or: [
+            { 'emailPreferences.lastDigestAt': { $exists: false } },
+            { 'emailPreferences.lastDigestAt': { $lt: sixDaysAgo } },
+        ],
+    }).select('email fullName timezone gamification');
+
+    let sent = 0;
+    for (const user of users) {
+        const timezone = user.timezone || DEFAULT_TIMEZONE;
+        if (getLocalWeekday(now, timezone) !== DIGEST_WEEKDAY || getLocalHour(now, timezone) !== DIGEST_HOUR) {
+            continue;
+        }
+
+        try {
+            await sendWeeklyDigest(user);
+            await User.findByIdAndUpdate(user._id, { $set: { 'emailPreferences.lastDigestAt': now } });
+            sent++;
+        } catch (error) {
+            console.error(`Failed to send weekly digest to user ${user._id}:`, error);
+        }
+    }
+
+    console.log(`✅ Sent ${sent} weekly digests`);
+    return sent;
+};
+
+/**
+ * Remind users whose streak breaks tonight (practiced yesterday, not today)
+ * Called by cron job every hour; users get it at 20:xx local time
+ *
+ * @returns Number of reminders sent
+ */
+export const sendStreakReminders = async (): Promise<number> => {
+    const now = new Date();
+    const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
+
+    const users = await User.find({
+        'emailPreferences.streakReminders': { $ne: false },
+        'gamification.currentStreak': { $gte: MIN_REMINDER_STREAK },
+        'gamification.lastPracticeDate': { $gte: threeDaysAgo },
+    }).select('email fullName timezone gamification emailPreferences');
+
+    let sent = 0;
+    for (const user of users) {
+        const timezone = user.timezone || DEFAULT_TIMEZONE;
+        if (getLocalHour(now, timezone) !== STREAK_REMINDER_HOUR) continue;
+
+        const today = getDayNumber(now, timezone);
+        const lastPractice = user.gamification?.lastPracticeDate;
+        if (!lastPractice || getDayNumber(lastPractice, timezone) !== today - 1) continue;
+
+        const lastReminder = user.emailPreferences?.lastStreakReminderAt;
+        if (lastReminder && getDayNumber(lastReminder, timezone) === today) continue;
+
+        try {
+            const userId = user._id.toString();
+            const unsubscribeUrl = getUnsubscribeUrl(userId, 'streak_reminders');
+            const email = renderStreakReminder({
+                userName: user.fullName.split(' ')[0],
+                currentStreak: user.gamification?.currentStreak || 0,
+                streakFreezes: user.gamification?.streakFreezes || 0,
+                challenge: await getTodayChallengeSummary(userId, timezone),
+                appUrl: getAppUrl(),
+                unsubscribeUrl,
+            });
+
+            await sendEmail({ to: user.email, ...email, headers: getUnsubscribeHeaders(unsubscribeUrl) });
+            await User.findByIdAndUpdate(user._id, { $set: { 'emailPreferences.lastStreakReminderAt': now } });
+            sent++;
+        } catch (error) {
+            console.error(`Failed to send streak reminder to user ${user._id}:`, error);
+        }
+    }
+
+    console.log(`✅ Sent ${sent} streak reminders`);
+    return sent;
+};
@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import { eventBus } from './eventBus.service';
+import { withTransaction } from '../utils/transaction';
+
+const payload = { userId: 'user-1', previousStreak: 7 };
+
+describe('eventBus', () => {
+    const unsubscribers: (() => void)[] = [];
+
+    afterEach(() => {
+        unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+        jest.restoreAllMocks();
+    });
+
+    it('delivers to subscribers in registration order', async () => {
+        const calls: string[] = [];
+        unsubscribers.push(
+            eventBus.subscribe('StreakBroken', async () => { calls.push('first'); }, { name: 'first' }),
+            eventBus.subscribe('StreakBroken', async () => { calls.push('second'); }, { name: 'second' })
+        );
+
+        await eventBus.publish('StreakBroken', payload);
+
+        expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('isolates a failing subscriber and reports it', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const after = jest.fn();
+        unsubscribers.push(
+            eventBus.subscribe('StreakBroken', async () => { throw new Error('boom'); }, { name: 'broken' }),
+            eventBus.subscribe('StreakBroken', after, { name: 'after' })
+        );
+
+        await expect(eventBus.publish('StreakBroken', payload)).resolves.toEqual(['broken']);
+        expect(after).toHaveBeenCalledWith(payload, { attempt: 1 });
+    });
+
+    it('throws the first failure in strict mode', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const after = jest.fn();
+        unsubscribers.push(
+            eventBus.subscribe('StreakBroken', async () => { throw new Error('boom'); }, { name: 'broken' }),
+            eventBus.subscribe('StreakBroken', after, { name: 'after' })
+        );
+
+        await expect(eventBus.publish('StreakBroken', payload, { strict: true }))
+            .rejects.toMatchObject({ statusCode: 500, code: 'EVENT_HANDLER_FAILED' });
+        expect(after).not.toHaveBeenCalled();
+    });
+
+    describe('with the Redis transport', () => {
+        const publisher = { publish: jest.fn() };
+
+        beforeEach(() => {
+            publisher.publish.mockReset();
+            (eventBus as unknown as { publisher: unknown }).publisher = publisher;
+            jest.spyOn(mongoose.connection, 'transaction')
+                .mockImplementation(async (fn: any) => fn());
+        });
+
+        afterAll(() => {
+            (eventBus as unknown as { publisher: unknown }).publisher = null;
+        });
+
+        it('forwards an event only after its transaction commits', async () => {
+            await withTransaction(async () => {
+                await eventBus.publish('StreakBroken', payload);
+                expect(publisher.publish).not.toHaveBeenCalled();
+            });
+
+            expect(publisher.publish).toHaveBeenCalledTimes(1);
+            expect(JSON.parse(publisher.publish.mock.calls[0][1])).toMatchObject({ name: 'StreakBroken', payload });
+        });
+
+        it('never forwards an event from a rolled-back transaction', async () => {
+            await expect(withTransaction(async () => {
+                await eventBus.publish('StreakBroken', payload);
+                throw new Error('rollback');
+            })).rejects.toThrow('rollback');
+
+            expect(publisher.publish).not.toHaveBeenCalled();
+        });
+
+        it('forwards right away outside a transaction', async () => {
+            await eventBus.publish('StreakBroken', payload);
+
+            expect(publisher.publish).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,253 @@
+/**
+ * Event Bus Service
+ *
+ * In-process typed domain event bus, so services can react to each other
+ * without importing each other (e.g. badges react to PracticeLogged).
+ *
+ * Guarantees:
+ * - Ordered delivery: subscribers run one at a time, in registration order.
+ *   An event published from inside a subscriber is delivered before the
+ *   outer publish resolves.
+ * - Error isolation: a failing subscriber is retried (if configured) and
+ *   logged; it never stops the other subscribers or the publisher.
+ * - Strict publish ({ strict: true }): for events published inside a
+ *   transaction. The first failing subscriber stops delivery and the error
+ *   is thrown to the publisher, so the whole transaction rolls back.
+ *
+ * Multi-instance deployments (EVENT_BUS_TRANSPORT=redis):
+ * - "local" subscribers still run once, on the publishing instance
+ * - "broadcast" subscribers also run on every other instance, via Redis pub/sub,
+ *   once the publishing transaction commits (never for a rolled-back one)
+ */
+
+import { randomUUID } from 'crypto';
+import type Redis from 'ioredis';
+import { AppError } from '../utils/errors';
+import { runAfterCommit } from '../utils/transaction';
+import {
+    DomainEvents,
+    DomainEventName,
+    DomainEventEnvelope,
+    EventHandler,
+    SubscribeOptions,
+} from '../types/events.types';
+
+const REDIS_CHANNEL = 'domain-events';
+
+const RETRY_DELAY_MS = 100;
+
+interface Subscriber<K extends DomainEventName> {
+    handler: EventHandler<K>;
+    name: string;
+    scope: 'local' | 'broadcast';
+    retries: number;
+}
+
+interface PublishOptions {
+    strict?: boolean;
+}
+
+type SubscriberMap = {
+    [K in DomainEventName]?: Subscriber<K>[];
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Revive ISO date strings after a JSON round trip through Redis
+ */
+const reviveDates = (_key: string, value: unknown): unknown => {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)) {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) return date;
+    }
+    return value;
+};
+
+class EventBus {
+    private subscribers: SubscriberMap = {};
+
+    private readonly instanceId = randomUUID();
+
+    private publisher: Redis | null = null;
+
+    // Remote events are delivered one after another, in arrival order
+    private remoteQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * Register a subscriber
+     *
+     * @returns Function that removes the subscriber
+     */
+    subscribe<K extends DomainEventName>(
+        name: K,
+        handler: EventHandler<K>,
+        options: SubscribeOptions
+    ): () => void {
+        const subscriber: Subscriber<K> = {
+            handler,
+            name: options.name,
+            scope: options.scope || 'local',
+            retries: options.retries || 0,
+        };
+
+        const list = (this.subscribers[name] || []) as Subscriber<K>[];
+        list.push(subscriber);
+        this.subscribers[name] = list as SubscriberMap[K];
+
+        return () => {
+            const current = (this.subscribers[name] || []) as Subscriber<K>[];
+            this.subscribers[name] = current.filter((s) => s !== subscriber) as SubscriberMap[K];
+        };
+    }
+
+    /**
+     * Publish an event and wait for local delivery
+     * (other instances get it after the surrounding transaction commits)
+     *
+     * @returns Names of subscribers that failed after all retries
+     * @throws In strict mode, the first subscriber failure
+     */
+    async publish<K extends DomainEventName>(
+        name: K,
+        payload: DomainEvents[K],
+        options: PublishOptions = {}
+    ): Promise<string[]> {
+        const envelope: DomainEventEnvelope<K> = {
+            id: randomUUID(),
+            name,
+            payload,
+            occurredAt: new Date(),
+            origin: this.instanceId,
+        };
+
+        const failed = await this.deliver(envelope, ['local', 'broadcast'], options.strict || false);
+
+        const publisher = this.publisher;
+        if (publisher) {
+            await runAfterCommit(async () => {
+                try {
+                    await publisher.publish(REDIS_CHANNEL, JSON.stringify(envelope));
+                } catch (error: any) {
+                    console.error(`❌ Event bus: failed to forward ${name} to Redis:`, error?.message || error);
+                }
+            });
+        }
+
+        return failed;
+    }
+
+    /**
+     * Forward events to other instances through Redis
+     * Uses the shared client to publish and a duplicate connection to subscribe
+     * (a subscribed ioredis connection can't run other commands).
+     */
+    async enableRedisTransport(): Promise<void> {
+        if (this.publisher) return;
+
+        const { default: redisClient } = await import('../config/redis.config');
+        const subscriber = redisClient.duplicate();
+
+        subscriber.on('message', (channel: string, message: string) => {
+            if (channel !== REDIS_CHANNEL) return;
+
+            let envelope: DomainEventEnvelope;
+            try {
+                envelope = JSON.parse(message, reviveDates);
+            } catch {
+                console.error('❌ Event bus: dropped malformed Redis message');
+                return;
+            }
+
+            // Our own events were already delivered locally
+            if (envelope.origin === this.instanceId) return;
+
+            this.remoteQueue = this.remoteQueue.then(async () => {
+                await this.deliver(envelope, ['broadcast'], false);
+            });
+        });
+
+        await subscriber.subscribe(REDIS_CHANNEL);
+        this.publisher = redisClient;
+
+        console.log('✅ Event bus using Redis transport');
+    }
+
+    /**
+     * Run matching subscribers in registration order, isolating failures
+     *
+     * Strict delivery skips local retries: a failed write aborts the
+     * surrounding transaction, so only a retry of the whole transaction
+     * can succeed. Transient transaction errors are rethrown as-is so the
+     * driver retries; anything else becomes a structured 500.
+     */
+    private async deliver<K extends DomainEventName>(
+        envelope: DomainEventEnvelope<K>,
+        scopes: ('local' | 'broadcast')[],
+        strict: boolean
+    ): Promise<string[]> {
+        const subscribers = ((this.subscribers[envelope.name] || []) as Subscriber<K>[])
+            .filter((s) => scopes.includes(s.scope));
+        const failed: string[] = [];
+
+        for (const subscriber of subscribers) {
+            const maxAttempts = strict ? 1 : subscriber.retries + 1;
+            const failure = await this.runSubscriber(subscriber, envelope, maxAttempts);
+            if (!failure) continue;
+
+            if (strict) {
+                const { error } = failure;
+                if (error?.hasErrorLabel?.('TransientTransactionError')) {
+                    throw error;
+                }
+                throw new AppError(
+                    500,
+                    'EVENT_HANDLER_FAILED',
+                    `Failed to process ${envelope.name}: ${subscriber.name} step failed`,
+                    { event: envelope.name, step: subscriber.name, reason: error?.message || String(error) }
+                );
+            }
+
+            failed.push(subscriber.name);
+        }
+
+        if (failed.length > 0) {
+            console.error(`❌ Event ${envelope.name} (${envelope.id}) not fully handled: ${failed.join(', ')}`);
+        }
+
+        return failed;
+    }
+
+    /**
+     * Run one subscriber with retries and backoff (100ms, 200ms, ...)
+     *
+     * @returns null if the subscriber eventually succeeded, else the last error
+     */
+    private async runSubscriber<K extends DomainEventName>(
+        subscriber: Subscriber<K>,
+        envelope: DomainEventEnvelope<K>,
+        maxAttempts: number
+    ): Promise<{ error: any } | null> {
+        let lastError: any;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            try {
+                await subscriber.handler(envelope.payload, { attempt });
+                return null;
+            } catch (error: any) {
+                lastError = error;
+                console.error(
+                    `⚠️ ${envelope.name} subscriber "${subscriber.name}" failed (attempt ${attempt}/${maxAttempts}):`,
+                    error?.message || error
+                );
+                if (attempt < maxAttempts) {
+                    await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1));
+                }
+            }
+        }
+
+        return { error: lastError };
+    }
+}
+
+export const eventBus = new EventBus();
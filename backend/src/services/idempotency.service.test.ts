@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { runIdempotent } from './idempotency.service';
+import { IdempotencyKey } from '../models/IdempotencyKey';
+
+jest.mock('../models/IdempotencyKey', () => {
+    const stored: Record<string, unknown>[] = [];
+
+    class MockIdempotencyKey {
+        static stored = stored;
+
+        static findOne = jest.fn(async (filter: Record<string, unknown>) =>
+            stored.find((doc) => Object.entries(filter).every(([field, value]) => doc[field] === value)) || null);
+
+        constructor(private readonly doc: Record<string, unknown>) {}
+
+        async save(): Promise<void> {
+            stored.push(this.doc);
+        }
+    }
+
+    return { IdempotencyKey: MockIdempotencyKey };
+});
+jest.mock('../utils/transaction', () => ({
+    withTransaction: (fn: () => Promise<unknown>) => fn(),
+}));
+
+const stored = (IdempotencyKey as unknown as { stored: Record<string, unknown>[] }).stored;
+
+const options = (key?: string, request: unknown = { questionTitle: 'Two Sum' }) => ({
+    userId: 'user-1',
+    scope: 'practice.log',
+    key,
+    request,
+    statusCode: 201,
+});
+
+describe('runIdempotent', () => {
+    beforeEach(() => {
+        stored.length = 0;
+    });
+
+    it('runs requests without a key, without storing them', async () => {
+        const fn = jest.fn().mockResolvedValue({ id: 'log-1' });
+
+        await expect(runIdempotent(options(), fn)).resolves.toEqual({
+            statusCode: 201,
+            response: { id: 'log-1' },
+            replayed: false,
+        });
+        expect(fn).toHaveBeenCalledTimes(1);
+        expect(stored).toHaveLength(0);
+    });
+
+    it('replays a retry with the same key instead of running it again', async () => {
+        const fn = jest.fn().mockResolvedValue({ id: 'log-1', practicedAt: new Date('2024-05-15T10:00:00Z') });
+
+        await runIdempotent(options('key-1'), fn);
+        const retry = await runIdempotent(options('key-1'), fn);
+
+        expect(fn).toHaveBeenCalledTimes(1);
+        expect(retry).toEqual({
+            statusCode: 201,
+            response: { id: 'log-1', practicedAt: '2024-05-15T10:00:00.000Z' }, // As JSON, like the first response
+            replayed: true,
+        });
+    });
+
+    it('keeps keys apart per user and endpoint', async () => {
+        const fn = jest.fn().mockResolvedValue({ id: 'log-1' });
+
+        await runIdempotent(options('key-1'), fn);
+        await runIdempotent({ ...options('key-1'), scope: 'practice.import' }, fn);
+        await runIdempotent({ ...options('key-1'), userId: 'user-2' }, fn);
+
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('refuses a key reused with a different request', async () => {
+        await runIdempotent(options('key-1'), jest.fn().mockResolvedValue({}));
+
+        await expect(runIdempotent(options('key-1', { questionTitle: 'Three Sum' }), jest.fn()))
+            .rejects.toMatchObject({ statusCode: 422, code: 'IDEMPOTENCY_KEY_MISMATCH' });
+    });
+
+    it.each([['an empty', ''], ['a 256-character', 'x'.repeat(256)]])('rejects %s key', async (_label, key) => {
+        const fn = jest.fn();
+
+        await expect(runIdempotent(options(key), fn))
+            .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_IDEMPOTENCY_KEY' });
+        expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('replays the winner when a concurrent request with the same key commits first', async () => {
+        const fn = jest.fn(async () => {
+            // The other request commits while this one runs
+            stored.push({
+                userId: 'user-1',
+                scope: 'practice.log',
+                key: 'key-1',
+                requestHash: createHash('sha256').update(JSON.stringify({ questionTitle: 'Two Sum' })).digest('hex'),
+                statusCode: 201,
+                response: { id: 'log-winner' },
+            });
+            throw Object.assign(new Error('E11000 duplicate key'), { code: 11000, keyPattern: { key: 1 } });
+        });
+
+        await expect(runIdempotent(options('key-1'), fn)).resolves.toEqual({
+            statusCode: 201,
+            response: { id: 'log-winner' },
+            replayed: true,
+        });
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Idempotency Service
+ *
+ * Runs a write flow inside a transaction, keyed by the client's
+ * Idempotency-Key header:
+ * - First request: run the flow, store the response with the key (same transaction)
+ * - Retry with the same key and body: replay the stored response, nothing re-runs
+ * - Same key with a different body: 422 (client bug, refuse to guess)
+ *
+ * Requests without the header still run transactionally, just without replay.
+ */
+
+import { createHash } from 'crypto';
+import { IdempotencyKey } from '../models/IdempotencyKey';
+import { AppError } from '../utils/errors';
+import { withTransaction } from '../utils/transaction';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotentResult<T> {
+    statusCode: number;
+    response: T;
+    replayed: boolean;
+}
+
+interface IdempotentOptions {
+    userId: string;
+    scope: string; // Endpoint name, e.g. "practice.log"
+    key?: string; // Idempotency-Key header value
+    request: unknown; // Request body, hashed to detect key reuse
+    statusCode: number; // Status to store for a successful first run
+}
+
+const hashRequest = (request: unknown): string =>
+    createHash('sha256').update(JSON.stringify(request ?? null)).digest('hex');
+
+/**
+ * Return the stored response for a key, or null if the key is unused
+ * @throws AppError 422 if the key was used with a different request
+ */
+const findReplay = async <T>(
+    options: IdempotentOptions,
+    requestHash: string
+): Promise<IdempotentResult<T> | null> => {
+    const existing = await IdempotencyKey.findOne({
+        userId: options.userId,
+        scope: options.scope,
+        key: options.key,
+    });
+    if (!existing) return null;
+
+    if (existing.requestHash !== requestHash) {
+        throw new AppError(
+            422,
+            'IDEMPOTENCY_KEY_MISMATCH',
+            'Idempotency key was already used for a different request'
+        );
+    }
+
+    return {
+        statusCode: existing.statusCode,
+        response: existing.response as T,
+        replayed: true,
+    };
+};
+
+/**
+ * Run fn once per idempotency key, inside a transaction
+ *
+ * @throws AppError 400 if the key is malformed
+ */
+export const runIdempotent = async <T>(
+    options: IdempotentOptions,
+    fn: () => Promise<T>
+): Promise<IdempotentResult<T>> => {
+    const { key } = options;
+
+    if (key === undefined) {
+        const response = await withTransaction(fn);
+        return { statusCode: options.statusCode, response, replayed: false };
+    }
+
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+        throw new AppError(
+            400,
+            'INVALID_IDEMPOTENCY_KEY',
+            `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`
+        );
+    }
+
+    const requestHash = hashRequest(options.request);
+
+    try {
+        return await withTransaction(async () => {
+            const replay = await findReplay<T>(options, requestHash);
+            if (replay) return replay;
+
+            const response = await fn();
+
+            await new IdempotencyKey({
+                userId: options.userId,
+                scope: options.scope,
+                key,
+                requestHash,
+                statusCode: options.statusCode,
+                response: JSON.parse(JSON.stringify(response ?? null)),
+            }).save();
+
+            return { statusCode: options.statusCode, response, replayed: false };
+        });
+    } catch (error: any) {
+        // A concurrent request with the same key committed first: replay it
+        if (error?.code === 11000 && error?.keyPattern?.key) {
+            const replay = await findReplay<T>(options, requestHash);
+            if (replay) return replay;
+        }
+        throw error;
+    }
+};
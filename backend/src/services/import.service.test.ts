@@ -0,0 +1,238 @@
+import { importPracticeHistory, parseImportFile, MAX_IMPORT_ROWS } from './import.service';
+import { PracticeLog } from '../models/PracticeLog';
+import { Topic } from '../models/Topic';
+import { adjustUserPoints, recalculateUserStreak } from './practice.service';
+
+jest.mock('../models/Topic', () => ({ Topic: { find: jest.fn() } }));
+jest.mock('../models/PracticeLog', () => ({
+    PracticeLog: { find: jest.fn(), insertMany: jest.fn(), countDocuments: jest.fn(), exists: jest.fn() },
+}));
+jest.mock('./question.service', () => ({
+    ...jest.requireActual('./question.service'),
+    findMatchingQuestion: jest.fn().mockResolvedValue(null),
+}));
+jest.mock('./practice.service', () => ({
+    adjustUserPoints: jest.fn(),
+    recalculateUserStreak: jest.fn(),
+}));
+jest.mock('./economy.service', () => ({
+    ...jest.requireActual('./economy.service'),
+    getEconomy: jest.fn().mockResolvedValue({
+        practicePoints: { Easy: 10, Medium: 20, Hard: 30 },
+        firstSolveBonus: 5,
+        repeatSolveMultipliers: [0.5],
+        challengeRewardPoints: 25,
+        levelCurve: { basePoints: 100, exponent: 1 },
+        levelTitles: [{ level: 1, title: 'Beginner' }],
+        levelCurveVersion: 1,
+    }),
+}));
+jest.mock('./progress.service', () => ({ calculateTopicProgress: jest.fn() }));
+jest.mock('./badgeCounter.service', () => ({ rebuildBadgeCounters: jest.fn() }));
+jest.mock('./badge.service', () => ({ checkAndAwardBadges: jest.fn() }));
+jest.mock('./auth.service', () => ({ getUserTimeZone: jest.fn().mockResolvedValue('UTC') }));
+jest.mock('../utils/transaction', () => ({
+    withTransaction: (fn: () => Promise<unknown>) => fn(),
+    runAfterCommit: (fn: () => unknown) => fn(),
+}));
+
+/**
+ * A resolved query that still accepts the chained calls the services make
+ */
+const query = <T>(result: T) =>
+    Object.assign(Promise.resolve(result), {
+        select() { return this; },
+        setOptions() { return this; },
+    });
+
+const TOPIC_ID = '507f1f77bcf86cd799439011';
+
+// A year-old LeetCode export: far older than the anti-cheat backdate window
+const OLD_HISTORY = [
+    'title,difficulty,status,date,minutes',
+    'Two Sum,Easy,Accepted,2023-03-01,15',
+    'Valid Parentheses,Easy,Accepted,2023-03-02,12',
+    'LRU Cache,Medium,Accepted,2023-03-03,40',
+].join('\n');
+
+const importCsv = (data: string, dryRun = false) =>
+    importPracticeHistory('user-1', {
+        source: 'leetcode',
+        format: 'csv',
+        data,
+        defaultTopicId: TOPIC_ID,
+        defaultTimeSpentMinutes: 20,
+        dryRun,
+    });
+
+describe('importPracticeHistory', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (Topic.find as jest.Mock).mockResolvedValue([{ _id: TOPIC_ID, name: 'Arrays' }]);
+        (PracticeLog.find as jest.Mock).mockImplementation(() => query([]));
+        (PracticeLog.countDocuments as jest.Mock).mockImplementation(() => query(0));
+        (PracticeLog.exists as jest.Mock).mockImplementation(() => query(null));
+    });
+
+    it('credits old history instead of holding it as backdated', async () => {
+        const result = await importCsv(OLD_HISTORY);
+
+        expect(result.heldCount).toBe(0);
+        expect(result.importedCount).toBe(3);
+        expect(result.pointsAwarded).toBe(15 + 15 + 25);
+
+        const [docs] = (PracticeLog.insertMany as jest.Mock).mock.calls[0];
+        expect(docs).toHaveLength(3);
+        expect(docs.every((doc: { held?: boolean }) => !doc.held)).toBe(true);
+    });
+
+    it('recalculates points and streak once for the whole import', async () => {
+        await importCsv(OLD_HISTORY);
+
+        expect(PracticeLog.insertMany).toHaveBeenCalledTimes(1);
+        expect(recalculateUserStreak).toHaveBeenCalledTimes(1);
+        expect(adjustUserPoints).toHaveBeenCalledTimes(1);
+        expect(adjustUserPoints).toHaveBeenCalledWith('user-1', 55, expect.objectContaining({ source: 'import' }));
+    });
+
+    it('still holds rows solved implausibly fast', async () => {
+        const result = await importCsv([
+            'title,difficulty,status,date,minutes',
+            'Two Sum,Easy,Accepted,2023-03-01,15',
+            'Median of Two Sorted Arrays,Hard,Accepted,2023-03-02,1',
+        ].join('\n'));
+
+        expect(result.heldCount).toBe(1);
+        expect(result.pointsAwarded).toBe(15);
+        expect(result.rows[1]).toMatchObject({ held: true, reason: 'Held for review: implausible_time' });
+
+        const [docs] = (PracticeLog.insertMany as jest.Mock).mock.calls[0];
+        expect(docs[1]).toMatchObject({ held: true, pointsAwarded: 0, review: { status: 'pending', heldPoints: 35 } });
+        expect(adjustUserPoints).toHaveBeenCalledWith('user-1', 15, expect.anything());
+    });
+
+    it('skips rows already logged, including ones still held for review', async () => {
+        const existing = query([{ questionTitle: 'Two Sum', practicedAt: new Date('2023-03-01T00:00:00Z') }]);
+        const setOptions = jest.spyOn(existing, 'setOptions');
+        (PracticeLog.find as jest.Mock).mockImplementation(() => existing);
+
+        const result = await importCsv(OLD_HISTORY);
+
+        expect(setOptions).toHaveBeenCalledWith({ includeHeld: true });
+        expect(result.rows[0]).toMatchObject({ status: 'duplicate', reason: 'Already logged on this day' });
+        expect(result.newCount).toBe(2);
+    });
+
+    it('maps judge tags to topics and collapses repeats on the same day', async () => {
+        const result = await importPracticeHistory('user-1', {
+            source: 'leetcode',
+            format: 'csv',
+            data: [
+                'title,difficulty,status,date,tags',
+                'Two Sum,Easy,Wrong Answer,2023-03-01T09:00:00Z,two-pointers',
+                'Two Sum,Easy,Accepted,2023-03-01T10:00:00Z,two-pointers',
+                'Word Ladder,Hard,Accepted,2023-03-02,breadth-first-search',
+            ].join('\n'),
+            defaultTimeSpentMinutes: 20,
+            dryRun: true,
+        });
+
+        expect(result.rows.map((row) => row.status)).toEqual(['new', 'duplicate', 'unmapped']);
+        expect(result.rows[0]).toMatchObject({ topicName: 'Arrays', solved: true });
+        expect(result.rows[1].reason).toBe('Same question and day as row 1');
+    });
+
+    it('writes nothing on a dry run', async () => {
+        const result = await importCsv(OLD_HISTORY, true);
+
+        expect(result.newCount).toBe(3);
+        expect(PracticeLog.insertMany).not.toHaveBeenCalled();
+        expect(adjustUserPoints).not.toHaveBeenCalled();
+    });
+});
+
+describe('parseImportFile', () => {
+    it('reads LeetCode CSV columns, quoted fields and CRLF line endings', () => {
+        const csv = 'Title,Difficulty,Status,Date,Tags,Minutes\r\n'
+            + '"Pow(x, n)",Medium,Accepted,2024-01-02T10:00:00Z,"math; recursion",25\r\n'
+            + '"The ""Best"" Time",easy,Wrong Answer,1704103200,array,\r\n';
+
+        const [pow, best] = parseImportFile('leetcode', 'csv', csv);
+
+        expect(pow).toEqual({
+            row: 1,
+            questionTitle: 'Pow(x, n)',
+            questionUrl: undefined,
+            difficulty: 'Medium',
+            solved: true,
+            practicedAt: new Date('2024-01-02T10:00:00Z'),
+            timeSpentMinutes: 25,
+            tags: ['math', 'recursion'],
+        });
+        expect(best).toMatchObject({
+            row: 2,
+            questionTitle: 'The "Best" Time',
+            difficulty: 'Easy',
+            solved: false,
+            practicedAt: new Date(1704103200 * 1000),
+            timeSpentMinutes: undefined,
+        });
+    });
+
+    it('keeps newlines inside quoted CSV fields and skips blank lines', () => {
+        const rows = parseImportFile('generic', 'csv', 'title,difficulty\n"Two\nSum",Easy\n\n');
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0].questionTitle).toBe('Two\nSum');
+    });
+
+    it('reads a LeetCode submissions dump', () => {
+        const json = JSON.stringify({
+            submissions_dump: [{ title: 'Two Sum', title_slug: 'two-sum', difficulty: 1, status_display: 'Accepted', timestamp: 1704103200 }],
+        });
+
+        const [row] = parseImportFile('leetcode', 'json', json);
+
+        expect(row).toMatchObject({
+            questionTitle: 'Two Sum',
+            questionUrl: 'https://leetcode.com/problems/two-sum/',
+            difficulty: 'Easy',
+            solved: true,
+        });
+    });
+
+    it('reads Codeforces API submissions, rating as difficulty', () => {
+        const json = JSON.stringify({
+            status: 'OK',
+            result: [
+                { creationTimeSeconds: 1704103200, verdict: 'OK', problem: { contestId: 4, index: 'A', name: 'Watermelon', rating: 800, tags: ['brute force', 'math'] } },
+                { creationTimeSeconds: 1704103300, verdict: 'WRONG_ANSWER', problem: { contestId: 1, index: 'B', name: 'Spreadsheet', rating: 1600, tags: [] } },
+                { creationTimeSeconds: 1704103400, verdict: 'OK', problem: { name: 'Unrated', tags: [] } },
+            ],
+        });
+
+        const [watermelon, spreadsheet, unrated] = parseImportFile('codeforces', 'json', json);
+
+        expect(watermelon).toMatchObject({
+            questionTitle: 'Watermelon',
+            questionUrl: 'https://codeforces.com/problemset/problem/4/A',
+            difficulty: 'Easy',
+            solved: true,
+            practicedAt: new Date(1704103200 * 1000),
+            tags: ['brute force', 'math'],
+        });
+        expect(spreadsheet).toMatchObject({ difficulty: 'Medium', solved: false });
+        expect(unrated.difficulty).toBeUndefined();
+    });
+
+    it('rejects files that aren\'t a list of submissions', () => {
+        expect(() => parseImportFile('generic', 'json', '{oops')).toThrow('Invalid JSON file');
+        expect(() => parseImportFile('generic', 'json', '{"count": 3}')).toThrow('expected an array');
+    });
+
+    it('rejects files over the row limit', () => {
+        const json = JSON.stringify(Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => ({ title: 'Two Sum' })));
+
+        expect(() => parseImportFile('generic', 'json', json)).toThrow('too many rows');
+    });
+});
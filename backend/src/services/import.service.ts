@@ -0,0 +1,588 @@
+/**
+ * Import Service - Bulk Practice History Import
+ *
+ * Imports solves from other judges so students don't re-type their history:
+ * - Parse CSV / JSON exports (LeetCode, Codeforces, or generic columns)
+ * - Map problem tags to our Topics
+ * - Dedupe against the user's existing logs (same question, same day)
+ * - Preview (dry run) or commit
+ *
+ * Rows are scored like logged solves (see antiCheat.service), minus the
+ * backdate check (history is old by definition): flagged rows are saved held
+ * and wait for review like any other held log.
+ *
+ * On commit, streak/points/badges/progress are recalculated ONCE at the end,
+ * not once per row (a held row is credited when it's approved, like any held
+ * log). Daily challenges and the review queue are not touched:
+ * imported rows are past attempts, not today's practice.
+ */
+
+import { Topic } from '../models/Topic';
+import { PracticeLog, IPracticeLog } from '../models/PracticeLog';
+import { findMatchingQuestion, normalizeQuestionTitle } from './question.service';
+import { adjustUserPoints, recalculateUserStreak } from './practice.service';
+import { getEconomy, calculateSolvePoints } from './economy.service';
+import { calculateTopicProgress } from './progress.service';
+import { rebuildBadgeCounters } from './badgeCounter.service';
+import { getUserTimeZone } from './auth.service';
+import { scorePracticeLog } from './antiCheat.service';
+import { withTransaction } from '../utils/transaction';
+import { startOfDay, addDays, getDayNumber } from '../utils/timezone';
+import {
+    ImportPracticeDTO,
+    ImportSource,
+    ImportRowPreview,
+    ImportPracticeResponse,
+} from '../types/practice.types';
+
+/**
+ * Max rows accepted in one import
+ */
+export const MAX_IMPORT_ROWS = 2000;
+
+type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
+/**
+ * One parsed row, before topic mapping
+ */
+export interface ParsedRow {
+    row: number;
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty?: Difficulty;
+    solved: boolean;
+    practicedAt?: Date;
+    timeSpentMinutes?: number;
+    tags: string[];
+}
+
+/**
+ * Judge tags → our topic names
+ * Keys are normalized (lowercase, alphanumeric words)
+ */
+const TAG_TOPIC_ALIASES: Record<string, string> = {
+    'array': 'Arrays',
+    'arrays': 'Arrays',
+    'two pointers': 'Arrays',
+    'sliding window': 'Arrays',
+    'prefix sum': 'Arrays',
+    'matrix': 'Arrays',
+    'sorting': 'Arrays',
+    'string': 'Strings',
+    'strings': 'Strings',
+    'string matching': 'Strings',
+    'linked list': 'Linked Lists',
+    'stack': 'Stacks & Queues',
+    'queue': 'Stacks & Queues',
+    'monotonic stack': 'Stacks & Queues',
+    'monotonic queue': 'Stacks & Queues',
+    'tree': 'Trees',
+    'trees': 'Trees',
+    'binary tree': 'Trees',
+    'binary search tree': 'Trees',
+    'segment tree': 'Trees',
+    'graph': 'Graphs',
+    'graphs': 'Graphs',
+    'dfs and similar': 'Graphs',
+    'depth first search': 'Graphs',
+    'breadth first search': 'Graphs',
+    'shortest paths': 'Graphs',
+    'topological sort': 'Graphs',
+    'union find': 'Graphs',
+    'dsu': 'Graphs',
+    'dynamic programming': 'Dynamic Programming',
+    'dp': 'Dynamic Programming',
+    'memoization': 'Dynamic Programming',
+    'greedy': 'Greedy Algorithms',
+    'hash table': 'Hashing',
+    'hashing': 'Hashing',
+    'hash function': 'Hashing',
+    'recursion': 'Recursion & Backtracking',
+    'backtracking': 'Recursion & Backtracking',
+};
+
+/**
+ * Lowercase, alphanumeric words separated by single spaces
+ */
+const normalizeTag = (tag: string): string =>
+    tag.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Calendar day key used for dedupe (same question on the same local day = duplicate)
+ */
+const dayKey = (title: string, date: Date, timezone: string): string =>
+    `${normalizeQuestionTitle(title)}|${getDayNumber(date, timezone)}`;
+
+/**
+ * Parse CSV text into objects keyed by (lowercased) header
+ * Supports quoted fields with commas, escaped quotes ("") and newlines
+ */
+const parseCsv = (text: string): Record<string, string>[] => {
+    const rows: string[][] = [];
+    let field = '';
+    let row: string[] = [];
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            field = '';
+            row = [];
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const nonEmpty = rows.filter((r) => r.some((value) => value.trim() !== ''));
+    if (nonEmpty.length === 0) return [];
+
+    const headers = nonEmpty[0].map((h) => h.trim().toLowerCase());
+
+    return nonEmpty.slice(1).map((values) => {
+        const record: Record<string, string> = {};
+        headers.forEach((header, index) => {
+            record[header] = (values[index] || '').trim();
+        });
+        return record;
+    });
+};
+
+/**
+ * Parse JSON export into a list of records
+ * Accepts a bare array or common wrappers:
+ * - Codeforces API: { "result": [...] }
+ * - LeetCode submissions dump: { "submissions_dump": [...] }
+ */
+const parseJson = (text: string): Record<string, any>[] => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Invalid JSON file');
+    }
+
+    const records = Array.isArray(parsed)
+        ? parsed
+        : parsed?.result || parsed?.submissions_dump || parsed?.submissions || parsed?.data;
+
+    if (!Array.isArray(records)) {
+        throw new Error('Invalid JSON file: expected an array of submissions');
+    }
+
+    return records;
+};
+
+/**
+ * First non-empty value among candidate keys
+ */
+const pick = (record: Record<string, any>, ...keys: string[]): any => {
+    for (const key of keys) {
+        const value = record[key];
+        if (value !== undefined && value !== null && value !== '') return value;
+    }
+    return undefined;
+};
+
+const parseDifficulty = (value: any): Difficulty | undefined => {
+    if (value === undefined) return undefined;
+
+    // LeetCode API uses 1/2/3
+    const levels: Record<string, Difficulty> = { '1': 'Easy', '2': 'Medium', '3': 'Hard' };
+    const text = String(value).trim().toLowerCase();
+    if (levels[text]) return levels[text];
+    if (text === 'easy') return 'Easy';
+    if (text === 'medium') return 'Medium';
+    if (text === 'hard') return 'Hard';
+    return undefined;
+};
+
+/**
+ * Codeforces problem rating → difficulty
+ */
+const difficultyFromRating = (rating: any): Difficulty | undefined => {
+    const value = Number(rating);
+    if (!value) return undefined;
+    if (value <= 1200) return 'Easy';
+    if (value <= 1800) return 'Medium';
+    return 'Hard';
+};
+
+const parseSolved = (value: any): boolean => {
+    if (typeof value === 'boolean') return value;
+    const text = String(value ?? '').trim().toLowerCase();
+    return ['true', 'yes', '1', 'ac', 'ok', 'accepted', 'solved'].includes(text);
+};
+
+/**
+ * Unix seconds, unix milliseconds, or any Date-parsable string
+ */
+const parseDate = (value: any): Date | undefined => {
+    if (value === undefined) return undefined;
+
+    const numeric = Number(value);
+    const date = Number.isFinite(numeric)
+        ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+        : new Date(String(value));
+
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Tags as array of strings, array of { name } / { slug } objects,
+ * or a string separated by ; | or ,
+ */
+const parseTags = (value: any): string[] => {
+    if (!value) return [];
+    if (Array.isArray(value)) {
+        return value
+            .map((tag) => (typeof tag === 'string' ? tag : tag?.name || tag?.slug || ''))
+            .filter(Boolean);
+    }
+    return String(value).split(/[;|,]/).map((tag) => tag.trim()).filter(Boolean);
+};
+
+/**
+ * Normalize one record from a LeetCode export
+ */
+const fromLeetCode = (record: Record<string, any>, row: number): ParsedRow => {
+    const slug = pick(record, 'title_slug', 'titleslug', 'titleSlug', 'slug');
+
+    return {
+        row,
+        questionTitle: String(pick(record, 'title', 'question', 'questiontitle', 'questionTitle', 'name') || '').trim(),
+        questionUrl: pick(record, 'url', 'link', 'questionurl', 'questionUrl')
+            || (slug ? `https://leetcode.com/problems/${slug}/` : undefined),
+        difficulty: parseDifficulty(pick(record, 'difficulty', 'level')),
+        solved: parseSolved(pick(record, 'status_display', 'status', 'solved', 'result')),
+        practicedAt: parseDate(pick(record, 'timestamp', 'date', 'submitted_at', 'practicedat', 'practicedAt')),
+        timeSpentMinutes: Number(pick(record, 'timespentminutes', 'timeSpentMinutes', 'minutes')) || undefined,
+        tags: parseTags(pick(record, 'tags', 'topictags', 'topicTags', 'topics')),
+    };
+};
+
+/**
+ * Normalize one record from a Codeforces export
+ * (API user.status submissions, or a flat CSV with the same field names)
+ */
+const fromCodeforces = (record: Record<string, any>, row: number): ParsedRow => {
+    const problem = record.problem || record;
+    const contestId = pick(problem, 'contestId', 'contestid');
+    const index = pick(problem, 'index');
+
+    return {
+        row,
+        questionTitle: String(pick(problem, 'name', 'title', 'problem') || '').trim(),
+        questionUrl: pick(record, 'url', 'link')
+            || (contestId && index ? `https://codeforces.com/problemset/problem/${contestId}/${index}` : undefined),
+        difficulty: parseDifficulty(pick(record, 'difficulty')) || difficultyFromRating(pick(problem, 'rating')),
+        solved: parseSolved(pick(record, 'verdict', 'status', 'solved')),
+        practicedAt: parseDate(pick(record, 'creationTimeSeconds', 'creationtimeseconds', 'timestamp', 'date')),
+        timeSpentMinutes: Number(pick(record, 'timespentminutes', 'timeSpentMinutes', 'minutes')) || undefined,
+        tags: parseTags(pick(problem, 'tags')),
+    };
+};
+
+/**
+ * Parse raw file contents into normalized rows
+ * Generic files use the LeetCode-style column names (title, url, difficulty, ...)
+ */
+export const parseImportFile = (source: ImportSource, format: 'csv' | 'json', data: string): ParsedRow[] => {
+    const records = format === 'csv' ? parseCsv(data) : parseJson(data);
+
+    if (records.length > MAX_IMPORT_ROWS) {
+        throw new Error(`Invalid import: too many rows (max ${MAX_IMPORT_ROWS})`);
+    }
+
+    const normalize = source === 'codeforces' ? fromCodeforces : fromLeetCode;
+
+    return records.map((record, index) => normalize(record, index + 1));
+};
+
+/**
+ * Points for each imported solve, on the economy's repeat-solve returns
+ * Solves count oldest first, after the user's existing solves of the same
+ * question (matched by normalized title)
+ */
+const getImportPoints = async (userId: string, rows: ParsedRow[]): Promise<Map<ParsedRow, number>> => {
+    const economy = await getEconomy();
+
+    const solvedLogs = await PracticeLog.find({ userId, solved: true }).select('questionTitle');
+    const solveCounts = new Map<string, number>();
+    for (const log of solvedLogs) {
+        const key = normalizeQuestionTitle(log.questionTitle);
+        solveCounts.set(key, (solveCounts.get(key) || 0) + 1);
+    }
+
+    const points = new Map<ParsedRow, number>();
+    const solvedRows = rows
+        .filter((row) => row.solved)
+        .sort((a, b) => a.practicedAt!.getTime() - b.practicedAt!.getTime());
+
+    for (const row of solvedRows) {
+        const key = normalizeQuestionTitle(row.questionTitle);
+        const previousSolves = solveCounts.get(key) || 0;
+        points.set(row, calculateSolvePoints(economy, row.difficulty!, previousSolves));
+        solveCounts.set(key, previousSolves + 1);
+    }
+
+    return points;
+};
+
+/**
+ * Import practice history
+ *
+ * Steps:
+ * 1. Parse file into rows
+ * 2. Validate rows and map tags → topics
+ * 3. Dedupe against existing logs and earlier rows in the same file
+ * 4. Score rows for anti-cheat (not backdating): flagged rows are held
+ * 5. Dry run: return preview only
+ * 6. Commit: insert logs, then recalculate streak, points, badges, progress
+ *    once, all in one transaction
+ *
+ * @param userId - User's MongoDB _id
+ * @param data - Import options and raw file contents
+ * @returns Per-row preview and counts
+ * @throws Error if file cannot be parsed or default topic not found
+ */
+export const importPracticeHistory = async (
+    userId: string,
+    data: ImportPracticeDTO
+): Promise<ImportPracticeResponse> => {
+    // 1. Parse
+    const parsedRows = parseImportFile(data.source, data.format, data.data);
+    const timezone = await getUserTimeZone(userId);
+
+    // 2. Build tag → topic lookup
+    const topics = await Topic.find();
+    const topicByName = new Map(topics.map((t) => [normalizeTag(t.name), t]));
+
+    let defaultTopic: (typeof topics)[number] | undefined;
+    if (data.defaultTopicId) {
+        defaultTopic = topics.find((t) => t._id.toString() === data.defaultTopicId);
+        if (!defaultTopic) {
+            throw new Error('Topic not found');
+        }
+    }
+
+    const findTopic = (tags: string[]) => {
+        for (const tag of tags) {
+            const normalized = normalizeTag(tag);
+            const alias = TAG_TOPIC_ALIASES[normalized];
+            const topic = topicByName.get(alias ? normalizeTag(alias) : normalized);
+            if (topic) return topic;
+        }
+        return defaultTopic;
+    };
+
+    // 3. Existing logs in the imported date range (for dedupe)
+    const dates = parsedRows
+        .map((r) => r.practicedAt)
+        .filter((d): d is Date => d !== undefined);
+    const existingKeys = new Set<string>();
+
+    if (dates.length > 0) {
+        const from = startOfDay(new Date(Math.min(...dates.map((d) => d.getTime()))), timezone);
+        const to = addDays(new Date(Math.max(...dates.map((d) => d.getTime()))), 1, timezone);
+
+        // Held logs included: re-importing a file must not duplicate rows
+        // still waiting for review
+        const existingLogs = await PracticeLog.find({
+            userId,
+            practicedAt: { $gte: from, $lt: to },
+        })
+            .select('questionTitle practicedAt')
+            .setOptions({ includeHeld: true });
+
+        existingLogs.forEach((log) => existingKeys.add(dayKey(log.questionTitle, log.practicedAt, timezone)));
+    }
+
+    // Rows to insert, keyed by question + day so repeated submissions collapse
+    // into one log (solved if any submission was accepted)
+    const toImport = new Map<string, { parsed: ParsedRow; preview: ImportRowPreview; topicId: string }>();
+    const rows: ImportRowPreview[] = [];
+
+    for (const parsed of parsedRows) {
+        const preview: ImportRowPreview = {
+            row: parsed.row,
+            questionTitle: parsed.questionTitle,
+            questionUrl: parsed.questionUrl,
+            difficulty: parsed.difficulty,
+            solved: parsed.solved,
+            practicedAt: parsed.practicedAt,
+            status: 'new',
+        };
+        rows.push(preview);
+
+        if (!parsed.questionTitle || parsed.questionTitle.length > 200) {
+            preview.status = 'invalid';
+            preview.reason = 'Missing or too long question title';
+            continue;
+        }
+        if (!parsed.difficulty) {
+            preview.status = 'invalid';
+            preview.reason = 'Missing or unknown difficulty';
+            continue;
+        }
+        if (!parsed.practicedAt || parsed.practicedAt > new Date()) {
+            preview.status = 'invalid';
+            preview.reason = 'Missing or invalid date';
+            continue;
+        }
+
+        const topic = findTopic(parsed.tags);
+        if (!topic) {
+            preview.status = 'unmapped';
+            preview.reason = 'No tag matches a topic (set defaultTopicId to import anyway)';
+            continue;
+        }
+        preview.topicId = topic._id.toString();
+        preview.topicName = topic.name;
+
+        const key = dayKey(parsed.questionTitle, parsed.practicedAt, timezone);
+        if (existingKeys.has(key)) {
+            preview.status = 'duplicate';
+            preview.reason = 'Already logged on this day';
+            continue;
+        }
+
+        const earlier = toImport.get(key);
+        if (earlier) {
+            preview.status = 'duplicate';
+            preview.reason = `Same question and day as row ${earlier.parsed.row}`;
+            if (parsed.solved && !earlier.parsed.solved) {
+                earlier.parsed.solved = true;
+                earlier.preview.solved = true;
+            }
+            continue;
+        }
+
+        toImport.set(key, { parsed, preview, topicId: preview.topicId });
+    }
+
+    const count = (status: ImportRowPreview['status']) =>
+        rows.filter((r) => r.status === status).length;
+
+    const entries = [...toImport.values()];
+    const entryPoints = await getImportPoints(userId, entries.map((e) => e.parsed));
+
+    // 4. Score each row like a logged solve: flagged rows are held for review
+    const docs: Partial<IPracticeLog>[] = [];
+    let pointsAwarded = 0;
+    let heldCount = 0;
+
+    for (const { parsed, preview, topicId } of entries) {
+        const question = await findMatchingQuestion(parsed.questionTitle, parsed.questionUrl, topicId);
+        const timeSpentMinutes = Math.min(300, Math.max(1, Math.round(parsed.timeSpentMinutes || data.defaultTimeSpentMinutes)));
+        const points = entryPoints.get(parsed) || 0;
+
+        const suspicion = await scorePracticeLog(userId, {
+            questionId: question?._id.toString(),
+            questionTitle: parsed.questionTitle,
+            difficulty: parsed.difficulty!,
+            timeSpentMinutes,
+            solved: parsed.solved,
+            practicedAt: parsed.practicedAt!,
+        }, { skipBackdated: true });
+
+        if (suspicion.flagged) {
+            heldCount++;
+            preview.held = true;
+            preview.reason = `Held for review: ${suspicion.reasons.join(', ')}`;
+        } else {
+            pointsAwarded += points;
+        }
+
+        docs.push({
+            userId,
+            topicId,
+            questionId: question?._id.toString(),
+            questionTitle: parsed.questionTitle,
+            questionUrl: parsed.questionUrl,
+            difficulty: parsed.difficulty,
+            timeSpentMinutes,
+            solved: parsed.solved,
+            pointsAwarded: suspicion.flagged ? 0 : points,
+            notes: `Imported from ${data.source}`,
+            practicedAt: parsed.practicedAt,
+            ...(suspicion.flagged && {
+                held: true,
+                review: {
+                    status: 'pending',
+                    score: suspicion.score,
+                    reasons: suspicion.reasons,
+                    heldPoints: points,
+                },
+            }),
+        });
+    }
+
+    const response: ImportPracticeResponse = {
+        dryRun: data.dryRun,
+        totalRows: rows.length,
+        newCount: count('new'),
+        duplicateCount: count('duplicate'),
+        unmappedCount: count('unmapped'),
+        invalidCount: count('invalid'),
+        heldCount,
+        importedCount: 0,
+        pointsAwarded,
+        rows,
+    };
+
+    // 5. Dry run: preview only
+    if (data.dryRun || entries.length === 0) {
+        return response;
+    }
+
+    // 6. Commit
+
+    // The logs and everything they feed into are saved together or not at all
+    // (a half-saved import would be deduped, and never credited, on retry)
+    const badgeService = await import('./badge.service');
+
+    await withTransaction(async () => {
+        await PracticeLog.insertMany(docs);
+
+        // Recalculate everything once
+        await recalculateUserStreak(userId);
+        await adjustUserPoints(userId, pointsAwarded, {
+            source: 'import',
+            description: `${docs.length} logs imported from ${data.source}`,
+        });
+
+        const topicIds = [...new Set(entries.map((e) => e.topicId))];
+        for (const topicId of topicIds) {
+            await calculateTopicProgress(userId, topicId);
+        }
+
+        await rebuildBadgeCounters(userId);
+        await badgeService.checkAndAwardBadges(userId);
+    });
+
+    response.importedCount = docs.length;
+    return response;
+};
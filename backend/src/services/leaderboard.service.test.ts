@@ -0,0 +1,164 @@
+import redisClient from '../config/redis.config';
+import { Leaderboard } from '../models/Leaderboard';
+import { RankSnapshot } from '../models/RankSnapshot';
+import { Topic } from '../models/Topic';
+import { User } from '../models/User';
+import { UserProgress } from '../models/UserProgress';
+import { addPeriodPoints, getPeriodWindow, recordRankHistory, snapshotLeaderboards } from './leaderboard.service';
+
+jest.mock('../config/redis.config', () => ({
+    __esModule: true,
+    default: { pipeline: jest.fn(), exists: jest.fn(), zrevrange: jest.fn() },
+}));
+jest.mock('../models/Topic', () => ({ Topic: { find: jest.fn() } }));
+jest.mock('../models/User', () => ({ User: { find: jest.fn(), aggregate: jest.fn() } }));
+jest.mock('../models/UserProgress', () => ({ UserProgress: { aggregate: jest.fn() } }));
+jest.mock('../models/Leaderboard', () => ({ Leaderboard: { findOne: jest.fn(), create: jest.fn() } }));
+jest.mock('../models/RankSnapshot', () => ({ RankSnapshot: { bulkWrite: jest.fn(), deleteMany: jest.fn() } }));
+jest.mock('./notification.service', () => ({ createNotifications: jest.fn() }));
+
+/**
+ * A resolved query that still accepts the chained calls the service makes
+ */
+const query = <T>(result: T) =>
+    Object.assign(Promise.resolve(result), {
+        select() { return this; },
+        sort() { return this; },
+    });
+
+const pipeline = {
+    zincrby: jest.fn(),
+    expireat: jest.fn(),
+    exec: jest.fn(),
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    (redisClient.pipeline as jest.Mock).mockReturnValue(pipeline);
+});
+
+describe('getPeriodWindow', () => {
+    const date = new Date('2024-05-15T13:45:00Z'); // A Wednesday
+
+    it('bounds the UTC day', () => {
+        expect(getPeriodWindow('day', date)).toEqual({
+            start: new Date('2024-05-15T00:00:00Z'),
+            end: new Date('2024-05-16T00:00:00Z'),
+        });
+    });
+
+    it('starts weeks on Monday', () => {
+        expect(getPeriodWindow('week', date)).toEqual({
+            start: new Date('2024-05-13T00:00:00Z'),
+            end: new Date('2024-05-20T00:00:00Z'),
+        });
+        expect(getPeriodWindow('week', new Date('2024-05-19T23:59:59Z')).start).toEqual(new Date('2024-05-13T00:00:00Z'));
+    });
+
+    it('uses calendar months and quarters', () => {
+        expect(getPeriodWindow('month', date)).toEqual({
+            start: new Date('2024-05-01T00:00:00Z'),
+            end: new Date('2024-06-01T00:00:00Z'),
+        });
+        expect(getPeriodWindow('season', date)).toEqual({
+            start: new Date('2024-04-01T00:00:00Z'),
+            end: new Date('2024-07-01T00:00:00Z'),
+        });
+    });
+});
+
+describe('addPeriodPoints', () => {
+    const createdAt = new Date('2024-05-15T13:45:00Z');
+
+    it('adds earned points to every period board', async () => {
+        await addPeriodPoints([{ userId: 'user-1', amount: 30, source: 'practice', createdAt }]);
+
+        expect(pipeline.zincrby).toHaveBeenCalledTimes(4);
+        expect(pipeline.zincrby).toHaveBeenCalledWith('leaderboard:global:week:2024-05-13', 30, 'user-1');
+    });
+
+    it('leaves spending and opening balances out of period boards', async () => {
+        await addPeriodPoints([
+            { userId: 'user-1', amount: -200, source: 'streak_freeze', createdAt },
+            { userId: 'user-1', amount: 900, source: 'opening_balance', createdAt },
+        ]);
+
+        expect(pipeline.zincrby).not.toHaveBeenCalled();
+    });
+});
+
+describe('snapshotLeaderboards', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        (redisClient.exists as jest.Mock).mockResolvedValue(1);
+        (redisClient.zrevrange as jest.Mock).mockResolvedValue(['user-1', '500', 'user-2', '300']);
+        (User.find as jest.Mock).mockImplementation(() => query([
+            { _id: 'user-1', fullName: 'Ada', gamification: {} },
+            { _id: 'user-2', fullName: 'Linus', gamification: {} },
+        ]));
+        (UserProgress.aggregate as jest.Mock).mockResolvedValue([]);
+        (Leaderboard.findOne as jest.Mock).mockImplementation(() => query(null));
+        (Topic.find as jest.Mock).mockImplementation(() => query([]));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stores a capped top of the board, not the whole board', async () => {
+        await snapshotLeaderboards();
+
+        expect(redisClient.zrevrange).toHaveBeenCalledWith('leaderboard:global', 0, 999, 'WITHSCORES');
+        expect(redisClient.zrevrange).not.toHaveBeenCalledWith(expect.anything(), 0, -1, 'WITHSCORES');
+        expect(Leaderboard.create).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'global',
+            rankings: [
+                expect.objectContaining({ userId: 'user-1', rank: 1, score: 500 }),
+                expect.objectContaining({ userId: 'user-2', rank: 2, score: 300 }),
+            ],
+        }));
+    });
+});
+
+describe('recordRankHistory', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        (redisClient.exists as jest.Mock).mockResolvedValue(1);
+        (redisClient.zrevrange as jest.Mock).mockImplementation(async (_key: string, start: number) =>
+            (start === 0 ? ['user-1', '500', 'user-2', '300'] : []));
+        (Topic.find as jest.Mock).mockImplementation(() => query([{ _id: 'topic-1' }]));
+        (User.aggregate as jest.Mock).mockResolvedValue([
+            { _id: { college: 'mit', graduationYear: 2025 } },
+            { _id: { college: 'mit', graduationYear: 2026 } },
+        ]);
+        (RankSnapshot.deleteMany as jest.Mock).mockResolvedValue({ deletedCount: 0 });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Regression: only the global and topic boards used to get a rank history
+    it('records ranks on the college and cohort boards too', async () => {
+        await expect(recordRankHistory()).resolves.toBe(14);
+
+        const boards = (RankSnapshot.bulkWrite as jest.Mock).mock.calls
+            .map(([ops]) => ops[0].updateOne.filter.board);
+        expect(boards).toEqual([
+            'leaderboard:global',
+            'leaderboard:topic:topic-1',
+            'leaderboard:college:mit',
+            'leaderboard:cohort:2025',
+            'leaderboard:college:mit:cohort:2025',
+            'leaderboard:cohort:2026',
+            'leaderboard:college:mit:cohort:2026',
+        ]);
+        expect(RankSnapshot.bulkWrite).toHaveBeenCalledWith([
+            expect.objectContaining({ updateOne: expect.objectContaining({
+                filter: expect.objectContaining({ userId: 'user-1', board: 'leaderboard:college:mit:cohort:2026' }),
+                update: { $set: { rank: 1, score: 500 } },
+            }) }),
+            expect.anything(),
+        ], { ordered: false });
+    });
+});
@@ -1,215 +1,1057 @@
 /**
  * Leaderboard Service - Business Logic for Rankings
- * 
- * Handles leaderboard calculations, caching, and user rankings.
+ *
+ * Live rankings are Redis sorted sets (member = user ID):
+ * - leaderboard:global - score = gamification.totalPoints
+ * - leaderboard:global:<period>:<start date> - score = points earned in
+ *   that day / week / month / season (points ledger, opening balances and
+ *   spending excluded)
+ * - leaderboard:topic:<topicId> - score = UserProgress.strengthScore
+ * - leaderboard:college:<name>, leaderboard:cohort:<year> and
+ *   leaderboard:college:<name>:cohort:<year> - totalPoints, members only
+ *
+ * Scores are written as points are awarded (syncUserScore and
+ * addPeriodPoints, after the award commits) and as topic progress changes
+ * (syncTopicScore), so rank lookups, "around me" windows and pages are
+ * O(log n) reads of one consistent set.
+ *
+ * A board missing from Redis (first start, flushed cache, a new period) is
+ * rebuilt from MongoDB on first read, so periods roll over by themselves;
+ * period boards expire a day after their period ends. The Leaderboard
+ * collection keeps hourly snapshots of the top of the all-time boards
+ * (see snapshotLeaderboards), LeaderboardArchive the winners of every
+ * finished period (see archiveFinishedPeriods), and RankSnapshot every
+ * user's daily rank on the all-time boards, college and cohort ones
+ * included (see recordRankHistory), which entries' rankChange and the
+ * my-rank history come from.
+ *
+ * The inter-college board is computed from MongoDB (one row per college)
+ * and cached for a few minutes. The friends board is read from the global
+ * boards (the user and their friends' scores, ranked among themselves).
  */
 
+import redisClient from '../config/redis.config';
 import { Leaderboard } from '../models/Leaderboard';
+import { LeaderboardArchive, ILeaderboardArchive } from '../models/LeaderboardArchive';
+import { PointTransaction } from '../models/PointTransaction';
+import { RankSnapshot } from '../models/RankSnapshot';
 import { User } from '../models/User';
 import { UserProgress } from '../models/UserProgress';
 import { Topic } from '../models/Topic';
-import { LeaderboardResponse, LeaderboardEntry } from '../types/gamification.types';
+import {
+    LeaderboardResponse,
+    LeaderboardEntry,
+    LeaderboardPeriod,
+    LeaderboardArchiveResponse,
+    RankHistoryResponse,
+    CollegeLeaderboardEntry,
+    CollegeLeaderboardResponse,
+    BadgeTierCounts,
+} from '../types/gamification.types';
+import { IUser } from '../types/auth.types';
+import { PointSource } from '../types/points.types';
+import { createNotifications } from './notification.service';
+import { CacheService } from './cache.service';
+import { getFriendIds } from './social.service';
 
 /**
- * Get global leaderboard
+ * Global rank changes worth a notification: moving at least this many
+ * places, or entering the top TOP_RANKS
  */
-export const getGlobalLeaderboard = async (limit: number = 50, skip: number = 0): Promise<LeaderboardResponse> => {
-    // Try to get cached leaderboard
-    const cached = await Leaderboard.findOne({
-        type: 'global',
-        expiresAt: { $gt: new Date() }
-    });
+const RANK_CHANGE_NOTICE = 10;
+const TOP_RANKS = 10;
 
-    if (cached) {
-        return {
-            type: 'global',
-            rankings: cached.rankings.slice(skip, skip + limit),
-            lastUpdated: cached.lastUpdated,
-        };
-    }
+/**
+ * How long leaderboard snapshots are kept, and how many entries each holds
+ * (a whole board in one document would outgrow MongoDB's 16MB limit; users
+ * below the cut get their history from RankSnapshot instead)
+ */
+const SNAPSHOT_RETENTION_DAYS = 30;
+const SNAPSHOT_MAX_ENTRIES = 1000;
+
+/**
+ * Rank history: rankChange compares with the ranks of this many days ago,
+ * and daily ranks are kept RANK_HISTORY_RETENTION_DAYS (env) or the default
+ */
+const RANK_CHANGE_DAYS = 7;
+const DEFAULT_RANK_HISTORY_RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Top finishers archived per finished period
+ */
+const ARCHIVED_WINNERS = 10;
+
+/**
+ * Inter-college board: colleges with fewer members aren't ranked
+ * (one strong student isn't a college), and the board is cached this long
+ */
+const COLLEGE_MIN_MEMBERS = 3;
+const COLLEGE_RANKINGS_TTL_SECONDS = 300;
+const COLLEGE_RANKINGS_CACHE_KEY = 'leaderboard:colleges';
+
+const REBUILD_BATCH_SIZE = 1000;
+const REBUILD_LOCK_SECONDS = 60;
+
+const GLOBAL_KEY = 'leaderboard:global';
 
-    // Calculate fresh leaderboard
-    const rankings = await calculateGlobalRankings();
+/**
+ * Ledger entries that aren't points earned, so period boards skip them:
+ * balances held before the ledger, and points spent (buying a freeze isn't
+ * a drop in performance)
+ */
+const NOT_EARNED_SOURCES: PointSource[] = ['opening_balance', 'streak_freeze'];
+
+type WindowedPeriod = Exclude<LeaderboardPeriod, 'all'>;
+
+const WINDOWED_PERIODS: WindowedPeriod[] = ['day', 'week', 'month', 'season'];
+
+interface PeriodWindow {
+    start: Date; // Inclusive
+    end: Date; // Exclusive
+}
+
+/**
+ * A leaderboard: its Redis key and what it ranks
+ */
+interface Board {
+    key: string;
+    topicId?: string;
+    period: LeaderboardPeriod;
+    window?: PeriodWindow; // Windowed periods only
+    members?: UserScope; // College / cohort boards only
+}
+
+/**
+ * Which users a college / cohort board ranks
+ */
+interface UserScope {
+    college?: string;
+    graduationYear?: number;
+}
+
+interface BoardMember {
+    userId: string;
+    score: number;
+}
+
+const utcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month, day));
+
+const getUtcDay = (date: Date): Date => utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/**
+ * UTC window of the period containing a date
+ * (weeks start on Monday, seasons are calendar quarters)
+ */
+export const getPeriodWindow = (period: WindowedPeriod, date: Date): PeriodWindow => {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    switch (period) {
+        case 'day':
+            return { start: utcDate(year, month, day), end: utcDate(year, month, day + 1) };
+        case 'week': {
+            const monday = day - ((date.getUTCDay() + 6) % 7);
+            return { start: utcDate(year, month, monday), end: utcDate(year, month, monday + 7) };
+        }
+        case 'month':
+            return { start: utcDate(year, month, 1), end: utcDate(year, month + 1, 1) };
+        case 'season': {
+            const firstMonth = month - (month % 3);
+            return { start: utcDate(year, firstMonth, 1), end: utcDate(year, firstMonth + 3, 1) };
+        }
+    }
+};
 
-    // Cache it
-    await cacheLeaderboard('global', rankings);
+/**
+ * Global board for a period (the one running at date)
+ */
+const getGlobalBoard = (period: LeaderboardPeriod, date: Date = new Date()): Board => {
+    if (period === 'all') {
+        return { key: GLOBAL_KEY, period };
+    }
 
+    const window = getPeriodWindow(period, date);
     return {
-        type: 'global',
-        rankings: rankings.slice(skip, skip + limit),
-        lastUpdated: new Date(),
+        key: `${GLOBAL_KEY}:${period}:${window.start.toISOString().slice(0, 10)}`,
+        period,
+        window,
     };
 };
 
+const getTopicBoard = (topicId: string): Board => ({
+    key: `leaderboard:topic:${topicId}`,
+    topicId,
+    period: 'all',
+});
+
 /**
- * Get topic-specific leaderboard
+ * College names are free text: boards match them trimmed and lower-cased
  */
-export const getTopicLeaderboard = async (topicId: string, limit: number = 50): Promise<LeaderboardResponse> => {
-    // Try to get cached leaderboard
-    const cached = await Leaderboard.findOne({
-        type: 'topic',
-        topicId,
-        expiresAt: { $gt: new Date() }
-    });
+const normalizeCollege = (college: string): string => college.trim().toLowerCase();
+
+/**
+ * Board of a college, a graduation year, or both (college + cohort)
+ */
+const getScopedBoard = (scope: UserScope): Board => {
+    const parts = [
+        ...(scope.college ? [`college:${normalizeCollege(scope.college)}`] : []),
+        ...(scope.graduationYear ? [`cohort:${scope.graduationYear}`] : []),
+    ];
+    return { key: `leaderboard:${parts.join(':')}`, period: 'all', members: scope };
+};
+
+/**
+ * The college / cohort boards a user belongs to
+ */
+const getUserScopedBoards = (user: Pick<IUser, 'college' | 'graduationYear'>): Board[] => {
+    const college = user.college?.trim() ? user.college : undefined;
+    const graduationYear = user.graduationYear;
+
+    return [
+        ...(college ? [getScopedBoard({ college })] : []),
+        ...(graduationYear ? [getScopedBoard({ graduationYear })] : []),
+        ...(college && graduationYear ? [getScopedBoard({ college, graduationYear })] : []),
+    ];
+};
+
+/**
+ * MongoDB filter for the users of a college / cohort board
+ */
+const getScopeFilter = (scope: UserScope) => ({
+    ...(scope.college && {
+        $expr: { $eq: [{ $toLower: { $trim: { input: '$college' } } }, normalizeCollege(scope.college)] },
+    }),
+    ...(scope.graduationYear && { graduationYear: scope.graduationYear }),
+});
+
+/**
+ * Period boards (and their markers) are dropped a day after the period ends
+ */
+const getExpiry = (window: PeriodWindow): number =>
+    Math.floor(window.end.getTime() / 1000) + 24 * 60 * 60;
+
+/**
+ * Points earned per user inside a window (the ledger is the source of truth)
+ */
+const getWindowPipeline = (window: PeriodWindow) => [
+    {
+        $match: {
+            createdAt: { $gte: window.start, $lt: window.end },
+            source: { $nin: NOT_EARNED_SOURCES },
+        },
+    },
+    { $group: { _id: '$userId', score: { $sum: '$amount' } } },
+];
+
+/**
+ * Pairs from a WITHSCORES reply ([member, score, member, score, ...])
+ */
+const parseMembers = (reply: string[]): BoardMember[] => {
+    const members: BoardMember[] = [];
+    for (let i = 0; i < reply.length; i += 2) {
+        members.push({ userId: reply[i], score: Number(reply[i + 1]) });
+    }
+    return members;
+};
 
-    if (cached) {
-        const topic = await Topic.findById(topicId);
-        return {
-            type: 'topic',
-            topicId,
-            topicName: topic?.name,
-            rankings: cached.rankings.slice(0, limit),
-            lastUpdated: cached.lastUpdated,
+/**
+ * Rebuild one board from MongoDB
+ *
+ * Built under a temporary key and renamed over the live one, so readers
+ * never see a half-built board. A score written mid-rebuild can be
+ * overwritten by the value read before it; the user's next award fixes it.
+ */
+const rebuildBoard = async (board: Board, members: AsyncIterable<BoardMember>): Promise<void> => {
+    const { key } = board;
+    const locked = await redisClient.set(`${key}:rebuilding`, '1', 'EX', REBUILD_LOCK_SECONDS, 'NX');
+    if (!locked) return; // Another request (or instance) is rebuilding it
+
+    try {
+        const tempKey = `${key}:rebuild`;
+        await redisClient.del(tempKey);
+
+        let batch: BoardMember[] = [];
+        let count = 0;
+        const flush = async (): Promise<void> => {
+            if (batch.length === 0) return;
+            await redisClient.zadd(tempKey, ...batch.flatMap((member) => [member.score, member.userId]));
+            count += batch.length;
+            batch = [];
         };
+
+        for await (const member of members) {
+            batch.push(member);
+            if (batch.length >= REBUILD_BATCH_SIZE) await flush();
+        }
+        await flush();
+
+        if (count > 0) {
+            await redisClient.rename(tempKey, key);
+        } else {
+            await redisClient.del(key);
+        }
+        await redisClient.set(`${key}:ready`, '1');
+
+        if (board.window) {
+            await redisClient.expireat(key, getExpiry(board.window));
+            await redisClient.expireat(`${key}:ready`, getExpiry(board.window));
+        }
+    } finally {
+        await redisClient.del(`${key}:rebuilding`);
+    }
+};
+
+/**
+ * What a board ranks, read from MongoDB
+ */
+async function* loadBoardMembers(board: Board): AsyncIterable<BoardMember> {
+    if (board.topicId) {
+        for await (const progress of UserProgress.find({ topicId: board.topicId }).select('userId strengthScore').cursor()) {
+            yield { userId: progress.userId, score: progress.strengthScore };
+        }
+    } else if (board.window) {
+        const cursor = PointTransaction.aggregate<{ _id: string; score: number }>(getWindowPipeline(board.window)).cursor();
+        for await (const total of cursor) {
+            yield { userId: total._id, score: total.score };
+        }
+    } else {
+        const filter = board.members ? getScopeFilter(board.members) : {};
+        for await (const user of User.find(filter).select('gamification.totalPoints').cursor()) {
+            yield { userId: user._id.toString(), score: user.gamification?.totalPoints || 0 };
+        }
+    }
+}
+
+/**
+ * Make sure a board is in Redis (rebuilt from MongoDB if it was lost)
+ * Checked with a marker key: a lone score written into an empty Redis
+ * must not pass for a complete board.
+ */
+const ensureBoard = async (board: Board): Promise<void> => {
+    if (await redisClient.exists(`${board.key}:ready`)) return;
+    await rebuildBoard(board, loadBoardMembers(board));
+};
+
+/**
+ * Write a user's current totalPoints to the global board and their
+ * college / cohort boards
+ * Call after the award commits (reads the committed balance, so two
+ * awards finishing out of order still leave the latest value)
+ */
+export const syncUserScore = async (userId: string): Promise<void> => {
+    const user = await User.findById(userId).select('gamification.totalPoints college graduationYear');
+    if (!user) {
+        await redisClient.zrem(GLOBAL_KEY, userId);
+        return;
     }
 
-    // Calculate fresh leaderboard
-    const rankings = await calculateTopicRankings(topicId);
+    const score = user.gamification?.totalPoints || 0;
+    for (const board of [getGlobalBoard('all'), ...getUserScopedBoards(user)]) {
+        await redisClient.zadd(board.key, score, userId);
+    }
+};
 
-    // Cache it
-    await cacheLeaderboard('topic', rankings, topicId);
+/**
+ * Move a user to the boards of their new college / graduation year
+ * (call after the profile change is saved)
+ */
+export const moveUserScopedBoards = async (
+    userId: string,
+    previous: Pick<IUser, 'college' | 'graduationYear'>
+): Promise<void> => {
+    for (const board of getUserScopedBoards(previous)) {
+        await redisClient.zrem(board.key, userId);
+    }
+    await syncUserScore(userId);
+};
 
+/**
+ * Write a user's topic strength score to the topic board
+ * (null removes them: no progress left in the topic)
+ */
+export const syncTopicScore = async (userId: string, topicId: string, strengthScore: number | null): Promise<void> => {
+    const { key } = getTopicBoard(topicId);
+    if (strengthScore === null) {
+        await redisClient.zrem(key, userId);
+        return;
+    }
+    await redisClient.zadd(key, strengthScore, userId);
+};
+
+/**
+ * Add new ledger entries to the period boards they fall in
+ * Call after the entries commit (increments can't be rolled back)
+ */
+export const addPeriodPoints = async (
+    entries: Array<{ userId: string; amount: number; source: PointSource; createdAt: Date }>
+): Promise<void> => {
+    const pipeline = redisClient.pipeline();
+    for (const entry of entries) {
+        if (NOT_EARNED_SOURCES.includes(entry.source)) continue;
+
+        for (const period of WINDOWED_PERIODS) {
+            const board = getGlobalBoard(period, entry.createdAt);
+            pipeline.zincrby(board.key, entry.amount, entry.userId);
+            pipeline.expireat(board.key, getExpiry(board.window!));
+        }
+    }
+    await pipeline.exec();
+};
+
+/**
+ * Tier breakdown of a user's tiered badges
+ * (users from before tiers have no counters yet)
+ */
+const getBadgeTiers = (user: IUser): BadgeTierCounts => ({
+    bronze: user.gamification?.badgeTiers?.bronze || 0,
+    silver: user.gamification?.badgeTiers?.silver || 0,
+    gold: user.gamification?.badgeTiers?.gold || 0,
+    platinum: user.gamification?.badgeTiers?.platinum || 0,
+});
+
+/**
+ * Leaderboard entries for a slice of a board (one query per collection,
+ * whatever the slice size)
+ *
+ * @param firstRank - Rank of members[0]
+ * @param topicId - Topic boards show topic questionsSolved instead of the total
+ */
+const toEntries = async (members: BoardMember[], firstRank: number, topicId?: string): Promise<LeaderboardEntry[]> => {
+    if (members.length === 0) return [];
+
+    const userIds = members.map((m) => m.userId);
+    const users = await User.find({ _id: { $in: userIds } }).select('fullName gamification');
+    const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+
+    const solved = await UserProgress.aggregate<{ _id: string; questionsSolved: number }>([
+        { $match: { userId: { $in: userIds }, ...(topicId && { topicId }) } },
+        { $group: { _id: '$userId', questionsSolved: { $sum: '$questionsSolved' } } },
+    ]);
+    const solvedMap = new Map(solved.map((s) => [s._id, s.questionsSolved]));
+
+    return members.flatMap((member, index) => {
+        const user = userMap.get(member.userId);
+        if (!user) return [];
+
+        return [{
+            userId: member.userId,
+            userName: user.fullName,
+            rank: firstRank + index,
+            score: member.score,
+            questionsSolved: solvedMap.get(member.userId) || 0,
+            streak: user.gamification?.currentStreak || 0,
+            badges: user.gamification?.badgesEarned || 0,
+            badgeTiers: getBadgeTiers(user),
+        }];
+    });
+};
+
+/**
+ * Boards with a daily rank history (every all-time board: global, topic,
+ * college and cohort)
+ */
+const hasRankHistory = (board: Board): boolean => board.period === 'all';
+
+/**
+ * Fill in rankChange: places moved since the latest daily snapshot at
+ * least RANK_CHANGE_DAYS old (users who weren't ranked then get none)
+ */
+const addRankChanges = async (board: Board, entries: LeaderboardEntry[]): Promise<LeaderboardEntry[]> => {
+    if (entries.length === 0 || !hasRankHistory(board)) return entries;
+
+    const cutoff = new Date(getUtcDay(new Date()).getTime() - RANK_CHANGE_DAYS * DAY_MS);
+    const baseline = await RankSnapshot.findOne({ board: board.key, date: { $lte: cutoff } })
+        .sort({ date: -1 })
+        .select('date');
+    if (!baseline) return entries;
+
+    const snapshots = await RankSnapshot.find({
+        board: board.key,
+        date: baseline.date,
+        userId: { $in: entries.map((entry) => entry.userId) },
+    }).select('userId rank');
+    const previousRanks = new Map(snapshots.map((snapshot) => [snapshot.userId, snapshot.rank]));
+
+    return entries.map((entry) => {
+        const before = previousRanks.get(entry.userId);
+        return before === undefined ? entry : { ...entry, rankChange: before - entry.rank };
+    });
+};
+
+/**
+ * Period and window of a board, for responses
+ */
+const getBoardInfo = (board: Board): Pick<LeaderboardResponse, 'period' | 'periodStart' | 'periodEnd'> => ({
+    period: board.period,
+    ...(board.window && { periodStart: board.window.start, periodEnd: board.window.end }),
+});
+
+/**
+ * One page of a board (highest score first)
+ */
+const getBoardPage = async (
+    board: Board,
+    limit: number,
+    skip: number
+): Promise<{ rankings: LeaderboardEntry[]; total: number }> => {
+    await ensureBoard(board);
+
+    const reply = await redisClient.zrevrange(board.key, skip, skip + limit - 1, 'WITHSCORES');
+    const total = await redisClient.zcard(board.key);
+
+    const rankings = await toEntries(parseMembers(reply), skip + 1, board.topicId);
+    return { rankings: await addRankChanges(board, rankings), total };
+};
+
+/**
+ * Get global leaderboard
+ *
+ * @param period - 'all' ranks lifetime points, the others points earned this period
+ */
+export const getGlobalLeaderboard = async (
+    limit: number = 50,
+    skip: number = 0,
+    period: LeaderboardPeriod = 'all'
+): Promise<LeaderboardResponse> => {
+    const board = getGlobalBoard(period);
+    const { rankings, total } = await getBoardPage(board, limit, skip);
+
+    return {
+        type: 'global',
+        ...getBoardInfo(board),
+        rankings,
+        total,
+        lastUpdated: new Date(),
+    };
+};
+
+/**
+ * Get topic-specific leaderboard
+ */
+export const getTopicLeaderboard = async (
+    topicId: string,
+    limit: number = 50,
+    skip: number = 0
+): Promise<LeaderboardResponse> => {
+    const { rankings, total } = await getBoardPage(getTopicBoard(topicId), limit, skip);
     const topic = await Topic.findById(topicId);
 
     return {
         type: 'topic',
         topicId,
         topicName: topic?.name,
-        rankings: rankings.slice(0, limit),
+        rankings,
+        total,
         lastUpdated: new Date(),
     };
 };
 
 /**
- * Get user's rank in global leaderboard
+ * Get a college or cohort leaderboard (members' lifetime points)
+ *
+ * @param scope - college, graduationYear, or both ("my college + my year")
  */
-export const getUserRank = async (userId: string, type: string = 'global', topicId?: string): Promise<LeaderboardEntry | null> => {
-    let leaderboard;
+export const getScopedLeaderboard = async (
+    scope: UserScope,
+    limit: number = 50,
+    skip: number = 0
+): Promise<LeaderboardResponse> => {
+    const { rankings, total } = await getBoardPage(getScopedBoard(scope), limit, skip);
 
-    if (type === 'global') {
-        leaderboard = await Leaderboard.findOne({ type: 'global' });
-        if (!leaderboard) {
-            // Calculate fresh
-            const rankings = await calculateGlobalRankings();
-            await cacheLeaderboard('global', rankings);
-            leaderboard = await Leaderboard.findOne({ type: 'global' });
-        }
-    } else if (type === 'topic' && topicId) {
-        leaderboard = await Leaderboard.findOne({ type: 'topic', topicId });
-        if (!leaderboard) {
-            const rankings = await calculateTopicRankings(topicId);
-            await cacheLeaderboard('topic', rankings, topicId);
-            leaderboard = await Leaderboard.findOne({ type: 'topic', topicId });
-        }
+    return {
+        type: scope.college ? 'college' : 'cohort',
+        ...(scope.college && { college: scope.college.trim() }),
+        ...(scope.graduationYear && { graduationYear: scope.graduationYear }),
+        period: 'all',
+        rankings,
+        total,
+        lastUpdated: new Date(),
+    };
+};
+
+/**
+ * The current user's college + graduation year board, with their own entry
+ *
+ * @throws Error if the user has no college or graduation year on their profile
+ */
+export const getMyCohortLeaderboard = async (
+    userId: string,
+    limit: number = 50,
+    skip: number = 0
+): Promise<LeaderboardResponse> => {
+    const user = await User.findById(userId).select('college graduationYear');
+    if (!user) {
+        throw new Error('User not found');
+    }
+    if (!user.college?.trim() || !user.graduationYear) {
+        throw new Error('Invalid profile: set your college and graduation year to see your cohort');
     }
 
-    if (!leaderboard) return null;
+    const scope = { college: user.college, graduationYear: user.graduationYear };
+    const leaderboard = await getScopedLeaderboard(scope, limit, skip);
 
-    const userEntry = leaderboard.rankings.find(r => r.userId === userId);
-    return userEntry || null;
+    const board = getScopedBoard(scope);
+    const position = await getPosition(board, userId);
+    if (position !== null) {
+        const score = await redisClient.zscore(board.key, userId);
+        const [entry] = await addRankChanges(board, await toEntries([{ userId, score: Number(score) }], position + 1));
+        leaderboard.userRank = entry;
+    }
+
+    return leaderboard;
 };
 
 /**
- * Calculate global rankings
+ * The user and their friends, ranked on a global board (no paging: a
+ * friend list is small)
+ *
+ * @param period - 'all' ranks lifetime points, the others points earned this period
  */
-const calculateGlobalRankings = async (): Promise<LeaderboardEntry[]> => {
-    const users = await User.find().select('_id fullName gamification');
+export const getFriendsLeaderboard = async (
+    userId: string,
+    period: LeaderboardPeriod = 'all'
+): Promise<LeaderboardResponse> => {
+    const board = getGlobalBoard(period);
+    await getPosition(board, userId); // Builds the board, adds a user without points yet
 
-    const rankings: LeaderboardEntry[] = [];
+    const memberIds = [userId, ...await getFriendIds(userId)];
+    const pipeline = redisClient.pipeline();
+    for (const memberId of memberIds) {
+        pipeline.zscore(board.key, memberId);
+    }
+    const replies = (await pipeline.exec()) || [];
 
-    for (const user of users) {
-        const progress = await UserProgress.find({ userId: user._id.toString() });
-        const totalSolved = progress.reduce((sum, p) => sum + p.questionsSolved, 0);
+    // Friends who haven't earned points this period rank last, with 0
+    const members = memberIds
+        .map((memberId, index) => ({ userId: memberId, score: Number(replies[index]?.[1] || 0) }))
+        .sort((a, b) => b.score - a.score);
+    const rankings = await toEntries(members, 1);
 
-        rankings.push({
-            userId: user._id.toString(),
-            userName: user.fullName,
-            rank: 0, // Will be set after sorting
-            score: user.gamification?.totalPoints || 0,
-            questionsSolved: totalSolved,
-            streak: user.gamification?.currentStreak || 0,
-            badges: user.gamification?.badgesEarned || 0,
-        });
-    }
+    return {
+        type: 'friends',
+        ...getBoardInfo(board),
+        rankings,
+        userRank: rankings.find((entry) => entry.userId === userId),
+        total: rankings.length,
+        lastUpdated: new Date(),
+    };
+};
 
-    // Sort by score (descending)
-    rankings.sort((a, b) => b.score - a.score);
+/**
+ * Every ranked college (cached for COLLEGE_RANKINGS_TTL_SECONDS)
+ *
+ * Score = members' total points / √members. A plain sum would rank
+ * colleges by headcount, an average would let one star carry a small
+ * college; the square root still rewards more active members, but less
+ * than linearly, so small and large colleges compete on the same board.
+ */
+const getCollegeRankings = async (): Promise<CollegeLeaderboardEntry[]> => {
+    const cached = await CacheService.get<CollegeLeaderboardEntry[]>(COLLEGE_RANKINGS_CACHE_KEY);
+    if (cached) return cached;
+
+    const colleges = await User.aggregate<{ _id: string; college: string; members: number; totalPoints: number }>([
+        { $match: { college: { $type: 'string' } } },
+        {
+            $group: {
+                _id: { $toLower: { $trim: { input: '$college' } } },
+                college: { $first: { $trim: { input: '$college' } } },
+                members: { $sum: 1 },
+                totalPoints: { $sum: { $ifNull: ['$gamification.totalPoints', 0] } },
+            },
+        },
+        { $match: { _id: { $ne: '' }, members: { $gte: COLLEGE_MIN_MEMBERS } } },
+    ]);
 
-    // Assign ranks
+    const rankings = colleges
+        .map((c) => ({
+            rank: 0, // Set after sorting
+            college: c.college,
+            members: c.members,
+            totalPoints: c.totalPoints,
+            averagePoints: Math.round(c.totalPoints / c.members),
+            score: Math.round(c.totalPoints / Math.sqrt(c.members)),
+        }))
+        .sort((a, b) => b.score - a.score || a.college.localeCompare(b.college));
     rankings.forEach((entry, index) => {
         entry.rank = index + 1;
     });
 
+    await CacheService.set(COLLEGE_RANKINGS_CACHE_KEY, rankings, COLLEGE_RANKINGS_TTL_SECONDS);
     return rankings;
 };
 
 /**
- * Calculate topic-specific rankings
+ * Get the inter-college leaderboard
  */
-const calculateTopicRankings = async (topicId: string): Promise<LeaderboardEntry[]> => {
-    const progress = await UserProgress.find({ topicId }).sort({ strengthScore: -1 });
+export const getCollegeLeaderboard = async (limit: number = 50, skip: number = 0): Promise<CollegeLeaderboardResponse> => {
+    const rankings = await getCollegeRankings();
 
-    const rankings: LeaderboardEntry[] = [];
+    return {
+        rankings: rankings.slice(skip, skip + limit),
+        total: rankings.length,
+        minMembers: COLLEGE_MIN_MEMBERS,
+        lastUpdated: new Date(),
+    };
+};
 
-    for (const p of progress) {
-        const user = await User.findById(p.userId).select('fullName gamification');
-        if (!user) continue;
+/**
+ * Zero-based position of a user on a board, or null if they're not on it
+ * A user missing from the all-time global board (e.g. no points yet) is
+ * added first; on period boards they simply haven't earned points yet.
+ */
+const getPosition = async (board: Board, userId: string): Promise<number | null> => {
+    await ensureBoard(board);
 
-        rankings.push({
-            userId: p.userId,
-            userName: user.fullName,
-            rank: 0,
-            score: p.strengthScore,
-            questionsSolved: p.questionsSolved,
-            streak: user.gamification?.currentStreak || 0,
-            badges: user.gamification?.badgesEarned || 0,
-        });
-    }
+    const position = await redisClient.zrevrank(board.key, userId);
+    if (position !== null || board.topicId || board.period !== 'all') return position;
 
-    // Assign ranks
-    rankings.forEach((entry, index) => {
-        entry.rank = index + 1;
+    await syncUserScore(userId);
+    return redisClient.zrevrank(board.key, userId);
+};
+
+/**
+ * Get user's rank in global leaderboard
+ */
+export const getUserRank = async (
+    userId: string,
+    type: string = 'global',
+    topicId?: string,
+    period: LeaderboardPeriod = 'all'
+): Promise<LeaderboardEntry | null> => {
+    if (type === 'topic' && !topicId) return null;
+
+    const board = type === 'topic' ? getTopicBoard(topicId!) : getGlobalBoard(period);
+
+    const position = await getPosition(board, userId);
+    if (position === null) return null;
+
+    const score = await redisClient.zscore(board.key, userId);
+    const entries = await toEntries([{ userId, score: Number(score) }], position + 1, board.topicId);
+    const [entry] = await addRankChanges(board, entries);
+    return entry || null;
+};
+
+/**
+ * Users ranked just above and below a user ("around me")
+ *
+ * @param radius - Entries shown on each side of the user
+ * @returns The window (userRank is the user's own entry), or null if the
+ *          user isn't on the board
+ */
+export const getUsersAroundMe = async (
+    userId: string,
+    radius: number,
+    topicId?: string,
+    period: LeaderboardPeriod = 'all'
+): Promise<LeaderboardResponse | null> => {
+    const board = topicId ? getTopicBoard(topicId) : getGlobalBoard(period);
+
+    const position = await getPosition(board, userId);
+    if (position === null) return null;
+
+    const start = Math.max(0, position - radius);
+    const reply = await redisClient.zrevrange(board.key, start, position + radius, 'WITHSCORES');
+    const rankings = await addRankChanges(board, await toEntries(parseMembers(reply), start + 1, topicId));
+    const topic = topicId ? await Topic.findById(topicId) : null;
+
+    return {
+        type: topicId ? 'topic' : 'global',
+        ...(topicId && { topicId, topicName: topic?.name }),
+        ...getBoardInfo(board),
+        rankings,
+        userRank: rankings.find((entry) => entry.userId === userId),
+        total: await redisClient.zcard(board.key),
+        lastUpdated: new Date(),
+    };
+};
+
+/**
+ * The top SNAPSHOT_MAX_ENTRIES entries of a board, for snapshots
+ */
+const getSnapshotEntries = async (board: Board): Promise<LeaderboardEntry[]> => {
+    await ensureBoard(board);
+
+    const reply = await redisClient.zrevrange(board.key, 0, SNAPSHOT_MAX_ENTRIES - 1, 'WITHSCORES');
+    return toEntries(parseMembers(reply), 1, board.topicId);
+};
+
+/**
+ * Store a snapshot of a board in MongoDB (history)
+ */
+const saveSnapshot = async (type: string, rankings: LeaderboardEntry[], topicId?: string): Promise<void> => {
+    const now = new Date();
+    const expiresAt = new Date(now);
+    expiresAt.setDate(expiresAt.getDate() + SNAPSHOT_RETENTION_DAYS);
+
+    await Leaderboard.create({
+        type,
+        topicId,
+        rankings,
+        lastUpdated: now,
+        expiresAt,
     });
+};
 
-    return rankings;
+/**
+ * Notify users whose global rank moved noticeably since the last snapshot
+ * (users in both snapshots, so within the top SNAPSHOT_MAX_ENTRIES)
+ */
+const notifyRankChanges = async (
+    previous: Array<Pick<LeaderboardEntry, 'userId' | 'rank'>>,
+    current: LeaderboardEntry[]
+): Promise<void> => {
+    const previousRanks = new Map(previous.map((entry) => [entry.userId, entry.rank]));
+
+    const changes = current.flatMap((entry) => {
+        const before = previousRanks.get(entry.userId);
+        if (before === undefined || before === entry.rank) return [];
+
+        const enteredTop = before > TOP_RANKS && entry.rank <= TOP_RANKS;
+        if (!enteredTop && Math.abs(before - entry.rank) < RANK_CHANGE_NOTICE) return [];
+
+        const climbed = entry.rank < before;
+        return [{
+            userId: entry.userId,
+            type: 'rank_change' as const,
+            title: enteredTop
+                ? `You're in the top ${TOP_RANKS}!`
+                : `${climbed ? 'Up' : 'Down'} ${Math.abs(before - entry.rank)} places on the leaderboard`,
+            message: `You ${climbed ? 'climbed' : 'dropped'} from #${before} to #${entry.rank}`,
+            link: '/leaderboard',
+        }];
+    });
+
+    await createNotifications(changes);
 };
 
 /**
- * Cache leaderboard in database
+ * Snapshot the top of every all-time board into MongoDB (called by cron
+ * job hourly)
  */
-const cacheLeaderboard = async (type: string, rankings: LeaderboardEntry[], topicId?: string): Promise<void> => {
-    const expiresAt = new Date();
-    expiresAt.setMinutes(expiresAt.getMinutes() + 15); // 15-minute cache
+export const snapshotLeaderboards = async (): Promise<void> => {
+    console.log('🔄 Snapshotting leaderboards...');
+
+    // Global leaderboard
+    const previous = await Leaderboard.findOne({ type: 'global' })
+        .sort({ lastUpdated: -1 })
+        .select('rankings.userId rankings.rank');
+    const globalRankings = await getSnapshotEntries(getGlobalBoard('all'));
+    await saveSnapshot('global', globalRankings);
+    if (previous) {
+        await notifyRankChanges(previous.rankings, globalRankings);
+    }
+
+    // Topic leaderboards
+    const topics = await Topic.find().select('_id');
+    for (const topic of topics) {
+        const topicId = topic._id.toString();
+        const topicRankings = await getSnapshotEntries(getTopicBoard(topicId));
+        if (topicRankings.length > 0) {
+            await saveSnapshot('topic', topicRankings, topicId);
+        }
+    }
+
+    console.log('✅ Leaderboards snapshotted');
+};
 
-    await Leaderboard.findOneAndUpdate(
-        { type, topicId: topicId || null },
+/**
+ * Daily ranks are kept this many days (RANK_HISTORY_RETENTION_DAYS)
+ */
+const getRankHistoryRetentionDays = (): number => {
+    const days = parseInt(process.env.RANK_HISTORY_RETENTION_DAYS || '', 10);
+    return days > 0 ? days : DEFAULT_RANK_HISTORY_RETENTION_DAYS;
+};
+
+/**
+ * Every college / cohort board at least one user belongs to
+ */
+const getAllScopedBoards = async (): Promise<Board[]> => {
+    const scopes = await User.aggregate<{ _id: Pick<IUser, 'college' | 'graduationYear'> }>([
+        { $match: { $or: [{ college: { $type: 'string' } }, { graduationYear: { $type: 'number' } }] } },
         {
-            type,
-            topicId,
-            rankings,
-            lastUpdated: new Date(),
-            expiresAt,
+            $group: {
+                _id: {
+                    college: { $toLower: { $trim: { input: '$college' } } },
+                    graduationYear: '$graduationYear',
+                },
+            },
         },
-        { upsert: true, new: true }
-    );
+    ]);
+
+    const boards = new Map<string, Board>();
+    for (const { _id: scope } of scopes) {
+        for (const board of getUserScopedBoards(scope)) {
+            boards.set(board.key, board);
+        }
+    }
+    return [...boards.values()];
 };
 
 /**
- * Update all leaderboard caches (called by cron job)
+ * Record today's rank of every user on the all-time boards (global, topic,
+ * college and cohort) and prune days past the retention (called by cron job
+ * daily; a second run the same UTC day overwrites that day)
+ *
+ * @returns Number of ranks recorded
  */
-export const updateLeaderboardCache = async (): Promise<void> => {
-    console.log('🔄 Updating leaderboard cache...');
+export const recordRankHistory = async (): Promise<number> => {
+    const date = getUtcDay(new Date());
+    const topics = await Topic.find().select('_id');
+    const boards = [
+        getGlobalBoard('all'),
+        ...topics.map((topic) => getTopicBoard(topic._id.toString())),
+        ...await getAllScopedBoards(),
+    ];
 
-    // Update global leaderboard
-    const globalRankings = await calculateGlobalRankings();
-    await cacheLeaderboard('global', globalRankings);
+    let recorded = 0;
+    for (const board of boards) {
+        await ensureBoard(board);
 
-    // Update topic leaderboards
-    const topics = await Topic.find().select('_id');
-    for (const topic of topics) {
-        const topicRankings = await calculateTopicRankings(topic._id.toString());
-        await cacheLeaderboard('topic', topicRankings, topic._id.toString());
+        for (let start = 0; ; start += REBUILD_BATCH_SIZE) {
+            const reply = await redisClient.zrevrange(board.key, start, start + REBUILD_BATCH_SIZE - 1, 'WITHSCORES');
+            const members = parseMembers(reply);
+            if (members.length === 0) break;
+
+            await RankSnapshot.bulkWrite(
+                members.map((member, index) => ({
+                    updateOne: {
+                        filter: { userId: member.userId, board: board.key, date },
+                        update: { $set: { rank: start + index + 1, score: member.score } },
+                        upsert: true,
+                    },
+                })),
+                { ordered: false }
+            );
+            recorded += members.length;
+        }
     }
 
-    console.log('✅ Leaderboard cache updated');
+    const cutoff = new Date(date.getTime() - getRankHistoryRetentionDays() * DAY_MS);
+    const { deletedCount } = await RankSnapshot.deleteMany({ date: { $lt: cutoff } });
+
+    console.log(`✅ Rank history recorded: ${recorded} ranks, ${deletedCount} expired removed`);
+    return recorded;
+};
+
+/**
+ * A user's daily rank over the last days (global all-time board, or a
+ * topic board with topicId)
+ *
+ * @throws Error if the topic doesn't exist
+ */
+export const getRankHistory = async (
+    userId: string,
+    days: number,
+    topicId?: string
+): Promise<RankHistoryResponse> => {
+    const topic = topicId ? await Topic.findById(topicId) : null;
+    if (topicId && !topic) {
+        throw new Error('Topic not found');
+    }
+
+    const board = topicId ? getTopicBoard(topicId) : getGlobalBoard('all');
+    const since = new Date(getUtcDay(new Date()).getTime() - (days - 1) * DAY_MS);
+
+    const snapshots = await RankSnapshot.find({ userId, board: board.key, date: { $gte: since } }).sort({ date: 1 });
+    const history = snapshots.map((snapshot) => ({
+        date: snapshot.date,
+        rank: snapshot.rank,
+        score: snapshot.score,
+    }));
+
+    return {
+        type: topicId ? 'topic' : 'global',
+        ...(topic && { topicId, topicName: topic.name }),
+        days,
+        history,
+        rankChange: history.length > 1 ? history[0].rank - history[history.length - 1].rank : 0,
+    };
+};
+
+/**
+ * Startup: drop the old one-document-per-board unique index (snapshots
+ * now keep many documents per board)
+ */
+export const initializeLeaderboards = async (): Promise<void> => {
+    await Leaderboard.syncIndexes();
+};
+
+const toArchiveResponse = (archive: ILeaderboardArchive): LeaderboardArchiveResponse => ({
+    period: archive.period,
+    periodStart: archive.periodStart,
+    periodEnd: archive.periodEnd,
+    winners: archive.winners,
+    participants: archive.participants,
+});
+
+/**
+ * Archive the winners of every period that just finished
+ * Called by cron job hourly; periods already archived are skipped
+ *
+ * Standings come from the ledger (not Redis), so an archive is exact even
+ * if the period's board expired or was never read.
+ */
+export const archiveFinishedPeriods = async (): Promise<number> => {
+    const now = new Date();
+    let archived = 0;
+
+    for (const period of WINDOWED_PERIODS) {
+        const current = getPeriodWindow(period, now);
+        const finished = getPeriodWindow(period, new Date(current.start.getTime() - 1));
+        if (await LeaderboardArchive.exists({ period, periodStart: finished.start })) continue;
+
+        // Same tie order as the live board (ZREVRANGE: higher member first)
+        const top = await PointTransaction.aggregate<{ _id: string; score: number }>([
+            ...getWindowPipeline(finished),
+            { $sort: { score: -1, _id: -1 } },
+            { $limit: ARCHIVED_WINNERS },
+        ]);
+        const [counted] = await PointTransaction.aggregate<{ participants: number }>([
+            ...getWindowPipeline(finished),
+            { $count: 'participants' },
+        ]);
+
+        const users = await User.find({ _id: { $in: top.map((t) => t._id) } }).select('fullName');
+        const names = new Map(users.map((u) => [u._id.toString(), u.fullName]));
+
+        try {
+            await LeaderboardArchive.create({
+                period,
+                periodStart: finished.start,
+                periodEnd: finished.end,
+                winners: top.map((t, index) => ({
+                    userId: t._id,
+                    userName: names.get(t._id) || 'Deleted user',
+                    rank: index + 1,
+                    score: t.score,
+                })),
+                participants: counted?.participants || 0,
+            });
+            archived++;
+        } catch (error: any) {
+            // Another instance archived it first
+            if (error?.code !== 11000) throw error;
+        }
+    }
+
+    if (archived > 0) {
+        console.log(`✅ Archived ${archived} finished leaderboard periods`);
+    }
+    return archived;
+};
+
+/**
+ * Winners of past periods (newest first)
+ */
+export const getPeriodWinners = async (
+    period: WindowedPeriod,
+    limit: number
+): Promise<LeaderboardArchiveResponse[]> => {
+    const archives = await LeaderboardArchive.find({ period })
+        .sort({ periodStart: -1 })
+        .limit(limit);
+    return archives.map(toArchiveResponse);
 };
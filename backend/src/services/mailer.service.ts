@@ -0,0 +1,105 @@
+/**
+ * Mailer Service - Pluggable Email Transport
+ *
+ * Everything that sends email goes through sendEmail; where it ends up is
+ * chosen by EMAIL_TRANSPORT:
+ * - console (default): log subject and plain text, for development
+ * - file: write each email as JSON to EMAIL_FILE_DIR (dev and tests)
+ * - smtp: deliver through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS
+ *
+ * setMailTransport swaps in any other sink (e.g. an in-memory one in tests).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+    name: string;
+    send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Placement Prep <no-reply@localhost>';
+
+const createSmtpTransport = (): MailTransport => {
+    const transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true', // true for port 465
+        auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+            : undefined,
+    });
+
+    return {
+        name: 'smtp',
+        send: async (message) => {
+            await transporter.sendMail(message);
+        },
+    };
+};
+
+const createFileTransport = (directory: string): MailTransport => ({
+    name: 'file',
+    send: async (message) => {
+        await fs.mkdir(directory, { recursive: true });
+        const fileName = `${Date.now()}-${randomUUID()}.json`;
+        await fs.writeFile(path.join(directory, fileName), JSON.stringify(message, null, 2));
+    },
+});
+
+const createConsoleTransport = (): MailTransport => ({
+    name: 'console',
+    send: async (message) => {
+        console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+});
+
+const createTransportFromEnv = (): MailTransport => {
+    switch (process.env.EMAIL_TRANSPORT) {
+        case 'smtp':
+            return createSmtpTransport();
+        case 'file':
+            return createFileTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'emails'));
+        default:
+            return createConsoleTransport();
+    }
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Current transport (created from the environment on first use)
+ */
+export const getMailTransport = (): MailTransport => {
+    if (!transport) {
+        transport = createTransportFromEnv();
+    }
+    return transport;
+};
+
+/**
+ * Replace the transport (null goes back to the environment's choice)
+ */
+export const setMailTransport = (next: MailTransport | null): void => {
+    transport = next;
+};
+
+/**
+ * Send one email through the current transport
+ */
+export const sendEmail = async (message: EmailMessage): Promise<void> => {
+    await getMailTransport().send({
+        from: process.env.EMAIL_FROM || DEFAULT_FROM,
+        ...message,
+    });
+};
@@ -0,0 +1,222 @@
+/**
+ * Notification Service - In-App Notification Center
+ *
+ * Records what happened to a user and tracks read state:
+ * - createNotification / createNotifications: skip types the user muted
+ * - getNotifications: newest first, paginated, with the unread count
+ * - markNotificationRead / markAllNotificationsRead
+ * - Mute preferences per notification type
+ *
+ * Producers: achievements (achievement.service.ts), rank changes
+ * (leaderboard cache update), expiring recommendations (cron), closed
+ * study rooms (RoomClosed subscriber below), follows and friend requests
+ * (social.service.ts) and study room invites.
+ */
+
+import { eventBus } from './eventBus.service';
+import { Notification, INotification } from '../models/Notification';
+import { User } from '../models/User';
+import StudyRoom from '../models/StudyRoom';
+import {
+    NotificationInput,
+    NotificationType,
+    NotificationResponse,
+    NotificationListResponse,
+    NotificationPreferencesResponse,
+} from '../types/notification.types';
+
+const toNotificationResponse = (notification: INotification): NotificationResponse => ({
+    _id: notification._id.toString(),
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    link: notification.link,
+    read: notification.readAt !== null,
+    readAt: notification.readAt || undefined,
+    createdAt: notification.createdAt,
+});
+
+/**
+ * Has the user muted this notification type?
+ */
+export const isNotificationMuted = async (userId: string, type: NotificationType): Promise<boolean> => {
+    const muted = await User.exists({ _id: userId, 'notificationPreferences.mutedTypes': type });
+    return muted !== null;
+};
+
+/**
+ * Record a notification for one user
+ *
+ * @returns The notification, or null if the user muted its type
+ */
+export const createNotification = async (
+    userId: string,
+    input: NotificationInput
+): Promise<NotificationResponse | null> => {
+    if (await isNotificationMuted(userId, input.type)) {
+        return null;
+    }
+
+    const notification = await Notification.create({ userId, ...input });
+    return toNotificationResponse(notification);
+};
+
+/**
+ * Record notifications for many users at once (e.g., rank changes)
+ * Users who muted a notification's type are skipped
+ *
+ * @returns Number of notifications recorded
+ */
+export const createNotifications = async (
+    items: Array<{ userId: string } & NotificationInput>
+): Promise<number> => {
+    if (items.length === 0) return 0;
+
+    const types = [...new Set(items.map((item) => item.type))];
+    const mutedUsers = await User.find({
+        _id: { $in: [...new Set(items.map((item) => item.userId))] },
+        'notificationPreferences.mutedTypes': { $in: types },
+    }).select('notificationPreferences');
+
+    const muted = new Set(
+        mutedUsers.flatMap((user) =>
+            (user.notificationPreferences?.mutedTypes || []).map((type) => `${user._id}:${type}`)
+        )
+    );
+
+    const toInsert = items.filter((item) => !muted.has(`${item.userId}:${item.type}`));
+    if (toInsert.length > 0) {
+        await Notification.insertMany(toInsert);
+    }
+
+    return toInsert.length;
+};
+
+/**
+ * Get a user's notifications (newest first)
+ *
+ * @param query - limit / skip pagination, unreadOnly filter
+ */
+export const getNotifications = async (
+    userId: string,
+    query: { limit: number; skip: number; unreadOnly: boolean }
+): Promise<NotificationListResponse> => {
+    const filter = query.unreadOnly ? { userId, readAt: null } : { userId };
+
+    const notifications = await Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(query.skip)
+        .limit(query.limit);
+    const total = await Notification.countDocuments(filter);
+    const unreadCount = query.unreadOnly
+        ? total
+        : await Notification.countDocuments({ userId, readAt: null });
+
+    return {
+        notifications: notifications.map(toNotificationResponse),
+        total,
+        unreadCount,
+    };
+};
+
+/**
+ * Mark one notification read (no-op if it already is)
+ *
+ * @throws Error if the notification doesn't exist or isn't the user's
+ */
+export const markNotificationRead = async (
+    userId: string,
+    notificationId: string
+): Promise<NotificationResponse> => {
+    const notification = await Notification.findOne({ _id: notificationId, userId });
+    if (!notification) {
+        throw new Error('Notification not found');
+    }
+
+    if (notification.readAt === null) {
+        notification.readAt = new Date();
+        await notification.save();
+    }
+
+    return toNotificationResponse(notification);
+};
+
+/**
+ * Mark every unread notification read
+ *
+ * @returns Number of notifications marked
+ */
+export const markAllNotificationsRead = async (userId: string): Promise<number> => {
+    const result = await Notification.updateMany(
+        { userId, readAt: null },
+        { $set: { readAt: new Date() } }
+    );
+    return result.modifiedCount;
+};
+
+/**
+ * Get the user's muted notification types
+ *
+ * @throws Error if user not found
+ */
+export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferencesResponse> => {
+    const user = await User.findById(userId).select('notificationPreferences');
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    return { mutedTypes: user.notificationPreferences?.mutedTypes || [] };
+};
+
+/**
+ * Replace the user's muted notification types
+ *
+ * @throws Error if user not found
+ */
+export const updateNotificationPreferences = async (
+    userId: string,
+    mutedTypes: NotificationType[]
+): Promise<NotificationPreferencesResponse> => {
+    const user = await User.findByIdAndUpdate(
+        userId,
+        { $set: { 'notificationPreferences.mutedTypes': [...new Set(mutedTypes)] } },
+        { new: true }
+    ).select('notificationPreferences');
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    return { mutedTypes: user.notificationPreferences?.mutedTypes || [] };
+};
+
+/**
+ * Register notification subscribers on the event bus
+ * Called once at server startup
+ */
+export const registerNotificationSubscribers = (): void => {
+    eventBus.subscribe(
+        'RoomClosed',
+        async ({ roomId, closedBy, reason }) => {
+            const room = await StudyRoom.findOne({ roomId });
+            if (!room) return;
+
+            const message = reason === 'creator_left'
+                ? 'The host left, so the room was closed'
+                : 'The host closed the room';
+
+            const userIds = [...new Set(room.participants.map((p) => p.userId.toString()))]
+                .filter((userId) => userId !== closedBy);
+
+            await createNotifications(
+                userIds.map((userId) => ({
+                    userId,
+                    type: 'room_closed' as const,
+                    title: `"${room.name}" was closed`,
+                    message,
+                    link: '/study-rooms',
+                }))
+            );
+        },
+        { name: 'notifications', retries: 2 }
+    );
+};
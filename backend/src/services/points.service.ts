@@ -0,0 +1,210 @@
+/**
+ * Points Service - Points Ledger
+ *
+ * Every award path writes a PointTransaction next to its $inc on
+ * gamification.totalPoints, in the same transaction:
+ * - adjustUserPoints (practice.service.ts): practice, import, daily
+ *   challenge, streak freeze, balance floor
+ * - creditBadges (badge.service.ts): badge awards
+ *
+ * Reconciliation recomputes totalPoints from the ledger. A user seen for the
+ * first time gets an opening_balance entry for the points they held before
+ * the ledger existed; after that, any difference is drift: totalPoints is
+ * reset to the ledger sum and a PointDrift flag is recorded.
+ */
+
+import { PointTransaction, IPointTransaction } from '../models/PointTransaction';
+import { PointDrift, IPointDrift } from '../models/PointDrift';
+import { User } from '../models/User';
+import { IUser } from '../types/auth.types';
+import { getEconomy, getLevelForPoints } from './economy.service';
+import { syncUserScore, addPeriodPoints } from './leaderboard.service';
+import { withTransaction, runAfterCommit } from '../utils/transaction';
+import {
+    PointEntryInput,
+    PointSource,
+    PointTransactionResponse,
+    PointHistoryResponse,
+    PointDriftResponse,
+    PointReconciliationSummary,
+} from '../types/points.types';
+
+const RECONCILE_BATCH_SIZE = 200;
+
+const toTransactionResponse = (transaction: IPointTransaction): PointTransactionResponse => ({
+    _id: transaction._id.toString(),
+    source: transaction.source,
+    amount: transaction.amount,
+    referenceId: transaction.referenceId,
+    description: transaction.description,
+    createdAt: transaction.createdAt,
+});
+
+const toDriftResponse = (drift: IPointDrift): PointDriftResponse => ({
+    _id: drift._id.toString(),
+    userId: drift.userId,
+    storedPoints: drift.storedPoints,
+    ledgerPoints: drift.ledgerPoints,
+    drift: drift.drift,
+    detectedAt: drift.detectedAt,
+});
+
+/**
+ * Append ledger entries (zero amounts are skipped)
+ * Call inside the transaction that changes totalPoints; the period
+ * leaderboards pick the entries up once it commits.
+ */
+export const recordPointTransactions = async (
+    entries: Array<{ userId: string; amount: number } & PointEntryInput>
+): Promise<void> => {
+    const nonZero = entries.filter((entry) => entry.amount !== 0);
+    if (nonZero.length === 0) return;
+
+    const transactions = await PointTransaction.insertMany(nonZero);
+    await runAfterCommit(() => addPeriodPoints(transactions));
+};
+
+/**
+ * Get a user's points history (newest first)
+ *
+ * @param query - limit / skip pagination, optional source filter
+ * @throws Error if user not found
+ */
+export const getPointHistory = async (
+    userId: string,
+    query: { limit: number; skip: number; source?: PointSource }
+): Promise<PointHistoryResponse> => {
+    const user = await User.findById(userId).select('gamification.totalPoints');
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    const filter = query.source ? { userId, source: query.source } : { userId };
+
+    const transactions = await PointTransaction.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip(query.skip)
+        .limit(query.limit);
+    const total = await PointTransaction.countDocuments(filter);
+
+    return {
+        transactions: transactions.map(toTransactionResponse),
+        total,
+        totalPoints: user.gamification?.totalPoints || 0,
+    };
+};
+
+/**
+ * Sum of a user's ledger
+ */
+const getLedgerTotal = async (userId: string): Promise<number> => {
+    const [result] = await PointTransaction.aggregate<{ total: number }>([
+        { $match: { userId } },
+        { $group: { _id: null, total: { $sum: '$amount' } } },
+    ]);
+    return result?.total || 0;
+};
+
+/**
+ * Reconcile one user's totalPoints with their ledger
+ *
+ * Runs in a transaction, so the balance and the ledger are read from the
+ * same snapshot (an award landing mid-check can't look like drift).
+ *
+ * @returns 'opened' (opening balance recorded), 'drift' (fixed and flagged) or 'ok'
+ * @throws Error if user not found
+ */
+export const reconcileUserPoints = async (userId: string): Promise<'opened' | 'drift' | 'ok'> => {
+    return withTransaction(async () => {
+        const user = await User.findById(userId).select('gamification.totalPoints gamification.level');
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const storedPoints = user.gamification?.totalPoints || 0;
+        const ledgerPoints = await getLedgerTotal(userId);
+
+        const hasOpeningBalance = await PointTransaction.exists({ userId, source: 'opening_balance' });
+        if (!hasOpeningBalance) {
+            // Recorded even when zero: it marks the user as covered by the ledger
+            await PointTransaction.create({
+                userId,
+                source: 'opening_balance',
+                amount: storedPoints - ledgerPoints,
+                description: 'Points held before the ledger existed',
+            });
+            return 'opened';
+        }
+
+        if (storedPoints === ledgerPoints) {
+            return 'ok';
+        }
+
+        await PointDrift.create({
+            userId,
+            storedPoints,
+            ledgerPoints,
+            drift: storedPoints - ledgerPoints,
+        });
+
+        const totalPoints = Math.max(0, ledgerPoints);
+        await User.findByIdAndUpdate(userId, {
+            $set: {
+                'gamification.totalPoints': totalPoints,
+                'gamification.level': getLevelForPoints(totalPoints, (await getEconomy()).levelCurve),
+            },
+        });
+
+        await runAfterCommit(() => syncUserScore(userId));
+
+        console.warn(`⚠️ Points drift for user ${userId}: stored ${storedPoints}, ledger ${ledgerPoints}`);
+        return 'drift';
+    });
+};
+
+/**
+ * Reconcile every user
+ * Called by cron job nightly
+ */
+export const reconcileAllPoints = async (): Promise<PointReconciliationSummary> => {
+    const summary: PointReconciliationSummary = { usersChecked: 0, openingBalances: 0, driftedUsers: 0 };
+
+    let lastUserId: string | null = null;
+    for (;;) {
+        const users: IUser[] = await User.find(lastUserId ? { _id: { $gt: lastUserId } } : {})
+            .sort({ _id: 1 })
+            .limit(RECONCILE_BATCH_SIZE)
+            .select('_id');
+        if (users.length === 0) break;
+
+        for (const user of users) {
+            try {
+                const result = await reconcileUserPoints(user._id.toString());
+                summary.usersChecked++;
+                if (result === 'opened') summary.openingBalances++;
+                if (result === 'drift') summary.driftedUsers++;
+            } catch (error) {
+                console.error(`Failed to reconcile points for user ${user._id}:`, error);
+            }
+        }
+
+        lastUserId = users[users.length - 1]._id.toString();
+    }
+
+    console.log(
+        `✅ Points reconciled: ${summary.usersChecked} users, ` +
+        `${summary.openingBalances} opening balances, ${summary.driftedUsers} drifted`
+    );
+    return summary;
+};
+
+/**
+ * Recent drift flags (admin)
+ */
+export const getPointDrifts = async (query: { limit: number; skip: number }): Promise<PointDriftResponse[]> => {
+    const drifts = await PointDrift.find()
+        .sort({ detectedAt: -1 })
+        .skip(query.skip)
+        .limit(query.limit);
+    return drifts.map(toDriftResponse);
+};
@@ -9,9 +9,22 @@
  */
 
 import { Topic } from '../models/Topic';
-import { PracticeLog } from '../models/PracticeLog';
+import { PracticeLog, IPracticeLog } from '../models/PracticeLog';
+import { findMatchingQuestion, getSameQuestionFilter } from './question.service';
+import { calculateTopicProgress } from './progress.service';
+import { rebuildBadgeCounters } from './badgeCounter.service';
+import { eventBus } from './eventBus.service';
+import { getEconomy, calculateSolvePoints, getLevelForPoints } from './economy.service';
+import { recordPointTransactions } from './points.service';
+import { syncUserScore } from './leaderboard.service';
+import { scorePracticeLog } from './antiCheat.service';
+import { withTransaction, runAfterCommit } from '../utils/transaction';
+import { AppError } from '../utils/errors';
+import { DEFAULT_TIMEZONE, startOfDay, addDays, getDayNumber } from '../utils/timezone';
+import { MAX_STREAK_FREEZES, STREAK_FREEZE_EARN_INTERVAL, STREAK_MILESTONES } from './streak.service';
 import {
     LogPracticeDTO,
+    UpdatePracticeLogDTO,
     GetPracticeHistoryQuery,
     TopicResponse,
     TopicsByCategory,
@@ -19,6 +32,7 @@ import {
     PracticeStatsResponse,
     OverallStatsResponse,
 } from '../types/practice.types';
+import { PointEntryInput } from '../types/points.types';
 
 /**
  * Get all topics grouped by category
@@ -80,96 +94,246 @@ export const getTopicById = async (topicId: string): Promise<TopicResponse> => {
 /**
  * Log a practice session
  * 
+ * The log is linked to a canonical Question when its title/URL matches one.
+ * Topic progress, badges, challenges and reviews are updated by
+ * PracticeLogged subscribers (see practicePipeline.service.ts).
+ * 
+ * Runs as one transaction: if any step fails, the log, points, streak and
+ * every subscriber's writes roll back together.
+ * 
+ * A log the anti-cheat heuristics flag is saved held (see antiCheat.service.ts):
+ * no points, streak or pipeline until a moderator approves it.
+ * 
  * @param userId - User's MongoDB _id
  * @param data - Practice session data
  * @returns Created practice log
  * @throws Error if topic not found
+ * @throws AppError EVENT_HANDLER_FAILED if a pipeline step fails
  */
 export const logPractice = async (
     userId: string,
     data: LogPracticeDTO
 ): Promise<PracticeLogResponse> => {
-    // Verify topic exists
-    const topic = await Topic.findById(data.topicId);
-    if (!topic) {
-        throw new Error('Topic not found');
-    }
+    return withTransaction(async () => {
+        // Verify topic exists
+        const topic = await Topic.findById(data.topicId);
+        if (!topic) {
+            throw new Error('Topic not found');
+        }
 
-    // Create practice log
-    const practiceLog = new PracticeLog({
-        userId,
-        topicId: data.topicId,
-        questionTitle: data.questionTitle,
-        questionUrl: data.questionUrl,
-        difficulty: data.difficulty,
-        timeSpentMinutes: data.timeSpentMinutes,
-        solved: data.solved,
-        notes: data.notes,
-        practicedAt: data.practicedAt || new Date(),
+        // Link to canonical question bank (if we know this question)
+        const question = await findMatchingQuestion(data.questionTitle, data.questionUrl, data.topicId);
+
+        // Points from the economy config (stored on the log so edits/deletes can reverse them)
+        const points = data.solved
+            ? calculateSolvePoints(
+                await getEconomy(),
+                data.difficulty,
+                await countPreviousSolves(userId, question?._id.toString(), data.questionTitle)
+            )
+            : 0;
+
+        const practicedAt = data.practicedAt || new Date();
+        const suspicion = await scorePracticeLog(userId, {
+            questionId: question?._id.toString(),
+            questionTitle: data.questionTitle,
+            difficulty: data.difficulty,
+            timeSpentMinutes: data.timeSpentMinutes,
+            solved: data.solved,
+            practicedAt,
+        });
+
+        // Create practice log
+        const practiceLog = new PracticeLog({
+            userId,
+            topicId: data.topicId,
+            questionId: question?._id.toString(),
+            questionTitle: data.questionTitle,
+            questionUrl: data.questionUrl,
+            difficulty: data.difficulty,
+            timeSpentMinutes: data.timeSpentMinutes,
+            solved: data.solved,
+            pointsAwarded: suspicion.flagged ? 0 : points,
+            notes: data.notes,
+            practicedAt,
+            ...(suspicion.flagged && {
+                held: true,
+                review: {
+                    status: 'pending',
+                    score: suspicion.score,
+                    reasons: suspicion.reasons,
+                    heldPoints: points,
+                },
+            }),
+        });
+
+        await practiceLog.save();
+
+        if (practiceLog.held) {
+            return toPracticeLogResponse(practiceLog, topic.name);
+        }
+
+        // ===== GAMIFICATION INTEGRATION =====
+        // 1. Update user streak
+        await updateUserStreak(userId);
+
+        // 2. Award points
+        await adjustUserPoints(userId, points, {
+            source: 'practice',
+            referenceId: practiceLog._id.toString(),
+            description: practiceLog.questionTitle,
+        });
+
+        // 3. Everything else reacts to the event (progress → badges → challenges → reviews)
+        await eventBus.publish('PracticeLogged', {
+            userId,
+            practiceLogId: practiceLog._id.toString(),
+            topicId: practiceLog.topicId,
+            questionId: practiceLog.questionId,
+            questionTitle: practiceLog.questionTitle,
+            questionUrl: practiceLog.questionUrl,
+            difficulty: practiceLog.difficulty,
+            timeSpentMinutes: practiceLog.timeSpentMinutes,
+            solved: practiceLog.solved,
+            practicedAt: practiceLog.practicedAt,
+            createdAt: practiceLog.createdAt,
+        }, { strict: true });
+
+        return toPracticeLogResponse(practiceLog, topic.name);
     });
+};
 
-    await practiceLog.save();
+const toPracticeLogResponse = (log: IPracticeLog, topicName?: string): PracticeLogResponse => ({
+    _id: log._id.toString(),
+    userId: log.userId,
+    topicId: log.topicId,
+    topicName,
+    questionId: log.questionId,
+    questionTitle: log.questionTitle,
+    questionUrl: log.questionUrl,
+    difficulty: log.difficulty,
+    timeSpentMinutes: log.timeSpentMinutes,
+    solved: log.solved,
+    pointsAwarded: log.pointsAwarded,
+    notes: log.notes,
+    practicedAt: log.practicedAt,
+    reviewStatus: log.review?.status,
+    createdAt: log.createdAt,
+});
 
-    // ===== GAMIFICATION INTEGRATION =====
-    // Import gamification services dynamically to avoid circular dependencies
-    const badgeService = await import('./badge.service');
-    const challengeService = await import('./challenge.service');
-    const { User } = await import('../models/User');
+/**
+ * Points a solve was worth before the economy config (and pointsAwarded) existed
+ */
+const LEGACY_PRACTICE_POINTS: Record<'Easy' | 'Medium' | 'Hard', number> = {
+    Easy: 10,
+    Medium: 20,
+    Hard: 30,
+};
+
+/**
+ * How many times the user already solved a question (same question bank
+ * entry, or same title ignoring case), for the economy's repeat-solve returns
+ *
+ * @param excludeLogId - Log being edited (doesn't count against itself)
+ */
+export const countPreviousSolves = async (
+    userId: string,
+    questionId: string | undefined,
+    questionTitle: string,
+    excludeLogId?: string
+): Promise<number> => {
+    return PracticeLog.countDocuments({
+        userId,
+        solved: true,
+        ...getSameQuestionFilter(questionId, questionTitle),
+        ...(excludeLogId && { _id: { $ne: excludeLogId } }),
+    });
+};
 
-    // 1. Update user streak
-    await updateUserStreak(userId);
+/**
+ * Add (or, with a negative delta, remove) points and recalculate level
+ * on the economy's level curve. Total points never go below 0.
+ * 
+ * The change is recorded in the points ledger (points.service.ts) in the
+ * same transaction; if the floor kicks in, a balance_floor entry records it.
+ * The global leaderboard picks up the new total once it commits.
+ * 
+ * @param entry - Ledger source and what the points are for
+ */
+export const adjustUserPoints = async (
+    userId: string,
+    delta: number,
+    entry: PointEntryInput
+): Promise<void> => {
+    if (delta === 0) return;
 
-    // 2. Award points based on difficulty
-    const pointsMap = { Easy: 10, Medium: 20, Hard: 30 };
-    const points = data.solved ? pointsMap[data.difficulty] : 0;
+    const { User } = await import('../models/User');
 
-    if (points > 0) {
+    await withTransaction(async () => {
+        await recordPointTransactions([{ userId, amount: delta, ...entry }]);
         await User.findByIdAndUpdate(userId, {
-            $inc: { 'gamification.totalPoints': points },
+            $inc: { 'gamification.totalPoints': delta },
         });
 
         // Recalculate level
         const user = await User.findById(userId);
         if (user) {
-            const newLevel = Math.floor((user.gamification?.totalPoints || 0) / 100) + 1;
+            const storedPoints = user.gamification?.totalPoints || 0;
+            const totalPoints = Math.max(0, storedPoints);
+            const previousLevel = user.gamification?.level || 1;
+            const newLevel = getLevelForPoints(totalPoints, (await getEconomy()).levelCurve);
+
+            if (totalPoints !== storedPoints) {
+                await recordPointTransactions([{
+                    userId,
+                    amount: totalPoints - storedPoints,
+                    source: 'balance_floor',
+                    referenceId: entry.referenceId,
+                    description: 'Balance cannot go below 0',
+                }]);
+            }
+
             await User.findByIdAndUpdate(userId, {
-                $set: { 'gamification.level': newLevel },
+                $set: {
+                    'gamification.totalPoints': totalPoints,
+                    'gamification.level': newLevel,
+                },
             });
-        }
-    }
 
-    // 3. Check and award badges
-    await badgeService.checkAndAwardBadges(userId);
+            if (newLevel > previousLevel) {
+                await eventBus.publish('LevelUp', { userId, previousLevel, newLevel });
+            }
+        }
 
-    // 4. Update daily challenge progress
-    await challengeService.updateChallengeProgress(userId, data.topicId, data.difficulty, data.solved);
+        await runAfterCommit(() => syncUserScore(userId));
+    });
+};
 
-    return {
-        _id: practiceLog._id.toString(),
-        userId: practiceLog.userId,
-        topicId: practiceLog.topicId,
-        topicName: topic.name,
-        questionTitle: practiceLog.questionTitle,
-        questionUrl: practiceLog.questionUrl,
-        difficulty: practiceLog.difficulty,
-        timeSpentMinutes: practiceLog.timeSpentMinutes,
-        solved: practiceLog.solved,
-        notes: practiceLog.notes,
-        practicedAt: practiceLog.practicedAt,
-        createdAt: practiceLog.createdAt,
-    };
+/**
+ * Points a log is currently worth to the user
+ * Logs created before pointsAwarded existed fall back to the difficulty table
+ */
+const getLogPoints = (log: IPracticeLog): number => {
+    if (log.pointsAwarded !== undefined) return log.pointsAwarded;
+    return log.solved ? LEGACY_PRACTICE_POINTS[log.difficulty as 'Easy' | 'Medium' | 'Hard'] || 0 : 0;
 };
 
 /**
  * Update user's practice streak
+ * Days are counted in the user's time zone
+ * 
+ * Exactly one missed day is covered by a streak freeze if the user holds one;
+ * every 7th consecutive day earns a freeze (see streak.service.ts).
+ * Reaching a STREAK_MILESTONES length publishes StreakMilestone.
  */
 const updateUserStreak = async (userId: string): Promise<void> => {
     const { User } = await import('../models/User');
     const user = await User.findById(userId);
     if (!user) return;
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const timezone = user.timezone || DEFAULT_TIMEZONE;
+    const now = new Date();
+    const today = startOfDay(now, timezone);
 
     const lastPractice = user.gamification?.lastPracticeDate;
 
@@ -185,26 +349,41 @@ const updateUserStreak = async (userId: string): Promise<void> => {
         return;
     }
 
-    const lastPracticeDate = new Date(lastPractice);
-    lastPracticeDate.setHours(0, 0, 0, 0);
+    const daysDiff = getDayNumber(now, timezone) - getDayNumber(new Date(lastPractice), timezone);
 
-    const daysDiff = Math.floor((today.getTime() - lastPracticeDate.getTime()) / (1000 * 60 * 60 * 24));
+    const freezes = user.gamification?.streakFreezes || 0;
+    const useFreeze = daysDiff === 2 && freezes > 0;
 
     if (daysDiff === 0) {
         // Already practiced today, no change
         return;
-    } else if (daysDiff === 1) {
-        // Consecutive day, increment streak
+    } else if (daysDiff === 1 || useFreeze) {
+        // Consecutive day (or one missed day covered by a freeze), increment streak
         const newStreak = (user.gamification?.currentStreak || 0) + 1;
         const longestStreak = Math.max(newStreak, user.gamification?.longestStreak || 0);
 
+        const freezesAfterUse = useFreeze ? freezes - 1 : freezes;
+        const earnedFreeze = newStreak % STREAK_FREEZE_EARN_INTERVAL === 0 && freezesAfterUse < MAX_STREAK_FREEZES;
+        const freezesLeft = freezesAfterUse + (earnedFreeze ? 1 : 0);
+        const frozenDay = addDays(today, -1, timezone);
+
         await User.findByIdAndUpdate(userId, {
             $set: {
                 'gamification.currentStreak': newStreak,
                 'gamification.longestStreak': longestStreak,
                 'gamification.lastPracticeDate': today,
+                'gamification.streakFreezes': freezesLeft,
             },
+            ...(useFreeze && { $push: { 'gamification.frozenDays': frozenDay } }),
         });
+
+        if (useFreeze) {
+            await eventBus.publish('StreakFreezeUsed', { userId, frozenDay, streak: newStreak, freezesLeft });
+        }
+
+        if (STREAK_MILESTONES.includes(newStreak)) {
+            await eventBus.publish('StreakMilestone', { userId, streak: newStreak });
+        }
     } else {
         // Streak broken, reset to 1
         await User.findByIdAndUpdate(userId, {
@@ -213,9 +392,281 @@ const updateUserStreak = async (userId: string): Promise<void> => {
                 'gamification.lastPracticeDate': today,
             },
         });
+
+        // A 1-day "streak" isn't worth announcing
+        const previousStreak = user.gamification?.currentStreak || 0;
+        if (previousStreak > 1) {
+            await eventBus.publish('StreakBroken', { userId, previousStreak });
+        }
     }
 };
 
+/**
+ * Recalculate user's streak from their full practice history
+ * 
+ * Used when logs are added out of order (e.g., bulk import of old solves)
+ * or edited/deleted, where the incremental updateUserStreak would get it wrong.
+ * 
+ * - longestStreak: longest run of consecutive practice days (never lowered)
+ * - currentStreak: run ending on the last practice day, 0 if that day
+ *   is before yesterday
+ * 
+ * Days already covered by a streak freeze bridge the gap (no new freezes
+ * are used here). Days are counted in the user's time zone.
+ */
+export const recalculateUserStreak = async (userId: string): Promise<void> => {
+    const { User } = await import('../models/User');
+    const user = await User.findById(userId);
+    if (!user) return;
+
+    const logs = await PracticeLog.find({ userId }).select('practicedAt');
+    if (logs.length === 0) {
+        // Every log deleted: no current streak (longest is history, keep it)
+        await User.findByIdAndUpdate(userId, {
+            $set: { 'gamification.currentStreak': 0 },
+            $unset: { 'gamification.lastPracticeDate': '' },
+        });
+        return;
+    }
+
+    const timezone = user.timezone || DEFAULT_TIMEZONE;
+
+    // Distinct local practice days, oldest first
+    const days = [...new Set(logs.map((log) => getDayNumber(log.practicedAt, timezone)))]
+        .sort((a, b) => a - b);
+
+    // A gap keeps the run going if every missed day in it was frozen
+    const frozenDays = new Set(
+        (user.gamification?.frozenDays || []).map((day) => getDayNumber(day, timezone))
+    );
+    const isBridged = (from: number, to: number): boolean => {
+        for (let day = from + 1; day < to; day++) {
+            if (!frozenDays.has(day)) return false;
+        }
+        return true;
+    };
+
+    let longestStreak = 1;
+    let run = 1;
+    for (let i = 1; i < days.length; i++) {
+        run = isBridged(days[i - 1], days[i]) ? run + 1 : 1;
+        longestStreak = Math.max(longestStreak, run);
+    }
+
+    const today = getDayNumber(new Date(), timezone);
+
+    // Start of the most recent local practice day
+    const latestPracticedAt = logs.reduce(
+        (latest, log) => (log.practicedAt > latest ? log.practicedAt : latest),
+        logs[0].practicedAt
+    );
+
+    // Last practice today or yesterday (or the days since are frozen)
+    const currentStreak = isBridged(days[days.length - 1], today) ? run : 0;
+
+    await User.findByIdAndUpdate(userId, {
+        $set: {
+            'gamification.currentStreak': currentStreak,
+            'gamification.longestStreak': Math.max(longestStreak, user.gamification?.longestStreak || 0),
+            'gamification.lastPracticeDate': startOfDay(latestPracticedAt, timezone),
+        },
+    });
+
+    const previousStreak = user.gamification?.currentStreak || 0;
+    if (currentStreak === 0 && previousStreak > 1) {
+        await eventBus.publish('StreakBroken', { userId, previousStreak });
+    }
+};
+
+/**
+ * Update a practice log
+ * 
+ * Recalculates everything the log fed into:
+ * - Points: adjusted by the difference (never double-counted)
+ * - Streak: recomputed from history (practicedAt may have moved)
+ * - Topic progress: old and new topic
+ * - Daily challenge: recounted for the day the log was created
+ * - Badges: newly earned ones are awarded, earned ones are kept
+ * 
+ * The edited log is scored again; if it's flagged now, it's held and its
+ * points are taken back until a moderator approves it. Backdating is only
+ * checked when practicedAt moved, and against when the log was created.
+ * 
+ * Runs as one transaction: the edit and every recalculation commit together.
+ * 
+ * @param userId - User's MongoDB _id
+ * @param logId - Practice log's MongoDB _id
+ * @param data - Fields to change
+ * @returns Updated practice log
+ * @throws Error if log or topic not found
+ * @throws AppError 409 if the log is held for review
+ */
+export const updatePracticeLog = async (
+    userId: string,
+    logId: string,
+    data: UpdatePracticeLogDTO
+): Promise<PracticeLogResponse> => {
+    return withTransaction(async () => {
+        const practiceLog = await PracticeLog.findOne({ _id: logId, userId }).setOptions({ includeHeld: true });
+        if (!practiceLog) {
+            throw new Error('Practice log not found');
+        }
+        if (practiceLog.held) {
+            throw new AppError(409, 'LOG_UNDER_REVIEW', 'Practice log is held for review and cannot be edited');
+        }
+
+        const previousTopicId = practiceLog.topicId;
+        const previousPoints = getLogPoints(practiceLog);
+        const practicedAtChanged = data.practicedAt !== undefined
+            && data.practicedAt.getTime() !== practiceLog.practicedAt.getTime();
+
+        const topic = await Topic.findById(data.topicId || previousTopicId);
+        if (!topic) {
+            throw new Error('Topic not found');
+        }
+
+        // Re-link to the question bank if what identifies the question changed
+        const identityChanged = data.topicId !== undefined
+            || data.questionTitle !== undefined
+            || data.questionUrl !== undefined;
+
+        if (data.topicId !== undefined) practiceLog.topicId = data.topicId;
+        if (data.questionTitle !== undefined) practiceLog.questionTitle = data.questionTitle;
+        if (data.questionUrl !== undefined) practiceLog.questionUrl = data.questionUrl || undefined;
+        if (data.difficulty !== undefined) practiceLog.difficulty = data.difficulty;
+        if (data.timeSpentMinutes !== undefined) practiceLog.timeSpentMinutes = data.timeSpentMinutes;
+        if (data.solved !== undefined) practiceLog.solved = data.solved;
+        if (data.notes !== undefined) practiceLog.notes = data.notes;
+        if (data.practicedAt !== undefined) practiceLog.practicedAt = data.practicedAt;
+
+        if (identityChanged) {
+            const question = await findMatchingQuestion(
+                practiceLog.questionTitle,
+                practiceLog.questionUrl,
+                practiceLog.topicId
+            );
+            practiceLog.questionId = question?._id.toString();
+        }
+
+        const points = practiceLog.solved
+            ? calculateSolvePoints(
+                await getEconomy(),
+                practiceLog.difficulty as 'Easy' | 'Medium' | 'Hard',
+                await countPreviousSolves(userId, practiceLog.questionId, practiceLog.questionTitle, logId)
+            )
+            : 0;
+
+        const suspicion = await scorePracticeLog(userId, {
+            questionId: practiceLog.questionId,
+            questionTitle: practiceLog.questionTitle,
+            difficulty: practiceLog.difficulty as 'Easy' | 'Medium' | 'Hard',
+            timeSpentMinutes: practiceLog.timeSpentMinutes,
+            solved: practiceLog.solved,
+            practicedAt: practiceLog.practicedAt,
+        }, {
+            excludeLogId: logId,
+            loggedAt: practiceLog.createdAt,
+            skipBackdated: !practicedAtChanged,
+        });
+
+        if (suspicion.flagged) {
+            practiceLog.held = true;
+            practiceLog.review = {
+                status: 'pending',
+                score: suspicion.score,
+                reasons: suspicion.reasons,
+                heldPoints: points,
+            };
+            practiceLog.pointsAwarded = 0;
+        } else {
+            practiceLog.pointsAwarded = points;
+        }
+
+        await practiceLog.save();
+
+        await recalculateAfterLogChange(userId, practiceLog, practiceLog.pointsAwarded - previousPoints, 'edited', [
+            previousTopicId,
+            practiceLog.topicId,
+        ]);
+
+        // Badges are only ever added, never revoked
+        const badgeService = await import('./badge.service');
+        await badgeService.checkAndAwardBadges(userId);
+
+        return toPracticeLogResponse(practiceLog, topic.name);
+    });
+};
+
+/**
+ * Credit a held log once a moderator approves it (antiCheat.service.ts)
+ * 
+ * The log is already un-held; this pays out its held points and runs the
+ * same recalculation an edit does, so streak, progress, challenge and
+ * badges pick it up (in the approval's transaction, or its own).
+ */
+export const releaseHeldPracticeLog = async (practiceLog: IPracticeLog): Promise<void> => {
+    await withTransaction(async () => {
+        const heldPoints = practiceLog.review?.heldPoints || 0;
+        practiceLog.pointsAwarded = heldPoints;
+        await practiceLog.save();
+
+        await recalculateAfterLogChange(practiceLog.userId, practiceLog, heldPoints, 'approved', [practiceLog.topicId]);
+
+        const badgeService = await import('./badge.service');
+        await badgeService.checkAndAwardBadges(practiceLog.userId);
+    });
+};
+
+/**
+ * Delete a practice log
+ * 
+ * Reverses the log's points and recalculates streak, topic progress and
+ * the daily challenge. Badges already earned are kept. The delete and the
+ * recalculation run as one transaction.
+ * 
+ * @param userId - User's MongoDB _id
+ * @param logId - Practice log's MongoDB _id
+ * @throws Error if log not found
+ */
+export const deletePracticeLog = async (userId: string, logId: string): Promise<void> => {
+    await withTransaction(async () => {
+        const practiceLog = await PracticeLog.findOneAndDelete({ _id: logId, userId });
+        if (!practiceLog) {
+            throw new Error('Practice log not found');
+        }
+
+        await recalculateAfterLogChange(userId, practiceLog, -getLogPoints(practiceLog), 'deleted', [practiceLog.topicId]);
+    });
+};
+
+/**
+ * Shared downstream recalculation after a log is edited, deleted or approved
+ * Runs inside the caller's transaction, with the log change itself
+ */
+const recalculateAfterLogChange = async (
+    userId: string,
+    practiceLog: IPracticeLog,
+    pointsDelta: number,
+    change: 'edited' | 'deleted' | 'approved',
+    topicIds: string[]
+): Promise<void> => {
+    const challengeService = await import('./challenge.service');
+
+    await adjustUserPoints(userId, pointsDelta, {
+        source: 'practice',
+        referenceId: practiceLog._id.toString(),
+        description: `${practiceLog.questionTitle} (log ${change})`,
+    });
+    await recalculateUserStreak(userId);
+    await rebuildBadgeCounters(userId);
+
+    for (const topicId of new Set(topicIds)) {
+        await calculateTopicProgress(userId, topicId);
+    }
+
+    await challengeService.recountChallengeProgress(userId, practiceLog.createdAt);
+};
+
 /**
  * Get practice history for a user
  * 
@@ -236,7 +687,9 @@ export const getPracticeHistory = async (
     }
 
     // Fetch logs
+    // Held logs included: users see their own logs under review
     const logs = await PracticeLog.find(filter)
+        .setOptions({ includeHeld: true })
         .sort({ practicedAt: -1 }) // Newest first
         .limit(limit)
         .skip(skip);
@@ -246,20 +699,7 @@ export const getPracticeHistory = async (
     const topics = await Topic.find({ _id: { $in: topicIds } });
     const topicMap = new Map(topics.map((t) => [t._id.toString(), t.name]));
 
-    return logs.map((log) => ({
-        _id: log._id.toString(),
-        userId: log.userId,
-        topicId: log.topicId,
-        topicName: topicMap.get(log.topicId),
-        questionTitle: log.questionTitle,
-        questionUrl: log.questionUrl,
-        difficulty: log.difficulty,
-        timeSpentMinutes: log.timeSpentMinutes,
-        solved: log.solved,
-        notes: log.notes,
-        practicedAt: log.practicedAt,
-        createdAt: log.createdAt,
-    }));
+    return logs.map((log) => toPracticeLogResponse(log, topicMap.get(log.topicId)));
 };
 
 /**
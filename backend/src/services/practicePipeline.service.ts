@@ -0,0 +1,67 @@
+/**
+ * Practice Pipeline Service - PracticeLogged Subscribers
+ *
+ * Everything that reacts to a new practice log, in order:
+ * 1. progress   - update UserProgress incrementally (fresh numbers first)
+ * 2. badges     - bump badge counters, then check badges this log can affect
+ * 3. challenges - daily challenge counts
+ * 4. reviews    - queue failed or slow attempts for spaced repetition
+ *
+ * Each step is retried by the event bus. A retry switches to the step's
+ * idempotent variant (full recount instead of increment) so a step that
+ * failed halfway is never applied twice. A step that still fails is logged
+ * and skipped: the practice log itself is already saved.
+ *
+ * logPractice publishes in strict mode inside its transaction: there a
+ * failing step is not retried locally but aborts the whole log instead.
+ */
+
+import { eventBus } from './eventBus.service';
+import { applyPracticeLogToProgress, calculateTopicProgress } from './progress.service';
+import { checkAndAwardBadges } from './badge.service';
+import { applyLogToBadgeCounters, rebuildBadgeCounters } from './badgeCounter.service';
+import { updateChallengeProgress, recountChallengeProgress } from './challenge.service';
+import { scheduleReviewFromLog } from './review.service';
+
+const RETRIES = 2;
+
+/**
+ * Register the PracticeLogged pipeline on the event bus
+ * Called once at server startup
+ */
+export const registerPracticePipeline = (): void => {
+    eventBus.subscribe(
+        'PracticeLogged',
+        (log, { attempt }) =>
+            attempt === 1
+                ? applyPracticeLogToProgress(log.userId, log)
+                : calculateTopicProgress(log.userId, log.topicId),
+        { name: 'progress', retries: RETRIES }
+    );
+
+    eventBus.subscribe(
+        'PracticeLogged',
+        async (log, { attempt }) => {
+            await (attempt === 1
+                ? applyLogToBadgeCounters(log.userId, log)
+                : rebuildBadgeCounters(log.userId));
+            await checkAndAwardBadges(log.userId, log);
+        },
+        { name: 'badges', retries: RETRIES }
+    );
+
+    eventBus.subscribe(
+        'PracticeLogged',
+        (log, { attempt }) =>
+            attempt === 1
+                ? updateChallengeProgress(log.userId, log.topicId, log.difficulty, log.solved)
+                : recountChallengeProgress(log.userId, log.createdAt),
+        { name: 'challenges', retries: RETRIES }
+    );
+
+    eventBus.subscribe(
+        'PracticeLogged',
+        (log) => scheduleReviewFromLog(log.userId, log),
+        { name: 'reviews', retries: RETRIES }
+    );
+};
@@ -0,0 +1,201 @@
+/**
+ * Practice Session Service - Server-side Timer
+ *
+ * Handles practice session lifecycle:
+ * - Start a session (one open session per user)
+ * - Pause / resume (closes / opens wall-clock segments)
+ * - Finish: turn measured active time into PracticeLog entries
+ *
+ * Time spent comes from the server's clock, never from the client.
+ */
+
+import { PracticeSession, IPracticeSession } from '../models/PracticeSession';
+import { Topic } from '../models/Topic';
+import { logPractice } from './practice.service';
+import {
+    FinishSessionDTO,
+    PracticeSessionResponse,
+    FinishSessionResponse,
+    PracticeLogResponse,
+} from '../types/practice.types';
+
+/**
+ * Max minutes a single practice log can hold (PracticeLog limit)
+ */
+const MAX_LOG_MINUTES = 300;
+
+/**
+ * Active (non-paused) seconds of a session, up to now for a running segment
+ */
+const getActiveSeconds = (session: IPracticeSession, now: Date = new Date()): number => {
+    const totalMs = session.segments.reduce((sum, segment) => {
+        const end = segment.endedAt || now;
+        return sum + Math.max(0, end.getTime() - segment.startedAt.getTime());
+    }, 0);
+
+    return Math.floor(totalMs / 1000);
+};
+
+/**
+ * Convert a session to API response
+ */
+const toSessionResponse = (session: IPracticeSession, topicName?: string): PracticeSessionResponse => ({
+    _id: session._id.toString(),
+    topicId: session.topicId,
+    topicName,
+    status: session.status,
+    segments: session.segments.map((s) => ({ startedAt: s.startedAt, endedAt: s.endedAt })),
+    activeSeconds: getActiveSeconds(session),
+    startedAt: session.createdAt,
+    finishedAt: session.finishedAt,
+    practiceLogIds: session.practiceLogIds,
+});
+
+/**
+ * Find one of the user's sessions
+ * @throws Error if session not found
+ */
+const findUserSession = async (userId: string, sessionId: string): Promise<IPracticeSession> => {
+    const session = await PracticeSession.findOne({ _id: sessionId, userId });
+    if (!session) {
+        throw new Error('Practice session not found');
+    }
+    return session;
+};
+
+/**
+ * Start a practice session
+ *
+ * @throws Error if topic not found or the user already has an open session
+ */
+export const startSession = async (userId: string, topicId: string): Promise<PracticeSessionResponse> => {
+    const topic = await Topic.findById(topicId);
+    if (!topic) {
+        throw new Error('Topic not found');
+    }
+
+    const open = await PracticeSession.findOne({ userId, status: { $in: ['active', 'paused'] } });
+    if (open) {
+        throw new Error('An open practice session already exists');
+    }
+
+    const session = await PracticeSession.create({
+        userId,
+        topicId,
+        status: 'active',
+        segments: [{ startedAt: new Date() }],
+    });
+
+    return toSessionResponse(session, topic.name);
+};
+
+/**
+ * Get the user's open (active or paused) session, if any
+ * Lets the client pick up where it left off after a refresh
+ */
+export const getCurrentSession = async (userId: string): Promise<PracticeSessionResponse | null> => {
+    const session = await PracticeSession.findOne({ userId, status: { $in: ['active', 'paused'] } });
+    if (!session) return null;
+
+    const topic = await Topic.findById(session.topicId);
+    return toSessionResponse(session, topic?.name);
+};
+
+/**
+ * Pause a running session (closes the open segment)
+ *
+ * @throws Error if session not found or not running
+ */
+export const pauseSession = async (userId: string, sessionId: string): Promise<PracticeSessionResponse> => {
+    const session = await findUserSession(userId, sessionId);
+    if (session.status !== 'active') {
+        throw new Error('Invalid session state: only an active session can be paused');
+    }
+
+    session.segments[session.segments.length - 1].endedAt = new Date();
+    session.status = 'paused';
+    await session.save();
+
+    return toSessionResponse(session);
+};
+
+/**
+ * Resume a paused session (opens a new segment)
+ *
+ * @throws Error if session not found or not paused
+ */
+export const resumeSession = async (userId: string, sessionId: string): Promise<PracticeSessionResponse> => {
+    const session = await findUserSession(userId, sessionId);
+    if (session.status !== 'paused') {
+        throw new Error('Invalid session state: only a paused session can be resumed');
+    }
+
+    session.segments.push({ startedAt: new Date() });
+    session.status = 'active';
+    await session.save();
+
+    return toSessionResponse(session);
+};
+
+/**
+ * Finish a session
+ *
+ * Active time is split evenly across the questions (1-300 minutes each)
+ * and each question becomes a PracticeLog through the normal logPractice
+ * pipeline. Finishing with no questions discards the session.
+ *
+ * @throws Error if session not found or already finished
+ */
+export const finishSession = async (
+    userId: string,
+    sessionId: string,
+    data: FinishSessionDTO
+): Promise<FinishSessionResponse> => {
+    const session = await findUserSession(userId, sessionId);
+    if (session.status === 'finished') {
+        throw new Error('Invalid session state: session already finished');
+    }
+
+    const now = new Date();
+    const openSegment = session.segments[session.segments.length - 1];
+    if (openSegment && !openSegment.endedAt) {
+        openSegment.endedAt = now;
+    }
+
+    session.status = 'finished';
+    session.finishedAt = now;
+    await session.save();
+
+    // Split measured minutes across questions, spreading the remainder
+    const totalMinutes = Math.round(getActiveSeconds(session) / 60);
+    const count = data.questions.length;
+    const baseMinutes = count > 0 ? Math.floor(totalMinutes / count) : 0;
+    const remainder = count > 0 ? totalMinutes % count : 0;
+
+    const practiceLogs: PracticeLogResponse[] = [];
+    for (let i = 0; i < count; i++) {
+        const question = data.questions[i];
+        const minutes = baseMinutes + (i < remainder ? 1 : 0);
+
+        const practiceLog = await logPractice(userId, {
+            topicId: session.topicId,
+            questionTitle: question.questionTitle,
+            questionUrl: question.questionUrl,
+            difficulty: question.difficulty,
+            timeSpentMinutes: Math.min(MAX_LOG_MINUTES, Math.max(1, minutes)),
+            solved: question.solved,
+            notes: question.notes,
+        });
+        practiceLogs.push(practiceLog);
+    }
+
+    if (practiceLogs.length > 0) {
+        session.practiceLogIds = practiceLogs.map((log) => log._id);
+        await session.save();
+    }
+
+    return {
+        session: toSessionResponse(session, practiceLogs[0]?.topicName),
+        practiceLogs,
+    };
+};
@@ -13,9 +13,13 @@
  * - Denormalization: Storing calculated values for performance
  */
 
-import { PracticeLog } from '../models/PracticeLog';
+import { PracticeLog, IPracticeLog } from '../models/PracticeLog';
 import { Topic } from '../models/Topic';
 import { UserProgress } from '../models/UserProgress';
+import { getUserTimeZone } from './auth.service';
+import { syncTopicScore } from './leaderboard.service';
+import { addDays, getDayNumber } from '../utils/timezone';
+import { runAfterCommit } from '../utils/transaction';
 import {
     TopicProgressResponse,
     ProgressOverviewResponse,
@@ -56,6 +60,7 @@ export const calculateTopicProgress = async (
     // If no practice logs, delete progress record (user hasn't started)
     if (logs.length === 0) {
         await UserProgress.findOneAndDelete({ userId, topicId });
+        await runAfterCommit(() => syncTopicScore(userId, topicId, null));
         return;
     }
 
@@ -91,7 +96,7 @@ export const calculateTopicProgress = async (
     });
 
     // 7. Calculate consistency score (how regularly practiced in last 7 days)
-    const consistencyScore = calculateConsistencyScore(logs);
+    const consistencyScore = calculateConsistencyScore(logs, await getUserTimeZone(userId));
 
     // 8. Calculate difficulty bonus (reward for solving harder problems)
     const difficultyBonus = calculateDifficultyBonus(difficultyBreakdown);
@@ -127,36 +132,124 @@ export const calculateTopicProgress = async (
         },
         { upsert: true, new: true }
     );
+    await runAfterCommit(() => syncTopicScore(userId, topicId, strengthScore));
+};
+
+/**
+ * Apply ONE new practice log to the topic's progress record
+ * 
+ * Incremental version of calculateTopicProgress for the hot path
+ * (every practice log): counters are $inc'd atomically, derived scores
+ * are recomputed from the new counters. Only the consistency score reads
+ * logs (last 7 days of this topic).
+ * 
+ * Falls back to a full calculation when no progress record exists yet.
+ * NOT idempotent - callers retrying after a failure should use
+ * calculateTopicProgress instead.
+ * 
+ * @param userId - User's MongoDB _id
+ * @param log - The practice log that was just created
+ */
+export const applyPracticeLogToProgress = async (
+    userId: string,
+    log: Pick<IPracticeLog, 'topicId' | 'difficulty' | 'solved' | 'timeSpentMinutes' | 'practicedAt'>
+): Promise<void> => {
+    const existing = await UserProgress.exists({ userId, topicId: log.topicId });
+    if (!existing) {
+        await calculateTopicProgress(userId, log.topicId);
+        return;
+    }
+
+    const topic = await Topic.findById(log.topicId);
+    if (!topic) {
+        throw new Error('Topic not found');
+    }
+
+    // 1. Atomic counter update
+    const diff = log.difficulty.toLowerCase();
+    const solvedInc = log.solved ? 1 : 0;
+
+    const progress = await UserProgress.findOneAndUpdate(
+        { userId, topicId: log.topicId },
+        {
+            $inc: {
+                totalQuestionsAttempted: 1,
+                questionsSolved: solvedInc,
+                totalTimeMinutes: log.timeSpentMinutes,
+                [`difficultyBreakdown.${diff}.attempted`]: 1,
+                [`difficultyBreakdown.${diff}.solved`]: solvedInc,
+            },
+            $max: { lastPracticedAt: log.practicedAt },
+        },
+        { new: true }
+    );
+    if (!progress) return;
+
+    // 2. Recompute derived metrics from the new counters
+    const accuracyPercentage = Math.round((progress.questionsSolved / progress.totalQuestionsAttempted) * 100);
+    const avgTimePerQuestion = Math.round(progress.totalTimeMinutes / progress.totalQuestionsAttempted);
+    const completionPercentage = Math.round(
+        (progress.totalQuestionsAttempted / topic.recommendedQuestions) * 100
+    );
+
+    const timezone = await getUserTimeZone(userId);
+    const recentLogs = await PracticeLog.find({
+        userId,
+        topicId: log.topicId,
+        practicedAt: { $gte: addDays(new Date(), -6, timezone) },
+    }).select('practicedAt');
+
+    const consistencyScore = calculateConsistencyScore(recentLogs, timezone);
+    const difficultyBonus = calculateDifficultyBonus(progress.difficultyBreakdown);
+    const strengthScore = calculateStrengthScore(
+        accuracyPercentage,
+        completionPercentage,
+        consistencyScore,
+        difficultyBonus
+    );
+
+    await UserProgress.updateOne(
+        { _id: progress._id },
+        {
+            $set: {
+                accuracyPercentage,
+                avgTimePerQuestion,
+                recommendedQuestions: topic.recommendedQuestions,
+                completionPercentage,
+                consistencyScore,
+                strengthScore,
+            },
+        }
+    );
+    await runAfterCommit(() => syncTopicScore(userId, log.topicId, strengthScore));
 };
 
 /**
  * Calculate consistency score
  * 
  * Measures how regularly the user practices this topic.
- * Looks at last 7 days of practice.
+ * Looks at last 7 days of practice (today + 6 previous local days).
  * 
  * Formula: (unique days with practice in last 7 days / 7) * 100
  * 
  * @param logs - Practice logs sorted by date
+ * @param timezone - User's time zone (days are local calendar days)
  * @returns Consistency score (0-100)
  */
-const calculateConsistencyScore = (logs: any[]): number => {
+const calculateConsistencyScore = (logs: any[], timezone: string): number => {
     if (logs.length === 0) return 0;
 
-    // Get dates from last 7 days
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-    // Filter logs from last 7 days
-    const recentLogs = logs.filter((log) => new Date(log.practicedAt) >= sevenDaysAgo);
+    const today = getDayNumber(new Date(), timezone);
 
-    if (recentLogs.length === 0) return 0;
-
-    // Count unique days
+    // Local days practiced within the last 7 days
     const uniqueDays = new Set(
-        recentLogs.map((log) => new Date(log.practicedAt).toDateString())
+        logs
+            .map((log) => getDayNumber(new Date(log.practicedAt), timezone))
+            .filter((day) => today - day < 7)
     );
 
+    if (uniqueDays.size === 0) return 0;
+
     // Calculate score
     const score = (uniqueDays.size / 7) * 100;
     return Math.round(score);
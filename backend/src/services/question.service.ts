@@ -0,0 +1,358 @@
+/**
+ * Question Service - Business Logic Layer
+ *
+ * Handles the canonical question bank:
+ * - Admin CRUD for questions
+ * - Title/URL normalization
+ * - Fuzzy matching of free-text practice logs to canonical questions
+ */
+
+import { Question, IQuestion, QuestionPlatform } from '../models/Question';
+import { PracticeLog } from '../models/PracticeLog';
+import { Topic } from '../models/Topic';
+import {
+    CreateQuestionDTO,
+    UpdateQuestionDTO,
+    GetQuestionsQuery,
+    QuestionResponse,
+} from '../types/practice.types';
+
+/**
+ * Minimum bigram similarity (0-1) for a fuzzy title match
+ * 0.85 accepts typos like "Valid Parentheses" vs "Valid Parenthesis" (0.875)
+ * but rejects different problems like "Two Sum" vs "Two Sum II" (0.8)
+ */
+const FUZZY_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Known platforms by hostname
+ */
+const PLATFORM_HOSTS: Record<string, QuestionPlatform> = {
+    'leetcode.com': 'LeetCode',
+    'leetcode.cn': 'LeetCode',
+    'codeforces.com': 'Codeforces',
+    'geeksforgeeks.org': 'GeeksforGeeks',
+    'practice.geeksforgeeks.org': 'GeeksforGeeks',
+    'hackerrank.com': 'HackerRank',
+    'codechef.com': 'CodeChef',
+    'interviewbit.com': 'InterviewBit',
+};
+
+/**
+ * Normalize a question title for matching
+ *
+ * "1. Two Sum" → "two sum"
+ * "Two-Sum!"   → "two sum"
+ */
+export const normalizeQuestionTitle = (title: string): string => {
+    return title
+        .toLowerCase()
+        .replace(/^\s*\d+\s*[.):-]\s*/, '') // Strip leading problem numbers ("1. ")
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * PracticeLog filter for "the same question": the same question bank entry,
+ * or the same title ignoring case and surrounding spaces
+ */
+export const getSameQuestionFilter = (
+    questionId: string | undefined,
+    questionTitle: string
+): { $or: Record<string, unknown>[] } => {
+    const sameQuestion: Record<string, unknown>[] = [
+        { questionTitle: new RegExp(`^\\s*${escapeRegExp(questionTitle.trim())}\\s*$`, 'i') },
+    ];
+    if (questionId) {
+        sameQuestion.push({ questionId });
+    }
+    return { $or: sameQuestion };
+};
+
+/**
+ * Normalize a question URL to its canonical form
+ *
+ * "https://www.LeetCode.com/problems/two-sum/description/?envType=study" →
+ * "https://leetcode.com/problems/two-sum"
+ *
+ * @returns Canonical URL, or undefined if the URL cannot be parsed
+ */
+export const normalizeQuestionUrl = (url?: string): string | undefined => {
+    if (!url) return undefined;
+
+    try {
+        const parsed = new URL(url.trim());
+        const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+        let path = parsed.pathname.replace(/\/+$/, '');
+        // LeetCode appends tab names to the problem URL
+        if (host.startsWith('leetcode.')) {
+            path = path.replace(/\/(description|solutions|editorial|submissions)(\/.*)?$/, '');
+        }
+
+        return `https://${host}${path.toLowerCase()}`;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Detect the source platform from a URL
+ */
+export const detectPlatform = (url?: string): QuestionPlatform => {
+    const canonicalUrl = normalizeQuestionUrl(url);
+    if (!canonicalUrl) return 'Other';
+
+    const host = new URL(canonicalUrl).hostname;
+    return PLATFORM_HOSTS[host] || 'Other';
+};
+
+/**
+ * Dice coefficient over character bigrams (0 = nothing shared, 1 = identical)
+ */
+const titleSimilarity = (a: string, b: string): number => {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.substring(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.substring(i, i + 2);
+        const count = bigrams.get(bigram) || 0;
+        if (count > 0) {
+            bigrams.set(bigram, count - 1);
+            overlap++;
+        }
+    }
+
+    return (2 * overlap) / (a.length + b.length - 2);
+};
+
+/**
+ * Find the canonical question for a practice log
+ *
+ * Matching order:
+ * 1. Exact canonical URL
+ * 2. Exact normalized title (preferring questions linked to the topic)
+ * 3. Fuzzy title match among the topic's questions
+ *
+ * @returns Matching question, or null if nothing is close enough
+ */
+export const findMatchingQuestion = async (
+    questionTitle: string,
+    questionUrl?: string,
+    topicId?: string
+): Promise<IQuestion | null> => {
+    // 1. URL match
+    const canonicalUrl = normalizeQuestionUrl(questionUrl);
+    if (canonicalUrl) {
+        const byUrl = await Question.findOne({ canonicalUrl });
+        if (byUrl) return byUrl;
+    }
+
+    // 2. Exact normalized title
+    const normalizedTitle = normalizeQuestionTitle(questionTitle);
+    if (!normalizedTitle) return null;
+
+    const byTitle = await Question.find({ normalizedTitle });
+    if (byTitle.length > 0) {
+        return byTitle.find((q) => topicId && q.topicIds.includes(topicId)) || byTitle[0];
+    }
+
+    // 3. Fuzzy title within the topic
+    if (!topicId) return null;
+
+    const candidates = await Question.find({ topicIds: topicId });
+
+    let bestMatch: IQuestion | null = null;
+    let bestScore = FUZZY_MATCH_THRESHOLD;
+
+    for (const candidate of candidates) {
+        const score = titleSimilarity(normalizedTitle, candidate.normalizedTitle);
+        if (score >= bestScore) {
+            bestScore = score;
+            bestMatch = candidate;
+        }
+    }
+
+    return bestMatch;
+};
+
+/**
+ * Convert a question document to API response
+ */
+const toQuestionResponse = (question: IQuestion): QuestionResponse => ({
+    _id: question._id.toString(),
+    title: question.title,
+    canonicalUrl: question.canonicalUrl,
+    platform: question.platform,
+    topicIds: question.topicIds,
+    difficulty: question.difficulty,
+    tags: question.tags,
+    createdAt: question.createdAt,
+    updatedAt: question.updatedAt,
+});
+
+/**
+ * Verify that every topic ID exists
+ */
+const assertTopicsExist = async (topicIds: string[]): Promise<void> => {
+    if (topicIds.length === 0) return;
+
+    const count = await Topic.countDocuments({ _id: { $in: topicIds } });
+    if (count !== new Set(topicIds).size) {
+        throw new Error('Topic not found');
+    }
+};
+
+/**
+ * Create a question (admin)
+ *
+ * @throws Error if a question with the same URL already exists
+ */
+export const createQuestion = async (data: CreateQuestionDTO): Promise<QuestionResponse> => {
+    const canonicalUrl = normalizeQuestionUrl(data.url);
+
+    if (canonicalUrl) {
+        const existing = await Question.findOne({ canonicalUrl });
+        if (existing) {
+            throw new Error('Question with this URL already exists');
+        }
+    }
+
+    const topicIds = data.topicIds || [];
+    await assertTopicsExist(topicIds);
+
+    const question = await Question.create({
+        title: data.title,
+        normalizedTitle: normalizeQuestionTitle(data.title),
+        canonicalUrl,
+        platform: data.platform || detectPlatform(data.url),
+        topicIds,
+        difficulty: data.difficulty,
+        tags: data.tags || [],
+    });
+
+    return toQuestionResponse(question);
+};
+
+/**
+ * List questions with filters (admin)
+ */
+export const getQuestions = async (
+    query: GetQuestionsQuery
+): Promise<{ questions: QuestionResponse[]; total: number }> => {
+    const { search, topicId, platform, difficulty, limit = 20, skip = 0 } = query;
+
+    const filter: any = {};
+    if (search) filter.normalizedTitle = { $regex: normalizeQuestionTitle(search).replace(/ /g, '.*') };
+    if (topicId) filter.topicIds = topicId;
+    if (platform) filter.platform = platform;
+    if (difficulty) filter.difficulty = difficulty;
+
+    const [questions, total] = await Promise.all([
+        Question.find(filter).sort({ title: 1 }).skip(skip).limit(limit),
+        Question.countDocuments(filter),
+    ]);
+
+    return {
+        questions: questions.map(toQuestionResponse),
+        total,
+    };
+};
+
+/**
+ * Get question by ID with cross-user stats
+ *
+ * @throws Error if question not found
+ */
+export const getQuestionById = async (
+    questionId: string
+): Promise<QuestionResponse & { stats: { attempts: number; solves: number; uniqueUsers: number } }> => {
+    const question = await Question.findById(questionId);
+    if (!question) {
+        throw new Error('Question not found');
+    }
+
+    const [attempts, solves, users] = await Promise.all([
+        PracticeLog.countDocuments({ questionId }),
+        PracticeLog.countDocuments({ questionId, solved: true }),
+        PracticeLog.distinct('userId', { questionId }),
+    ]);
+
+    return {
+        ...toQuestionResponse(question),
+        stats: {
+            attempts,
+            solves,
+            uniqueUsers: users.length,
+        },
+    };
+};
+
+/**
+ * Update a question (admin)
+ *
+ * @throws Error if question not found or new URL is taken
+ */
+export const updateQuestion = async (
+    questionId: string,
+    data: UpdateQuestionDTO
+): Promise<QuestionResponse> => {
+    const question = await Question.findById(questionId);
+    if (!question) {
+        throw new Error('Question not found');
+    }
+
+    if (data.url !== undefined) {
+        const canonicalUrl = normalizeQuestionUrl(data.url);
+        if (canonicalUrl && canonicalUrl !== question.canonicalUrl) {
+            const existing = await Question.findOne({ canonicalUrl });
+            if (existing) {
+                throw new Error('Question with this URL already exists');
+            }
+        }
+        question.canonicalUrl = canonicalUrl;
+        if (!data.platform) question.platform = detectPlatform(data.url);
+    }
+
+    if (data.topicIds) {
+        await assertTopicsExist(data.topicIds);
+        question.topicIds = data.topicIds;
+    }
+
+    if (data.title) {
+        question.title = data.title;
+        question.normalizedTitle = normalizeQuestionTitle(data.title);
+    }
+    if (data.platform) question.platform = data.platform as QuestionPlatform;
+    if (data.difficulty) question.difficulty = data.difficulty;
+    if (data.tags) question.tags = data.tags;
+
+    await question.save();
+
+    return toQuestionResponse(question);
+};
+
+/**
+ * Delete a question (admin)
+ *
+ * Practice logs keep their free-text title/URL; only the link is removed.
+ *
+ * @throws Error if question not found
+ */
+export const deleteQuestion = async (questionId: string): Promise<void> => {
+    const question = await Question.findByIdAndDelete(questionId);
+    if (!question) {
+        throw new Error('Question not found');
+    }
+
+    await PracticeLog.updateMany({ questionId }, { $unset: { questionId: 1 } });
+};
@@ -9,8 +9,14 @@ import Recommendation, { IRecommendedTopic, IStudyPlanItem } from '../models/Rec
 import { UserProgress } from '../models/UserProgress';
 import { PracticeLog } from '../models/PracticeLog';
 import { Topic } from '../models/Topic';
+import { createNotifications } from './notification.service';
 import mongoose from 'mongoose';
 
+/**
+ * Users are reminded this long before their recommendations expire
+ */
+const EXPIRY_NOTICE_HOURS = 24;
+
 export class RecommendationService {
     /**
      * Generate personalized recommendations for a user
@@ -91,6 +97,42 @@ export class RecommendationService {
         return recommendation;
     }
 
+    /**
+     * Notify users whose active recommendations expire within EXPIRY_NOTICE_HOURS
+     * Called by cron job every hour; each recommendation is announced once
+     *
+     * @returns Number of notifications recorded
+     */
+    static async notifyExpiringRecommendations(): Promise<number> {
+        const noticeBefore = new Date();
+        noticeBefore.setHours(noticeBefore.getHours() + EXPIRY_NOTICE_HOURS);
+
+        // $and: the find hook adds its own expiresAt condition (not yet expired)
+        const expiring = await Recommendation.find({
+            isActive: true,
+            expiryNotifiedAt: null,
+            $and: [{ expiresAt: { $lte: noticeBefore } }],
+        }).select('userId');
+        if (expiring.length === 0) return 0;
+
+        const recorded = await createNotifications(
+            expiring.map((recommendation) => ({
+                userId: recommendation.userId.toString(),
+                type: 'recommendation_expiring' as const,
+                title: 'Your study plan expires soon',
+                message: 'Your recommendations refresh within a day. Finish the suggested topics first!',
+                link: '/recommendations',
+            }))
+        );
+
+        await Recommendation.updateMany(
+            { _id: { $in: expiring.map((recommendation) => recommendation._id) } },
+            { $set: { expiryNotifiedAt: new Date() } }
+        );
+
+        return recorded;
+    }
+
     /**
      * Identify weak areas based on accuracy and consistency
      */
@@ -0,0 +1,65 @@
+import { applySm2 } from './review.service';
+import { IReviewItem } from '../models/ReviewItem';
+
+jest.mock('../models/Topic', () => ({ Topic: {} }));
+jest.mock('../models/PracticeLog', () => ({ PracticeLog: {} }));
+jest.mock('./practice.service', () => ({ logPractice: jest.fn() }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reviewedAt = new Date('2024-05-15T10:00:00Z');
+
+const newItem = (): IReviewItem =>
+    ({ easeFactor: 2.5, intervalDays: 0, repetitions: 0, status: 'active' }) as IReviewItem;
+
+describe('applySm2', () => {
+    it('grows the interval 1 day, 6 days, then by the ease factor', () => {
+        const item = newItem();
+
+        applySm2(item, 4, reviewedAt);
+        expect(item).toMatchObject({ repetitions: 1, intervalDays: 1, easeFactor: 2.5 });
+
+        applySm2(item, 4, reviewedAt);
+        expect(item).toMatchObject({ repetitions: 2, intervalDays: 6 });
+
+        applySm2(item, 4, reviewedAt);
+        expect(item).toMatchObject({ repetitions: 3, intervalDays: 15 });
+        expect(item.dueAt).toEqual(new Date(reviewedAt.getTime() + 15 * DAY_MS));
+    });
+
+    it('raises the ease factor for easy recalls and lowers it for hard ones', () => {
+        const easy = newItem();
+        applySm2(easy, 5, reviewedAt);
+        expect(easy.easeFactor).toBe(2.6);
+
+        const hard = newItem();
+        applySm2(hard, 3, reviewedAt);
+        expect(hard.easeFactor).toBe(2.36);
+    });
+
+    it('restarts the item on a failed recall', () => {
+        const item = { ...newItem(), repetitions: 4, intervalDays: 30 } as IReviewItem;
+
+        applySm2(item, 2, reviewedAt);
+
+        expect(item).toMatchObject({ repetitions: 0, intervalDays: 1, lastGrade: 2, status: 'active' });
+        expect(item.dueAt).toEqual(new Date(reviewedAt.getTime() + DAY_MS));
+    });
+
+    it('never lets the ease factor drop below 1.3', () => {
+        const item = { ...newItem(), easeFactor: 1.35 } as IReviewItem;
+
+        applySm2(item, 0, reviewedAt);
+
+        expect(item.easeFactor).toBe(1.3);
+    });
+
+    it('graduates items once the interval reaches 60 days', () => {
+        const item = { ...newItem(), repetitions: 3, intervalDays: 25 } as IReviewItem;
+
+        applySm2(item, 5, reviewedAt);
+
+        expect(item.intervalDays).toBe(63);
+        expect(item.status).toBe('graduated');
+    });
+});
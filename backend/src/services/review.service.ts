@@ -0,0 +1,212 @@
+/**
+ * Review Service - Spaced Repetition (SM-2)
+ *
+ * Handles the review queue:
+ * - Queue failed or slow attempts for review
+ * - List reviews due now
+ * - Grade a review (logs practice + reschedules with SM-2)
+ *
+ * SM-2 in one paragraph:
+ * Each review is graded 0-5. A grade below 3 restarts the item (review tomorrow).
+ * Otherwise the interval grows 1 day → 6 days → previous interval × ease factor,
+ * and the ease factor rises for easy recalls and falls for hard ones (min 1.3).
+ */
+
+import { ReviewItem, IReviewItem } from '../models/ReviewItem';
+import { Topic } from '../models/Topic';
+import { normalizeQuestionTitle } from './question.service';
+import { logPractice } from './practice.service';
+import {
+    GradeReviewDTO,
+    ReviewItemResponse,
+    DueReviewsResponse,
+    GradeReviewResponse,
+} from '../types/practice.types';
+import { PracticeLoggedEvent } from '../types/events.types';
+
+/**
+ * A solve slower than this (minutes) is "shaky" and gets queued for review
+ */
+export const SLOW_SOLVE_MINUTES: Record<string, number> = {
+    Easy: 20,
+    Medium: 40,
+    Hard: 60,
+};
+
+/**
+ * Items whose interval reaches this many days leave the queue
+ */
+const GRADUATION_INTERVAL_DAYS = 60;
+
+const MIN_EASE_FACTOR = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Apply one SM-2 step to a review item (mutates the item)
+ */
+export const applySm2 = (item: IReviewItem, grade: number, reviewedAt: Date): void => {
+    if (grade < 3) {
+        item.repetitions = 0;
+        item.intervalDays = 1;
+    } else {
+        item.repetitions += 1;
+        if (item.repetitions === 1) {
+            item.intervalDays = 1;
+        } else if (item.repetitions === 2) {
+            item.intervalDays = 6;
+        } else {
+            item.intervalDays = Math.round(item.intervalDays * item.easeFactor);
+        }
+    }
+
+    const ease = item.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+    item.easeFactor = Math.max(MIN_EASE_FACTOR, Math.round(ease * 100) / 100);
+
+    item.dueAt = new Date(reviewedAt.getTime() + item.intervalDays * DAY_MS);
+    item.lastGrade = grade;
+    item.lastReviewedAt = reviewedAt;
+    item.status = item.intervalDays >= GRADUATION_INTERVAL_DAYS ? 'graduated' : 'active';
+};
+
+/**
+ * Convert a review item to API response
+ */
+const toReviewItemResponse = (item: IReviewItem, topicName?: string): ReviewItemResponse => ({
+    _id: item._id.toString(),
+    topicId: item.topicId,
+    topicName,
+    questionId: item.questionId,
+    questionTitle: item.questionTitle,
+    questionUrl: item.questionUrl,
+    difficulty: item.difficulty,
+    reason: item.reason,
+    status: item.status,
+    easeFactor: item.easeFactor,
+    intervalDays: item.intervalDays,
+    repetitions: item.repetitions,
+    dueAt: item.dueAt,
+    lastGrade: item.lastGrade,
+    lastReviewedAt: item.lastReviewedAt,
+});
+
+/**
+ * Queue a practice attempt for review if it was failed or slow
+ * Called after each practice log (PracticeLogged subscriber)
+ *
+ * - New question: create item due tomorrow
+ * - Graduated item: bring it back into the queue from scratch
+ * - Active item: make sure it is due no later than tomorrow
+ */
+export const scheduleReviewFromLog = async (userId: string, log: PracticeLoggedEvent): Promise<void> => {
+    const isSlow = log.solved && log.timeSpentMinutes > (SLOW_SOLVE_MINUTES[log.difficulty] || Infinity);
+    if (log.solved && !isSlow) return;
+
+    const questionKey = log.questionId || normalizeQuestionTitle(log.questionTitle);
+    if (!questionKey) return;
+
+    const tomorrow = new Date(Date.now() + DAY_MS);
+    const reason = log.solved ? 'slow' : 'failed';
+    const existing = await ReviewItem.findOne({ userId, questionKey });
+
+    if (!existing) {
+        await ReviewItem.create({
+            userId,
+            topicId: log.topicId,
+            questionId: log.questionId,
+            questionKey,
+            questionTitle: log.questionTitle,
+            questionUrl: log.questionUrl,
+            difficulty: log.difficulty,
+            reason,
+            dueAt: tomorrow,
+            lastTimeSpentMinutes: log.timeSpentMinutes,
+            sourceLogId: log.practiceLogId,
+        });
+        return;
+    }
+
+    if (existing.status === 'graduated') {
+        existing.status = 'active';
+        existing.repetitions = 0;
+        existing.intervalDays = 0;
+        existing.reason = reason;
+        existing.sourceLogId = log.practiceLogId;
+    }
+
+    if (existing.dueAt > tomorrow) {
+        existing.dueAt = tomorrow;
+    }
+    existing.lastTimeSpentMinutes = log.timeSpentMinutes;
+
+    await existing.save();
+};
+
+/**
+ * Get reviews due now, oldest first
+ *
+ * @param userId - User's MongoDB _id
+ * @param limit - Max reviews to return
+ */
+export const getDueReviews = async (userId: string, limit: number = 20): Promise<DueReviewsResponse> => {
+    const filter = { userId, status: 'active', dueAt: { $lte: new Date() } };
+
+    const [items, total] = await Promise.all([
+        ReviewItem.find(filter).sort({ dueAt: 1 }).limit(limit),
+        ReviewItem.countDocuments(filter),
+    ]);
+
+    // Get topic names for each item
+    const topicIds = [...new Set(items.map((item) => item.topicId))];
+    const topics = await Topic.find({ _id: { $in: topicIds } });
+    const topicMap = new Map(topics.map((t) => [t._id.toString(), t.name]));
+
+    return {
+        total,
+        reviews: items.map((item) => toReviewItemResponse(item, topicMap.get(item.topicId))),
+    };
+};
+
+/**
+ * Grade a review
+ *
+ * The attempt goes through the normal logPractice pipeline (streak, points,
+ * progress, badges, challenges), then the item is rescheduled with SM-2.
+ *
+ * @throws Error if review item not found
+ */
+export const gradeReview = async (
+    userId: string,
+    reviewId: string,
+    data: GradeReviewDTO
+): Promise<GradeReviewResponse> => {
+    const item = await ReviewItem.findOne({ _id: reviewId, userId });
+    if (!item) {
+        throw new Error('Review item not found');
+    }
+
+    const practiceLog = await logPractice(userId, {
+        topicId: item.topicId,
+        questionTitle: item.questionTitle,
+        questionUrl: item.questionUrl,
+        difficulty: item.difficulty as 'Easy' | 'Medium' | 'Hard',
+        timeSpentMinutes: data.timeSpentMinutes || item.lastTimeSpentMinutes,
+        solved: data.grade >= 3,
+        notes: data.notes,
+    });
+
+    // Reload: logPractice may have touched the item while queueing the attempt
+    const reviewed = await ReviewItem.findById(item._id);
+    if (!reviewed) {
+        throw new Error('Review item not found');
+    }
+
+    applySm2(reviewed, data.grade, new Date());
+    reviewed.lastTimeSpentMinutes = practiceLog.timeSpentMinutes;
+    await reviewed.save();
+
+    return {
+        review: toReviewItemResponse(reviewed, practiceLog.topicName),
+        practiceLog,
+    };
+};
@@ -7,6 +7,7 @@
 import { User } from '../models/User';
 import { PracticeLog } from '../models/PracticeLog';
 import { ShareStatsResponse } from '../types/gamification.types';
+import { getEconomy, getLevelTitle } from './economy.service';
 
 /**
  * Get shareable stats for user
@@ -18,6 +19,7 @@ export const getShareableStats = async (userId: string): Promise<ShareStatsRespo
     // Get total questions and solved count
     const totalQuestions = await PracticeLog.countDocuments({ userId });
     const questionsSolved = await PracticeLog.countDocuments({ userId, solved: true });
+    const level = user.gamification?.level || 1;
 
     return {
         userName: user.fullName,
@@ -26,7 +28,8 @@ export const getShareableStats = async (userId: string): Promise<ShareStatsRespo
         currentStreak: user.gamification?.currentStreak || 0,
         longestStreak: user.gamification?.longestStreak || 0,
         badgesEarned: user.gamification?.badgesEarned || 0,
-        level: user.gamification?.level || 1,
+        level,
+        levelTitle: getLevelTitle(level, (await getEconomy()).levelTitles),
         totalPoints: user.gamification?.totalPoints || 0,
     };
 };
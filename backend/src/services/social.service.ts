@@ -0,0 +1,444 @@
+/**
+ * Social Service - Follows, Friends and the Activity Feed
+ *
+ * - Follows are one-way and need no approval (unless the followee turned
+ *   followers off)
+ * - Friendships are mutual: a request the other user accepts. Requesting
+ *   someone who already asked you accepts their request.
+ * - The activity feed lists what friends and followed users did (solved
+ *   questions, badges), recorded by the subscribers below
+ *
+ * Privacy settings (User.privacy) are checked when they apply: on follow,
+ * on friend request, and when a feed is read (so changing who sees your
+ * activity also hides what was recorded before).
+ *
+ * The friends leaderboard lives in leaderboard.service.ts (getFriendIds).
+ */
+
+import { eventBus } from './eventBus.service';
+import { createNotification } from './notification.service';
+import { Follow } from '../models/Follow';
+import { Friendship, IFriendship } from '../models/Friendship';
+import { Activity, IActivity } from '../models/Activity';
+import { Badge } from '../models/Badge';
+import { User } from '../models/User';
+import { IUser } from '../types/auth.types';
+import { AppError } from '../utils/errors';
+import {
+    ActivityType,
+    PrivacySettings,
+    SocialUserSummary,
+    FollowStatusResponse,
+    FollowListResponse,
+    FriendResponse,
+    FriendListResponse,
+    FriendRequestResponse,
+    FriendRequestListResponse,
+    ActivityResponse,
+    ActivityFeedResponse,
+} from '../types/social.types';
+
+const RETRIES = 2;
+
+/**
+ * A user's privacy settings (users from before privacy have the defaults)
+ */
+export const getPrivacySettings = (user: IUser): PrivacySettings => ({
+    allowFollowers: user.privacy?.allowFollowers ?? true,
+    allowFriendRequests: user.privacy?.allowFriendRequests ?? true,
+    activityVisibility: user.privacy?.activityVisibility || 'followers',
+});
+
+/**
+ * One document per pair of users, whoever asked first
+ */
+const getPairKey = (userId: string, otherId: string): string =>
+    [userId, otherId].sort().join(':');
+
+const toUserSummary = (user: IUser): SocialUserSummary => ({
+    userId: user._id.toString(),
+    userName: user.fullName,
+    college: user.college,
+    level: user.gamification?.level || 1,
+    currentStreak: user.gamification?.currentStreak || 0,
+});
+
+/**
+ * Users by ID, for building responses (one query)
+ */
+const getUserMap = async (userIds: string[]): Promise<Map<string, IUser>> => {
+    const users = await User.find({ _id: { $in: [...new Set(userIds)] } }).select('fullName college gamification');
+    return new Map(users.map((u) => [u._id.toString(), u]));
+};
+
+/**
+ * The other user of a target action, checked to exist and not be the caller
+ *
+ * @throws AppError 400 if the target is the caller
+ * @throws Error if the target doesn't exist
+ */
+const getTargetUser = async (userId: string, targetId: string, action: string): Promise<IUser> => {
+    if (userId === targetId) {
+        throw new AppError(400, 'INVALID_TARGET', `You cannot ${action} yourself`);
+    }
+
+    const target = await User.findById(targetId);
+    if (!target) {
+        throw new Error('User not found');
+    }
+    return target;
+};
+
+const getFollowStatus = async (followerId: string, followeeId: string): Promise<FollowStatusResponse> => ({
+    userId: followeeId,
+    following: (await Follow.exists({ followerId, followeeId })) !== null,
+    followers: await Follow.countDocuments({ followeeId }),
+});
+
+/**
+ * Follow a user (following twice is a no-op)
+ *
+ * @throws AppError 403 if the user doesn't accept followers
+ * @throws Error if the user doesn't exist
+ */
+export const followUser = async (followerId: string, followeeId: string): Promise<FollowStatusResponse> => {
+    const followee = await getTargetUser(followerId, followeeId, 'follow');
+    if (!getPrivacySettings(followee).allowFollowers) {
+        throw new AppError(403, 'FOLLOWS_DISABLED', 'This user does not accept followers');
+    }
+
+    const result = await Follow.updateOne(
+        { followerId, followeeId },
+        { $setOnInsert: { followerId, followeeId } },
+        { upsert: true }
+    );
+
+    if (result.upsertedCount > 0) {
+        const follower = await User.findById(followerId).select('fullName');
+        await createNotification(followeeId, {
+            type: 'new_follower',
+            title: `${follower?.fullName || 'Someone'} followed you`,
+            message: 'They will see your activity in their feed',
+            link: '/profile',
+        });
+    }
+
+    return getFollowStatus(followerId, followeeId);
+};
+
+/**
+ * Stop following a user (unfollowing someone not followed is a no-op)
+ */
+export const unfollowUser = async (followerId: string, followeeId: string): Promise<FollowStatusResponse> => {
+    await Follow.deleteOne({ followerId, followeeId });
+    return getFollowStatus(followerId, followeeId);
+};
+
+/**
+ * Users following a user, or followed by them (newest first)
+ */
+export const getFollows = async (
+    userId: string,
+    direction: 'followers' | 'following',
+    query: { limit: number; skip: number }
+): Promise<FollowListResponse> => {
+    const filter = direction === 'followers' ? { followeeId: userId } : { followerId: userId };
+
+    const follows = await Follow.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(query.skip)
+        .limit(query.limit);
+    const total = await Follow.countDocuments(filter);
+
+    const otherIds = follows.map((f) => (direction === 'followers' ? f.followerId : f.followeeId));
+    const userMap = await getUserMap(otherIds);
+
+    return {
+        users: otherIds.flatMap((id) => {
+            const user = userMap.get(id);
+            return user ? [toUserSummary(user)] : [];
+        }),
+        total,
+    };
+};
+
+/**
+ * IDs of a user's friends
+ */
+export const getFriendIds = async (userId: string): Promise<string[]> => {
+    const friendships = await Friendship.find({
+        status: 'accepted',
+        $or: [{ requesterId: userId }, { recipientId: userId }],
+    }).select('requesterId recipientId');
+
+    return friendships.map((f) => (f.requesterId === userId ? f.recipientId : f.requesterId));
+};
+
+/**
+ * A user's friends (most recent friendships first)
+ */
+export const getFriends = async (
+    userId: string,
+    query: { limit: number; skip: number }
+): Promise<FriendListResponse> => {
+    const filter = {
+        status: 'accepted',
+        $or: [{ requesterId: userId }, { recipientId: userId }],
+    };
+
+    const friendships = await Friendship.find(filter)
+        .sort({ acceptedAt: -1 })
+        .skip(query.skip)
+        .limit(query.limit);
+    const total = await Friendship.countDocuments(filter);
+
+    const otherId = (f: IFriendship) => (f.requesterId === userId ? f.recipientId : f.requesterId);
+    const userMap = await getUserMap(friendships.map(otherId));
+
+    return {
+        friends: friendships.flatMap((f): FriendResponse[] => {
+            const user = userMap.get(otherId(f));
+            return user ? [{ ...toUserSummary(user), friendsSince: f.acceptedAt || f.createdAt }] : [];
+        }),
+        total,
+    };
+};
+
+const toFriendRequestResponse = (
+    friendship: IFriendship,
+    userId: string,
+    other: IUser
+): FriendRequestResponse => ({
+    _id: friendship._id.toString(),
+    direction: friendship.recipientId === userId ? 'incoming' : 'outgoing',
+    user: toUserSummary(other),
+    status: friendship.status,
+    createdAt: friendship.createdAt,
+});
+
+/**
+ * Pending friend requests sent to and by a user (newest first)
+ */
+export const getFriendRequests = async (userId: string): Promise<FriendRequestListResponse> => {
+    const requests = await Friendship.find({
+        status: 'pending',
+        $or: [{ requesterId: userId }, { recipientId: userId }],
+    }).sort({ createdAt: -1 });
+
+    const otherId = (f: IFriendship) => (f.requesterId === userId ? f.recipientId : f.requesterId);
+    const userMap = await getUserMap(requests.map(otherId));
+
+    const responses = requests.flatMap((f) => {
+        const other = userMap.get(otherId(f));
+        return other ? [toFriendRequestResponse(f, userId, other)] : [];
+    });
+
+    return {
+        incoming: responses.filter((r) => r.direction === 'incoming'),
+        outgoing: responses.filter((r) => r.direction === 'outgoing'),
+    };
+};
+
+/**
+ * Mark a pending request accepted and tell the requester
+ */
+const acceptRequest = async (friendship: IFriendship): Promise<IFriendship> => {
+    friendship.status = 'accepted';
+    friendship.acceptedAt = new Date();
+    await friendship.save();
+
+    const recipient = await User.findById(friendship.recipientId).select('fullName');
+    await createNotification(friendship.requesterId, {
+        type: 'friend_accepted',
+        title: `${recipient?.fullName || 'Someone'} accepted your friend request`,
+        message: 'You can now see each other on your friends leaderboard',
+        link: '/leaderboard',
+    });
+
+    return friendship;
+};
+
+/**
+ * Send a friend request (accepts theirs if they already asked)
+ *
+ * @throws AppError 409 if already friends or already requested
+ * @throws AppError 403 if the user doesn't accept friend requests
+ * @throws Error if the user doesn't exist
+ */
+export const sendFriendRequest = async (userId: string, targetId: string): Promise<FriendRequestResponse> => {
+    const target = await getTargetUser(userId, targetId, 'befriend');
+
+    const existing = await Friendship.findOne({ pairKey: getPairKey(userId, targetId) });
+    if (existing?.status === 'accepted') {
+        throw new AppError(409, 'ALREADY_FRIENDS', 'You are already friends');
+    }
+    if (existing?.requesterId === userId) {
+        throw new AppError(409, 'REQUEST_ALREADY_SENT', 'Friend request already sent');
+    }
+    if (existing) {
+        return toFriendRequestResponse(await acceptRequest(existing), userId, target);
+    }
+
+    if (!getPrivacySettings(target).allowFriendRequests) {
+        throw new AppError(403, 'FRIEND_REQUESTS_DISABLED', 'This user does not accept friend requests');
+    }
+
+    const friendship = await Friendship.create({
+        requesterId: userId,
+        recipientId: targetId,
+        pairKey: getPairKey(userId, targetId),
+    });
+
+    const requester = await User.findById(userId).select('fullName');
+    await createNotification(targetId, {
+        type: 'friend_request',
+        title: `${requester?.fullName || 'Someone'} sent you a friend request`,
+        message: 'Accept it to compare progress on your friends leaderboard',
+        link: '/profile',
+    });
+
+    return toFriendRequestResponse(friendship, userId, target);
+};
+
+/**
+ * Accept a friend request sent to the user
+ *
+ * @throws Error if there is no such pending request
+ */
+export const acceptFriendRequest = async (userId: string, requestId: string): Promise<FriendRequestResponse> => {
+    const friendship = await Friendship.findOne({ _id: requestId, recipientId: userId, status: 'pending' });
+    if (!friendship) {
+        throw new Error('Friend request not found');
+    }
+
+    const requester = await User.findById(friendship.requesterId);
+    if (!requester) {
+        throw new Error('User not found');
+    }
+
+    return toFriendRequestResponse(await acceptRequest(friendship), userId, requester);
+};
+
+/**
+ * Decline a request sent to the user, or cancel one they sent
+ *
+ * @throws Error if there is no such pending request
+ */
+export const deleteFriendRequest = async (userId: string, requestId: string): Promise<void> => {
+    const result = await Friendship.deleteOne({
+        _id: requestId,
+        status: 'pending',
+        $or: [{ requesterId: userId }, { recipientId: userId }],
+    });
+    if (result.deletedCount === 0) {
+        throw new Error('Friend request not found');
+    }
+};
+
+/**
+ * End a friendship (either side can)
+ *
+ * @throws Error if the users aren't friends
+ */
+export const removeFriend = async (userId: string, friendId: string): Promise<void> => {
+    const result = await Friendship.deleteOne({ pairKey: getPairKey(userId, friendId), status: 'accepted' });
+    if (result.deletedCount === 0) {
+        throw new Error('Friend not found');
+    }
+};
+
+/**
+ * Users whose activity a user may see: friends (unless their activity is
+ * hidden from everyone) and followed users sharing with followers
+ */
+const getVisibleActorIds = async (userId: string): Promise<string[]> => {
+    const friendIds = new Set(await getFriendIds(userId));
+    const followeeIds: string[] = await Follow.find({ followerId: userId }).distinct('followeeId');
+
+    const candidates = await User.find({ _id: { $in: [...new Set([...friendIds, ...followeeIds])] } }).select('privacy');
+
+    return candidates
+        .filter((user) => {
+            const { activityVisibility } = getPrivacySettings(user);
+            if (activityVisibility === 'nobody') return false;
+            return activityVisibility === 'followers' || friendIds.has(user._id.toString());
+        })
+        .map((user) => user._id.toString());
+};
+
+/**
+ * Activity of friends and followed users (newest first)
+ */
+export const getActivityFeed = async (
+    userId: string,
+    query: { limit: number; skip: number }
+): Promise<ActivityFeedResponse> => {
+    const actorIds = await getVisibleActorIds(userId);
+    if (actorIds.length === 0) {
+        return { activities: [], total: 0 };
+    }
+
+    const filter = { userId: { $in: actorIds } };
+    const activities = await Activity.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(query.skip)
+        .limit(query.limit);
+    const total = await Activity.countDocuments(filter);
+
+    const userMap = await getUserMap(activities.map((a) => a.userId));
+
+    return {
+        activities: activities.map((activity: IActivity): ActivityResponse => ({
+            _id: activity._id.toString(),
+            userId: activity.userId,
+            userName: userMap.get(activity.userId)?.fullName || 'Unknown',
+            type: activity.type,
+            title: activity.title,
+            description: activity.description,
+            createdAt: activity.createdAt,
+        })),
+        total,
+    };
+};
+
+const recordActivity = async (
+    userId: string,
+    fields: { type: ActivityType; title: string; description: string }
+): Promise<void> => {
+    await Activity.create({ userId, ...fields });
+};
+
+/**
+ * Register activity feed subscribers on the event bus
+ * Called once at server startup
+ */
+export const registerSocialSubscribers = (): void => {
+    eventBus.subscribe(
+        'PracticeLogged',
+        async ({ userId, questionTitle, difficulty, timeSpentMinutes, solved }) => {
+            if (!solved) return;
+
+            await recordActivity(userId, {
+                type: 'practice_solved',
+                title: `Solved ${questionTitle}`,
+                description: `${difficulty} · ${timeSpentMinutes} min`,
+            });
+        },
+        { name: 'social', retries: RETRIES }
+    );
+
+    eventBus.subscribe(
+        'BadgeAwarded',
+        async ({ userId, badgeId, tier }) => {
+            const badge = await Badge.findOne({ badgeId });
+            if (!badge) return;
+
+            await recordActivity(userId, {
+                type: 'badge_earned',
+                title: tier ? `Reached ${tier} on ${badge.name}` : `Earned ${badge.name}`,
+                description: badge.description,
+            });
+        },
+        { name: 'social', retries: RETRIES }
+    );
+};
@@ -7,13 +7,21 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
+import { isValidObjectId } from 'mongoose';
 import { StudyRoomService } from './studyRoom.service';
+import { eventBus } from './eventBus.service';
+import { getMissedAchievements, createAchievementCursor } from './achievement.service';
 
 interface AuthenticatedSocket extends Socket {
     userId?: string;
     userName?: string;
 }
 
+/**
+ * Personal room every authenticated socket joins (one per user, all tabs)
+ */
+const userRoom = (userId: string): string => `user:${userId}`;
+
 export class SocketService {
     private io: SocketIOServer;
 
@@ -27,6 +35,7 @@ export class SocketService {
 
         this.setupMiddleware();
         this.setupEventHandlers();
+        this.setupAchievementPush();
     }
 
     /**
@@ -59,6 +68,9 @@ export class SocketService {
         this.io.on('connection', (socket: AuthenticatedSocket) => {
             console.log(`✅ User connected: ${socket.userId}`);
 
+            socket.join(userRoom(socket.userId!));
+            this.replayAchievements(socket);
+
             // Join study room
             socket.on('join-room', async (roomId: string, password?: string) => {
                 try {
@@ -133,6 +145,39 @@ export class SocketService {
         });
     }
 
+    /**
+     * Push committed achievements to the user's room
+     * Broadcast scope: the user may be connected to another instance
+     */
+    private setupAchievementPush() {
+        eventBus.subscribe(
+            'AchievementRecorded',
+            ({ userId, achievement }) => this.emitToUser(userId, 'achievement', achievement),
+            { name: 'socket-achievements', scope: 'broadcast' }
+        );
+    }
+
+    /**
+     * Resend achievements recorded after the client's cursor
+     * (handshake auth.lastAchievementId); clients without one get a cursor
+     */
+    private async replayAchievements(socket: AuthenticatedSocket) {
+        const lastSeenId = socket.handshake.auth.lastAchievementId;
+        if (typeof lastSeenId !== 'string' || !isValidObjectId(lastSeenId)) {
+            socket.emit('achievement-cursor', createAchievementCursor());
+            return;
+        }
+
+        try {
+            const missed = await getMissedAchievements(socket.userId!, lastSeenId);
+            for (const achievement of missed) {
+                socket.emit('achievement', achievement);
+            }
+        } catch (error: any) {
+            console.error(`❌ Achievement replay failed for ${socket.userId}:`, error?.message || error);
+        }
+    }
+
     /**
      * Get Socket.IO instance
      */
@@ -144,7 +189,7 @@ export class SocketService {
      * Emit notification to specific user
      */
     emitToUser(userId: string, event: string, data: any) {
-        this.io.to(userId).emit(event, data);
+        this.io.to(userRoom(userId)).emit(event, data);
     }
 
     /**
@@ -0,0 +1,158 @@
+/**
+ * Streak Service - Streak Freezes and Calendar
+ *
+ * A streak freeze covers exactly one missed day: when the user practices
+ * after a one-day gap, updateUserStreak (practice.service.ts) uses a freeze
+ * instead of resetting the streak. Two or more missed days still reset it.
+ *
+ * Freezes are:
+ * - Earned: one for every 7 consecutive days (up to the max held)
+ * - Purchased: for points, via POST /api/users/me/streak/freezes
+ */
+
+import { User } from '../models/User';
+import { PracticeLog } from '../models/PracticeLog';
+import { adjustUserPoints } from './practice.service';
+import { AppError } from '../utils/errors';
+import { withTransaction } from '../utils/transaction';
+import {
+    DEFAULT_TIMEZONE,
+    addDays,
+    getDayNumber,
+    formatDayNumber,
+} from '../utils/timezone';
+import {
+    StreakCalendarResponse,
+    StreakDayStatus,
+    StreakFreezePurchaseResponse,
+} from '../types/gamification.types';
+
+/**
+ * Most freezes a user can hold at once
+ */
+export const MAX_STREAK_FREEZES = 2;
+
+/**
+ * A freeze is earned every time the streak reaches a multiple of this
+ */
+export const STREAK_FREEZE_EARN_INTERVAL = 7;
+
+/**
+ * Points charged for one purchased freeze
+ */
+export const STREAK_FREEZE_COST = 200;
+
+/**
+ * Streak lengths announced with a StreakMilestone event
+ */
+export const STREAK_MILESTONES = [3, 7, 14, 30, 60, 100, 200, 365];
+
+/**
+ * Get the streak calendar for the last `days` local days (oldest first)
+ *
+ * @param userId - User's MongoDB _id
+ * @param days - Number of days to show, ending today
+ * @returns Streak counters, freezes and per-day status
+ * @throws Error if user not found
+ */
+export const getStreakCalendar = async (
+    userId: string,
+    days: number
+): Promise<StreakCalendarResponse> => {
+    const user = await User.findById(userId);
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    const timezone = user.timezone || DEFAULT_TIMEZONE;
+    const now = new Date();
+    const today = getDayNumber(now, timezone);
+
+    const logs = await PracticeLog.find({
+        userId,
+        practicedAt: { $gte: addDays(now, -(days - 1), timezone) },
+    }).select('practicedAt');
+
+    const practicedDays = new Set(logs.map((log) => getDayNumber(log.practicedAt, timezone)));
+    const frozenDays = new Set(
+        (user.gamification?.frozenDays || []).map((day) => getDayNumber(day, timezone))
+    );
+
+    const calendar: StreakCalendarResponse['days'] = [];
+    for (let day = today - days + 1; day <= today; day++) {
+        let status: StreakDayStatus;
+        if (practicedDays.has(day)) {
+            status = 'practiced';
+        } else if (frozenDays.has(day)) {
+            status = 'frozen';
+        } else if (day === today) {
+            status = 'pending';
+        } else {
+            status = 'missed';
+        }
+        calendar.push({ date: formatDayNumber(day), status });
+    }
+
+    return {
+        timezone,
+        currentStreak: user.gamification?.currentStreak || 0,
+        longestStreak: user.gamification?.longestStreak || 0,
+        streakFreezes: user.gamification?.streakFreezes || 0,
+        maxStreakFreezes: MAX_STREAK_FREEZES,
+        freezeCost: STREAK_FREEZE_COST,
+        days: calendar,
+    };
+};
+
+/**
+ * Buy one streak freeze with points
+ *
+ * @param userId - User's MongoDB _id
+ * @returns Freezes held and points left
+ * @throws AppError 409 if the user already holds the max
+ * @throws AppError 400 if the user can't afford it
+ */
+export const purchaseStreakFreeze = async (userId: string): Promise<StreakFreezePurchaseResponse> => {
+    return withTransaction(async () => {
+        // Conditional update: two concurrent purchases can't both pass the checks
+        const updated = await User.findOneAndUpdate(
+            {
+                _id: userId,
+                'gamification.totalPoints': { $gte: STREAK_FREEZE_COST },
+                'gamification.streakFreezes': { $lt: MAX_STREAK_FREEZES },
+            },
+            { $inc: { 'gamification.streakFreezes': 1 } },
+            { new: true }
+        );
+
+        if (!updated) {
+            const user = await User.findById(userId);
+            if (!user) {
+                throw new Error('User not found');
+            }
+            if ((user.gamification?.streakFreezes || 0) >= MAX_STREAK_FREEZES) {
+                throw new AppError(
+                    409,
+                    'STREAK_FREEZE_LIMIT',
+                    `You can hold at most ${MAX_STREAK_FREEZES} streak freezes`
+                );
+            }
+            throw new AppError(
+                400,
+                'INSUFFICIENT_POINTS',
+                `A streak freeze costs ${STREAK_FREEZE_COST} points`,
+                { required: STREAK_FREEZE_COST, available: user.gamification?.totalPoints || 0 }
+            );
+        }
+
+        await adjustUserPoints(userId, -STREAK_FREEZE_COST, {
+            source: 'streak_freeze',
+            description: 'Streak freeze purchased',
+        });
+
+        return {
+            streakFreezes: updated.gamification?.streakFreezes || 0,
+            totalPoints: (updated.gamification?.totalPoints || 0) - STREAK_FREEZE_COST,
+        };
+    });
+};
@@ -9,6 +9,9 @@ import { Topic } from '../models/Topic';
 import { User } from '../models/User';
 import mongoose from 'mongoose';
 import { nanoid } from 'nanoid';
+import { eventBus } from './eventBus.service';
+import { getFriendIds } from './social.service';
+import { createNotifications } from './notification.service';
 
 export class StudyRoomService {
     /**
@@ -110,8 +113,9 @@ export class StudyRoomService {
             throw new Error('Room is full');
         }
 
-        // Check password for private rooms
-        if (!room.isPublic && room.password !== password) {
+        // Check password for private rooms (invited friends don't need it)
+        const invited = room.invitedUsers.some((id) => id.toString() === userId);
+        if (!room.isPublic && !invited && room.password !== password) {
             throw new Error('Incorrect password');
         }
 
@@ -160,12 +164,18 @@ export class StudyRoomService {
         participant.isActive = false;
 
         // If creator left, close the room
-        if (room.createdBy.toString() === userId) {
+        const creatorLeft = room.createdBy.toString() === userId;
+        if (creatorLeft) {
             room.isActive = false;
             room.endTime = new Date();
         }
 
         await room.save();
+
+        if (creatorLeft) {
+            await eventBus.publish('RoomClosed', { roomId, closedBy: userId, reason: 'creator_left' });
+        }
+
         return room;
     }
 
@@ -191,6 +201,53 @@ export class StudyRoomService {
         return room;
     }
 
+    /**
+     * Invite friends to a room (participants only)
+     * Invited friends get a notification and can join a private room
+     * without its password
+     *
+     * @returns The room and the IDs actually invited (friends only)
+     */
+    static async inviteFriends(roomId: string, userId: string, friendIds: string[]) {
+        const room = await StudyRoom.findOne({ roomId, isActive: true });
+        if (!room) {
+            throw new Error('Room not found or inactive');
+        }
+
+        const isParticipant = room.participants.some(
+            (p) => p.userId.toString() === userId && p.isActive
+        );
+        if (!isParticipant) {
+            throw new Error('Not in this room');
+        }
+
+        const friends = new Set(await getFriendIds(userId));
+        const invitedIds = [...new Set(friendIds)].filter((id) => friends.has(id));
+        if (invitedIds.length === 0) {
+            throw new Error('Invalid invite: only friends can be invited');
+        }
+
+        room.invitedUsers.push(
+            ...invitedIds
+                .filter((id) => !room.invitedUsers.some((invited) => invited.toString() === id))
+                .map((id) => new mongoose.Types.ObjectId(id))
+        );
+        await room.save();
+
+        const user = await User.findById(userId).select('fullName');
+        await createNotifications(
+            invitedIds.map((id) => ({
+                userId: id,
+                type: 'room_invite' as const,
+                title: `${user?.fullName || 'A friend'} invited you to "${room.name}"`,
+                message: `Study ${room.topicName} together`,
+                link: `/study-rooms/${room.roomId}`,
+            }))
+        );
+
+        return { room, invitedIds };
+    }
+
     /**
      * Close a study room
      */
@@ -209,6 +266,8 @@ export class StudyRoomService {
         room.endTime = new Date();
         await room.save();
 
+        await eventBus.publish('RoomClosed', { roomId, closedBy: userId, reason: 'closed' });
+
         return room;
     }
 }
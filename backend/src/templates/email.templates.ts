@@ -0,0 +1,200 @@
+/**
+ * Email Templates
+ *
+ * Each template renders a subject, an HTML body and a plain-text body from
+ * plain data (no database access), with the unsubscribe link in both.
+ */
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface DigestTopic {
+    topicName: string;
+    strengthScore: number;
+    accuracyPercentage: number;
+}
+
+export interface DigestChallenge {
+    completed: boolean;
+    rewardPoints: number;
+    tasks: Array<{
+        topicName: string;
+        difficulty: string;
+        questionsCompleted: number;
+        targetQuestions: number;
+    }>;
+}
+
+export interface WeeklyDigestData {
+    userName: string;
+    solvedThisWeek: number;
+    attemptedThisWeek: number;
+    totalQuestionsSolved: number;
+    overallAccuracyPercentage: number;
+    topicsStarted: number;
+    totalTopics: number;
+    currentStreak: number;
+    level: number;
+    strengths: DigestTopic[];
+    weaknesses: DigestTopic[];
+    challenge: DigestChallenge | null;
+    appUrl: string;
+    unsubscribeUrl: string;
+}
+
+export interface StreakReminderData {
+    userName: string;
+    currentStreak: number;
+    streakFreezes: number;
+    challenge: DigestChallenge | null;
+    appUrl: string;
+    unsubscribeUrl: string;
+}
+
+const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+/**
+ * Shared HTML frame: heading, body, call to action and footer
+ */
+const layout = (title: string, body: string, cta: { label: string; url: string }, unsubscribeUrl: string): string => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#0f172a;font-family:Arial,Helvetica,sans-serif;color:#e2e8f0;">
+  <div style="max-width:560px;margin:0 auto;background:#1e293b;border-radius:16px;padding:32px;">
+    <h1 style="margin:0 0 16px;font-size:22px;color:#ffffff;">${escapeHtml(title)}</h1>
+    ${body}
+    <p style="margin:32px 0 0;text-align:center;">
+      <a href="${escapeHtml(cta.url)}" style="display:inline-block;padding:12px 24px;background:#8b5cf6;color:#ffffff;text-decoration:none;border-radius:10px;font-weight:bold;">${escapeHtml(cta.label)}</a>
+    </p>
+  </div>
+  <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#64748b;text-align:center;">
+    You're receiving this because email updates are on for your account.
+    <a href="${escapeHtml(unsubscribeUrl)}" style="color:#94a3b8;">Unsubscribe</a>
+  </p>
+</body>
+</html>`;
+
+const topicListHtml = (heading: string, topics: DigestTopic[]): string => {
+    if (topics.length === 0) return '';
+    const items = topics
+        .map((t) => `<li>${escapeHtml(t.topicName)}: strength ${t.strengthScore}, ${t.accuracyPercentage}% accuracy</li>`)
+        .join('');
+    return `<h2 style="font-size:16px;color:#ffffff;margin:24px 0 8px;">${escapeHtml(heading)}</h2><ul style="margin:0;padding-left:20px;">${items}</ul>`;
+};
+
+const topicListText = (heading: string, topics: DigestTopic[]): string => {
+    if (topics.length === 0) return '';
+    const items = topics
+        .map((t) => `- ${t.topicName}: strength ${t.strengthScore}, ${t.accuracyPercentage}% accuracy`)
+        .join('\n');
+    return `\n${heading}\n${items}\n`;
+};
+
+const challengeHtml = (challenge: DigestChallenge | null): string => {
+    if (!challenge) return '';
+    if (challenge.completed) {
+        return '<p style="margin:24px 0 0;">✅ Today\'s daily challenge is done. Nice work!</p>';
+    }
+    const items = challenge.tasks
+        .map((t) => `<li>${escapeHtml(t.topicName)} (${escapeHtml(t.difficulty)}): ${t.questionsCompleted}/${t.targetQuestions}</li>`)
+        .join('');
+    return `<h2 style="font-size:16px;color:#ffffff;margin:24px 0 8px;">Today's challenge (+${challenge.rewardPoints} points)</h2><ul style="margin:0;padding-left:20px;">${items}</ul>`;
+};
+
+const challengeText = (challenge: DigestChallenge | null): string => {
+    if (!challenge) return '';
+    if (challenge.completed) {
+        return "\nToday's daily challenge is done. Nice work!\n";
+    }
+    const items = challenge.tasks
+        .map((t) => `- ${t.topicName} (${t.difficulty}): ${t.questionsCompleted}/${t.targetQuestions}`)
+        .join('\n');
+    return `\nToday's challenge (+${challenge.rewardPoints} points)\n${items}\n`;
+};
+
+/**
+ * Weekly progress digest
+ */
+export const renderWeeklyDigest = (data: WeeklyDigestData): RenderedEmail => {
+    const subject = data.solvedThisWeek > 0
+        ? `You solved ${data.solvedThisWeek} problem${data.solvedThisWeek === 1 ? '' : 's'} this week`
+        : 'Your weekly progress - time to get back on track?';
+
+    const summary = data.solvedThisWeek > 0
+        ? `This week you solved ${data.solvedThisWeek} of ${data.attemptedThisWeek} problems attempted.`
+        : "You didn't practice this week. A few problems today will get you moving again.";
+
+    const html = layout(
+        `Hi ${data.userName}, here's your week`,
+        `<p style="margin:0 0 16px;">${escapeHtml(summary)}</p>
+    <table style="width:100%;border-collapse:collapse;">
+      <tr><td style="padding:6px 0;">Total solved</td><td style="text-align:right;font-weight:bold;">${data.totalQuestionsSolved}</td></tr>
+      <tr><td style="padding:6px 0;">Accuracy</td><td style="text-align:right;font-weight:bold;">${data.overallAccuracyPercentage}%</td></tr>
+      <tr><td style="padding:6px 0;">Topics started</td><td style="text-align:right;font-weight:bold;">${data.topicsStarted}/${data.totalTopics}</td></tr>
+      <tr><td style="padding:6px 0;">Current streak</td><td style="text-align:right;font-weight:bold;">${data.currentStreak} day${data.currentStreak === 1 ? '' : 's'}</td></tr>
+      <tr><td style="padding:6px 0;">Level</td><td style="text-align:right;font-weight:bold;">${data.level}</td></tr>
+    </table>
+    ${topicListHtml('Your strongest topics', data.strengths)}
+    ${topicListHtml('Worth another look', data.weaknesses)}
+    ${challengeHtml(data.challenge)}`,
+        { label: 'Open your dashboard', url: `${data.appUrl}/dashboard` },
+        data.unsubscribeUrl
+    );
+
+    const text = `Hi ${data.userName}, here's your week
+
+${summary}
+
+Total solved: ${data.totalQuestionsSolved}
+Accuracy: ${data.overallAccuracyPercentage}%
+Topics started: ${data.topicsStarted}/${data.totalTopics}
+Current streak: ${data.currentStreak} day${data.currentStreak === 1 ? '' : 's'}
+Level: ${data.level}
+${topicListText('Your strongest topics', data.strengths)}${topicListText('Worth another look', data.weaknesses)}${challengeText(data.challenge)}
+Open your dashboard: ${data.appUrl}/dashboard
+
+Unsubscribe: ${data.unsubscribeUrl}
+`;
+
+    return { subject, html, text };
+};
+
+/**
+ * "Your streak is about to break" reminder
+ */
+export const renderStreakReminder = (data: StreakReminderData): RenderedEmail => {
+    const subject = `Keep your ${data.currentStreak}-day streak alive today`;
+
+    const freezeNote = data.streakFreezes > 0
+        ? `You hold ${data.streakFreezes} streak freeze${data.streakFreezes === 1 ? '' : 's'}, so one missed day is covered - but why spend it?`
+        : "You don't have a streak freeze, so missing today resets it.";
+
+    const html = layout(
+        `Don't lose your ${data.currentStreak}-day streak, ${data.userName}!`,
+        `<p style="margin:0 0 16px;">You haven't practiced today yet. Logging one problem keeps the streak alive.</p>
+    <p style="margin:0;">${escapeHtml(freezeNote)}</p>
+    ${challengeHtml(data.challenge)}`,
+        { label: 'Practice now', url: `${data.appUrl}/topics` },
+        data.unsubscribeUrl
+    );
+
+    const text = `Don't lose your ${data.currentStreak}-day streak, ${data.userName}!
+
+You haven't practiced today yet. Logging one problem keeps the streak alive.
+${freezeNote}
+${challengeText(data.challenge)}
+Practice now: ${data.appUrl}/topics
+
+Unsubscribe: ${data.unsubscribeUrl}
+`;
+
+    return { subject, html, text };
+};
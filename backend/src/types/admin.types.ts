@@ -9,7 +9,7 @@ import { Document } from 'mongoose';
 /**
  * Admin Roles
  * - super_admin: Full system access
- * - content_manager: Can manage topics, badges, challenges
+ * - content_manager: Can manage topics, badges, challenges, questions
  * - moderator: Can manage users and view analytics
  */
 export enum AdminRole {
@@ -38,6 +38,9 @@ export enum AdminPermission {
     CREATE_CHALLENGES = 'create_challenges',
     EDIT_CHALLENGES = 'edit_challenges',
     DELETE_CHALLENGES = 'delete_challenges',
+    CREATE_QUESTIONS = 'create_questions',
+    EDIT_QUESTIONS = 'edit_questions',
+    DELETE_QUESTIONS = 'delete_questions',
 
     // Analytics
     VIEW_ANALYTICS = 'view_analytics',
@@ -126,6 +129,9 @@ export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
         AdminPermission.CREATE_CHALLENGES,
         AdminPermission.EDIT_CHALLENGES,
         AdminPermission.DELETE_CHALLENGES,
+        AdminPermission.CREATE_QUESTIONS,
+        AdminPermission.EDIT_QUESTIONS,
+        AdminPermission.DELETE_QUESTIONS,
         AdminPermission.VIEW_ANALYTICS,
     ],
     [AdminRole.MODERATOR]: [
@@ -14,6 +14,9 @@
  */
 
 import { Document } from 'mongoose';
+import { BadgeTierCounts } from './gamification.types';
+import { NotificationType } from './notification.types';
+import { PrivacySettings } from './social.types';
 
 /**
  * User Document Interface
@@ -29,6 +32,7 @@ export interface IUser extends Document {
     college?: string;
     graduationYear?: number;
     targetCompanies?: string[];
+    timezone: string;
     gamification?: {
         totalPoints: number;
         currentStreak: number;
@@ -36,7 +40,20 @@ export interface IUser extends Document {
         lastPracticeDate?: Date;
         level: number;
         badgesEarned: number;
+        streakFreezes: number;
+        frozenDays: Date[];
+        badgeTiers: BadgeTierCounts; // Highest tier held per tiered badge
     };
+    notificationPreferences?: {
+        mutedTypes: NotificationType[]; // Not recorded or pushed
+    };
+    emailPreferences?: {
+        weeklyDigest: boolean;
+        streakReminders: boolean;
+        lastDigestAt?: Date;
+        lastStreakReminderAt?: Date;
+    };
+    privacy?: PrivacySettings;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -68,6 +85,7 @@ export interface RegisterDTO {
     college?: string;
     graduationYear?: number;
     targetCompanies?: string[];
+    timezone?: string;
 }
 
 /**
@@ -90,6 +108,12 @@ export interface UpdateProfileDTO {
     college?: string;
     graduationYear?: number;
     targetCompanies?: string[];
+    timezone?: string;
+    emailPreferences?: {
+        weeklyDigest?: boolean;
+        streakReminders?: boolean;
+    };
+    privacy?: Partial<PrivacySettings>;
 }
 
 /**
@@ -134,6 +158,7 @@ export interface UserResponse {
     college?: string;
     graduationYear?: number;
     targetCompanies?: string[];
+    timezone: string;
     gamification?: {
         totalPoints: number;
         currentStreak: number;
@@ -141,7 +166,14 @@ export interface UserResponse {
         lastPracticeDate?: Date;
         level: number;
         badgesEarned: number;
+        streakFreezes: number;
+        frozenDays: Date[];
+    };
+    emailPreferences: {
+        weeklyDigest: boolean;
+        streakReminders: boolean;
     };
+    privacy: PrivacySettings;
     createdAt: Date;
     updatedAt: Date;
 }
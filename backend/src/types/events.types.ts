@@ -0,0 +1,134 @@
+/**
+ * Domain Event Type Definitions
+ *
+ * Events published on the event bus (services/eventBus.service.ts).
+ * Payloads are plain JSON-safe data so they can cross the Redis transport.
+ */
+
+import { BadgeTier, AchievementEventResponse } from './gamification.types';
+
+export interface PracticeLoggedEvent {
+    userId: string;
+    practiceLogId: string;
+    topicId: string;
+    questionId?: string;
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty: string;
+    timeSpentMinutes: number;
+    solved: boolean;
+    practicedAt: Date;
+    createdAt: Date;
+}
+
+export interface BadgeAwardedEvent {
+    userId: string;
+    badgeId: string;
+    points: number;
+    tier?: BadgeTier; // Tier reached (tiered badges)
+    earnCount: number; // 1 on first award, higher for tier-ups and repeats
+}
+
+export interface ChallengeCompletedEvent {
+    userId: string;
+    challengeId: string;
+    date: Date;
+    rewardPoints: number;
+}
+
+export interface StreakBrokenEvent {
+    userId: string;
+    previousStreak: number;
+}
+
+export interface StreakFreezeUsedEvent {
+    userId: string;
+    frozenDay: Date; // Start of the missed local day
+    streak: number; // Streak after today's practice
+    freezesLeft: number;
+}
+
+export interface StreakMilestoneEvent {
+    userId: string;
+    streak: number; // One of STREAK_MILESTONES (streak.service.ts)
+}
+
+export interface LevelUpEvent {
+    userId: string;
+    previousLevel: number;
+    newLevel: number;
+}
+
+/**
+ * An admin saved the points/leveling economy (instances drop their cached copy)
+ */
+export interface EconomyConfigUpdatedEvent {
+    levelCurveVersion: number;
+}
+
+export interface RoomClosedEvent {
+    roomId: string;
+    closedBy: string;
+    reason: 'closed' | 'creator_left';
+}
+
+/**
+ * A committed achievement notification, ready to push to the user's sockets
+ */
+export interface AchievementRecordedEvent {
+    userId: string;
+    achievement: AchievementEventResponse;
+}
+
+/**
+ * Event name → payload
+ */
+export interface DomainEvents {
+    PracticeLogged: PracticeLoggedEvent;
+    BadgeAwarded: BadgeAwardedEvent;
+    ChallengeCompleted: ChallengeCompletedEvent;
+    StreakBroken: StreakBrokenEvent;
+    StreakFreezeUsed: StreakFreezeUsedEvent;
+    StreakMilestone: StreakMilestoneEvent;
+    LevelUp: LevelUpEvent;
+    EconomyConfigUpdated: EconomyConfigUpdatedEvent;
+    RoomClosed: RoomClosedEvent;
+    AchievementRecorded: AchievementRecordedEvent;
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+export interface DomainEventEnvelope<K extends DomainEventName = DomainEventName> {
+    id: string;
+    name: K;
+    payload: DomainEvents[K];
+    occurredAt: Date;
+    origin: string; // Instance that published the event
+}
+
+export interface EventHandlerContext {
+    attempt: number; // 1 on first delivery, 2+ on retries
+}
+
+export type EventHandler<K extends DomainEventName> = (
+    payload: DomainEvents[K],
+    context: EventHandlerContext
+) => Promise<void> | void;
+
+export interface SubscribeOptions {
+    /**
+     * Subscriber name (used in logs)
+     */
+    name: string;
+
+    /**
+     * local: run once, on the instance that published (default - side effects)
+     * broadcast: run on every instance (e.g. pushing to locally connected sockets)
+     */
+    scope?: 'local' | 'broadcast';
+
+    /**
+     * Extra attempts after a failure (default 0)
+     */
+    retries?: number;
+}
@@ -6,19 +6,94 @@
 
 import { Document } from 'mongoose';
 
+/**
+ * Badge Criteria Language
+ * 
+ * JSON rules stored on Badge.criteria and evaluated by
+ * services/badgeRules.service.ts. Rules combine with { all } / { any }.
+ * 
+ * Examples:
+ *   Night Owl:   { "type": "count", "min": 1, "where": { "hours": { "from": 22, "to": 4 } } }
+ *   Speed Demon: { "type": "count", "min": 10, "per": "day", "where": { "solved": true } }
+ *   Graph Guru:  { "all": [
+ *                  { "type": "count", "min": 20, "where": { "solved": true, "categories": ["Graphs"], "difficulties": ["Hard"] } },
+ *                  { "type": "accuracy", "min": 80, "minAttempts": 20, "where": { "categories": ["Graphs"] } }
+ *                ] }
+ */
+
+/**
+ * Which practice logs a rule looks at (all conditions must hold)
+ */
+export interface LogFilter {
+    solved?: boolean;
+    difficulties?: Array<'Easy' | 'Medium' | 'Hard'>;
+    topicIds?: string[]; // Topic scope (combined with categories: either matches)
+    categories?: string[]; // Topic.category scope, e.g. "DSA"
+    hours?: { from: number; to: number }; // Local hour-of-day [from, to), may wrap (22 → 4)
+    minTimeMinutes?: number; // Time spent per question
+    maxTimeMinutes?: number;
+    lastDays?: number; // Rolling window: today + previous (lastDays - 1) local days
+    from?: string; // Fixed window (ISO date-time), e.g. an event week
+    to?: string;
+}
+
+/**
+ * Leaf rules
+ * - count: matching logs, all time or best single local day (per: "day")
+ * - active_days: distinct local days with a matching log
+ * - accuracy: % of matching logs solved (needs minAttempts logs, default 1)
+ * - streak: current practice streak
+ */
+export type BadgeRule =
+    | { type: 'count'; min: number; per?: 'all_time' | 'day'; where?: LogFilter }
+    | { type: 'active_days'; min: number; where?: LogFilter }
+    | { type: 'accuracy'; min: number; minAttempts?: number; where?: LogFilter }
+    | { type: 'streak'; min: number };
+
+export type BadgeCriteria =
+    | BadgeRule
+    | { all: BadgeCriteria[] }
+    | { any: BadgeCriteria[] };
+
+/**
+ * What a badge's current/target values count
+ * (rules = met rules of an "all" group)
+ */
+export type BadgeProgressUnit = 'problems' | 'days' | 'percent' | 'rules';
+
+/**
+ * Badge tiers, lowest first
+ */
+export type BadgeTier = 'bronze' | 'silver' | 'gold' | 'platinum';
+
+export type BadgeTierCounts = Record<BadgeTier, number>;
+
+/**
+ * One tier of a tiered badge: its own criteria and points
+ */
+export interface BadgeTierDefinition {
+    tier: BadgeTier;
+    criteria: BadgeCriteria;
+    points: number;
+}
+
 /**
  * Badge Document Interface
+ *
+ * - Plain badge: criteria + points, earned once
+ * - Tiered badge: tiers (lowest first) instead of criteria; each tier
+ *   reached is awarded with its own points
+ * - Repeatable badge: plain badge earned again every time the criteria are
+ *   met by activity after the previous award
  */
 export interface IBadge extends Document {
     badgeId: string;
     name: string;
     description: string;
     category: 'consistency' | 'milestone' | 'mastery' | 'special';
-    criteria: {
-        type: 'solve_count' | 'streak_days' | 'topic_mastery' | 'time_based' | 'accuracy';
-        value: number;
-        topicId?: string;
-    };
+    criteria?: BadgeCriteria;
+    tiers?: BadgeTierDefinition[];
+    repeatable: boolean;
     iconUrl: string;
     rarity: 'common' | 'rare' | 'epic' | 'legendary';
     points: number;
@@ -31,8 +106,14 @@ export interface IBadge extends Document {
 export interface IUserBadge extends Document {
     userId: string;
     badgeId: string;
-    earnedAt: Date;
-    progress: number;
+    earnedAt?: Date | null; // First earned; null while the badge is still in progress
+    lastEarnedAt?: Date; // Latest tier-up or repeat
+    tier?: BadgeTier; // Highest tier reached (tiered badges)
+    earnCount: number; // Awards so far (tiers reached / repeats)
+    progress: number; // Towards the next tier or repeat
+    current?: number;
+    target?: number;
+    unit?: BadgeProgressUnit;
 }
 
 /**
@@ -68,6 +149,7 @@ export interface ILeaderboard extends Document {
         questionsSolved: number;
         streak: number;
         badges: number;
+        badgeTiers: BadgeTierCounts;
     }>;
     lastUpdated: Date;
     expiresAt: Date;
@@ -83,11 +165,9 @@ export interface BadgeResponse {
     name: string;
     description: string;
     category: string;
-    criteria: {
-        type: string;
-        value: number;
-        topicId?: string;
-    };
+    criteria?: BadgeCriteria;
+    tiers?: BadgeTierDefinition[];
+    repeatable: boolean;
     iconUrl: string;
     rarity: string;
     points: number;
@@ -101,9 +181,24 @@ export interface UserBadgeResponse {
     badgeId: string;
     badge: BadgeResponse;
     earnedAt: Date;
+    tier?: BadgeTier;
+    earnCount: number;
     progress: number;
 }
 
+export interface BadgeProgressResponse {
+    badge: BadgeResponse;
+    earned: boolean;
+    earnedAt?: Date;
+    tier?: BadgeTier;
+    nextTier?: BadgeTier;
+    earnCount: number;
+    progress: number; // 0-100, towards the next tier or repeat (100 = nothing left)
+    current: number;
+    target: number;
+    unit: BadgeProgressUnit;
+}
+
 export interface LeaderboardEntry {
     userId: string;
     userName: string;
@@ -112,17 +207,86 @@ export interface LeaderboardEntry {
     questionsSolved: number;
     streak: number;
     badges: number;
+    badgeTiers: BadgeTierCounts; // Highest tier held per tiered badge
+    rankChange?: number; // Places climbed in the last week (negative = dropped); all-time boards only
 }
 
+/**
+ * Leaderboard period: 'all' ranks lifetime totalPoints, the others rank
+ * points earned inside the current UTC day / week (from Monday) / month /
+ * season (calendar quarter)
+ */
+export type LeaderboardPeriod = 'day' | 'week' | 'month' | 'season' | 'all';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['day', 'week', 'month', 'season', 'all'];
+
 export interface LeaderboardResponse {
     type: string;
     topicId?: string;
     topicName?: string;
+    college?: string; // College boards
+    graduationYear?: number; // Cohort boards
+    period?: LeaderboardPeriod;
+    periodStart?: Date; // Windowed periods only
+    periodEnd?: Date;
     rankings: LeaderboardEntry[];
     userRank?: LeaderboardEntry;
+    total?: number; // Users on the board
     lastUpdated: Date;
 }
 
+/**
+ * Inter-college leaderboard row (score = totalPoints / √members)
+ */
+export interface CollegeLeaderboardEntry {
+    rank: number;
+    college: string;
+    members: number;
+    totalPoints: number;
+    averagePoints: number;
+    score: number;
+}
+
+export interface CollegeLeaderboardResponse {
+    rankings: CollegeLeaderboardEntry[];
+    total: number; // Ranked colleges
+    minMembers: number; // Colleges with fewer members aren't ranked
+    lastUpdated: Date;
+}
+
+export interface LeaderboardWinner {
+    userId: string;
+    userName: string;
+    rank: number;
+    score: number;
+}
+
+export interface LeaderboardArchiveResponse {
+    period: Exclude<LeaderboardPeriod, 'all'>;
+    periodStart: Date;
+    periodEnd: Date;
+    winners: LeaderboardWinner[];
+    participants: number;
+}
+
+/**
+ * A user's rank on one day (daily rank history)
+ */
+export interface RankHistoryPoint {
+    date: Date; // UTC day
+    rank: number;
+    score: number;
+}
+
+export interface RankHistoryResponse {
+    type: 'global' | 'topic';
+    topicId?: string;
+    topicName?: string;
+    days: number;
+    history: RankHistoryPoint[]; // Oldest first; days without a snapshot are missing
+    rankChange: number; // Places climbed from the first point to the last (negative = dropped)
+}
+
 export interface DailyChallengeResponse {
     _id: string;
     date: Date;
@@ -139,6 +303,43 @@ export interface DailyChallengeResponse {
     rewardPoints: number;
 }
 
+export type StreakDayStatus = 'practiced' | 'frozen' | 'missed' | 'pending';
+
+export interface StreakCalendarResponse {
+    timezone: string;
+    currentStreak: number;
+    longestStreak: number;
+    streakFreezes: number;
+    maxStreakFreezes: number;
+    freezeCost: number;
+    days: Array<{
+        date: string; // YYYY-MM-DD in the user's time zone
+        status: StreakDayStatus; // pending = today, not practiced yet
+    }>;
+}
+
+export interface StreakFreezePurchaseResponse {
+    streakFreezes: number;
+    totalPoints: number;
+}
+
+export type AchievementEventType = 'badge_awarded' | 'level_up' | 'streak_milestone' | 'challenge_completed';
+
+/**
+ * Pushed to the user's sockets as "achievement" (and replayed on reconnect)
+ */
+export interface AchievementEventResponse {
+    id: string; // Increasing: clients send the last one seen to replay what they missed
+    type: AchievementEventType;
+    title: string;
+    description: string;
+    points: number;
+    iconUrl?: string;
+    rarity: string;
+    tier?: BadgeTier;
+    createdAt: Date;
+}
+
 export interface ShareStatsResponse {
     userName: string;
     totalQuestions: number;
@@ -147,13 +348,60 @@ export interface ShareStatsResponse {
     longestStreak: number;
     badgesEarned: number;
     level: number;
+    levelTitle: string;
+    totalPoints: number;
+}
+
+/**
+ * Points and leveling economy (admin-editable, see models/EconomyConfig.ts)
+ */
+export interface EconomyConfigResponse {
+    practicePoints: Record<'Easy' | 'Medium' | 'Hard', number>;
+    firstSolveBonus: number;
+    repeatSolveMultipliers: number[];
+    challengeRewardPoints: number;
+    levelCurve: {
+        basePoints: number;
+        exponent: number;
+    };
+    levelTitles: Array<{ level: number; title: string }>;
+    levelCurveVersion: number;
+    levelMigration: {
+        status: 'done' | 'pending' | 'running' | 'failed';
+        migratedVersion: number;
+        usersUpdated: number;
+        startedAt?: Date;
+        finishedAt?: Date;
+        error?: string;
+    };
+    updatedAt?: Date;
+}
+
+export interface LevelProgressResponse {
+    level: number;
+    title: string;
     totalPoints: number;
+    currentLevelPoints: number; // Points the current level starts at
+    nextLevelPoints: number; // Points the next level starts at
+    nextTitle?: { level: number; title: string }; // Next named title, if any
 }
 
 /**
  * DTOs (Data Transfer Objects)
  */
 
+export interface UpdateEconomyConfigDTO {
+    practicePoints?: Partial<Record<'Easy' | 'Medium' | 'Hard', number>>;
+    firstSolveBonus?: number;
+    repeatSolveMultipliers?: number[];
+    challengeRewardPoints?: number;
+    levelCurve?: {
+        basePoints: number;
+        exponent: number;
+    };
+    levelTitles?: Array<{ level: number; title: string }>;
+}
+
 export interface CompleteChallengeDTO {
     date?: Date;
 }
@@ -162,4 +410,5 @@ export interface GetLeaderboardQuery {
     limit?: number;
     skip?: number;
     topicId?: string;
+    period?: LeaderboardPeriod;
 }
@@ -0,0 +1,63 @@
+/**
+ * Notification Types
+ *
+ * TypeScript interfaces for the in-app notification center.
+ */
+
+import { AchievementEventType } from './gamification.types';
+
+/**
+ * What a notification is about
+ * Achievement types match AchievementEventType (they are also pushed live)
+ */
+export type NotificationType =
+    | AchievementEventType
+    | 'rank_change'
+    | 'room_closed'
+    | 'recommendation_expiring'
+    | 'new_follower'
+    | 'friend_request'
+    | 'friend_accepted'
+    | 'room_invite';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+    'badge_awarded',
+    'level_up',
+    'streak_milestone',
+    'challenge_completed',
+    'rank_change',
+    'room_closed',
+    'recommendation_expiring',
+    'new_follower',
+    'friend_request',
+    'friend_accepted',
+    'room_invite',
+];
+
+export interface NotificationInput {
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string; // Frontend path to open (e.g., "/leaderboard")
+}
+
+export interface NotificationResponse {
+    _id: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string;
+    read: boolean;
+    readAt?: Date;
+    createdAt: Date;
+}
+
+export interface NotificationListResponse {
+    notifications: NotificationResponse[];
+    total: number;
+    unreadCount: number;
+}
+
+export interface NotificationPreferencesResponse {
+    mutedTypes: NotificationType[];
+}
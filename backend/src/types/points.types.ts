@@ -0,0 +1,71 @@
+/**
+ * Points Ledger Types
+ *
+ * TypeScript interfaces for the PointTransaction ledger: every change to
+ * gamification.totalPoints is recorded with where it came from.
+ */
+
+/**
+ * Where a point change came from
+ * - practice: solved log (edits and deletes post the difference, same reference)
+ * - import: bulk history import
+ * - badge: badge award (one entry per tier reached)
+ * - daily_challenge: challenge reward (or its reversal)
+ * - streak_freeze: freeze purchase
+ * - balance_floor: correction that keeps the balance from going below 0
+ * - opening_balance: points a user held before the ledger existed
+ */
+export type PointSource =
+    | 'practice'
+    | 'import'
+    | 'badge'
+    | 'daily_challenge'
+    | 'streak_freeze'
+    | 'balance_floor'
+    | 'opening_balance';
+
+export const POINT_SOURCES: PointSource[] = [
+    'practice',
+    'import',
+    'badge',
+    'daily_challenge',
+    'streak_freeze',
+    'balance_floor',
+    'opening_balance',
+];
+
+export interface PointEntryInput {
+    source: PointSource;
+    referenceId?: string; // Practice log, badge or challenge the points are for
+    description?: string;
+}
+
+export interface PointTransactionResponse {
+    _id: string;
+    source: PointSource;
+    amount: number;
+    referenceId?: string;
+    description?: string;
+    createdAt: Date;
+}
+
+export interface PointHistoryResponse {
+    transactions: PointTransactionResponse[];
+    total: number;
+    totalPoints: number;
+}
+
+export interface PointDriftResponse {
+    _id: string;
+    userId: string;
+    storedPoints: number; // totalPoints before the fix
+    ledgerPoints: number; // Sum of the ledger (what totalPoints was set to)
+    drift: number; // storedPoints - ledgerPoints
+    detectedAt: Date;
+}
+
+export interface PointReconciliationSummary {
+    usersChecked: number;
+    openingBalances: number;
+    driftedUsers: number;
+}
@@ -26,11 +26,13 @@ export interface ITopic extends Document {
 export interface IPracticeLog extends Document {
     userId: string;
     topicId: string;
+    questionId?: string;
     questionTitle: string;
     questionUrl?: string;
     difficulty: string;
     timeSpentMinutes: number;
     solved: boolean;
+    pointsAwarded?: number;
     notes?: string;
     practicedAt: Date;
     createdAt: Date;
@@ -51,6 +53,57 @@ export interface LogPracticeDTO {
     practicedAt?: Date; // Optional: defaults to now
 }
 
+export type UpdatePracticeLogDTO = Partial<LogPracticeDTO>;
+
+export interface CreateQuestionDTO {
+    title: string;
+    url?: string;
+    platform?: string;
+    topicIds?: string[];
+    difficulty: 'Easy' | 'Medium' | 'Hard';
+    tags?: string[];
+}
+
+export type UpdateQuestionDTO = Partial<CreateQuestionDTO>;
+
+export interface GetQuestionsQuery {
+    search?: string;
+    topicId?: string;
+    platform?: string;
+    difficulty?: string;
+    limit?: number;
+    skip?: number;
+}
+
+export interface GradeReviewDTO {
+    grade: number; // SM-2 quality: 0 (blackout) - 5 (perfect recall)
+    timeSpentMinutes?: number; // Defaults to the previous attempt's time
+    notes?: string;
+}
+
+export type ImportSource = 'leetcode' | 'codeforces' | 'generic';
+
+export interface ImportPracticeDTO {
+    source: ImportSource;
+    format: 'csv' | 'json';
+    data: string; // Raw file contents
+    defaultTopicId?: string; // Used when no tag maps to a topic
+    defaultTimeSpentMinutes: number; // Exports rarely include time spent
+    dryRun: boolean; // Preview only, nothing is written
+}
+
+export interface SessionQuestionDTO {
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty: 'Easy' | 'Medium' | 'Hard';
+    solved: boolean;
+    notes?: string;
+}
+
+export interface FinishSessionDTO {
+    questions: SessionQuestionDTO[]; // Empty = discard the session
+}
+
 export interface GetPracticeHistoryQuery {
     topicId?: string;
     limit?: number;
@@ -76,21 +129,145 @@ export interface TopicsByCategory {
     [category: string]: TopicResponse[];
 }
 
+/**
+ * Anti-cheat review of a flagged practice log
+ */
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * Why a log looks suspicious (see antiCheat.service.ts)
+ * - implausible_time: solved faster than is plausible for the difficulty
+ * - burst: many solves logged within a few minutes
+ * - duplicate_title: the same question solved again within a week
+ * - backdated: practicedAt days in the past (can fill streak gaps)
+ */
+export type SuspicionReason = 'implausible_time' | 'burst' | 'duplicate_title' | 'backdated';
+
+export const SUSPICION_REASONS: SuspicionReason[] = ['implausible_time', 'burst', 'duplicate_title', 'backdated'];
+
 export interface PracticeLogResponse {
     _id: string;
     userId: string;
     topicId: string;
     topicName?: string; // Populated from Topic
+    questionId?: string; // Canonical Question, if matched
     questionTitle: string;
     questionUrl?: string;
     difficulty: string;
     timeSpentMinutes: number;
     solved: boolean;
+    pointsAwarded?: number;
     notes?: string;
     practicedAt: Date;
+    reviewStatus?: ReviewStatus; // Set if anti-cheat flagged the log
     createdAt: Date;
 }
 
+/**
+ * Practice log in the moderators' review queue
+ */
+export interface PracticeLogReviewResponse extends PracticeLogResponse {
+    userName?: string;
+    userEmail?: string;
+    suspicionScore: number;
+    reasons: SuspicionReason[];
+    heldPoints: number;
+    reviewedBy?: string;
+    reviewedAt?: Date;
+    reviewNote?: string;
+}
+
+export interface ReviewQueueResponse {
+    logs: PracticeLogReviewResponse[];
+    total: number;
+}
+
+export interface QuestionResponse {
+    _id: string;
+    title: string;
+    canonicalUrl?: string;
+    platform: string;
+    topicIds: string[];
+    difficulty: string;
+    tags: string[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ReviewItemResponse {
+    _id: string;
+    topicId: string;
+    topicName?: string;
+    questionId?: string;
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty: string;
+    reason: string;
+    status: string;
+    easeFactor: number;
+    intervalDays: number;
+    repetitions: number;
+    dueAt: Date;
+    lastGrade?: number;
+    lastReviewedAt?: Date;
+}
+
+export interface DueReviewsResponse {
+    total: number;
+    reviews: ReviewItemResponse[];
+}
+
+export interface GradeReviewResponse {
+    review: ReviewItemResponse;
+    practiceLog: PracticeLogResponse;
+}
+
+export interface ImportRowPreview {
+    row: number; // 1-based row in the uploaded file
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty?: 'Easy' | 'Medium' | 'Hard';
+    solved?: boolean;
+    practicedAt?: Date;
+    topicId?: string;
+    topicName?: string;
+    status: 'new' | 'duplicate' | 'unmapped' | 'invalid';
+    held?: boolean; // New row flagged by anti-cheat: saved for review, no points yet
+    reason?: string;
+}
+
+export interface ImportPracticeResponse {
+    dryRun: boolean;
+    totalRows: number;
+    newCount: number;
+    duplicateCount: number;
+    unmappedCount: number;
+    invalidCount: number;
+    heldCount: number; // New rows held for review (not in pointsAwarded)
+    importedCount: number;
+    pointsAwarded: number;
+    rows: ImportRowPreview[];
+}
+
+export interface PracticeSessionResponse {
+    _id: string;
+    topicId: string;
+    topicName?: string;
+    status: 'active' | 'paused' | 'finished';
+    segments: { startedAt: Date; endedAt?: Date }[];
+    activeSeconds: number; // Server-measured time, excluding pauses
+    startedAt: Date;
+    finishedAt?: Date;
+    practiceLogIds: string[];
+}
+
+export interface FinishSessionResponse {
+    session: PracticeSessionResponse;
+    practiceLogs: PracticeLogResponse[];
+}
+
 export interface PracticeStatsResponse {
     topicId: string;
     topicName: string;
@@ -0,0 +1,89 @@
+/**
+ * Social Types
+ *
+ * TypeScript interfaces for follows, friendships, privacy and the
+ * friends activity feed.
+ */
+
+/**
+ * Who sees a user's activity in their feed
+ * - followers: followers and friends
+ * - friends: friends only
+ * - nobody: kept out of every feed
+ */
+export type ActivityVisibility = 'followers' | 'friends' | 'nobody';
+
+export const ACTIVITY_VISIBILITIES: ActivityVisibility[] = ['followers', 'friends', 'nobody'];
+
+export type FriendshipStatus = 'pending' | 'accepted';
+
+export const FRIENDSHIP_STATUSES: FriendshipStatus[] = ['pending', 'accepted'];
+
+export type ActivityType = 'practice_solved' | 'badge_earned';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['practice_solved', 'badge_earned'];
+
+export interface PrivacySettings {
+    allowFollowers: boolean; // Others may follow the user
+    allowFriendRequests: boolean; // Others may send friend requests
+    activityVisibility: ActivityVisibility;
+}
+
+/**
+ * Another user, as social lists show them
+ */
+export interface SocialUserSummary {
+    userId: string;
+    userName: string;
+    college?: string;
+    level: number;
+    currentStreak: number;
+}
+
+export interface FollowStatusResponse {
+    userId: string;
+    following: boolean;
+    followers: number; // The followed user's follower count
+}
+
+export interface FollowListResponse {
+    users: SocialUserSummary[];
+    total: number;
+}
+
+export interface FriendResponse extends SocialUserSummary {
+    friendsSince: Date;
+}
+
+export interface FriendListResponse {
+    friends: FriendResponse[];
+    total: number;
+}
+
+export interface FriendRequestResponse {
+    _id: string;
+    direction: 'incoming' | 'outgoing';
+    user: SocialUserSummary; // The other side of the request
+    status: FriendshipStatus;
+    createdAt: Date;
+}
+
+export interface FriendRequestListResponse {
+    incoming: FriendRequestResponse[];
+    outgoing: FriendRequestResponse[];
+}
+
+export interface ActivityResponse {
+    _id: string;
+    userId: string;
+    userName: string;
+    type: ActivityType;
+    title: string;
+    description: string;
+    createdAt: Date;
+}
+
+export interface ActivityFeedResponse {
+    activities: ActivityResponse[];
+    total: number;
+}
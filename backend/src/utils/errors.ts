@@ -0,0 +1,25 @@
+/**
+ * Structured Application Errors
+ *
+ * Services can throw AppError when the message-based status mapping in
+ * error.middleware.ts isn't precise enough. The error handler returns:
+ * {
+ *   "error": "IDEMPOTENCY_KEY_MISMATCH",
+ *   "message": "Idempotency key was already used for a different request",
+ *   "details": { ... }   // Optional
+ * }
+ */
+
+export class AppError extends Error {
+    statusCode: number;
+    code: string;
+    details?: unknown;
+
+    constructor(statusCode: number, code: string, message: string, details?: unknown) {
+        super(message);
+        this.name = 'AppError';
+        this.statusCode = statusCode;
+        this.code = code;
+        this.details = details;
+    }
+}
@@ -0,0 +1,80 @@
+import {
+    isValidTimeZone,
+    startOfDay,
+    addDays,
+    getDayNumber,
+    formatDayNumber,
+    getLocalHour,
+    getLocalWeekday,
+} from './timezone';
+
+describe('startOfDay', () => {
+    it('is UTC midnight in UTC', () => {
+        expect(startOfDay(new Date('2024-05-15T13:45:00Z'), 'UTC')).toEqual(new Date('2024-05-15T00:00:00Z'));
+    });
+
+    it('follows the user\'s local day, not the server\'s', () => {
+        // 20:00 UTC is already 01:30 the next day in India
+        expect(startOfDay(new Date('2024-05-15T20:00:00Z'), 'Asia/Kolkata')).toEqual(new Date('2024-05-15T18:30:00Z'));
+        // 02:00 UTC is still the previous evening in New York
+        expect(startOfDay(new Date('2024-05-15T02:00:00Z'), 'America/New_York')).toEqual(new Date('2024-05-14T04:00:00Z'));
+    });
+
+    it('handles days that start before a DST change', () => {
+        // New York springs forward at 02:00 on 2024-03-10: midnight is still EST
+        expect(startOfDay(new Date('2024-03-10T20:00:00Z'), 'America/New_York')).toEqual(new Date('2024-03-10T05:00:00Z'));
+        expect(startOfDay(new Date('2024-11-03T20:00:00Z'), 'America/New_York')).toEqual(new Date('2024-11-03T04:00:00Z'));
+    });
+});
+
+describe('addDays', () => {
+    it('steps over 23 and 25 hour DST days', () => {
+        const before = new Date('2024-03-09T12:00:00Z');
+        expect(addDays(before, 1, 'America/New_York')).toEqual(new Date('2024-03-10T05:00:00Z'));
+        expect(addDays(before, 2, 'America/New_York')).toEqual(new Date('2024-03-11T04:00:00Z'));
+
+        expect(addDays(new Date('2024-11-03T12:00:00Z'), 1, 'America/New_York')).toEqual(new Date('2024-11-04T05:00:00Z'));
+    });
+
+    it('goes back with negative days', () => {
+        expect(addDays(new Date('2024-03-01T10:00:00Z'), -1, 'UTC')).toEqual(new Date('2024-02-29T00:00:00Z'));
+    });
+});
+
+describe('getDayNumber', () => {
+    it('counts local calendar days', () => {
+        const utcDay = getDayNumber(new Date('2024-05-15T20:00:00Z'), 'UTC');
+
+        expect(formatDayNumber(utcDay)).toBe('2024-05-15');
+        expect(getDayNumber(new Date('2024-05-15T20:00:00Z'), 'Asia/Kolkata')).toBe(utcDay + 1);
+        expect(getDayNumber(new Date('2024-05-15T02:00:00Z'), 'America/New_York')).toBe(utcDay - 1);
+    });
+
+    it('differs by exactly 1 across a DST change', () => {
+        const saturday = getDayNumber(new Date('2024-03-09T12:00:00Z'), 'America/New_York');
+        const sunday = getDayNumber(new Date('2024-03-10T12:00:00Z'), 'America/New_York');
+        const monday = getDayNumber(new Date('2024-03-11T12:00:00Z'), 'America/New_York');
+
+        expect([sunday - saturday, monday - sunday]).toEqual([1, 1]);
+    });
+});
+
+describe('local hour and weekday', () => {
+    it('reads the wall clock in the zone', () => {
+        const instant = new Date('2024-05-15T20:00:00Z'); // Wednesday in UTC
+
+        expect(getLocalHour(instant, 'UTC')).toBe(20);
+        expect(getLocalHour(instant, 'Asia/Kolkata')).toBe(1);
+        expect(getLocalHour(new Date('2024-05-15T00:00:00Z'), 'UTC')).toBe(0);
+        expect(getLocalWeekday(instant, 'UTC')).toBe(3);
+        expect(getLocalWeekday(instant, 'Asia/Kolkata')).toBe(4);
+    });
+});
+
+describe('isValidTimeZone', () => {
+    it('accepts IANA zones and rejects anything else', () => {
+        expect(isValidTimeZone('Asia/Kolkata')).toBe(true);
+        expect(isValidTimeZone('UTC')).toBe(true);
+        expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+});
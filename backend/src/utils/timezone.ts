@@ -0,0 +1,138 @@
+/**
+ * Time Zone Helpers
+ *
+ * "Today" depends on where the user is: 1 AM in India is still yesterday
+ * on a UTC server. Every daily boundary (streaks, challenges, consistency,
+ * time-of-day badges) goes through these helpers with the user's IANA zone
+ * (e.g., "Asia/Kolkata"), using the built-in Intl API (no tz database needed).
+ *
+ * - startOfDay: the instant the user's local day began (stored as a Date)
+ * - getDayNumber: local calendar day as an integer, for "days between" maths
+ * - getLocalHour: local hour (0-23), for early-bird / night-owl checks
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ZonedParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+// Creating a DateTimeFormat is slow, and a handful of zones cover most users
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ */
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        if (part.type !== 'literal') {
+            parts[part.type] = Number(part.value);
+        }
+    }
+
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour % 24, // Some ICU versions print midnight as 24
+        minute: parts.minute,
+        second: parts.second,
+    };
+};
+
+/**
+ * Zone's UTC offset at an instant, in ms (e.g., +5:30 for Asia/Kolkata)
+ */
+const getOffsetMs = (date: Date, timeZone: string): number => {
+    const p = getZonedParts(date, timeZone);
+    const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Is this a time zone name Intl understands?
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Instant the local day containing `date` began
+ */
+export const startOfDay = (date: Date, timeZone: string): Date => {
+    const p = getZonedParts(date, timeZone);
+    const localMidnight = Date.UTC(p.year, p.month - 1, p.day);
+
+    // First guess uses the offset at UTC midnight; correct it with the offset
+    // at the guessed instant in case a DST change happens in between
+    const guess = localMidnight - getOffsetMs(new Date(localMidnight), timeZone);
+    return new Date(localMidnight - getOffsetMs(new Date(guess), timeZone));
+};
+
+/**
+ * Start of the local day `days` days after the one containing `date`
+ * (negative for earlier days)
+ */
+export const addDays = (date: Date, days: number, timeZone: string): Date => {
+    // Aim for noon so a 23h/25h DST day can't push us into the wrong day
+    const noon = startOfDay(date, timeZone).getTime() + DAY_MS / 2;
+    return startOfDay(new Date(noon + days * DAY_MS), timeZone);
+};
+
+/**
+ * Local calendar day as days since 1970-01-01
+ * Consecutive local days always differ by exactly 1
+ */
+export const getDayNumber = (date: Date, timeZone: string): number => {
+    const p = getZonedParts(date, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day) / DAY_MS;
+};
+
+/**
+ * Day number (from getDayNumber) as "YYYY-MM-DD"
+ */
+export const formatDayNumber = (dayNumber: number): string =>
+    new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Local hour (0-23)
+ */
+export const getLocalHour = (date: Date, timeZone: string): number =>
+    getZonedParts(date, timeZone).hour;
+
+/**
+ * Local day of the week (0 = Sunday ... 6 = Saturday)
+ */
+export const getLocalWeekday = (date: Date, timeZone: string): number =>
+    new Date(getDayNumber(date, timeZone) * DAY_MS).getUTCDay();
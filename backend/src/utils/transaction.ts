@@ -0,0 +1,94 @@
+/**
+ * MongoDB Transaction Helper
+ *
+ * Runs a multi-write flow atomically: either every write commits or none do.
+ * Mongoose's transactionAsyncLocalStorage (enabled in config/database.ts)
+ * attaches the session to every query made inside the callback, including
+ * ones in other services and event subscribers.
+ *
+ * - Nested calls join the outer transaction instead of starting a new one
+ * - Transient errors (write conflicts) retry the whole callback (driver behaviour)
+ * - Standalone MongoDB (no replica set) can't run transactions: we warn once
+ *   and run without one, so local development keeps working
+ * - runAfterCommit defers non-MongoDB side effects (socket pushes) until the
+ *   writes they announce are committed
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import mongoose from 'mongoose';
+
+interface TransactionContext {
+    afterCommit: (() => void | Promise<void>)[];
+}
+
+const transactionContext = new AsyncLocalStorage<TransactionContext>();
+
+let transactionsSupported = true;
+
+/**
+ * MongoDB error code for "Transaction numbers are only allowed on a replica set member or mongos"
+ */
+const ILLEGAL_OPERATION = 20;
+
+/**
+ * Is the current call running inside withTransaction?
+ */
+export const isInTransaction = (): boolean => transactionContext.getStore() !== undefined;
+
+/**
+ * Run callbacks queued with runAfterCommit; failures are logged, not thrown
+ * (the transaction is already committed)
+ */
+const runCallbacks = async (callbacks: TransactionContext['afterCommit']): Promise<void> => {
+    for (const callback of callbacks) {
+        try {
+            await callback();
+        } catch (error: any) {
+            console.error('❌ After-commit callback failed:', error?.message || error);
+        }
+    }
+};
+
+/**
+ * Run fn once the current transaction commits (dropped if it rolls back)
+ * Outside a transaction fn runs right away.
+ */
+export const runAfterCommit = async (fn: () => void | Promise<void>): Promise<void> => {
+    const context = transactionContext.getStore();
+    if (context) {
+        context.afterCommit.push(fn);
+        return;
+    }
+    await runCallbacks([fn]);
+};
+
+/**
+ * Run fn inside a MongoDB transaction
+ *
+ * fn may run more than once (transient error retries), so it must not have
+ * side effects outside MongoDB that can't be repeated.
+ */
+export const withTransaction = async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (isInTransaction() || !transactionsSupported) {
+        return fn();
+    }
+
+    // A fresh context per attempt: callbacks queued by a rolled-back attempt are dropped
+    let context: TransactionContext = { afterCommit: [] };
+
+    try {
+        const result = await mongoose.connection.transaction(() => {
+            context = { afterCommit: [] };
+            return transactionContext.run(context, fn);
+        });
+        await runCallbacks(context.afterCommit);
+        return result;
+    } catch (error: any) {
+        if (error?.code === ILLEGAL_OPERATION && /replica set|mongos/i.test(error?.message || '')) {
+            transactionsSupported = false;
+            console.warn('⚠️ MongoDB transactions unavailable (standalone server) - running without them');
+            return fn();
+        }
+        throw error;
+    }
+};
@@ -16,6 +16,14 @@
  */
 
 import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone';
+import { ACTIVITY_VISIBILITIES, ActivityVisibility } from '../types/social.types';
+
+/**
+ * IANA time zone name (e.g., "Asia/Kolkata"), as sent by
+ * Intl.DateTimeFormat().resolvedOptions().timeZone in the browser
+ */
+const timezoneSchema = z.string().trim().refine(isValidTimeZone, 'Invalid time zone');
 
 /**
  * Registration Schema
@@ -70,6 +78,8 @@ export const registerSchema = z.object({
         .optional(),
 
     targetCompanies: z.array(z.string()).optional().default([]),
+
+    timezone: timezoneSchema.optional(),
 });
 
 /**
@@ -112,6 +122,20 @@ export const updateProfileSchema = z
             .min(2020, 'Graduation year must be 2020 or later')
             .max(2030, 'Graduation year must be 2030 or earlier'),
         targetCompanies: z.array(z.string()),
+        timezone: timezoneSchema,
+        emailPreferences: z
+            .object({
+                weeklyDigest: z.boolean(),
+                streakReminders: z.boolean(),
+            })
+            .partial(),
+        privacy: z
+            .object({
+                allowFollowers: z.boolean(),
+                allowFriendRequests: z.boolean(),
+                activityVisibility: z.enum(ACTIVITY_VISIBILITIES as [ActivityVisibility, ...ActivityVisibility[]]),
+            })
+            .partial(),
     })
     .partial(); // All fields optional
 
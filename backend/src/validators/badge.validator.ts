@@ -0,0 +1,203 @@
+/**
+ * Badge Validation Schemas
+ *
+ * Zod schemas for badge definitions (admin) and the badge criteria
+ * language (see BadgeCriteria in types/gamification.types.ts).
+ */
+
+import { z } from 'zod';
+import { BadgeCriteria } from '../types/gamification.types';
+
+/**
+ * Max nesting of { all } / { any } groups
+ * Keeps evaluation cost bounded (each leaf is one aggregation)
+ */
+const MAX_CRITERIA_DEPTH = 4;
+
+/**
+ * Log Filter Schema
+ */
+export const logFilterSchema = z
+    .object({
+        solved: z.boolean().optional(),
+        difficulties: z.array(z.enum(['Easy', 'Medium', 'Hard'])).min(1).optional(),
+        topicIds: z.array(z.string().min(1)).min(1).optional(),
+        categories: z.array(z.string().trim().min(1)).min(1).optional(),
+        hours: z
+            .object({
+                from: z.number().int().min(0).max(23),
+                to: z.number().int().min(0).max(24),
+            })
+            .strict()
+            .refine((h) => h.from !== h.to, 'Hour window cannot be empty')
+            .optional(),
+        minTimeMinutes: z.number().min(0).optional(),
+        maxTimeMinutes: z.number().min(0).optional(),
+        lastDays: z.number().int().min(1).max(365).optional(),
+        from: z.string().datetime({ offset: true }).optional(),
+        to: z.string().datetime({ offset: true }).optional(),
+    })
+    .strict()
+    .refine(
+        (f) => f.minTimeMinutes === undefined || f.maxTimeMinutes === undefined || f.minTimeMinutes <= f.maxTimeMinutes,
+        'minTimeMinutes must not exceed maxTimeMinutes'
+    )
+    .refine(
+        (f) => !f.from || !f.to || new Date(f.from) < new Date(f.to),
+        'from must be before to'
+    );
+
+/**
+ * Leaf Rule Schema
+ */
+const badgeRuleSchema = z.discriminatedUnion('type', [
+    z
+        .object({
+            type: z.literal('count'),
+            min: z.number().int().min(1),
+            per: z.enum(['all_time', 'day']).optional(),
+            where: logFilterSchema.optional(),
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('active_days'),
+            min: z.number().int().min(1),
+            where: logFilterSchema.optional(),
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('accuracy'),
+            min: z.number().min(1).max(100),
+            minAttempts: z.number().int().min(1).optional(),
+            where: logFilterSchema.optional(),
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('streak'),
+            min: z.number().int().min(1),
+        })
+        .strict(),
+]);
+
+const criteriaDepth = (criteria: BadgeCriteria): number => {
+    if ('all' in criteria) return 1 + Math.max(0, ...criteria.all.map(criteriaDepth));
+    if ('any' in criteria) return 1 + Math.max(0, ...criteria.any.map(criteriaDepth));
+    return 0;
+};
+
+const criteriaNodeSchema: z.ZodType<BadgeCriteria> = z.lazy(() =>
+    z.union([
+        badgeRuleSchema,
+        z.object({ all: z.array(criteriaNodeSchema).min(1).max(10) }).strict(),
+        z.object({ any: z.array(criteriaNodeSchema).min(1).max(10) }).strict(),
+    ])
+);
+
+/**
+ * Badge Criteria Schema
+ */
+export const badgeCriteriaSchema = criteriaNodeSchema.refine(
+    (criteria) => criteriaDepth(criteria) <= MAX_CRITERIA_DEPTH,
+    `Criteria can nest at most ${MAX_CRITERIA_DEPTH} all/any groups`
+);
+
+/**
+ * Badge Tier Schema
+ */
+const TIER_ORDER = ['bronze', 'silver', 'gold', 'platinum'] as const;
+
+const badgeTiersSchema = z
+    .array(
+        z
+            .object({
+                tier: z.enum(TIER_ORDER),
+                criteria: badgeCriteriaSchema,
+                points: z.number().int().min(0).max(1000),
+            })
+            .strict()
+    )
+    .min(2, 'A tiered badge needs at least 2 tiers')
+    .max(TIER_ORDER.length)
+    .refine(
+        (tiers) => tiers.every((t, i) => i === 0 || TIER_ORDER.indexOf(t.tier) > TIER_ORDER.indexOf(tiers[i - 1].tier)),
+        'Tiers must be unique and listed lowest first (bronze → platinum)'
+    );
+
+const badgeFieldsSchema = z.object({
+    badgeId: z
+        .string({
+            required_error: 'Badge ID is required',
+        })
+        .regex(/^[a-z0-9_]+$/, 'Badge ID must be lowercase letters, digits and underscores')
+        .max(50, 'Badge ID too long'),
+
+    name: z
+        .string({
+            required_error: 'Badge name is required',
+        })
+        .min(1, 'Badge name cannot be empty')
+        .max(50, 'Badge name too long')
+        .trim(),
+
+    description: z
+        .string({
+            required_error: 'Badge description is required',
+        })
+        .min(1, 'Badge description cannot be empty')
+        .max(200, 'Badge description too long')
+        .trim(),
+
+    category: z.enum(['consistency', 'milestone', 'mastery', 'special']),
+
+    criteria: badgeCriteriaSchema.optional(),
+
+    tiers: badgeTiersSchema.optional(),
+
+    repeatable: z.boolean().optional(),
+
+    iconUrl: z.string().min(1).optional(),
+
+    rarity: z.enum(['common', 'rare', 'epic', 'legendary']).optional(),
+
+    points: z.number().int().min(0).max(1000).optional(),
+});
+
+/**
+ * Create Badge Schema
+ *
+ * Exactly one of criteria (plain / repeatable) or tiers (tiered)
+ */
+export const createBadgeSchema = badgeFieldsSchema
+    .refine((b) => !!b.criteria !== !!b.tiers, 'Provide either criteria or tiers')
+    .refine((b) => !(b.tiers && b.repeatable), 'Tiered badges cannot be repeatable');
+
+/**
+ * Update Badge Schema
+ *
+ * All fields optional; badgeId can't change (earned badges reference it)
+ */
+export const updateBadgeSchema = badgeFieldsSchema
+    .omit({ badgeId: true })
+    .partial()
+    .refine((b) => !(b.criteria && b.tiers), 'Provide either criteria or tiers')
+    .refine((b) => !(b.tiers && b.repeatable), 'Tiered badges cannot be repeatable');
+
+/**
+ * Preview Criteria Schema
+ *
+ * Evaluate draft criteria against a user before saving the badge
+ */
+export const previewCriteriaSchema = z.object({
+    userId: z.string().min(1, 'User ID is required'),
+    criteria: badgeCriteriaSchema,
+});
+
+/**
+ * Type Inference
+ */
+export type CreateBadgeInput = z.infer<typeof createBadgeSchema>;
+export type UpdateBadgeInput = z.infer<typeof updateBadgeSchema>;
+export type PreviewCriteriaInput = z.infer<typeof previewCriteriaSchema>;
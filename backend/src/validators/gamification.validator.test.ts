@@ -0,0 +1,23 @@
+import { getLeaderboardSchema, getCollegeLeaderboardSchema } from './gamification.validator';
+
+describe('getLeaderboardSchema', () => {
+    it('defaults to the first 50 entries', () => {
+        expect(getLeaderboardSchema.parse({})).toMatchObject({ limit: 50, skip: 0, period: 'all' });
+    });
+
+    it('parses limit and skip', () => {
+        expect(getLeaderboardSchema.parse({ limit: '10', skip: '20' })).toMatchObject({ limit: 10, skip: 20 });
+    });
+
+    it.each(['0', '-5', '101', 'abc'])('rejects limit=%s', (limit) => {
+        expect(getLeaderboardSchema.safeParse({ limit }).success).toBe(false);
+    });
+
+    it.each(['-1', 'abc'])('rejects skip=%s', (skip) => {
+        expect(getLeaderboardSchema.safeParse({ skip }).success).toBe(false);
+    });
+
+    it('applies the same bounds to college boards', () => {
+        expect(getCollegeLeaderboardSchema.safeParse({ limit: '0' }).success).toBe(false);
+    });
+});
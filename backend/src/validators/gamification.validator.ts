@@ -5,14 +5,100 @@
  */
 
 import { z } from 'zod';
+import { POINT_SOURCES, PointSource } from '../types/points.types';
+import { LEADERBOARD_PERIODS, LeaderboardPeriod } from '../types/gamification.types';
 
 /**
  * Get Leaderboard Query Schema
+ *
+ * Example: ?limit=50&skip=0&period=week
+ * limit and skip become a Redis range, so they're bounded here
  */
 export const getLeaderboardSchema = z.object({
-    limit: z.string().optional().transform(val => val ? parseInt(val) : 50),
-    skip: z.string().optional().transform(val => val ? parseInt(val) : 0),
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().int().min(1).max(100))
+        .optional()
+        .default('50'),
+
+    skip: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().int().min(0))
+        .optional()
+        .default('0'),
+
+    topicId: z.string().optional(),
+    period: z.enum(LEADERBOARD_PERIODS as [LeaderboardPeriod, ...LeaderboardPeriod[]]).default('all'),
+});
+
+/**
+ * Graduation year (same range as the profile)
+ */
+const graduationYearSchema = z
+    .string()
+    .regex(/^\d{4}$/, 'Graduation year must be a year')
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(2020).max(2030));
+
+/**
+ * College Leaderboard Query Schema (year narrows it to one cohort)
+ */
+export const getCollegeLeaderboardSchema = getLeaderboardSchema.pick({ limit: true, skip: true }).extend({
+    year: graduationYearSchema.optional(),
+});
+
+/**
+ * Cohort Leaderboard Params Schema
+ */
+export const cohortParamsSchema = z.object({
+    year: graduationYearSchema,
+});
+
+/**
+ * Users Around Me Query Schema
+ */
+export const getAroundMeSchema = z.object({
+    radius: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(25))
+        .optional()
+        .default('5'),
+
     topicId: z.string().optional(),
+    period: z.enum(LEADERBOARD_PERIODS as [LeaderboardPeriod, ...LeaderboardPeriod[]]).default('all'),
+});
+
+/**
+ * Rank History Query Schema
+ *
+ * Example: ?days=30&topicId=...
+ */
+export const getRankHistorySchema = z.object({
+    days: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(365))
+        .optional()
+        .default('30'),
+
+    topicId: z.string().optional(),
+});
+
+/**
+ * Period Winners Query Schema
+ */
+export const getPeriodWinnersSchema = z.object({
+    period: z.enum(['day', 'week', 'month', 'season']).default('week'),
+
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(52))
+        .optional()
+        .default('10'),
 });
 
 /**
@@ -28,3 +114,86 @@ export const completeChallengeSchema = z.object({
 export const getBadgeProgressSchema = z.object({
     badgeId: z.string().min(1, 'Badge ID is required'),
 });
+
+/**
+ * Get Streak Calendar Query Schema
+ * days: How many days to show, ending today (default: 35 = 5 weeks)
+ */
+export const getStreakCalendarSchema = z.object({
+    days: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(7).max(365))
+        .optional()
+        .default('35'),
+});
+
+/**
+ * Update Economy Config Schema (admin)
+ * Every field is optional; levelTitles replaces the whole list and must
+ * start at level 1
+ */
+const pointsSchema = z.number().int().min(0).max(10000);
+
+export const updateEconomyConfigSchema = z
+    .object({
+        practicePoints: z
+            .object({
+                Easy: pointsSchema.optional(),
+                Medium: pointsSchema.optional(),
+                Hard: pointsSchema.optional(),
+            })
+            .strict()
+            .optional(),
+        firstSolveBonus: pointsSchema.optional(),
+        repeatSolveMultipliers: z.array(z.number().min(0).max(1)).max(10).optional(),
+        challengeRewardPoints: pointsSchema.optional(),
+        levelCurve: z
+            .object({
+                basePoints: z.number().min(1).max(100000),
+                exponent: z.number().min(1).max(3),
+            })
+            .strict()
+            .optional(),
+        levelTitles: z
+            .array(
+                z.object({
+                    level: z.number().int().min(1),
+                    title: z.string().trim().min(1).max(40),
+                }).strict()
+            )
+            .min(1)
+            .max(50)
+            .refine((titles) => titles.some((t) => t.level === 1), 'A title for level 1 is required')
+            .refine((titles) => new Set(titles.map((t) => t.level)).size === titles.length, 'Title levels must be unique')
+            .optional(),
+    })
+    .strict();
+
+/**
+ * Get Points History Query Schema
+ *
+ * Example: ?limit=20&skip=0&source=badge
+ */
+export const getPointHistorySchema = z.object({
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(100))
+        .optional()
+        .default('20'),
+
+    skip: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(0))
+        .optional()
+        .default('0'),
+
+    source: z.enum(POINT_SOURCES as [PointSource, ...PointSource[]]).optional(),
+});
+
+/**
+ * List Point Drift Query Schema (admin)
+ */
+export const listPointDriftSchema = getPointHistorySchema.omit({ source: true });
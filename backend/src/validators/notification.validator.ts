@@ -0,0 +1,49 @@
+/**
+ * Notification Validators
+ *
+ * Zod schemas for the notification center endpoints.
+ */
+
+import { z } from 'zod';
+import { NOTIFICATION_TYPES, NotificationType } from '../types/notification.types';
+
+/**
+ * Get Notifications Query Schema
+ *
+ * Example: ?limit=20&skip=0&unreadOnly=true
+ */
+export const getNotificationsSchema = z.object({
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(50))
+        .optional()
+        .default('20'),
+
+    skip: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(0))
+        .optional()
+        .default('0'),
+
+    unreadOnly: z
+        .enum(['true', 'false'])
+        .transform((val) => val === 'true')
+        .optional()
+        .default('false'),
+});
+
+/**
+ * Update Notification Preferences Schema
+ * mutedTypes replaces the whole list ([] = everything on)
+ */
+export const updateNotificationPreferencesSchema = z.object({
+    mutedTypes: z.array(z.enum(NOTIFICATION_TYPES as [NotificationType, ...NotificationType[]])),
+});
+
+/**
+ * Type Inference
+ */
+export type GetNotificationsInput = z.infer<typeof getNotificationsSchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
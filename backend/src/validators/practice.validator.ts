@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { REVIEW_STATUSES, ReviewStatus } from '../types/practice.types';
 
 /**
  * Log Practice Schema
@@ -63,6 +64,13 @@ export const logPracticeSchema = z.object({
         .optional(),
 });
 
+/**
+ * Update Practice Log Schema
+ * 
+ * Same rules as logPracticeSchema, all fields optional (PATCH)
+ */
+export const updatePracticeLogSchema = logPracticeSchema.partial();
+
 /**
  * Get Practice History Query Schema
  * 
@@ -95,9 +103,152 @@ export const getPracticeStatsSchema = z.object({
     topicId: z.string().optional(),
 });
 
+/**
+ * Grade Review Schema
+ * 
+ * Validates SM-2 review grading request
+ * Grade scale: 0-2 = failed recall, 3 = hard, 4 = good, 5 = easy
+ */
+export const gradeReviewSchema = z.object({
+    grade: z
+        .number({
+            required_error: 'Grade is required',
+            invalid_type_error: 'Grade must be a number',
+        })
+        .int('Grade must be a whole number')
+        .min(0, 'Grade must be between 0 and 5')
+        .max(5, 'Grade must be between 0 and 5'),
+
+    timeSpentMinutes: z
+        .number()
+        .int('Time must be a whole number')
+        .min(1, 'Time must be at least 1 minute')
+        .max(300, 'Time cannot exceed 300 minutes (5 hours)')
+        .optional(),
+
+    notes: z
+        .string()
+        .max(500, 'Notes cannot exceed 500 characters')
+        .optional(),
+});
+
+/**
+ * Get Due Reviews Query Schema
+ */
+export const getDueReviewsSchema = z.object({
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(100))
+        .optional()
+        .default('20'),
+});
+
+/**
+ * Import Practice Schema
+ * 
+ * Validates bulk import of practice history from other judges
+ */
+export const importPracticeSchema = z.object({
+    source: z.enum(['leetcode', 'codeforces', 'generic']).default('generic'),
+
+    format: z.enum(['csv', 'json'], {
+        required_error: 'Format is required',
+        invalid_type_error: 'Format must be csv or json',
+    }),
+
+    data: z
+        .string({
+            required_error: 'File data is required',
+        })
+        .min(1, 'File data cannot be empty'),
+
+    defaultTopicId: z.string().min(1).optional(),
+
+    defaultTimeSpentMinutes: z
+        .number()
+        .int('Time must be a whole number')
+        .min(1, 'Time must be at least 1 minute')
+        .max(300, 'Time cannot exceed 300 minutes (5 hours)')
+        .default(20),
+
+    dryRun: z.boolean().default(true), // Preview unless explicitly committed
+});
+
+/**
+ * Start Session Schema
+ */
+export const startSessionSchema = z.object({
+    topicId: z
+        .string({
+            required_error: 'Topic ID is required',
+        })
+        .min(1, 'Topic ID cannot be empty'),
+});
+
+/**
+ * Finish Session Schema
+ * 
+ * Questions practiced in the session (time comes from the server)
+ */
+export const finishSessionSchema = z.object({
+    questions: z
+        .array(
+            logPracticeSchema.pick({
+                questionTitle: true,
+                questionUrl: true,
+                difficulty: true,
+                solved: true,
+                notes: true,
+            })
+        )
+        .max(50, 'Too many questions in one session')
+        .default([]),
+});
+
+/**
+ * Review Queue Query Schema (admin)
+ */
+export const getReviewQueueSchema = z.object({
+    status: z.enum(REVIEW_STATUSES as [ReviewStatus, ...ReviewStatus[]]).default('pending'),
+
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(100))
+        .optional()
+        .default('20'),
+
+    skip: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(0))
+        .optional()
+        .default('0'),
+});
+
+/**
+ * Review Decision Schema (admin approve / reject)
+ */
+export const reviewDecisionSchema = z.object({
+    note: z
+        .string()
+        .max(500, 'Note cannot exceed 500 characters')
+        .trim()
+        .optional(),
+});
+
 /**
  * Type Inference
  */
 export type LogPracticeInput = z.infer<typeof logPracticeSchema>;
+export type UpdatePracticeLogInput = z.infer<typeof updatePracticeLogSchema>;
 export type GetPracticeHistoryInput = z.infer<typeof getPracticeHistorySchema>;
 export type GetPracticeStatsInput = z.infer<typeof getPracticeStatsSchema>;
+export type GradeReviewInput = z.infer<typeof gradeReviewSchema>;
+export type GetDueReviewsInput = z.infer<typeof getDueReviewsSchema>;
+export type ImportPracticeInput = z.infer<typeof importPracticeSchema>;
+export type StartSessionInput = z.infer<typeof startSessionSchema>;
+export type FinishSessionInput = z.infer<typeof finishSessionSchema>;
+export type GetReviewQueueInput = z.infer<typeof getReviewQueueSchema>;
+export type ReviewDecisionInput = z.infer<typeof reviewDecisionSchema>;
@@ -0,0 +1,72 @@
+/**
+ * Question Validation Schemas
+ *
+ * Zod schemas for validating question bank requests (admin).
+ */
+
+import { z } from 'zod';
+import { QUESTION_PLATFORMS } from '../models/Question';
+
+/**
+ * Create Question Schema
+ */
+export const createQuestionSchema = z.object({
+    title: z
+        .string({
+            required_error: 'Question title is required',
+        })
+        .min(1, 'Question title cannot be empty')
+        .max(200, 'Question title too long')
+        .trim(),
+
+    url: z.string().url('Invalid URL format').optional(),
+
+    platform: z.enum(QUESTION_PLATFORMS).optional(),
+
+    topicIds: z.array(z.string().min(1)).optional(),
+
+    difficulty: z.enum(['Easy', 'Medium', 'Hard'], {
+        required_error: 'Difficulty is required',
+        invalid_type_error: 'Difficulty must be Easy, Medium, or Hard',
+    }),
+
+    tags: z.array(z.string().trim().toLowerCase()).max(20, 'Too many tags').optional(),
+});
+
+/**
+ * Update Question Schema
+ *
+ * All fields optional
+ */
+export const updateQuestionSchema = createQuestionSchema.partial();
+
+/**
+ * Get Questions Query Schema
+ */
+export const getQuestionsSchema = z.object({
+    search: z.string().optional(),
+    topicId: z.string().optional(),
+    platform: z.enum(QUESTION_PLATFORMS).optional(),
+    difficulty: z.enum(['Easy', 'Medium', 'Hard']).optional(),
+
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(100))
+        .optional()
+        .default('20'),
+
+    skip: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(0))
+        .optional()
+        .default('0'),
+});
+
+/**
+ * Type Inference
+ */
+export type CreateQuestionInput = z.infer<typeof createQuestionSchema>;
+export type UpdateQuestionInput = z.infer<typeof updateQuestionSchema>;
+export type GetQuestionsInput = z.infer<typeof getQuestionsSchema>;
@@ -0,0 +1,41 @@
+/**
+ * Social Validators
+ *
+ * Zod schemas for follows, friend requests and the activity feed.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Paginated Social List Query Schema (followers, friends, feed)
+ *
+ * Example: ?limit=20&skip=0
+ */
+export const getSocialListSchema = z.object({
+    limit: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(1).max(50))
+        .optional()
+        .default('20'),
+
+    skip: z
+        .string()
+        .transform((val) => parseInt(val, 10))
+        .pipe(z.number().min(0))
+        .optional()
+        .default('0'),
+});
+
+/**
+ * Send Friend Request Schema
+ */
+export const sendFriendRequestSchema = z.object({
+    userId: z.string().min(1, 'User ID is required'),
+});
+
+/**
+ * Type Inference
+ */
+export type GetSocialListInput = z.infer<typeof getSocialListSchema>;
+export type SendFriendRequestInput = z.infer<typeof sendFriendRequestSchema>;
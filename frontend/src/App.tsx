@@ -9,6 +9,7 @@ import { Toaster } from 'react-hot-toast';
 import { router } from './router';
 import { useEffect } from 'react';
 import { useAuthStore } from './store/authStore';
+import { AchievementListener } from './components/features/gamification/AchievementListener';
 
 // Create React Query client
 const queryClient = new QueryClient({
@@ -42,6 +43,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <RouterProvider router={router} />
+      <AchievementListener />
       <Toaster
         position="top-right"
         toastOptions={{
@@ -0,0 +1,73 @@
+/**
+ * Achievement Listener Component
+ * Shows badge awards, level-ups, streak milestones and completed challenges
+ * as they are pushed over the socket (one at a time), and keeps the replay
+ * cursor so achievements missed while disconnected arrive on reconnect
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useSocket, LAST_ACHIEVEMENT_KEY } from '@/hooks/useSocket';
+import { AchievementNotification, type Achievement } from './AchievementNotification';
+import type { AchievementEvent } from '@/types';
+
+const ICONS: Record<AchievementEvent['type'], string> = {
+    badge_awarded: '🏅',
+    level_up: '⬆️',
+    streak_milestone: '🔥',
+    challenge_completed: '🎯',
+};
+
+const toAchievement = (event: AchievementEvent): Achievement => ({
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    points: event.points,
+    icon: ICONS[event.type],
+    rarity: event.rarity,
+});
+
+export const AchievementListener = () => {
+    const { socket } = useSocket();
+    const queryClient = useQueryClient();
+    const [queue, setQueue] = useState<Achievement[]>([]);
+
+    useEffect(() => {
+        if (!socket) return;
+
+        const handleAchievement = (event: AchievementEvent) => {
+            // Ids increase, so anything at or before the cursor was already shown
+            const lastSeen = localStorage.getItem(LAST_ACHIEVEMENT_KEY);
+            if (lastSeen && event.id <= lastSeen) return;
+            localStorage.setItem(LAST_ACHIEVEMENT_KEY, event.id);
+
+            setQueue((current) => [...current, toAchievement(event)]);
+            queryClient.invalidateQueries({ queryKey: ['my-badges'] });
+            queryClient.invalidateQueries({ queryKey: ['badge-progress'] });
+            queryClient.invalidateQueries({ queryKey: ['overall-progress'] });
+            queryClient.invalidateQueries({ queryKey: ['notifications'] });
+            if (event.type === 'challenge_completed') {
+                queryClient.invalidateQueries({ queryKey: ['daily-challenge'] });
+            }
+        };
+
+        // Sent instead of a replay when we had no (valid) cursor
+        const handleCursor = (cursor: string) => {
+            localStorage.setItem(LAST_ACHIEVEMENT_KEY, cursor);
+        };
+
+        socket.on('achievement', handleAchievement);
+        socket.on('achievement-cursor', handleCursor);
+
+        return () => {
+            socket.off('achievement', handleAchievement);
+            socket.off('achievement-cursor', handleCursor);
+        };
+    }, [socket, queryClient]);
+
+    const handleClose = useCallback(() => {
+        setQueue((current) => current.slice(1));
+    }, []);
+
+    return <AchievementNotification achievement={queue[0] ?? null} onClose={handleClose} />;
+};
@@ -1,18 +1,51 @@
 /**
  * Badge Showcase Component
- * Displays all available and earned badges
+ * Displays all available and earned badges (with tiers and repeat counts),
+ * plus "almost there" hints for the next badges, tiers or repeats closest
+ * to completion
  */
 
+import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { Award, Lock, Star } from 'lucide-react';
-import type { UserBadge } from '@/types';
+import { Award, Lock, Star, Target } from 'lucide-react';
+import { badgeService } from '@/services/badge.service';
+import { TierChip } from './TierChip';
+import type { BadgeProgress, UserBadge } from '@/types';
 
 interface BadgeShowcaseProps {
     badges: UserBadge[];
     allBadges?: any[];
 }
 
+// Hints start at half way; more than three gets noisy
+const HINT_MIN_PROGRESS = 50;
+const MAX_HINTS = 3;
+
+const getHint = ({ current, target, unit }: BadgeProgress): string => {
+    const remaining = Math.max(0, target - current);
+    switch (unit) {
+        case 'percent':
+            return `${remaining}% more accuracy to go`;
+        case 'days':
+            return `${remaining} more day${remaining === 1 ? '' : 's'} to go`;
+        case 'rules':
+            return `${remaining} more goal${remaining === 1 ? '' : 's'} to go`;
+        default:
+            return `${remaining} more problem${remaining === 1 ? '' : 's'} to go`;
+    }
+};
+
 export const BadgeShowcase = ({ badges }: BadgeShowcaseProps) => {
+    const { data: progress = [] } = useQuery({
+        queryKey: ['badge-progress'],
+        queryFn: badgeService.getMyBadgeProgress,
+    });
+
+    const almostThere = progress
+        .filter((p) => p.progress >= HINT_MIN_PROGRESS && p.progress < 100)
+        .sort((a, b) => b.progress - a.progress)
+        .slice(0, MAX_HINTS);
+
     const getRarityColor = (rarity: string) => {
         switch (rarity) {
             case 'legendary':
@@ -51,6 +84,32 @@ export const BadgeShowcase = ({ badges }: BadgeShowcaseProps) => {
                 </span>
             </div>
 
+            {almostThere.length > 0 && (
+                <div className="mb-6 space-y-3">
+                    <h4 className="text-white/80 text-sm font-semibold flex items-center gap-2">
+                        <Target className="w-4 h-4 text-primary-400" />
+                        Almost there
+                    </h4>
+                    {almostThere.map((p) => (
+                        <div key={p.badge.badgeId} className="p-3 rounded-xl bg-white/5 border border-white/10">
+                            <div className="flex items-center justify-between mb-2">
+                                <span className="text-white text-sm font-semibold flex items-center gap-2">
+                                    {getRarityIcon(p.badge.rarity)} {p.badge.name}
+                                    {p.nextTier && <TierChip tier={p.nextTier} />}
+                                </span>
+                                <span className="text-white/60 text-xs">{getHint(p)}</span>
+                            </div>
+                            <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                                <div
+                                    className={`h-full bg-gradient-to-r ${getRarityColor(p.badge.rarity)}`}
+                                    style={{ width: `${p.progress}%` }}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {badges.length > 0 ? (
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                     {badges.map((userBadge, index) => {
@@ -71,7 +130,15 @@ export const BadgeShowcase = ({ badges }: BadgeShowcaseProps) => {
                                     </div>
                                     <h4 className="text-white text-sm font-semibold text-center mb-1">
                                         {badge?.name || 'Badge'}
+                                        {!userBadge.tier && (userBadge.earnCount || 1) > 1 && (
+                                            <span className="text-white/60"> ×{userBadge.earnCount}</span>
+                                        )}
                                     </h4>
+                                    {userBadge.tier && (
+                                        <div className="flex justify-center mb-1">
+                                            <TierChip tier={userBadge.tier} />
+                                        </div>
+                                    )}
                                     <p className="text-white/60 text-xs text-center mb-2 line-clamp-2">
                                         {badge?.description || 'Achievement unlocked'}
                                     </p>
@@ -1,17 +1,64 @@
 /**
  * Streak Tracker Component
- * Displays user's current and longest streak
+ * Displays user's current and longest streak, streak freezes and a
+ * calendar of practiced / frozen / missed days
  */
 
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { Flame, Calendar, TrendingUp } from 'lucide-react';
+import { Flame, Calendar, TrendingUp, Snowflake } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { isAxiosError } from 'axios';
+import { streakService } from '@/services/streak.service';
+import type { StreakDayStatus } from '@/types';
 
 interface StreakTrackerProps {
     currentStreak: number;
     longestStreak: number;
 }
 
-export const StreakTracker = ({ currentStreak, longestStreak }: StreakTrackerProps) => {
+const DAY_STYLES: Record<StreakDayStatus, string> = {
+    practiced: 'bg-gradient-to-br from-orange-400 to-red-500',
+    frozen: 'bg-cyan-400/40 border border-cyan-300/60',
+    missed: 'bg-white/5',
+    pending: 'border border-dashed border-white/40',
+};
+
+const DAY_LABELS: Record<StreakDayStatus, string> = {
+    practiced: 'Practiced',
+    frozen: 'Covered by a streak freeze',
+    missed: 'Missed',
+    pending: 'Today - practice to keep your streak',
+};
+
+export const StreakTracker = (props: StreakTrackerProps) => {
+    const queryClient = useQueryClient();
+
+    const { data: calendar } = useQuery({
+        queryKey: ['streak-calendar'],
+        queryFn: () => streakService.getStreakCalendar(35),
+    });
+
+    const purchaseMutation = useMutation({
+        mutationFn: streakService.purchaseStreakFreeze,
+        onSuccess: () => {
+            toast.success('Streak freeze added!');
+            queryClient.invalidateQueries({ queryKey: ['streak-calendar'] });
+            queryClient.invalidateQueries({ queryKey: ['overall-progress'] });
+        },
+        onError: (error) => {
+            const message = isAxiosError(error) ? error.response?.data?.message : undefined;
+            toast.error(message || 'Failed to buy streak freeze');
+        },
+    });
+
+    // The calendar is fresher than the parent's numbers once loaded
+    const currentStreak = calendar?.currentStreak ?? props.currentStreak;
+    const longestStreak = calendar?.longestStreak ?? props.longestStreak;
+    const days = calendar?.days || [];
+    const practicedThisWeek = days.slice(-7).filter((day) => day.status === 'practiced').length;
+    const canBuyFreeze = calendar && calendar.streakFreezes < calendar.maxStreakFreezes;
+
     const getStreakColor = (streak: number) => {
         if (streak >= 30) return 'from-purple-500 to-pink-500';
         if (streak >= 14) return 'from-orange-500 to-red-500';
@@ -77,10 +124,56 @@ export const StreakTracker = ({ currentStreak, longestStreak }: StreakTrackerPro
                         <Calendar className="w-4 h-4 text-blue-400" />
                         <span className="text-white/60 text-xs">This Week</span>
                     </div>
-                    <p className="text-2xl font-bold text-white">{Math.min(currentStreak, 7)}</p>
+                    <p className="text-2xl font-bold text-white">{practicedThisWeek}</p>
                     <p className="text-white/40 text-xs">days</p>
                 </div>
             </div>
+
+            {/* Calendar (oldest first, one column per week) */}
+            {days.length > 0 && (
+                <div className="mt-6">
+                    <div className="grid grid-rows-7 grid-flow-col gap-1 justify-center">
+                        {days.map((day) => (
+                            <div
+                                key={day.date}
+                                title={`${day.date}: ${DAY_LABELS[day.status]}`}
+                                className={`w-5 h-5 rounded ${DAY_STYLES[day.status]} flex items-center justify-center`}
+                            >
+                                {day.status === 'frozen' && <Snowflake className="w-3 h-3 text-cyan-100" />}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-center gap-3 mt-3 text-white/50 text-xs">
+                        <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded ${DAY_STYLES.practiced}`} />Practiced</span>
+                        <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded ${DAY_STYLES.frozen}`} />Frozen</span>
+                        <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded ${DAY_STYLES.missed}`} />Missed</span>
+                    </div>
+                </div>
+            )}
+
+            {/* Streak Freezes */}
+            {calendar && (
+                <div className="mt-6 p-4 rounded-lg bg-white/5 flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-2">
+                        <Snowflake className="w-5 h-5 text-cyan-300" />
+                        <div>
+                            <p className="text-white font-semibold text-sm">
+                                {calendar.streakFreezes}/{calendar.maxStreakFreezes} streak freezes
+                            </p>
+                            <p className="text-white/40 text-xs">Covers one missed day automatically</p>
+                        </div>
+                    </div>
+                    {canBuyFreeze && (
+                        <button
+                            onClick={() => purchaseMutation.mutate()}
+                            disabled={purchaseMutation.isPending}
+                            className="px-3 py-2 rounded-lg bg-cyan-500/20 text-cyan-200 text-xs font-semibold hover:bg-cyan-500/30 transition-all disabled:opacity-50 whitespace-nowrap"
+                        >
+                            Buy ({calendar.freezeCost} pts)
+                        </button>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
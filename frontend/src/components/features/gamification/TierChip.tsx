@@ -0,0 +1,31 @@
+/**
+ * Tier Chip Component
+ * Small bronze / silver / gold / platinum label for tiered badges
+ */
+
+import type { BadgeTier } from '@/types';
+
+interface TierChipProps {
+    tier: BadgeTier;
+    count?: number; // Shown as "×N" (e.g., leaderboard tier totals)
+}
+
+const TIER_STYLES: Record<BadgeTier, { icon: string; label: string; className: string }> = {
+    bronze: { icon: '🥉', label: 'Bronze', className: 'bg-orange-700/30 text-orange-300 border-orange-500/40' },
+    silver: { icon: '🥈', label: 'Silver', className: 'bg-gray-400/20 text-gray-200 border-gray-300/40' },
+    gold: { icon: '🥇', label: 'Gold', className: 'bg-yellow-500/20 text-yellow-300 border-yellow-400/40' },
+    platinum: { icon: '💠', label: 'Platinum', className: 'bg-cyan-400/20 text-cyan-200 border-cyan-300/40' },
+};
+
+export const TierChip = ({ tier, count }: TierChipProps) => {
+    const style = TIER_STYLES[tier];
+    return (
+        <span
+            title={style.label}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-semibold ${style.className}`}
+        >
+            {style.icon}
+            {count === undefined ? style.label : `×${count}`}
+        </span>
+    );
+};
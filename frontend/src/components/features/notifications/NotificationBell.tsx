@@ -0,0 +1,231 @@
+/**
+ * Notification Bell Component
+ * Header bell with unread count; opens the notification center
+ * (newest first, mark read, mark all read, per-type mute settings)
+ */
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bell, BellOff, CheckCheck, Settings } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { notificationService } from '@/services/notification.service';
+import type { AppNotification, NotificationType } from '@/types';
+
+const PAGE_SIZE = 10;
+const MAX_LOADED = 50; // Server's max page size
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+    badge_awarded: 'Badges',
+    level_up: 'Level-ups',
+    streak_milestone: 'Streak milestones',
+    challenge_completed: 'Daily challenges',
+    rank_change: 'Leaderboard rank changes',
+    room_closed: 'Study room updates',
+    recommendation_expiring: 'Expiring recommendations',
+    new_follower: 'New followers',
+    friend_request: 'Friend requests',
+    friend_accepted: 'Accepted friend requests',
+    room_invite: 'Study room invites',
+};
+
+const TYPE_ICONS: Record<NotificationType, string> = {
+    badge_awarded: '🏅',
+    level_up: '⬆️',
+    streak_milestone: '🔥',
+    challenge_completed: '🎯',
+    rank_change: '🏆',
+    room_closed: '👥',
+    recommendation_expiring: '⏳',
+    new_follower: '👋',
+    friend_request: '🤝',
+    friend_accepted: '🤝',
+    room_invite: '📨',
+};
+
+const formatAge = (date: string) => {
+    const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ago`;
+    return `${Math.floor(hours / 24)}d ago`;
+};
+
+export const NotificationBell = () => {
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const [isOpen, setIsOpen] = useState(false);
+    const [showSettings, setShowSettings] = useState(false);
+    const [limit, setLimit] = useState(PAGE_SIZE);
+
+    const { data } = useQuery({
+        queryKey: ['notifications', limit],
+        queryFn: () => notificationService.getNotifications({ limit }),
+        refetchInterval: 60 * 1000,
+    });
+
+    const { data: preferences } = useQuery({
+        queryKey: ['notification-preferences'],
+        queryFn: notificationService.getPreferences,
+        enabled: showSettings,
+    });
+
+    const markReadMutation = useMutation({
+        mutationFn: notificationService.markRead,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+    });
+
+    const markAllMutation = useMutation({
+        mutationFn: notificationService.markAllRead,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+    });
+
+    const preferencesMutation = useMutation({
+        mutationFn: notificationService.updatePreferences,
+        onSuccess: (updated) => {
+            queryClient.setQueryData(['notification-preferences'], updated);
+        },
+        onError: () => {
+            toast.error('Failed to update notification settings');
+        },
+    });
+
+    const notifications = data?.notifications || [];
+    const unreadCount = data?.unreadCount || 0;
+    const mutedTypes = preferences?.mutedTypes || [];
+
+    const handleOpen = (notification: AppNotification) => {
+        if (!notification.read) {
+            markReadMutation.mutate(notification._id);
+        }
+        if (notification.link) {
+            setIsOpen(false);
+            navigate(notification.link);
+        }
+    };
+
+    const toggleMuted = (type: NotificationType) => {
+        const next = mutedTypes.includes(type)
+            ? mutedTypes.filter((t) => t !== type)
+            : [...mutedTypes, type];
+        preferencesMutation.mutate(next);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="relative w-11 h-11 rounded-xl bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors"
+                aria-label="Notifications"
+            >
+                <Bell className="w-5 h-5 text-white" />
+                {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                )}
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <>
+                        {/* Click outside to close */}
+                        <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+
+                        <motion.div
+                            initial={{ opacity: 0, y: -10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -10 }}
+                            className="absolute right-0 mt-2 w-96 max-w-[90vw] z-50 backdrop-blur-xl bg-slate-900/95 rounded-2xl border border-white/20 shadow-2xl overflow-hidden"
+                        >
+                            <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+                                <h3 className="text-white font-bold">Notifications</h3>
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => markAllMutation.mutate()}
+                                        disabled={unreadCount === 0 || markAllMutation.isPending}
+                                        className="p-2 rounded-lg text-white/70 hover:bg-white/10 disabled:opacity-40 transition-colors"
+                                        title="Mark all read"
+                                    >
+                                        <CheckCheck className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => setShowSettings(!showSettings)}
+                                        className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${showSettings ? 'text-white' : 'text-white/70'}`}
+                                        title="Notification settings"
+                                    >
+                                        <Settings className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {showSettings ? (
+                                <div className="p-4 space-y-2">
+                                    <p className="text-white/60 text-sm mb-2">
+                                        Muted types are not saved here or shown as pop-ups.
+                                    </p>
+                                    {(Object.keys(TYPE_LABELS) as NotificationType[]).map((type) => {
+                                        const muted = mutedTypes.includes(type);
+                                        return (
+                                            <button
+                                                key={type}
+                                                onClick={() => toggleMuted(type)}
+                                                disabled={!preferences || preferencesMutation.isPending}
+                                                className="w-full flex items-center justify-between px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors disabled:opacity-50"
+                                            >
+                                                <span className="text-white text-sm">
+                                                    {TYPE_ICONS[type]} {TYPE_LABELS[type]}
+                                                </span>
+                                                {muted ? (
+                                                    <BellOff className="w-4 h-4 text-white/40" />
+                                                ) : (
+                                                    <Bell className="w-4 h-4 text-green-400" />
+                                                )}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            ) : (
+                                <div className="max-h-[28rem] overflow-y-auto">
+                                    {notifications.length === 0 ? (
+                                        <p className="text-white/60 text-sm text-center py-8">You're all caught up!</p>
+                                    ) : (
+                                        notifications.map((notification) => (
+                                            <button
+                                                key={notification._id}
+                                                onClick={() => handleOpen(notification)}
+                                                className={`w-full text-left flex items-start gap-3 px-4 py-3 border-b border-white/5 hover:bg-white/5 transition-colors ${notification.read ? 'opacity-60' : ''}`}
+                                            >
+                                                <span className="text-xl">{TYPE_ICONS[notification.type]}</span>
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-white text-sm font-semibold">{notification.title}</p>
+                                                    {notification.message && (
+                                                        <p className="text-white/60 text-xs mt-0.5">{notification.message}</p>
+                                                    )}
+                                                    <p className="text-white/40 text-xs mt-1">{formatAge(notification.createdAt)}</p>
+                                                </div>
+                                                {!notification.read && (
+                                                    <span className="w-2 h-2 mt-2 rounded-full bg-blue-400 flex-shrink-0" />
+                                                )}
+                                            </button>
+                                        ))
+                                    )}
+                                    {data && notifications.length < data.total && limit < MAX_LOADED && (
+                                        <button
+                                            onClick={() => setLimit(Math.min(limit + PAGE_SIZE, MAX_LOADED))}
+                                            className="w-full py-3 text-sm text-primary-400 hover:bg-white/5 transition-colors"
+                                        >
+                                            Load more
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </motion.div>
+                    </>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
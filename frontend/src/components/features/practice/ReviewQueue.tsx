@@ -0,0 +1,108 @@
+/**
+ * Review Queue Component
+ * Shows spaced-repetition reviews due today with quick grading buttons
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { Brain, ExternalLink, CheckCircle } from 'lucide-react';
+import { practiceService } from '@/services/practice.service';
+import type { ReviewItem } from '@/types';
+
+const GRADE_OPTIONS = [
+    { label: 'Again', grade: 1, color: 'bg-red-500/20 text-red-300 hover:bg-red-500/30' },
+    { label: 'Hard', grade: 3, color: 'bg-orange-500/20 text-orange-300 hover:bg-orange-500/30' },
+    { label: 'Good', grade: 4, color: 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/30' },
+    { label: 'Easy', grade: 5, color: 'bg-green-500/20 text-green-300 hover:bg-green-500/30' },
+];
+
+export const ReviewQueue = () => {
+    const queryClient = useQueryClient();
+
+    const { data } = useQuery({
+        queryKey: ['due-reviews'],
+        queryFn: () => practiceService.getDueReviews(5),
+    });
+
+    const gradeMutation = useMutation({
+        // One key per review due date: a retried request can't grade the same review twice
+        mutationFn: ({ review, grade }: { review: ReviewItem; grade: number }) =>
+            practiceService.gradeReview(review._id, { grade }, `review-grade-${review._id}-${review.dueAt}`),
+        onSuccess: () => {
+            // Grading logs a practice attempt, so progress and streak change too
+            queryClient.invalidateQueries({ queryKey: ['due-reviews'] });
+            queryClient.invalidateQueries({ queryKey: ['overall-progress'] });
+        },
+    });
+
+    const reviews = data?.reviews || [];
+
+    return (
+        <div className="backdrop-blur-xl bg-white/10 rounded-2xl p-6 border border-white/20">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                    <Brain className="w-6 h-6 text-purple-400" />
+                    Due for Review
+                </h2>
+                {data && data.total > 0 && (
+                    <span className="px-2 py-1 rounded-lg bg-white/20 text-white text-xs font-bold">
+                        {data.total}
+                    </span>
+                )}
+            </div>
+
+            {reviews.length === 0 ? (
+                <div className="flex items-center gap-3 text-white/60">
+                    <CheckCircle className="w-5 h-5 text-green-400" />
+                    <p>All caught up! Failed or slow questions show up here when they are due.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {reviews.map((review, index) => (
+                        <motion.div
+                            key={review._id}
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: index * 0.05 }}
+                            className="p-4 rounded-lg bg-white/5"
+                        >
+                            <div className="flex items-start justify-between gap-3 mb-3">
+                                <div>
+                                    <div className="flex items-center gap-2">
+                                        <h3 className="text-white font-semibold">{review.questionTitle}</h3>
+                                        {review.questionUrl && (
+                                            <a
+                                                href={review.questionUrl}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="text-white/40 hover:text-white/80 transition-colors"
+                                            >
+                                                <ExternalLink className="w-4 h-4" />
+                                            </a>
+                                        )}
+                                    </div>
+                                    <p className="text-white/50 text-xs">
+                                        {review.topicName || 'Topic'} · {review.difficulty} ·{' '}
+                                        {review.reason === 'failed' ? 'Not solved last time' : 'Solved slowly'}
+                                    </p>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-4 gap-2">
+                                {GRADE_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.label}
+                                        disabled={gradeMutation.isPending}
+                                        onClick={() => gradeMutation.mutate({ review, grade: option.grade })}
+                                        className={`py-1.5 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 ${option.color}`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </motion.div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
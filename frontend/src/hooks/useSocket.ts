@@ -9,6 +9,11 @@ import { useAuthStore } from '@/store/authStore';
 
 const SOCKET_URL = (import.meta.env.VITE_API_URL as string)?.replace('/api', '') || 'http://localhost:5000';
 
+/**
+ * Last achievement seen (see AchievementListener); missed ones are replayed on reconnect
+ */
+export const LAST_ACHIEVEMENT_KEY = 'lastAchievementId';
+
 export const useSocket = () => {
     const [socket, setSocket] = useState<Socket | null>(null);
     const [isConnected, setIsConnected] = useState(false);
@@ -28,8 +33,13 @@ export const useSocket = () => {
         if (!token) return;
 
         // Create socket connection with authentication
+        // auth is re-read on every reconnect: fresh token + achievement replay cursor
         const newSocket = io(SOCKET_URL, {
-            auth: { token },
+            auth: (cb) =>
+                cb({
+                    token: localStorage.getItem('accessToken') || token,
+                    lastAchievementId: localStorage.getItem(LAST_ACHIEVEMENT_KEY),
+                }),
             transports: ['websocket', 'polling'],
         });
 
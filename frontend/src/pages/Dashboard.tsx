@@ -24,6 +24,8 @@ import { challengeService } from '@/services/challenge.service';
 import { studyRoomService } from '@/services/studyRoom.service';
 import { useAuthStore } from '@/store/authStore';
 import { StreakTracker } from '@/components/features/gamification/StreakTracker';
+import { ReviewQueue } from '@/components/features/practice/ReviewQueue';
+import { NotificationBell } from '@/components/features/notifications/NotificationBell';
 
 export default function Dashboard() {
     const navigate = useNavigate();
@@ -133,11 +135,14 @@ export default function Dashboard() {
                             </h1>
                             <p className="text-white/60">Ready to continue your learning journey?</p>
                         </div>
-                        <div className="flex items-center gap-2">
-                            <Calendar className="w-5 h-5 text-white/60" />
-                            <span className="text-white/70">
-                                {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
-                            </span>
+                        <div className="flex items-center gap-4">
+                            <div className="flex items-center gap-2">
+                                <Calendar className="w-5 h-5 text-white/60" />
+                                <span className="text-white/70">
+                                    {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                                </span>
+                            </div>
+                            <NotificationBell />
                         </div>
                     </div>
                 </div>
@@ -215,6 +220,15 @@ export default function Dashboard() {
                             </div>
                         </motion.div>
 
+                        {/* Spaced-Repetition Reviews */}
+                        <motion.div
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: 0.5 }}
+                        >
+                            <ReviewQueue />
+                        </motion.div>
+
                         {/* Recent Activity / Progress Overview */}
                         <motion.div
                             initial={{ opacity: 0, y: 20 }}
@@ -5,26 +5,65 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { Trophy, Medal, TrendingUp, Target, Award, Crown } from 'lucide-react';
+import { Trophy, Medal, TrendingUp, Target, Award, Crown, ArrowUp, ArrowDown } from 'lucide-react';
 import { leaderboardService } from '@/services/leaderboard.service';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
+import { TierChip } from '@/components/features/gamification/TierChip';
+import type { BadgeTier, LeaderboardPeriod } from '@/types';
+
+const TIERS: BadgeTier[] = ['platinum', 'gold', 'silver', 'bronze'];
+
+const HISTORY_DAYS = 30;
+
+// Places moved since last week (all-time boards only: global, topic, college, cohort)
+function RankChange({ change }: { change?: number }) {
+    if (!change) return null;
+    const Icon = change > 0 ? ArrowUp : ArrowDown;
+    return (
+        <span
+            className={`inline-flex items-center text-xs font-semibold ${change > 0 ? 'text-green-400' : 'text-red-400'}`}
+            title={`${change > 0 ? 'Up' : 'Down'} ${Math.abs(change)} places this week`}
+        >
+            <Icon className="w-3 h-3" />
+            {Math.abs(change)}
+        </span>
+    );
+}
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+    { value: 'day', label: 'Today' },
+    { value: 'week', label: 'This Week' },
+    { value: 'month', label: 'This Month' },
+    { value: 'season', label: 'Season' },
+    { value: 'all', label: 'All Time' },
+];
 
 export default function Leaderboard() {
     const navigate = useNavigate();
     const { user } = useAuthStore();
     const [limit] = useState(50);
+    const [period, setPeriod] = useState<LeaderboardPeriod>('all');
 
     // Fetch leaderboard
     const { data: leaderboard = [], isLoading } = useQuery({
-        queryKey: ['leaderboard', limit],
-        queryFn: () => leaderboardService.getGlobalLeaderboard(limit),
+        queryKey: ['leaderboard', limit, period],
+        queryFn: () => leaderboardService.getGlobalLeaderboard(limit, period),
+        placeholderData: (previous) => previous, // Keep the list on screen while switching periods
     });
 
     // Fetch user's rank
     const { data: myRank } = useQuery({
-        queryKey: ['my-rank'],
-        queryFn: leaderboardService.getMyRank,
+        queryKey: ['my-rank', period],
+        queryFn: () => leaderboardService.getMyRank(period),
+        retry: 1,
+    });
+
+    // Rank history is kept for the all-time board only
+    const { data: rankHistory } = useQuery({
+        queryKey: ['my-rank-history', HISTORY_DAYS],
+        queryFn: () => leaderboardService.getMyRankHistory(HISTORY_DAYS),
+        enabled: period === 'all',
         retry: 1,
     });
 
@@ -78,7 +117,9 @@ export default function Leaderboard() {
                             </button>
                             <div>
                                 <h1 className="text-xl font-bold text-white">Global Leaderboard</h1>
-                                <p className="text-xs text-white/60">Top performers</p>
+                                <p className="text-xs text-white/60">
+                                    Top performers · {PERIODS.find((p) => p.value === period)?.label}
+                                </p>
                             </div>
                         </div>
                     </div>
@@ -87,6 +128,22 @@ export default function Leaderboard() {
 
             {/* Main Content */}
             <main className="relative z-10 max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+                {/* Period Switcher */}
+                <div className="flex flex-wrap gap-2 mb-8">
+                    {PERIODS.map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={() => setPeriod(value)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${period === value
+                                ? 'bg-gradient-to-r from-primary-400 to-accent-500 text-white'
+                                : 'bg-white/10 text-white/70 hover:bg-white/20'
+                                }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
                 {/* My Rank Card */}
                 {myRank && (
                     <motion.div
@@ -105,8 +162,18 @@ export default function Leaderboard() {
                                 </div>
                             </div>
                             <div className="text-right">
-                                <div className="text-3xl font-bold text-white">#{myRank.rank || 'N/A'}</div>
+                                <div className="text-3xl font-bold text-white flex items-center justify-end gap-2">
+                                    #{myRank.rank || 'N/A'}
+                                    {period === 'all' && <RankChange change={myRank.rankChange} />}
+                                </div>
                                 <div className="text-white/60 text-sm">{myRank.score || 0} points</div>
+                                {period === 'all' && rankHistory && rankHistory.history.length > 1 && (
+                                    <div className="text-white/60 text-xs mt-1">
+                                        {rankHistory.rankChange === 0
+                                            ? `Holding steady over ${HISTORY_DAYS} days`
+                                            : `${rankHistory.rankChange > 0 ? 'Up' : 'Down'} ${Math.abs(rankHistory.rankChange)} places in ${HISTORY_DAYS} days`}
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </motion.div>
@@ -192,14 +259,22 @@ export default function Leaderboard() {
                             >
                                 <div className="flex items-center gap-4">
                                     {/* Rank */}
-                                    <div className="w-12 text-center">
+                                    <div className="w-12 flex flex-col items-center">
                                         {getRankIcon(entry.rank)}
+                                        {period === 'all' && <RankChange change={entry.rankChange} />}
                                     </div>
 
                                     {/* User Info */}
                                     <div className="flex-1">
                                         <h3 className="text-white font-semibold">{entry.userId.fullName}</h3>
                                         <p className="text-white/60 text-sm">{entry.userId.email}</p>
+                                        {entry.badgeTiers && (
+                                            <div className="flex gap-1 mt-1">
+                                                {TIERS.filter((tier) => entry.badgeTiers![tier] > 0).map((tier) => (
+                                                    <TierChip key={tier} tier={tier} count={entry.badgeTiers![tier]} />
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
 
                                     {/* Stats */}
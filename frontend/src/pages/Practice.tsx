@@ -6,9 +6,10 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Clock, CheckCircle, XCircle, Target, TrendingUp, Award, ArrowRight } from 'lucide-react';
+import { Clock, CheckCircle, XCircle, Target, TrendingUp, Award, ArrowRight, Pause, Play } from 'lucide-react';
 import { topicService } from '@/services/topic.service';
 import { practiceService } from '@/services/practice.service';
+import type { PracticeSession, SessionQuestion } from '@/types';
 import toast from 'react-hot-toast';
 
 export default function Practice() {
@@ -17,11 +18,11 @@ export default function Practice() {
     const queryClient = useQueryClient();
 
     const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
-    const [timeSpent, setTimeSpent] = useState(0);
-    const [isTimerRunning, setIsTimerRunning] = useState(false);
-    const [sessionStarted, setSessionStarted] = useState(false);
-    const [problemsSolved, setProblemsSolved] = useState(0);
-    const [correctAnswers, setCorrectAnswers] = useState(0);
+    const [startedSession, setStartedSession] = useState<{ session: PracticeSession; syncedAt: number } | null>(null);
+    const [now, setNow] = useState(0);
+    const [finishedSeconds, setFinishedSeconds] = useState(0);
+    const [questions, setQuestions] = useState<SessionQuestion[]>([]);
+    const [questionTitle, setQuestionTitle] = useState('');
     const [showResults, setShowResults] = useState(false);
 
     // Fetch topic details
@@ -31,12 +32,38 @@ export default function Practice() {
         enabled: !!topicId,
     });
 
-    // Log practice mutation
-    const logPracticeMutation = useMutation({
-        mutationFn: practiceService.logPractice,
+    // Pick up an open session for this topic (e.g., after a refresh)
+    const { data: currentSession, dataUpdatedAt } = useQuery({
+        queryKey: ['practice-session'],
+        queryFn: practiceService.getCurrentSession,
+    });
+
+    const sessionState = startedSession
+        ?? (currentSession && currentSession.topicId === topicId
+            ? { session: currentSession, syncedAt: dataUpdatedAt }
+            : null);
+    const session = sessionState?.session ?? null;
+
+    const sessionStarted = session !== null;
+    const isTimerRunning = session?.status === 'active' && !showResults;
+    const problemsSolved = questions.length;
+    const correctAnswers = questions.filter((q) => q.solved).length;
+
+    // Server time is the source of truth; the local tick only animates it
+    const timeSpent = showResults
+        ? finishedSeconds
+        : (session?.activeSeconds || 0)
+            + (isTimerRunning ? Math.max(0, Math.floor((now - sessionState!.syncedAt) / 1000)) : 0);
+
+    // Finish session mutation - logs every question with server-measured time
+    const finishSessionMutation = useMutation({
+        mutationFn: ({ sessionId, questions }: { sessionId: string; questions: SessionQuestion[] }) =>
+            practiceService.finishSession(sessionId, questions),
         onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['practice-session'] });
             queryClient.invalidateQueries({ queryKey: ['practice-stats'] });
             queryClient.invalidateQueries({ queryKey: ['progress'] });
+            queryClient.invalidateQueries({ queryKey: ['badge-progress'] });
         },
     });
 
@@ -45,7 +72,7 @@ export default function Practice() {
         let interval: NodeJS.Timeout;
         if (isTimerRunning) {
             interval = setInterval(() => {
-                setTimeSpent((prev) => prev + 1);
+                setNow(Date.now());
             }, 1000);
         }
         return () => clearInterval(interval);
@@ -57,34 +84,56 @@ export default function Practice() {
         return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
     };
 
-    const handleStartSession = () => {
-        setSessionStarted(true);
-        setIsTimerRunning(true);
-        toast.success('Practice session started!');
-    };
+    const getErrorMessage = (error: unknown) =>
+        (error as { response?: { data?: { message?: string } } }).response?.data?.message || 'Something went wrong';
 
-    const handleSolveProblem = async (isCorrect: boolean) => {
-        setProblemsSolved((prev) => prev + 1);
-        if (isCorrect) {
-            setCorrectAnswers((prev) => prev + 1);
+    const handleStartSession = async () => {
+        try {
+            setStartedSession({ session: await practiceService.startSession(topicId!), syncedAt: Date.now() });
+            toast.success('Practice session started!');
+        } catch (error) {
+            toast.error(getErrorMessage(error));
         }
+    };
+
+    const handleTogglePause = async () => {
+        if (!session) return;
 
-        // Log the practice
         try {
-            await logPracticeMutation.mutateAsync({
-                topicId: topicId!,
-                difficulty,
-                timeSpent: Math.floor(timeSpent / problemsSolved + 1), // Average time per problem
-                isCorrect,
-            });
+            const updated = session.status === 'active'
+                ? await practiceService.pauseSession(session._id)
+                : await practiceService.resumeSession(session._id);
+            setStartedSession({ session: updated, syncedAt: Date.now() });
         } catch (error) {
-            console.error('Failed to log practice:', error);
+            toast.error(getErrorMessage(error));
         }
     };
 
-    const handleEndSession = () => {
-        setIsTimerRunning(false);
-        setShowResults(true);
+    const handleSolveProblem = (isCorrect: boolean) => {
+        const apiDifficulty = (difficulty.charAt(0).toUpperCase() + difficulty.slice(1)) as SessionQuestion['difficulty'];
+
+        setQuestions((prev) => [
+            ...prev,
+            {
+                questionTitle: questionTitle.trim() || `${topic?.name || 'Practice'} problem ${prev.length + 1}`,
+                difficulty: apiDifficulty,
+                solved: isCorrect,
+            },
+        ]);
+        setQuestionTitle('');
+    };
+
+    const handleEndSession = async () => {
+        if (!session) return;
+
+        try {
+            const finished = await finishSessionMutation.mutateAsync({ sessionId: session._id, questions });
+            setStartedSession({ session: finished, syncedAt: Date.now() });
+            setFinishedSeconds(finished.activeSeconds);
+            setShowResults(true);
+        } catch (error) {
+            toast.error(getErrorMessage(error));
+        }
     };
 
     const handleBackToTopics = () => {
@@ -256,12 +305,22 @@ export default function Practice() {
                                         <h2 className="text-2xl font-bold text-white">{topic.name}</h2>
                                         <p className="text-white/60 text-sm">{difficulty.toUpperCase()} difficulty</p>
                                     </div>
-                                    <div className="text-center">
-                                        <div className="flex items-center gap-2 text-3xl font-bold text-white mb-1">
-                                            <Clock className="w-8 h-8 text-primary-400" />
-                                            {formatTime(timeSpent)}
+                                    <div className="flex items-center gap-4">
+                                        <div className="text-center">
+                                            <div className="flex items-center gap-2 text-3xl font-bold text-white mb-1">
+                                                <Clock className="w-8 h-8 text-primary-400" />
+                                                {formatTime(timeSpent)}
+                                            </div>
+                                            <p className="text-white/60 text-sm">
+                                                {session?.status === 'paused' ? 'Paused' : 'Time Elapsed'}
+                                            </p>
                                         </div>
-                                        <p className="text-white/60 text-sm">Time Elapsed</p>
+                                        <button
+                                            onClick={handleTogglePause}
+                                            className="w-12 h-12 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-all flex items-center justify-center"
+                                        >
+                                            {session?.status === 'paused' ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                                        </button>
                                     </div>
                                 </div>
                             </div>
@@ -291,6 +350,14 @@ export default function Practice() {
                                     <p className="text-white/70 mb-6">
                                         Solve problems on LeetCode, HackerRank, or any platform you prefer, then mark your result below.
                                     </p>
+                                    <input
+                                        type="text"
+                                        value={questionTitle}
+                                        onChange={(e) => setQuestionTitle(e.target.value)}
+                                        placeholder="Question title (e.g., Two Sum)"
+                                        maxLength={200}
+                                        className="w-full max-w-md px-4 py-3 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/40 focus:outline-none focus:border-primary-400"
+                                    />
                                 </div>
 
                                 {/* Action Buttons */}
@@ -315,6 +382,7 @@ export default function Practice() {
                             {/* End Session Button */}
                             <button
                                 onClick={handleEndSession}
+                                disabled={finishSessionMutation.isPending}
                                 className="w-full py-4 rounded-lg bg-gradient-to-r from-primary-400 to-accent-500 text-white font-bold hover:scale-105 transition-transform flex items-center justify-center gap-2"
                             >
                                 End Session
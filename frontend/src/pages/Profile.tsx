@@ -5,12 +5,20 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { User, Mail, School, Calendar, Edit2, Save, X, Award, Target } from 'lucide-react';
+import { User, Mail, School, Calendar, Clock, Edit2, Save, X, Award, Target, Bell, BellOff } from 'lucide-react';
 import { authService } from '@/services/auth.service';
 import { badgeService } from '@/services/badge.service';
 import { useAuthStore } from '@/store/authStore';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
+import type { EmailPreferences } from '@/types';
+
+const EMAIL_LISTS: { key: keyof EmailPreferences; label: string; description: string }[] = [
+    { key: 'weeklyDigest', label: 'Weekly digest', description: 'Your progress, strongest and weakest topics every Monday morning' },
+    { key: 'streakReminders', label: 'Streak reminders', description: 'An evening nudge when your streak is about to break' },
+];
+
+const DEVICE_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 export default function Profile() {
     const navigate = useNavigate();
@@ -21,6 +29,7 @@ export default function Profile() {
         fullName: user?.fullName || '',
         college: user?.college || '',
         graduationYear: user?.graduationYear || '',
+        timezone: user?.timezone || DEVICE_TIMEZONE,
     });
 
     // Fetch user's badges
@@ -43,12 +52,24 @@ export default function Profile() {
         },
     });
 
+    // Email toggles save right away (not part of the edit form)
+    const emailPreferencesMutation = useMutation({
+        mutationFn: (emailPreferences: EmailPreferences) => authService.updateProfile({ emailPreferences }),
+        onSuccess: (updatedUser) => {
+            setUser(updatedUser);
+        },
+        onError: () => {
+            toast.error('Failed to update email settings');
+        },
+    });
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         const updateData = {
             fullName: formData.fullName,
             college: formData.college,
             graduationYear: formData.graduationYear ? Number(formData.graduationYear) : undefined,
+            timezone: formData.timezone,
         };
         updateProfileMutation.mutate(updateData);
     };
@@ -58,6 +79,7 @@ export default function Profile() {
             fullName: user?.fullName || '',
             college: user?.college || '',
             graduationYear: user?.graduationYear || '',
+            timezone: user?.timezone || DEVICE_TIMEZONE,
         });
         setIsEditing(false);
     };
@@ -157,6 +179,30 @@ export default function Profile() {
                                 />
                             </div>
 
+                            {/* Time Zone */}
+                            <div>
+                                <label className="block text-white/70 text-sm mb-2">Time Zone</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={formData.timezone}
+                                        onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                                        placeholder="e.g. Asia/Kolkata"
+                                        className="flex-1 px-4 py-3 rounded-lg backdrop-blur-xl bg-white/10 border border-white/20 text-white placeholder-white/40 focus:outline-none focus:border-primary-400 transition-all"
+                                    />
+                                    {formData.timezone !== DEVICE_TIMEZONE && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setFormData({ ...formData, timezone: DEVICE_TIMEZONE })}
+                                            className="px-4 py-3 rounded-lg bg-white/10 text-white/80 text-sm hover:bg-white/20 transition-all"
+                                        >
+                                            Use device ({DEVICE_TIMEZONE})
+                                        </button>
+                                    )}
+                                </div>
+                                <p className="text-white/40 text-xs mt-1">Streaks and daily challenges reset at midnight in this zone</p>
+                            </div>
+
                             {/* Actions */}
                             <div className="flex gap-4">
                                 <button
@@ -204,10 +250,56 @@ export default function Profile() {
                                     </div>
                                 </div>
                             )}
+                            {user?.timezone && (
+                                <div className="flex items-center gap-3">
+                                    <Clock className="w-5 h-5 text-primary-400" />
+                                    <div>
+                                        <p className="text-white/60 text-sm">Time Zone</p>
+                                        <p className="text-white font-medium">{user.timezone}</p>
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     )}
                 </motion.div>
 
+                {/* Email Settings */}
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.05 }}
+                    className="backdrop-blur-xl bg-white/10 rounded-2xl p-8 border border-white/20 mb-8"
+                >
+                    <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
+                        <Mail className="w-6 h-6 text-primary-400" />
+                        Email Updates
+                    </h3>
+                    <div className="space-y-3">
+                        {EMAIL_LISTS.map(({ key, label, description }) => {
+                            const current = user?.emailPreferences || { weeklyDigest: true, streakReminders: true };
+                            const enabled = current[key];
+                            return (
+                                <button
+                                    key={key}
+                                    onClick={() => emailPreferencesMutation.mutate({ ...current, [key]: !enabled })}
+                                    disabled={emailPreferencesMutation.isPending}
+                                    className="w-full flex items-center justify-between gap-4 px-4 py-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors disabled:opacity-50 text-left"
+                                >
+                                    <div>
+                                        <p className="text-white font-medium">{label}</p>
+                                        <p className="text-white/60 text-sm">{description}</p>
+                                    </div>
+                                    {enabled ? (
+                                        <Bell className="w-5 h-5 text-green-400 flex-shrink-0" />
+                                    ) : (
+                                        <BellOff className="w-5 h-5 text-white/40 flex-shrink-0" />
+                                    )}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </motion.div>
+
                 {/* Badges Section */}
                 <motion.div
                     initial={{ opacity: 0, y: 20 }}
@@ -6,9 +6,12 @@ import api from './api';
 import type { LoginCredentials, RegisterData, AuthResponse, User, ApiResponse } from '@/types';
 
 export const authService = {
-    // Register new user
+    // Register new user (in the browser's time zone unless one is given)
     register: async (data: RegisterData): Promise<AuthResponse> => {
-        const response = await api.post<AuthResponse>('/auth/register', data);
+        const response = await api.post<AuthResponse>('/auth/register', {
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            ...data,
+        });
         return response.data;
     },
 
@@ -26,6 +29,7 @@ export const authService = {
         }
         localStorage.removeItem('accessToken');
         localStorage.removeItem('refreshToken');
+        localStorage.removeItem('lastAchievementId'); // Achievement replay cursor (useSocket)
     },
 
     // Get current user
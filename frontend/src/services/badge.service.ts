@@ -3,7 +3,7 @@
  */
 
 import api from './api';
-import type { Badge, UserBadge, ApiResponse } from '@/types';
+import type { Badge, BadgeProgress, UserBadge, ApiResponse } from '@/types';
 
 export const badgeService = {
     // Get all badges
@@ -18,6 +18,12 @@ export const badgeService = {
         return response.data.data || [];
     },
 
+    // Get progress towards every badge (current/target values)
+    getMyBadgeProgress: async (): Promise<BadgeProgress[]> => {
+        const response = await api.get<BadgeProgress[]>('/badges/my/progress');
+        return response.data;
+    },
+
     // Get badge progress
     getBadgeProgress: async (badgeId: string): Promise<any> => {
         const response = await api.get<ApiResponse<any>>(`/badges/${badgeId}/progress`);
@@ -3,13 +3,13 @@
  */
 
 import api from './api';
-import type { LeaderboardEntry, ApiResponse } from '@/types';
+import type { LeaderboardEntry, LeaderboardPeriod, FriendsLeaderboard, RankHistory, ApiResponse } from '@/types';
 
 export const leaderboardService = {
     // Get global leaderboard
-    getGlobalLeaderboard: async (limit?: number): Promise<LeaderboardEntry[]> => {
+    getGlobalLeaderboard: async (limit?: number, period?: LeaderboardPeriod): Promise<LeaderboardEntry[]> => {
         const response = await api.get<ApiResponse<LeaderboardEntry[]>>('/leaderboard/global', {
-            params: { limit },
+            params: { limit, period },
         });
         return response.data.data || [];
     },
@@ -22,9 +22,27 @@ export const leaderboardService = {
         return response.data.data || [];
     },
 
+    // Get the current user and their friends, ranked among themselves
+    getFriendsLeaderboard: async (period?: LeaderboardPeriod): Promise<FriendsLeaderboard> => {
+        const response = await api.get<FriendsLeaderboard>('/leaderboard/friends', {
+            params: { period },
+        });
+        return response.data;
+    },
+
     // Get user's rank
-    getMyRank: async (): Promise<any> => {
-        const response = await api.get<ApiResponse<any>>('/leaderboard/my-rank');
+    getMyRank: async (period?: LeaderboardPeriod): Promise<any> => {
+        const response = await api.get<ApiResponse<any>>('/leaderboard/my-rank', {
+            params: { period },
+        });
+        return response.data.data!;
+    },
+
+    // Get user's daily rank over the last days (all-time board)
+    getMyRankHistory: async (days?: number): Promise<RankHistory> => {
+        const response = await api.get<ApiResponse<RankHistory>>('/leaderboard/my-rank/history', {
+            params: { days },
+        });
         return response.data.data!;
     },
 };
@@ -0,0 +1,39 @@
+/**
+ * Notification Service
+ * In-app notification center (bell menu) and mute preferences
+ */
+
+import api from './api';
+import type { AppNotification, NotificationList, NotificationType } from '@/types';
+
+export const notificationService = {
+    // Get notifications, newest first
+    getNotifications: async (params?: { limit?: number; skip?: number; unreadOnly?: boolean }): Promise<NotificationList> => {
+        const response = await api.get<NotificationList>('/notifications', { params });
+        return response.data;
+    },
+
+    // Mark one notification read
+    markRead: async (notificationId: string): Promise<AppNotification> => {
+        const response = await api.post<AppNotification>(`/notifications/${notificationId}/read`);
+        return response.data;
+    },
+
+    // Mark every notification read
+    markAllRead: async (): Promise<{ markedCount: number }> => {
+        const response = await api.post<{ markedCount: number }>('/notifications/read-all');
+        return response.data;
+    },
+
+    // Get muted notification types
+    getPreferences: async (): Promise<{ mutedTypes: NotificationType[] }> => {
+        const response = await api.get<{ mutedTypes: NotificationType[] }>('/notifications/preferences');
+        return response.data;
+    },
+
+    // Replace muted notification types
+    updatePreferences: async (mutedTypes: NotificationType[]): Promise<{ mutedTypes: NotificationType[] }> => {
+        const response = await api.put<{ mutedTypes: NotificationType[] }>('/notifications/preferences', { mutedTypes });
+        return response.data;
+    },
+};
@@ -3,7 +3,21 @@
  */
 
 import api from './api';
-import type { PracticeLog, PracticeStats, ApiResponse } from '@/types';
+import type {
+    PracticeLog,
+    PracticeStats,
+    PracticeSession,
+    SessionQuestion,
+    DueReviews,
+    ReviewItem,
+    ApiResponse,
+} from '@/types';
+
+interface GradeReviewData {
+    grade: number;
+    timeSpentMinutes?: number;
+    notes?: string;
+}
 
 interface LogPracticeData {
     topicId: string;
@@ -12,10 +26,14 @@ interface LogPracticeData {
     isCorrect: boolean;
 }
 
+// Retrying a write with the same key replays the first response server-side,
+// so a flaky network never logs (or awards points for) an attempt twice
+const idempotencyHeaders = (key?: string) => (key ? { headers: { 'Idempotency-Key': key } } : undefined);
+
 export const practiceService = {
     // Log a practice session
-    logPractice: async (data: LogPracticeData): Promise<PracticeLog> => {
-        const response = await api.post<ApiResponse<PracticeLog>>('/practice', data);
+    logPractice: async (data: LogPracticeData, idempotencyKey?: string): Promise<PracticeLog> => {
+        const response = await api.post<ApiResponse<PracticeLog>>('/practice', data, idempotencyHeaders(idempotencyKey));
         return response.data.data!;
     },
 
@@ -38,4 +56,57 @@ export const practiceService = {
         const response = await api.get<ApiResponse<any>>(`/practice/stats/${topicId}`);
         return response.data.data!;
     },
+
+    // Get spaced-repetition reviews due now
+    getDueReviews: async (limit?: number): Promise<DueReviews> => {
+        const response = await api.get<DueReviews>('/practice/reviews/due', {
+            params: { limit },
+        });
+        return response.data;
+    },
+
+    // Grade a review (0-5) - logs the attempt and reschedules it
+    gradeReview: async (reviewId: string, data: GradeReviewData, idempotencyKey?: string): Promise<ReviewItem> => {
+        const response = await api.post<{ review: ReviewItem }>(
+            `/practice/reviews/${reviewId}/grade`,
+            data,
+            idempotencyHeaders(idempotencyKey)
+        );
+        return response.data.review;
+    },
+
+    // Start a server-timed practice session
+    startSession: async (topicId: string): Promise<PracticeSession> => {
+        const response = await api.post<PracticeSession>('/practice/sessions', { topicId });
+        return response.data;
+    },
+
+    // Get the open (active or paused) session, if any
+    getCurrentSession: async (): Promise<PracticeSession | null> => {
+        const response = await api.get<PracticeSession | null>('/practice/sessions/current');
+        return response.data;
+    },
+
+    // Pause the session timer
+    pauseSession: async (sessionId: string): Promise<PracticeSession> => {
+        const response = await api.post<PracticeSession>(`/practice/sessions/${sessionId}/pause`);
+        return response.data;
+    },
+
+    // Resume the session timer
+    resumeSession: async (sessionId: string): Promise<PracticeSession> => {
+        const response = await api.post<PracticeSession>(`/practice/sessions/${sessionId}/resume`);
+        return response.data;
+    },
+
+    // Finish the session - logs each question with server-measured time
+    // A session finishes once, so its id makes a stable idempotency key
+    finishSession: async (sessionId: string, questions: SessionQuestion[]): Promise<PracticeSession> => {
+        const response = await api.post<{ session: PracticeSession }>(
+            `/practice/sessions/${sessionId}/finish`,
+            { questions },
+            idempotencyHeaders(`session-finish-${sessionId}`)
+        );
+        return response.data.session;
+    },
 };
@@ -0,0 +1,71 @@
+/**
+ * Social Service
+ * Follows, friends, friend requests and the friends activity feed
+ */
+
+import api from './api';
+import type { ActivityFeed, FollowList, FollowStatus, FriendList, FriendRequest, FriendRequestList } from '@/types';
+
+export const socialService = {
+    // Get my friends, most recent friendships first
+    getFriends: async (params?: { limit?: number; skip?: number }): Promise<FriendList> => {
+        const response = await api.get<FriendList>('/friends', { params });
+        return response.data;
+    },
+
+    // Get what friends and followed users did lately, newest first
+    getActivityFeed: async (params?: { limit?: number; skip?: number }): Promise<ActivityFeed> => {
+        const response = await api.get<ActivityFeed>('/friends/feed', { params });
+        return response.data;
+    },
+
+    // Get pending friend requests, both directions
+    getFriendRequests: async (): Promise<FriendRequestList> => {
+        const response = await api.get<FriendRequestList>('/friends/requests');
+        return response.data;
+    },
+
+    // Send a friend request (accepts theirs if they already sent one)
+    sendFriendRequest: async (userId: string): Promise<FriendRequest> => {
+        const response = await api.post<FriendRequest>('/friends/requests', { userId });
+        return response.data;
+    },
+
+    // Accept an incoming friend request
+    acceptFriendRequest: async (requestId: string): Promise<FriendRequest> => {
+        const response = await api.post<FriendRequest>(`/friends/requests/${requestId}/accept`);
+        return response.data;
+    },
+
+    // Decline an incoming or cancel an outgoing friend request
+    deleteFriendRequest: async (requestId: string): Promise<void> => {
+        await api.delete(`/friends/requests/${requestId}`);
+    },
+
+    // Unfriend a user
+    removeFriend: async (userId: string): Promise<void> => {
+        await api.delete(`/friends/${userId}`);
+    },
+
+    // Get my followers / the users I follow
+    getFollowers: async (params?: { limit?: number; skip?: number }): Promise<FollowList> => {
+        const response = await api.get<FollowList>('/users/me/followers', { params });
+        return response.data;
+    },
+
+    getFollowing: async (params?: { limit?: number; skip?: number }): Promise<FollowList> => {
+        const response = await api.get<FollowList>('/users/me/following', { params });
+        return response.data;
+    },
+
+    // Follow / unfollow a user
+    follow: async (userId: string): Promise<FollowStatus> => {
+        const response = await api.post<FollowStatus>(`/users/${userId}/follow`);
+        return response.data;
+    },
+
+    unfollow: async (userId: string): Promise<FollowStatus> => {
+        const response = await api.delete<FollowStatus>(`/users/${userId}/follow`);
+        return response.data;
+    },
+};
@@ -0,0 +1,23 @@
+/**
+ * Streak Service
+ * Streak calendar and streak freezes
+ */
+
+import api from './api';
+import type { StreakCalendar } from '@/types';
+
+export const streakService = {
+    // Get the streak calendar (practiced / frozen / missed days)
+    getStreakCalendar: async (days?: number): Promise<StreakCalendar> => {
+        const response = await api.get<StreakCalendar>('/users/me/streak', {
+            params: { days },
+        });
+        return response.data;
+    },
+
+    // Buy a streak freeze with points
+    purchaseStreakFreeze: async (): Promise<{ streakFreezes: number; totalPoints: number }> => {
+        const response = await api.post<{ streakFreezes: number; totalPoints: number }>('/users/me/streak/freezes');
+        return response.data;
+    },
+};
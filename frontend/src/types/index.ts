@@ -9,10 +9,24 @@ export interface User {
     fullName: string;
     college?: string;
     graduationYear?: number;
+    timezone?: string; // IANA zone, e.g. "Asia/Kolkata" - streaks and daily challenges use its local day
+    emailPreferences?: EmailPreferences;
+    privacy?: PrivacySettings;
     createdAt: string;
     updatedAt: string;
 }
 
+export interface EmailPreferences {
+    weeklyDigest: boolean;
+    streakReminders: boolean;
+}
+
+export interface PrivacySettings {
+    allowFollowers: boolean;
+    allowFriendRequests: boolean;
+    activityVisibility: 'followers' | 'friends' | 'nobody'; // Who sees my activity in their feed
+}
+
 export interface LoginCredentials {
     email: string;
     password: string;
@@ -24,6 +38,7 @@ export interface RegisterData {
     fullName: string;
     college?: string;
     graduationYear?: number;
+    timezone?: string;
 }
 
 export interface AuthResponse {
@@ -57,6 +72,66 @@ export interface PracticeLog {
     createdAt: string;
 }
 
+// Practice Session Types (server-side timer)
+export interface PracticeSession {
+    _id: string;
+    topicId: string;
+    topicName?: string;
+    status: 'active' | 'paused' | 'finished';
+    segments: { startedAt: string; endedAt?: string }[];
+    activeSeconds: number;
+    startedAt: string;
+    finishedAt?: string;
+    practiceLogIds: string[];
+}
+
+export interface SessionQuestion {
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty: 'Easy' | 'Medium' | 'Hard';
+    solved: boolean;
+    notes?: string;
+}
+
+// Spaced Repetition Types
+export interface ReviewItem {
+    _id: string;
+    topicId: string;
+    topicName?: string;
+    questionId?: string;
+    questionTitle: string;
+    questionUrl?: string;
+    difficulty: 'Easy' | 'Medium' | 'Hard';
+    reason: 'failed' | 'slow';
+    status: 'active' | 'graduated';
+    easeFactor: number;
+    intervalDays: number;
+    repetitions: number;
+    dueAt: string;
+    lastGrade?: number;
+    lastReviewedAt?: string;
+}
+
+export interface DueReviews {
+    total: number;
+    reviews: ReviewItem[];
+}
+
+export type StreakDayStatus = 'practiced' | 'frozen' | 'missed' | 'pending';
+
+export interface StreakCalendar {
+    timezone: string;
+    currentStreak: number;
+    longestStreak: number;
+    streakFreezes: number;
+    maxStreakFreezes: number;
+    freezeCost: number;
+    days: Array<{
+        date: string; // YYYY-MM-DD in the user's time zone, oldest first
+        status: StreakDayStatus; // pending = today, not practiced yet
+    }>;
+}
+
 export interface PracticeStats {
     totalPractices: number;
     totalTimeSpent: number;
@@ -145,18 +220,182 @@ export interface Badge {
     createdAt: string;
 }
 
+export type BadgeTier = 'bronze' | 'silver' | 'gold' | 'platinum';
+
+export type BadgeTierCounts = Record<BadgeTier, number>;
+
 export interface UserBadge {
     badgeId: Badge;
     earnedAt: string;
+    tier?: BadgeTier; // Highest tier reached (tiered badges)
+    earnCount?: number; // Tiers reached / times earned (repeatable badges)
+}
+
+export type BadgeProgressUnit = 'problems' | 'days' | 'percent' | 'rules';
+
+export interface BadgeProgress {
+    badge: {
+        badgeId: string;
+        name: string;
+        description: string;
+        rarity: string;
+        points: number;
+    };
+    earned: boolean;
+    earnedAt?: string;
+    tier?: BadgeTier;
+    nextTier?: BadgeTier; // Tier being worked towards
+    earnCount: number;
+    progress: number; // 0-100, towards the next tier or repeat
+    current: number;
+    target: number;
+    unit: BadgeProgressUnit; // rules = rules met in a multi-rule badge
+}
+
+// Real-time achievement pushed over the socket ("achievement" event)
+export interface AchievementEvent {
+    id: string; // Increasing; the last one seen is sent on reconnect to replay missed ones
+    type: 'badge_awarded' | 'level_up' | 'streak_milestone' | 'challenge_completed';
+    title: string;
+    description: string;
+    points: number;
+    iconUrl?: string;
+    rarity: 'common' | 'rare' | 'epic' | 'legendary';
+    tier?: BadgeTier;
+    createdAt: string;
+}
+
+// Notification Types
+export type NotificationType =
+    | AchievementEvent['type']
+    | 'rank_change'
+    | 'room_closed'
+    | 'recommendation_expiring'
+    | 'new_follower'
+    | 'friend_request'
+    | 'friend_accepted'
+    | 'room_invite';
+
+export interface AppNotification {
+    _id: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string; // Page to open on click
+    read: boolean;
+    readAt?: string;
+    createdAt: string;
+}
+
+export interface NotificationList {
+    notifications: AppNotification[];
+    total: number;
+    unreadCount: number;
 }
 
 // Leaderboard Types
+// 'all' ranks lifetime points; the others rank points earned this UTC day / week / month / season
+export type LeaderboardPeriod = 'day' | 'week' | 'month' | 'season' | 'all';
+
 export interface LeaderboardEntry {
     userId: User;
     score: number;
     rank: number;
     problemsSolved: number;
     accuracy: number;
+    badges?: number;
+    badgeTiers?: BadgeTierCounts; // Highest tier held per tiered badge
+    rankChange?: number; // Places climbed this week (negative = dropped); all-time board only
+}
+
+export interface RankHistory {
+    type: 'global' | 'topic';
+    topicId?: string;
+    topicName?: string;
+    days: number;
+    history: { date: string; rank: number; score: number }[]; // Oldest first
+    rankChange: number; // Places climbed over the window
+}
+
+// Social Types
+// Another user, as friend / follower lists and the feed show them
+export interface SocialUserSummary {
+    userId: string;
+    userName: string;
+    college?: string;
+    level: number;
+    currentStreak: number;
+}
+
+export interface FollowStatus {
+    userId: string;
+    following: boolean;
+    followers: number; // The followed user's follower count
+}
+
+export interface FollowList {
+    users: SocialUserSummary[];
+    total: number;
+}
+
+export interface Friend extends SocialUserSummary {
+    friendsSince: string;
+}
+
+export interface FriendList {
+    friends: Friend[];
+    total: number;
+}
+
+export interface FriendRequest {
+    _id: string;
+    direction: 'incoming' | 'outgoing';
+    user: SocialUserSummary; // The other side of the request
+    status: 'pending' | 'accepted';
+    createdAt: string;
+}
+
+export interface FriendRequestList {
+    incoming: FriendRequest[];
+    outgoing: FriendRequest[];
+}
+
+export interface Activity {
+    _id: string;
+    userId: string;
+    userName: string;
+    type: 'practice_solved' | 'badge_earned';
+    title: string;
+    description: string;
+    createdAt: string;
+}
+
+export interface ActivityFeed {
+    activities: Activity[];
+    total: number;
+}
+
+// Friends leaderboard: the current user and their friends, ranked among themselves
+export interface FriendsLeaderboardEntry {
+    userId: string;
+    userName: string;
+    rank: number;
+    score: number;
+    questionsSolved: number;
+    streak: number;
+    badges: number;
+    badgeTiers: BadgeTierCounts;
+}
+
+export interface FriendsLeaderboard {
+    type: string;
+    period?: LeaderboardPeriod;
+    periodStart?: string; // Windowed periods only
+    periodEnd?: string;
+    rankings: FriendsLeaderboardEntry[];
+    userRank?: FriendsLeaderboardEntry;
+    total?: number;
+    lastUpdated: string;
 }
 
 // Challenge Types